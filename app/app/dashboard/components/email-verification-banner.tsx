@@ -0,0 +1,55 @@
+'use client'
+
+import { useState } from 'react'
+import { useAuth } from '@/hooks/useAuth'
+import { Button } from '@/components/ui/button'
+
+/**
+ * Reminder for signed-in users who haven't verified their email, with a
+ * button to resend the verification link
+ */
+export function EmailVerificationBanner() {
+  const { user, resendVerificationEmail } = useAuth()
+  const [isSending, setIsSending] = useState(false)
+  const [message, setMessage] = useState<string | null>(null)
+  const [error, setError] = useState<string | null>(null)
+
+  if (!user || user.emailVerified) return null
+
+  const handleResend = async () => {
+    setIsSending(true)
+    setMessage(null)
+    setError(null)
+
+    try {
+      setMessage(await resendVerificationEmail())
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to send verification email')
+    } finally {
+      setIsSending(false)
+    }
+  }
+
+  return (
+    <div
+      className="w-full max-w-xl mb-6 p-4 bg-primary/10 border border-primary/20 rounded-lg space-y-2"
+      role="status"
+    >
+      <div className="flex items-center justify-between gap-4">
+        <div>
+          <p className="text-sm font-medium text-foreground">Please verify your email address</p>
+          <p className="text-sm text-muted-foreground">
+            We sent a verification link to {user.email}.
+          </p>
+        </div>
+        <Button variant="outline" size="sm" onClick={handleResend} disabled={isSending}>
+          {isSending ? 'Sending...' : 'Resend Link'}
+        </Button>
+      </div>
+      {message && <p className="text-sm text-foreground">{message}</p>}
+      {error && <p className="text-destructive text-sm font-medium">{error}</p>}
+    </div>
+  )
+}
+
+export default EmailVerificationBanner
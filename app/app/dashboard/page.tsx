@@ -4,6 +4,7 @@ import Link from 'next/link'
 import { useAuth } from '@/hooks/useAuth'
 import { Card, CardHeader, CardTitle, CardContent } from '@/components/ui/card'
 import { Button } from '@/components/ui/button'
+import { EmailVerificationBanner } from './components/email-verification-banner'
 
 /**
  * Dashboard Page
@@ -15,6 +16,7 @@ export default function DashboardPage() {
 
   return (
     <main className="min-h-screen bg-background flex flex-col items-center justify-center px-4">
+      <EmailVerificationBanner />
       <Card className="w-full max-w-xl shadow-lg">
         <CardHeader>
           <CardTitle className="text-3xl text-center">Dashboard</CardTitle>
@@ -46,7 +48,19 @@ export default function DashboardPage() {
             </div>
           )}
 
-          <div className="mt-8 flex justify-center">
+          <div className="mt-8 flex justify-center gap-2">
+            <Button asChild variant="outline">
+              <Link href="/app/settings/profile">Profile</Link>
+            </Button>
+            <Button asChild variant="outline">
+              <Link href="/app/settings/sessions">Active Sessions</Link>
+            </Button>
+            <Button asChild variant="outline">
+              <Link href="/app/settings/security">Security</Link>
+            </Button>
+            <Button asChild variant="outline">
+              <Link href="/app/settings/account">Account</Link>
+            </Button>
             <Button asChild variant="default">
               <Link href="/">Back Home</Link>
             </Button>
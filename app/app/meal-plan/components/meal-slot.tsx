@@ -0,0 +1,150 @@
+'use client'
+
+import { useState } from 'react'
+import Link from 'next/link'
+import { XIcon } from 'lucide-react'
+import { Button } from '@/components/ui/button'
+import { cn } from '@/lib/utils'
+import type { MealSlotKey } from '@/lib/meal-plan/cache'
+import { RecipePicker, type RecipeOption } from './recipe-picker'
+
+export interface MealSlotEntry {
+  id: number
+  recipe: {
+    id: number
+    slug: string
+    name: string
+  }
+}
+
+/**
+ * Payload carried by a meal plan entry while it is being dragged
+ */
+export interface DraggedMealSlotEntry {
+  entry: MealSlotEntry
+  from: MealSlotKey
+}
+
+/**
+ * Custom MIME type so drops from other sources (text, files) are ignored
+ */
+const DRAG_DATA_TYPE = 'application/x-meal-plan-entry'
+
+interface MealSlotProps {
+  slot: MealSlotKey
+  entries: MealSlotEntry[]
+  recipes: RecipeOption[]
+  disabled?: boolean
+  onAdd: (recipe: RecipeOption) => void
+  onRemove: (entry: MealSlotEntry) => void
+  onClear: () => void
+  onDropEntry: (dragged: DraggedMealSlotEntry) => void
+}
+
+/**
+ * A single date/meal type cell of the meal plan grid
+ * Entries can be dragged into any other cell to reschedule them.
+ */
+export function MealSlot({
+  slot,
+  entries,
+  recipes,
+  disabled = false,
+  onAdd,
+  onRemove,
+  onClear,
+  onDropEntry,
+}: MealSlotProps) {
+  const [isDragOver, setIsDragOver] = useState(false)
+
+  // Recipes already in this slot can't be scheduled twice
+  const scheduledSlugs = new Set(entries.map((entry) => entry.recipe.slug))
+  const availableRecipes = recipes.filter((recipe) => !scheduledSlugs.has(recipe.slug))
+
+  const handleDragStart = (e: React.DragEvent<HTMLLIElement>, entry: MealSlotEntry) => {
+    const payload: DraggedMealSlotEntry = { entry, from: slot }
+    e.dataTransfer.setData(DRAG_DATA_TYPE, JSON.stringify(payload))
+    e.dataTransfer.effectAllowed = 'move'
+  }
+
+  const handleDragOver = (e: React.DragEvent<HTMLDivElement>) => {
+    if (disabled || !e.dataTransfer.types.includes(DRAG_DATA_TYPE)) return
+    e.preventDefault()
+    e.dataTransfer.dropEffect = 'move'
+    setIsDragOver(true)
+  }
+
+  const handleDrop = (e: React.DragEvent<HTMLDivElement>) => {
+    setIsDragOver(false)
+    const data = e.dataTransfer.getData(DRAG_DATA_TYPE)
+    if (disabled || !data) return
+    e.preventDefault()
+
+    try {
+      onDropEntry(JSON.parse(data) as DraggedMealSlotEntry)
+    } catch {
+      // Ignore malformed drag payloads
+    }
+  }
+
+  return (
+    <div
+      onDragOver={handleDragOver}
+      onDragLeave={() => setIsDragOver(false)}
+      onDrop={handleDrop}
+      className={cn(
+        'flex flex-col gap-2 min-h-24 p-2 rounded-lg border border-border bg-card transition-colors',
+        isDragOver && 'border-primary bg-primary/10'
+      )}
+    >
+      {entries.length > 0 && (
+        <ul className="space-y-1">
+          {entries.map((entry) => (
+            <li
+              key={entry.id}
+              draggable={!disabled}
+              onDragStart={(e) => handleDragStart(e, entry)}
+              className="flex items-center justify-between gap-1 rounded-md bg-muted px-2 py-1 text-xs cursor-grab active:cursor-grabbing"
+            >
+              <Link
+                href={`/app/recipes/${entry.recipe.slug}`}
+                draggable={false}
+                className="truncate text-foreground hover:underline"
+              >
+                {entry.recipe.name}
+              </Link>
+              <Button
+                type="button"
+                variant="ghost"
+                size="icon-xs"
+                aria-label={`Remove ${entry.recipe.name}`}
+                disabled={disabled}
+                onClick={() => onRemove(entry)}
+              >
+                <XIcon />
+              </Button>
+            </li>
+          ))}
+        </ul>
+      )}
+
+      <div className="mt-auto space-y-1">
+        <RecipePicker recipes={availableRecipes} onSelect={onAdd} disabled={disabled} />
+        {entries.length > 0 && (
+          <Button
+            type="button"
+            variant="link"
+            size="xs"
+            className="px-0 text-muted-foreground"
+            disabled={disabled}
+            onClick={onClear}
+          >
+            Clear slot
+          </Button>
+        )}
+      </div>
+    </div>
+  )
+}
+
+export default MealSlot
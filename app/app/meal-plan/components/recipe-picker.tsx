@@ -0,0 +1,67 @@
+'use client'
+
+import { useState } from 'react'
+import {
+  Combobox,
+  ComboboxContent,
+  ComboboxEmpty,
+  ComboboxInput,
+  ComboboxItem,
+  ComboboxList,
+} from '@/components/ui/combobox'
+
+export interface RecipeOption {
+  slug: string
+  name: string
+}
+
+interface RecipePickerProps {
+  recipes: RecipeOption[]
+  onSelect: (recipe: RecipeOption) => void
+  disabled?: boolean
+  placeholder?: string
+}
+
+/**
+ * Searchable recipe picker
+ * Resets itself after each selection so it can be used repeatedly in a slot.
+ */
+export function RecipePicker({
+  recipes,
+  onSelect,
+  disabled = false,
+  placeholder = 'Add recipe...',
+}: RecipePickerProps) {
+  // Bumping the key remounts the combobox, clearing the input after a pick
+  const [resetKey, setResetKey] = useState(0)
+
+  return (
+    <Combobox<RecipeOption>
+      key={resetKey}
+      items={recipes}
+      value={null}
+      itemToStringLabel={(recipe) => recipe.name}
+      isItemEqualToValue={(item, selected) => item.slug === selected.slug}
+      onValueChange={(recipe) => {
+        if (recipe) {
+          onSelect(recipe)
+          setResetKey((key) => key + 1)
+        }
+      }}
+    >
+      <ComboboxInput placeholder={placeholder} disabled={disabled} className="w-full h-8 text-xs" />
+      <ComboboxContent>
+        <ComboboxEmpty>No recipes found.</ComboboxEmpty>
+        <ComboboxList>
+          {(recipe: RecipeOption) => (
+            <ComboboxItem key={recipe.slug} value={recipe}>
+              {recipe.name}
+            </ComboboxItem>
+          )}
+        </ComboboxList>
+      </ComboboxContent>
+    </Combobox>
+  )
+}
+
+export default RecipePicker
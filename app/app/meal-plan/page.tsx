@@ -0,0 +1,451 @@
+'use client'
+
+import { Suspense, useState } from 'react'
+import { useMutation, useSuspenseQuery } from '@apollo/client/react'
+import { gql } from '@apollo/client'
+import type {
+  GetMealPlanRangeQuery,
+  GetMealPlanRangeQueryVariables,
+  GetMealPlanRecipesQuery,
+  AddRecipeToMealPlanMutation,
+  AddRecipeToMealPlanMutationVariables,
+  RemoveRecipeFromMealPlanMutation,
+  RemoveRecipeFromMealPlanMutationVariables,
+  ClearMealSlotMutation,
+  ClearMealSlotMutationVariables,
+} from '@/lib/graphql/generated/graphql'
+import {
+  MEAL_TYPES,
+  MEAL_TYPE_LABELS,
+  addDays,
+  describeMealSlot,
+  formatWeekLabel,
+  getWeekDates,
+  getWeekRange,
+  getWeekStart,
+  toIsoDate,
+  type MealType,
+} from '@/lib/meal-plan/week'
+import {
+  addMealPlanEntryToCache,
+  nextOptimisticEntryId,
+  removeMealPlanEntryFromCache,
+  type MealSlotKey,
+} from '@/lib/meal-plan/cache'
+import { isRecipeAlreadyScheduledError } from '@/lib/meal-plan/errors'
+import { Card, CardContent } from '@/components/ui/card'
+import { Button } from '@/components/ui/button'
+import Link from 'next/link'
+import { MealSlot, type DraggedMealSlotEntry, type MealSlotEntry } from './components/meal-slot'
+import type { RecipeOption } from './components/recipe-picker'
+
+// ============================================================================
+// GRAPHQL QUERIES & MUTATIONS
+// ============================================================================
+
+/**
+ * Get meal plan entries for a date range, grouped by date
+ */
+const GET_MEAL_PLAN_RANGE = gql`
+  query GetMealPlanRange($input: MealPlanRangeInput!) {
+    mealPlanRange(input: $input) {
+      date
+      entries {
+        id
+        date
+        mealType
+        createdAt
+        updatedAt
+        recipe {
+          id
+          name
+          slug
+        }
+      }
+    }
+  }
+`
+
+/**
+ * Get all recipes available for scheduling
+ */
+const GET_MEAL_PLAN_RECIPES = gql`
+  query GetMealPlanRecipes {
+    recipes {
+      id
+      name
+      slug
+    }
+  }
+`
+
+/**
+ * Schedule a recipe in a meal slot
+ */
+const ADD_RECIPE_TO_MEAL_PLAN = gql`
+  mutation AddRecipeToMealPlan($input: AddRecipeToMealPlanInput!) {
+    addRecipeToMealPlan(input: $input) {
+      id
+      date
+      mealType
+      createdAt
+      updatedAt
+      recipe {
+        id
+        name
+        slug
+      }
+    }
+  }
+`
+
+/**
+ * Remove a single recipe from a meal slot
+ */
+const REMOVE_RECIPE_FROM_MEAL_PLAN = gql`
+  mutation RemoveRecipeFromMealPlan($input: RemoveRecipeFromMealPlanInput!) {
+    removeRecipeFromMealPlan(input: $input)
+  }
+`
+
+/**
+ * Remove every recipe from a meal slot
+ */
+const CLEAR_MEAL_SLOT = gql`
+  mutation ClearMealSlot($input: ClearMealSlotInput!) {
+    clearMealSlot(input: $input)
+  }
+`
+
+// ============================================================================
+// HELPERS
+// ============================================================================
+
+function slotKey(slot: MealSlotKey): string {
+  return `${slot.date}:${slot.mealType}`
+}
+
+// ============================================================================
+// WEEK GRID
+// ============================================================================
+
+interface MealPlanWeekProps {
+  weekStart: Date
+  onError: (message: string | null) => void
+}
+
+function MealPlanWeek({ weekStart, onError }: MealPlanWeekProps) {
+  const rangeVariables: GetMealPlanRangeQueryVariables = { input: getWeekRange(weekStart) }
+
+  const { data, refetch } = useSuspenseQuery<GetMealPlanRangeQuery, GetMealPlanRangeQueryVariables>(
+    GET_MEAL_PLAN_RANGE,
+    {
+      variables: rangeVariables,
+    }
+  )
+  const { data: recipesData } = useSuspenseQuery<GetMealPlanRecipesQuery>(GET_MEAL_PLAN_RECIPES)
+
+  // Refetch the visible week after every change so the grid reflects the backend
+  const refetchWeek = {
+    refetchQueries: [{ query: GET_MEAL_PLAN_RANGE, variables: rangeVariables }],
+    awaitRefetchQueries: true,
+  }
+
+  const [addRecipe, { loading: adding }] = useMutation<
+    AddRecipeToMealPlanMutation,
+    AddRecipeToMealPlanMutationVariables
+  >(ADD_RECIPE_TO_MEAL_PLAN, {
+    ...refetchWeek,
+    onError: (err) => onError(err.message || 'Failed to add recipe to meal plan'),
+  })
+
+  const [removeRecipe, { loading: removing }] = useMutation<
+    RemoveRecipeFromMealPlanMutation,
+    RemoveRecipeFromMealPlanMutationVariables
+  >(REMOVE_RECIPE_FROM_MEAL_PLAN, {
+    ...refetchWeek,
+    onError: (err) => onError(err.message || 'Failed to remove recipe from meal plan'),
+  })
+
+  const [clearSlot, { loading: clearing }] = useMutation<
+    ClearMealSlotMutation,
+    ClearMealSlotMutationVariables
+  >(CLEAR_MEAL_SLOT, {
+    ...refetchWeek,
+    onError: (err) => onError(err.message || 'Failed to clear meal slot'),
+  })
+
+  // Moves manage the cache themselves (optimistic updates), so no refetch here
+  const [moveRemove, { loading: moveRemoving }] = useMutation<
+    RemoveRecipeFromMealPlanMutation,
+    RemoveRecipeFromMealPlanMutationVariables
+  >(REMOVE_RECIPE_FROM_MEAL_PLAN)
+
+  const [moveAdd, { loading: moveAdding }] = useMutation<
+    AddRecipeToMealPlanMutation,
+    AddRecipeToMealPlanMutationVariables
+  >(ADD_RECIPE_TO_MEAL_PLAN)
+
+  const busy = adding || removing || clearing || moveRemoving || moveAdding
+  const recipes: RecipeOption[] = recipesData?.recipes ?? []
+
+  // Index entries by date and meal type for quick cell lookup
+  const entriesBySlot = new Map<string, MealSlotEntry[]>()
+  for (const day of data?.mealPlanRange ?? []) {
+    for (const entry of day.entries) {
+      const key = slotKey({ date: day.date, mealType: entry.mealType })
+      entriesBySlot.set(key, [...(entriesBySlot.get(key) ?? []), entry])
+    }
+  }
+
+  const handleAdd = async (date: string, mealType: MealType, recipe: RecipeOption) => {
+    onError(null)
+    try {
+      await addRecipe({ variables: { input: { date, mealType, recipeSlug: recipe.slug } } })
+    } catch (err) {
+      // Error handled by onError callback
+    }
+  }
+
+  const handleRemove = async (date: string, mealType: MealType, entry: MealSlotEntry) => {
+    onError(null)
+    try {
+      await removeRecipe({
+        variables: { input: { date, mealType, recipeSlug: entry.recipe.slug } },
+      })
+    } catch (err) {
+      // Error handled by onError callback
+    }
+  }
+
+  const handleClear = async (date: string, mealType: MealType) => {
+    onError(null)
+    try {
+      await clearSlot({ variables: { input: { date, mealType } } })
+    } catch (err) {
+      // Error handled by onError callback
+    }
+  }
+
+  /**
+   * Schedule a recipe in a slot with an optimistic cache entry
+   */
+  const addToSlot = (slot: MealSlotKey, recipe: MealSlotEntry['recipe']) => {
+    const now = new Date().toISOString()
+
+    return moveAdd({
+      variables: { input: { ...slot, recipeSlug: recipe.slug } },
+      optimisticResponse: {
+        addRecipeToMealPlan: {
+          __typename: 'MealPlanEntryType',
+          id: nextOptimisticEntryId(),
+          date: slot.date,
+          mealType: slot.mealType,
+          createdAt: now,
+          updatedAt: now,
+          recipe: { __typename: 'RecipeType', ...recipe },
+        },
+      },
+      update: (cache, { data }) => {
+        if (data) addMealPlanEntryToCache(cache, data.addRecipeToMealPlan)
+      },
+    })
+  }
+
+  /**
+   * Move an entry to another slot as a remove-then-add pair.
+   * If the add fails, the recipe is put back in its original slot.
+   */
+  const handleMove = async ({ entry, from }: DraggedMealSlotEntry, to: MealSlotKey) => {
+    if (slotKey(from) === slotKey(to)) return
+    onError(null)
+
+    const recipe = entry.recipe
+    const conflictMessage = `"${recipe.name}" is already scheduled for ${describeMealSlot(to)}. Pick a different slot.`
+
+    // Catch the obvious conflict before touching the backend
+    const targetEntries = entriesBySlot.get(slotKey(to)) ?? []
+    if (targetEntries.some((existing) => existing.recipe.slug === recipe.slug)) {
+      onError(conflictMessage)
+      return
+    }
+
+    // Step 1: remove from the source slot (rolled back by Apollo if it fails)
+    try {
+      await moveRemove({
+        variables: { input: { ...from, recipeSlug: recipe.slug } },
+        optimisticResponse: { removeRecipeFromMealPlan: true },
+        update: (cache) => removeMealPlanEntryFromCache(cache, from, recipe.slug),
+      })
+    } catch (err) {
+      onError(err instanceof Error ? err.message : 'Failed to move recipe')
+      return
+    }
+
+    // Step 2: add to the target slot
+    try {
+      await addToSlot(to, recipe)
+    } catch (err) {
+      onError(
+        isRecipeAlreadyScheduledError(err)
+          ? conflictMessage
+          : `Failed to move "${recipe.name}" to ${describeMealSlot(to)}. It has been kept in its original slot.`
+      )
+
+      // Roll back the removal so the recipe isn't lost
+      try {
+        await addToSlot(from, recipe)
+      } catch {
+        onError(
+          `Failed to move "${recipe.name}" and could not restore it. Reloading the meal plan.`
+        )
+        await refetch()
+      }
+    }
+  }
+
+  const weekDates = getWeekDates(weekStart)
+  const today = toIsoDate(new Date())
+
+  return (
+    <div className="overflow-x-auto">
+      <div className="grid grid-cols-[8rem_repeat(7,minmax(10rem,1fr))] gap-2 min-w-[76rem]">
+        {/* Header row */}
+        <div />
+        {weekDates.map((date) => {
+          const isoDate = toIsoDate(date)
+          return (
+            <div
+              key={isoDate}
+              className={`text-center py-2 rounded-lg ${isoDate === today ? 'bg-primary/10' : ''}`}
+            >
+              <p className="text-sm font-semibold text-foreground">
+                {date.toLocaleDateString(undefined, { weekday: 'short' })}
+              </p>
+              <p className="text-xs text-muted-foreground">
+                {date.toLocaleDateString(undefined, { month: 'short', day: 'numeric' })}
+              </p>
+            </div>
+          )
+        })}
+
+        {/* Meal type rows */}
+        {MEAL_TYPES.map((mealType) => (
+          <div key={mealType} className="contents">
+            <div className="flex items-center text-sm font-semibold text-foreground">
+              {MEAL_TYPE_LABELS[mealType]}
+            </div>
+            {weekDates.map((date) => {
+              const slot: MealSlotKey = { date: toIsoDate(date), mealType }
+              const isoDate = slot.date
+              return (
+                <MealSlot
+                  key={slotKey(slot)}
+                  slot={slot}
+                  entries={entriesBySlot.get(slotKey(slot)) ?? []}
+                  recipes={recipes}
+                  disabled={busy}
+                  onAdd={(recipe) => handleAdd(isoDate, mealType, recipe)}
+                  onRemove={(entry) => handleRemove(isoDate, mealType, entry)}
+                  onClear={() => handleClear(isoDate, mealType)}
+                  onDropEntry={(dragged) => handleMove(dragged, slot)}
+                />
+              )
+            })}
+          </div>
+        ))}
+      </div>
+
+      {recipes.length === 0 && (
+        <p className="text-muted-foreground text-sm mt-6 text-center">
+          You don&apos;t have any recipes yet.{' '}
+          <Link href="/app/recipes/create" className="text-primary hover:underline">
+            Create one
+          </Link>{' '}
+          to start planning.
+        </p>
+      )}
+    </div>
+  )
+}
+
+// ============================================================================
+// PAGE
+// ============================================================================
+
+export default function MealPlanPage() {
+  const [weekStart, setWeekStart] = useState(() => getWeekStart(new Date()))
+  const [error, setError] = useState<string | null>(null)
+
+  const goToWeek = (nextWeekStart: Date) => {
+    setError(null)
+    setWeekStart(nextWeekStart)
+  }
+
+  return (
+    <main className="min-h-screen bg-background">
+      {/* Navigation */}
+      <nav className="bg-card backdrop-blur-md border-b border-border">
+        <div className="max-w-7xl mx-auto px-6 py-4 flex justify-between items-center">
+          <Link href="/">
+            <h1 className="text-2xl font-bold text-foreground">Roll a Bowl</h1>
+          </Link>
+          <div className="flex gap-4 items-center">
+            <Button asChild variant="ghost">
+              <Link href="/app/recipes">Recipes</Link>
+            </Button>
+            <Button asChild variant="ghost">
+              <Link href="/app/shopping-list">Shopping List</Link>
+            </Button>
+            <Button asChild variant="default">
+              <Link href="/auth/login">Sign In</Link>
+            </Button>
+          </div>
+        </div>
+      </nav>
+
+      {/* Content */}
+      <div className="max-w-7xl mx-auto px-6 py-12">
+        <div className="mb-8 flex justify-between items-end gap-4 flex-wrap">
+          <div>
+            <h2 className="text-4xl font-bold text-foreground mb-4">Meal Plan</h2>
+            <p className="text-muted-foreground text-lg">{formatWeekLabel(weekStart)}</p>
+          </div>
+          <div className="flex gap-2">
+            <Button variant="outline" onClick={() => goToWeek(addDays(weekStart, -7))}>
+              ← Previous Week
+            </Button>
+            <Button variant="ghost" onClick={() => goToWeek(getWeekStart(new Date()))}>
+              This Week
+            </Button>
+            <Button variant="outline" onClick={() => goToWeek(addDays(weekStart, 7))}>
+              Next Week →
+            </Button>
+          </div>
+        </div>
+
+        {/* Error Message */}
+        {error && (
+          <div className="mb-6 p-4 bg-destructive/10 border border-destructive/20 rounded-lg">
+            <p className="text-destructive text-sm font-medium">{error}</p>
+          </div>
+        )}
+
+        <Card>
+          <CardContent>
+            <Suspense
+              fallback={
+                <div className="text-center py-12">
+                  <div className="inline-block animate-spin text-4xl mb-4">⏳</div>
+                  <p className="text-muted-foreground">Loading meal plan...</p>
+                </div>
+              }
+            >
+              <MealPlanWeek weekStart={weekStart} onError={setError} />
+            </Suspense>
+          </CardContent>
+        </Card>
+      </div>
+    </main>
+  )
+}
@@ -1,6 +1,6 @@
 'use client'
 
-import { Suspense } from 'react'
+import { Suspense, useState } from 'react'
 import { useSuspenseQuery } from '@apollo/client/react'
 import { gql } from '@apollo/client'
 import type { GetRecipeBySlugQuery, GetRecipeBySlugQueryVariables } from '@/lib/graphql/generated/graphql'
@@ -10,6 +10,11 @@ import { Badge } from '@/components/ui/badge'
 import { Separator } from '@/components/ui/separator'
 import { Button } from '@/components/ui/button'
 import Link from 'next/link'
+import { parseStructuredRecipe, type StructuredRecipe } from '@/lib/recipes/recipe-format'
+import { formatIngredientRowAmount } from '@/lib/recipes/ingredients'
+import type { MeasurementSystem } from '@/lib/recipes/units'
+import { RequireRole } from '@/components/require-role'
+import { DeleteRecipeButton } from '../components/delete-recipe-button'
 
 // ============================================================================
 // GRAPHQL QUERY
@@ -33,6 +38,129 @@ const GET_RECIPE_BY_SLUG = gql`
   }
 `
 
+// ============================================================================
+// STRUCTURED RECIPE
+// ============================================================================
+
+const UNIT_SYSTEM_OPTIONS: Array<{ value: MeasurementSystem | null; label: string }> = [
+  { value: null, label: 'Original' },
+  { value: 'metric', label: 'Metric' },
+  { value: 'imperial', label: 'Imperial' },
+]
+
+/**
+ * Ingredients and steps of a recipe saved with the structured editor, with
+ * servings scaling and metric/imperial conversion
+ */
+function StructuredRecipeView({ recipe }: { recipe: StructuredRecipe }) {
+  // Recipes without a servings count scale by batches (1×, 1.5×, 2×...)
+  const baseServings = recipe.servings ?? 1
+  const servingsStep = recipe.servings ? 1 : 0.5
+  const [servings, setServings] = useState(baseServings)
+  const [system, setSystem] = useState<MeasurementSystem | null>(null)
+
+  const factor = servings / baseServings
+  const servingsLabel = recipe.servings
+    ? `${servings} ${servings === 1 ? 'serving' : 'servings'}`
+    : `${servings}× batch`
+
+  return (
+    <div className="space-y-8">
+      {recipe.ingredients.length > 0 && (
+        <div>
+          <div className="flex items-end justify-between gap-4 flex-wrap mb-2">
+            <h3 className="text-lg font-semibold text-foreground">Ingredients</h3>
+            <div className="flex items-center gap-4 flex-wrap">
+              <div className="flex items-center gap-1" role="group" aria-label="Servings">
+                <Button
+                  type="button"
+                  variant="outline"
+                  size="icon-xs"
+                  aria-label="Fewer servings"
+                  disabled={servings <= servingsStep}
+                  onClick={() => setServings(servings - servingsStep)}
+                >
+                  −
+                </Button>
+                <span className="min-w-24 text-center text-sm text-foreground" aria-live="polite">
+                  {servingsLabel}
+                </span>
+                <Button
+                  type="button"
+                  variant="outline"
+                  size="icon-xs"
+                  aria-label="More servings"
+                  onClick={() => setServings(servings + servingsStep)}
+                >
+                  +
+                </Button>
+                {servings !== baseServings && (
+                  <Button
+                    type="button"
+                    variant="link"
+                    size="xs"
+                    onClick={() => setServings(baseServings)}
+                  >
+                    Reset
+                  </Button>
+                )}
+              </div>
+              <div className="flex gap-1" role="group" aria-label="Units">
+                {UNIT_SYSTEM_OPTIONS.map((option) => (
+                  <Button
+                    key={option.label}
+                    type="button"
+                    size="xs"
+                    variant={system === option.value ? 'secondary' : 'ghost'}
+                    aria-pressed={system === option.value}
+                    onClick={() => setSystem(option.value)}
+                  >
+                    {option.label}
+                  </Button>
+                ))}
+              </div>
+            </div>
+          </div>
+          <Separator className="mb-4" />
+          <ul className="space-y-2">
+            {recipe.ingredients.map((row, index) => {
+              const amount = formatIngredientRowAmount(row, { factor, system })
+              return (
+                <li key={index} className="flex gap-2 text-foreground">
+                  <span className="text-muted-foreground">•</span>
+                  <span>
+                    {amount && <span className="font-semibold">{amount} </span>}
+                    {row.item}
+                    {row.note && <span className="text-muted-foreground">, {row.note}</span>}
+                  </span>
+                </li>
+              )
+            })}
+          </ul>
+        </div>
+      )}
+      {recipe.steps.length > 0 && (
+        <div>
+          <h3 className="text-lg font-semibold text-foreground mb-2">Steps</h3>
+          <Separator className="mb-4" />
+          <ol className="space-y-4">
+            {recipe.steps.map((step, index) => (
+              <li key={index} className="flex gap-3 text-foreground leading-relaxed">
+                <span className="font-semibold text-primary">{index + 1}.</span>
+                <span>{step}</span>
+              </li>
+            ))}
+          </ol>
+        </div>
+      )}
+    </div>
+  )
+}
+
+// ============================================================================
+// RECIPE DETAIL
+// ============================================================================
+
 function RecipeDetail() {
   const params = useParams()
   const slug = params.slug as string
@@ -55,6 +183,7 @@ function RecipeDetail() {
   }
 
   const recipe = data.recipe
+  const structured = recipe.instructions ? parseStructuredRecipe(recipe.instructions) : null
 
   return (
     <div className="max-w-4xl mx-auto">
@@ -66,9 +195,12 @@ function RecipeDetail() {
               <Badge variant="outline">{recipe.slug}</Badge>
             </div>
             <div className="flex gap-2">
-              <Button asChild variant="outline">
-                <Link href={`/app/recipes/edit/${recipe.slug}`}>Edit</Link>
-              </Button>
+              <RequireRole role="editor">
+                <Button asChild variant="outline">
+                  <Link href={`/app/recipes/edit/${recipe.slug}`}>Edit</Link>
+                </Button>
+                <DeleteRecipeButton recipe={recipe} />
+              </RequireRole>
               <Button asChild variant="outline">
                 <Link href="/app/recipes">← Back to Recipes</Link>
               </Button>
@@ -76,7 +208,9 @@ function RecipeDetail() {
           </div>
         </CardHeader>
         <CardContent>
-          {recipe.instructions ? (
+          {structured ? (
+            <StructuredRecipeView recipe={structured} />
+          ) : recipe.instructions ? (
             <div className="space-y-4">
               <div>
                 <h3 className="text-lg font-semibold text-foreground mb-2">Instructions</h3>
@@ -0,0 +1,213 @@
+'use client'
+
+import { useState } from 'react'
+import { useLazyQuery, useMutation } from '@apollo/client/react'
+import { gql } from '@apollo/client'
+import type {
+  DeleteRecipeMutation,
+  DeleteRecipeMutationVariables,
+  GetUpcomingRecipeScheduleQuery,
+  GetUpcomingRecipeScheduleQueryVariables,
+} from '@/lib/graphql/generated/graphql'
+import { useRouter } from 'next/navigation'
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+  AlertDialogTrigger,
+} from '@/components/ui/alert-dialog'
+import { Button } from '@/components/ui/button'
+import {
+  MAX_MEAL_PLAN_RANGE_DAYS,
+  addDays,
+  describeMealSlot,
+  toIsoDate,
+} from '@/lib/meal-plan/week'
+import { evictRecipeFromCache } from '@/lib/recipes/cache'
+import { rememberDeletedRecipe } from '@/lib/recipes/recently-deleted'
+
+// ============================================================================
+// GRAPHQL QUERIES & MUTATIONS
+// ============================================================================
+
+/**
+ * Get upcoming meal plan entries, to warn before deleting a scheduled recipe
+ */
+const GET_UPCOMING_RECIPE_SCHEDULE = gql`
+  query GetUpcomingRecipeSchedule($input: MealPlanRangeInput!) {
+    mealPlanRange(input: $input) {
+      date
+      entries {
+        id
+        date
+        mealType
+        recipe {
+          id
+          slug
+        }
+      }
+    }
+  }
+`
+
+/**
+ * Delete a recipe
+ */
+const DELETE_RECIPE = gql`
+  mutation DeleteRecipe($slug: String!) {
+    deleteRecipe(slug: $slug)
+  }
+`
+
+// ============================================================================
+// DELETE RECIPE BUTTON
+// ============================================================================
+
+interface DeleteRecipeButtonProps {
+  recipe: {
+    id: number
+    name: string
+    slug: string
+    instructions?: string | null
+  }
+  disabled?: boolean
+}
+
+/**
+ * Delete button with a confirmation dialog
+ *
+ * Opening the dialog checks the upcoming meal plan so the user is warned
+ * before deleting a scheduled recipe. After deleting, the user is sent back to
+ * the recipes list, which offers a short undo window.
+ */
+export function DeleteRecipeButton({ recipe, disabled }: DeleteRecipeButtonProps) {
+  const router = useRouter()
+  const [open, setOpen] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  const [checkSchedule, schedule] = useLazyQuery<
+    GetUpcomingRecipeScheduleQuery,
+    GetUpcomingRecipeScheduleQueryVariables
+  >(GET_UPCOMING_RECIPE_SCHEDULE, { fetchPolicy: 'network-only' })
+
+  const [deleteRecipe, { loading }] = useMutation<
+    DeleteRecipeMutation,
+    DeleteRecipeMutationVariables
+  >(DELETE_RECIPE, {
+    update: (cache, { data }) => {
+      if (data?.deleteRecipe) evictRecipeFromCache(cache, recipe)
+    },
+    onCompleted: (data) => {
+      if (!data.deleteRecipe) {
+        setError('Recipe could not be deleted. It may already have been removed.')
+        return
+      }
+      rememberDeletedRecipe({ name: recipe.name, instructions: recipe.instructions ?? null })
+      setOpen(false)
+      router.push('/app/recipes')
+    },
+    onError: (err) => {
+      setError(err.message || 'Failed to delete recipe')
+    },
+  })
+
+  const scheduledSlots = (schedule.data?.mealPlanRange ?? []).flatMap((day) =>
+    day.entries.filter((entry) => entry.recipe.id === recipe.id)
+  )
+
+  const handleOpenChange = (nextOpen: boolean) => {
+    if (loading) return
+    setOpen(nextOpen)
+    setError(null)
+    if (!nextOpen) return
+
+    const today = new Date()
+    checkSchedule({
+      variables: {
+        input: {
+          startDateInclusive: toIsoDate(today),
+          endDateInclusive: toIsoDate(addDays(today, MAX_MEAL_PLAN_RANGE_DAYS - 1)),
+        },
+      },
+    }).catch(() => {
+      // Shown from the query result; deleting is still allowed
+    })
+  }
+
+  const handleDelete = async (e: React.MouseEvent) => {
+    // Keep the dialog open until the mutation finishes so errors stay visible
+    e.preventDefault()
+    setError(null)
+
+    try {
+      await deleteRecipe({ variables: { slug: recipe.slug } })
+    } catch (err) {
+      // Error handled by onError callback
+    }
+  }
+
+  return (
+    <AlertDialog open={open} onOpenChange={handleOpenChange}>
+      <AlertDialogTrigger asChild>
+        <Button type="button" variant="destructive" disabled={disabled}>
+          Delete
+        </Button>
+      </AlertDialogTrigger>
+      <AlertDialogContent>
+        <AlertDialogHeader>
+          <AlertDialogTitle>Delete &quot;{recipe.name}&quot;?</AlertDialogTitle>
+          <AlertDialogDescription>
+            This removes the recipe for everyone in your team. You can undo this for a few seconds
+            afterwards.
+          </AlertDialogDescription>
+        </AlertDialogHeader>
+
+        {/* Upcoming meal plan check */}
+        {schedule.loading && (
+          <p className="text-sm text-muted-foreground">Checking upcoming meal plans...</p>
+        )}
+        {schedule.error && (
+          <p className="text-sm text-muted-foreground">
+            Couldn&apos;t check upcoming meal plans for this recipe.
+          </p>
+        )}
+        {!schedule.loading && scheduledSlots.length > 0 && (
+          <div className="p-4 bg-destructive/10 border border-destructive/20 rounded-lg space-y-2">
+            <p className="text-destructive text-sm font-medium">
+              This recipe is scheduled in the next {MAX_MEAL_PLAN_RANGE_DAYS} days:
+            </p>
+            <ul className="text-sm text-foreground list-disc pl-5">
+              {scheduledSlots.map((entry) => (
+                <li key={entry.id}>{describeMealSlot(entry)}</li>
+              ))}
+            </ul>
+            <p className="text-sm text-muted-foreground">
+              These meal plan entries are removed with the recipe and are not restored by undo.
+            </p>
+          </div>
+        )}
+
+        {/* Error Message */}
+        {error && (
+          <div className="p-4 bg-destructive/10 border border-destructive/20 rounded-lg">
+            <p className="text-destructive text-sm font-medium">{error}</p>
+          </div>
+        )}
+
+        <AlertDialogFooter>
+          <AlertDialogCancel disabled={loading}>Cancel</AlertDialogCancel>
+          <AlertDialogAction variant="destructive" onClick={handleDelete} disabled={loading}>
+            {loading ? 'Deleting...' : 'Delete Recipe'}
+          </AlertDialogAction>
+        </AlertDialogFooter>
+      </AlertDialogContent>
+    </AlertDialog>
+  )
+}
+
+export default DeleteRecipeButton
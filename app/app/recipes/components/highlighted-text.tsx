@@ -0,0 +1,32 @@
+import { findMatchRanges } from '@/lib/recipes/search'
+
+interface HighlightedTextProps {
+  text: string
+  terms: string[]
+}
+
+/**
+ * Render text with every occurrence of the search terms highlighted
+ */
+export function HighlightedText({ text, terms }: HighlightedTextProps) {
+  const ranges = terms.length > 0 ? findMatchRanges(text, terms) : []
+  if (ranges.length === 0) return <>{text}</>
+
+  const parts: React.ReactNode[] = []
+  let cursor = 0
+
+  for (const [start, end] of ranges) {
+    if (start > cursor) parts.push(text.slice(cursor, start))
+    parts.push(
+      <mark key={start} className="rounded-sm bg-primary/20 text-foreground px-0.5">
+        {text.slice(start, end)}
+      </mark>
+    )
+    cursor = end
+  }
+  if (cursor < text.length) parts.push(text.slice(cursor))
+
+  return <>{parts}</>
+}
+
+export default HighlightedText
@@ -0,0 +1,15 @@
+/**
+ * Shown on recipe forms to users who may only read recipes
+ */
+export function ReadOnlyNotice() {
+  return (
+    <div className="p-4 bg-muted border border-border rounded-lg" role="status">
+      <p className="text-muted-foreground text-sm font-medium">
+        You have read-only access, so you can&apos;t change recipes. Ask the account owner for
+        editor access.
+      </p>
+    </div>
+  )
+}
+
+export default ReadOnlyNotice
@@ -0,0 +1,403 @@
+'use client'
+
+import { ArrowDownIcon, ArrowUpIcon, PlusIcon, XIcon } from 'lucide-react'
+import {
+  parseStructuredRecipe,
+  serializeStructuredRecipe,
+  structureFreeText,
+  validateIngredientRow,
+  type IngredientRow,
+  type StructuredRecipe,
+} from '@/lib/recipes/recipe-format'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import { Textarea } from '@/components/ui/textarea'
+import { Button } from '@/components/ui/button'
+
+// ============================================================================
+// DRAFT STATE
+// ============================================================================
+
+export type InstructionsMode = 'structured' | 'text'
+
+interface EditableIngredientRow extends IngredientRow {
+  id: number
+}
+
+interface EditableStep {
+  id: number
+  text: string
+}
+
+/**
+ * Editor state for a recipe's instructions. Both representations are kept so
+ * switching modes is lossless until the form is submitted.
+ */
+export interface InstructionsDraft {
+  mode: InstructionsMode
+  text: string
+  servings: string
+  ingredients: EditableIngredientRow[]
+  steps: EditableStep[]
+}
+
+// Row ids only need to be unique within the page, for React keys
+let nextRowId = 1
+
+function emptyIngredientRow(): EditableIngredientRow {
+  return { id: nextRowId++, quantity: '', unit: '', item: '', note: '' }
+}
+
+function emptyStep(): EditableStep {
+  return { id: nextRowId++, text: '' }
+}
+
+const EMPTY_RECIPE: StructuredRecipe = { servings: null, ingredients: [], steps: [] }
+
+function toEditable({
+  servings,
+  ingredients,
+  steps,
+}: StructuredRecipe): Pick<InstructionsDraft, 'servings' | 'ingredients' | 'steps'> {
+  return {
+    servings: servings ? String(servings) : '',
+    ingredients:
+      ingredients.length > 0
+        ? ingredients.map((row) => ({ ...row, id: nextRowId++ }))
+        : [emptyIngredientRow()],
+    steps: steps.length > 0 ? steps.map((text) => ({ id: nextRowId++, text })) : [emptyStep()],
+  }
+}
+
+/**
+ * Build the initial draft for existing instructions
+ * Structured and empty instructions open in the structured editor; free-text
+ * instructions keep the plain textarea so they are saved unchanged.
+ */
+export function createInstructionsDraft(instructions?: string | null): InstructionsDraft {
+  const text = instructions ?? ''
+  const structured = text.trim() ? parseStructuredRecipe(text) : EMPTY_RECIPE
+
+  if (structured) {
+    return { mode: 'structured', text, ...toEditable(structured) }
+  }
+  return { mode: 'text', text, ...toEditable(EMPTY_RECIPE) }
+}
+
+/**
+ * Serialize the draft into the value stored in `instructions`
+ */
+export function serializeInstructionsDraft(draft: InstructionsDraft): string {
+  if (draft.mode === 'text') return draft.text.trim()
+
+  return serializeStructuredRecipe({
+    servings: Number(draft.servings) || null,
+    ingredients: draft.ingredients,
+    steps: draft.steps.map((step) => step.text),
+  })
+}
+
+/**
+ * Validate the draft before submitting
+ * Returns an error message, or null if the draft is valid.
+ */
+export function validateInstructionsDraft(draft: InstructionsDraft): string | null {
+  if (draft.mode === 'text') return null
+
+  if (draft.servings.trim() && !/^[1-9]\d*$/.test(draft.servings.trim())) {
+    return 'Servings must be a whole number'
+  }
+
+  for (const row of draft.ingredients) {
+    const error = validateIngredientRow(row)
+    if (error) return error
+  }
+  return null
+}
+
+function moveItem<T>(items: T[], index: number, offset: number): T[] {
+  const target = index + offset
+  if (target < 0 || target >= items.length) return items
+
+  const next = [...items]
+  ;[next[index], next[target]] = [next[target], next[index]]
+  return next
+}
+
+// ============================================================================
+// EDITOR
+// ============================================================================
+
+interface RecipeInstructionsEditorProps {
+  value: InstructionsDraft
+  onChange: (draft: InstructionsDraft) => void
+  disabled?: boolean
+}
+
+/**
+ * Instructions editor with a structured mode (ingredient rows and ordered
+ * steps) and a free-text mode
+ */
+export function RecipeInstructionsEditor({
+  value,
+  onChange,
+  disabled = false,
+}: RecipeInstructionsEditorProps) {
+  const switchMode = (mode: InstructionsMode) => {
+    if (mode === value.mode) return
+
+    if (mode === 'text') {
+      onChange({ ...value, mode, text: serializeInstructionsDraft(value) })
+      return
+    }
+
+    const structured = parseStructuredRecipe(value.text) ?? structureFreeText(value.text)
+    onChange({ ...value, mode, ...toEditable(structured) })
+  }
+
+  const updateIngredient = (id: number, changes: Partial<IngredientRow>) => {
+    onChange({
+      ...value,
+      ingredients: value.ingredients.map((row) => (row.id === id ? { ...row, ...changes } : row)),
+    })
+  }
+
+  const removeIngredient = (id: number) => {
+    const ingredients = value.ingredients.filter((row) => row.id !== id)
+    onChange({
+      ...value,
+      ingredients: ingredients.length > 0 ? ingredients : [emptyIngredientRow()],
+    })
+  }
+
+  const updateStep = (id: number, text: string) => {
+    onChange({
+      ...value,
+      steps: value.steps.map((step) => (step.id === id ? { ...step, text } : step)),
+    })
+  }
+
+  const removeStep = (id: number) => {
+    const steps = value.steps.filter((step) => step.id !== id)
+    onChange({ ...value, steps: steps.length > 0 ? steps : [emptyStep()] })
+  }
+
+  return (
+    <div className="space-y-4">
+      <div className="flex items-center justify-between gap-4">
+        <Label htmlFor={value.mode === 'text' ? 'instructions' : undefined}>Instructions</Label>
+        <div className="flex gap-1" role="group" aria-label="Instructions editor mode">
+          <Button
+            type="button"
+            size="xs"
+            variant={value.mode === 'structured' ? 'secondary' : 'ghost'}
+            aria-pressed={value.mode === 'structured'}
+            onClick={() => switchMode('structured')}
+            disabled={disabled}
+          >
+            Ingredients &amp; Steps
+          </Button>
+          <Button
+            type="button"
+            size="xs"
+            variant={value.mode === 'text' ? 'secondary' : 'ghost'}
+            aria-pressed={value.mode === 'text'}
+            onClick={() => switchMode('text')}
+            disabled={disabled}
+          >
+            Free Text
+          </Button>
+        </div>
+      </div>
+
+      {value.mode === 'text' ? (
+        <div className="space-y-2">
+          <Textarea
+            id="instructions"
+            value={value.text}
+            onChange={(e) => onChange({ ...value, text: e.target.value })}
+            placeholder="Enter recipe instructions..."
+            disabled={disabled}
+            rows={8}
+            className="w-full resize-none"
+          />
+          <p className="text-sm text-muted-foreground">
+            Optional: Add detailed instructions for preparing this recipe
+          </p>
+        </div>
+      ) : (
+        <>
+          {/* Ingredients */}
+          <fieldset className="space-y-2" disabled={disabled}>
+            <legend className="text-sm font-semibold text-foreground mb-2">Ingredients</legend>
+            <div className="flex items-center gap-2 mb-2">
+              <Label htmlFor="servings" className="text-xs text-muted-foreground">
+                Makes
+              </Label>
+              <Input
+                id="servings"
+                type="number"
+                min={1}
+                step={1}
+                value={value.servings}
+                onChange={(e) => onChange({ ...value, servings: e.target.value })}
+                placeholder="4"
+                className="w-20"
+              />
+              <span className="text-xs text-muted-foreground">servings</span>
+            </div>
+            <div className="hidden sm:grid grid-cols-[5rem_6rem_1fr_8rem_auto] gap-2 text-xs text-muted-foreground">
+              <span>Quantity</span>
+              <span>Unit</span>
+              <span>Item</span>
+              <span>Note</span>
+              <span className="w-[4.5rem]" />
+            </div>
+            {value.ingredients.map((row, index) => (
+              <div
+                key={row.id}
+                className="grid grid-cols-2 sm:grid-cols-[5rem_6rem_1fr_8rem_auto] gap-2"
+              >
+                <Input
+                  aria-label={`Ingredient ${index + 1} quantity`}
+                  value={row.quantity}
+                  onChange={(e) => updateIngredient(row.id, { quantity: e.target.value })}
+                  placeholder="1 1/2"
+                />
+                <Input
+                  aria-label={`Ingredient ${index + 1} unit`}
+                  value={row.unit}
+                  onChange={(e) => updateIngredient(row.id, { unit: e.target.value })}
+                  placeholder="cups"
+                />
+                <Input
+                  aria-label={`Ingredient ${index + 1} item`}
+                  value={row.item}
+                  onChange={(e) => updateIngredient(row.id, { item: e.target.value })}
+                  placeholder="rice"
+                  className="col-span-2 sm:col-span-1"
+                />
+                <Input
+                  aria-label={`Ingredient ${index + 1} note`}
+                  value={row.note}
+                  onChange={(e) => updateIngredient(row.id, { note: e.target.value })}
+                  placeholder="rinsed"
+                />
+                <div className="flex items-center">
+                  <Button
+                    type="button"
+                    variant="ghost"
+                    size="icon-xs"
+                    aria-label={`Move ingredient ${index + 1} up`}
+                    disabled={index === 0}
+                    onClick={() =>
+                      onChange({ ...value, ingredients: moveItem(value.ingredients, index, -1) })
+                    }
+                  >
+                    <ArrowUpIcon />
+                  </Button>
+                  <Button
+                    type="button"
+                    variant="ghost"
+                    size="icon-xs"
+                    aria-label={`Move ingredient ${index + 1} down`}
+                    disabled={index === value.ingredients.length - 1}
+                    onClick={() =>
+                      onChange({ ...value, ingredients: moveItem(value.ingredients, index, 1) })
+                    }
+                  >
+                    <ArrowDownIcon />
+                  </Button>
+                  <Button
+                    type="button"
+                    variant="ghost"
+                    size="icon-xs"
+                    aria-label={`Remove ingredient ${index + 1}`}
+                    onClick={() => removeIngredient(row.id)}
+                  >
+                    <XIcon />
+                  </Button>
+                </div>
+              </div>
+            ))}
+            <Button
+              type="button"
+              variant="outline"
+              size="sm"
+              onClick={() =>
+                onChange({ ...value, ingredients: [...value.ingredients, emptyIngredientRow()] })
+              }
+            >
+              <PlusIcon /> Add Ingredient
+            </Button>
+          </fieldset>
+
+          {/* Steps */}
+          <fieldset className="space-y-2" disabled={disabled}>
+            <legend className="text-sm font-semibold text-foreground mb-2">Steps</legend>
+            <ol className="space-y-2">
+              {value.steps.map((step, index) => (
+                <li key={step.id} className="flex items-start gap-2">
+                  <span className="w-6 pt-2 text-sm font-semibold text-muted-foreground">
+                    {index + 1}.
+                  </span>
+                  <Textarea
+                    aria-label={`Step ${index + 1}`}
+                    value={step.text}
+                    onChange={(e) => updateStep(step.id, e.target.value)}
+                    placeholder="Describe this step..."
+                    rows={2}
+                    className="flex-1 resize-none"
+                  />
+                  <div className="flex items-center pt-1">
+                    <Button
+                      type="button"
+                      variant="ghost"
+                      size="icon-xs"
+                      aria-label={`Move step ${index + 1} up`}
+                      disabled={index === 0}
+                      onClick={() =>
+                        onChange({ ...value, steps: moveItem(value.steps, index, -1) })
+                      }
+                    >
+                      <ArrowUpIcon />
+                    </Button>
+                    <Button
+                      type="button"
+                      variant="ghost"
+                      size="icon-xs"
+                      aria-label={`Move step ${index + 1} down`}
+                      disabled={index === value.steps.length - 1}
+                      onClick={() => onChange({ ...value, steps: moveItem(value.steps, index, 1) })}
+                    >
+                      <ArrowDownIcon />
+                    </Button>
+                    <Button
+                      type="button"
+                      variant="ghost"
+                      size="icon-xs"
+                      aria-label={`Remove step ${index + 1}`}
+                      onClick={() => removeStep(step.id)}
+                    >
+                      <XIcon />
+                    </Button>
+                  </div>
+                </li>
+              ))}
+            </ol>
+            <Button
+              type="button"
+              variant="outline"
+              size="sm"
+              onClick={() => onChange({ ...value, steps: [...value.steps, emptyStep()] })}
+            >
+              <PlusIcon /> Add Step
+            </Button>
+          </fieldset>
+        </>
+      )}
+    </div>
+  )
+}
+
+export default RecipeInstructionsEditor
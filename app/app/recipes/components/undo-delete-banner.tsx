@@ -0,0 +1,147 @@
+'use client'
+
+import { useEffect, useState } from 'react'
+import { useMutation } from '@apollo/client/react'
+import { gql } from '@apollo/client'
+import type {
+  RestoreRecipeMutation,
+  RestoreRecipeMutationVariables,
+} from '@/lib/graphql/generated/graphql'
+import Link from 'next/link'
+import { Button } from '@/components/ui/button'
+import {
+  UNDO_DELETE_WINDOW_MS,
+  forgetDeletedRecipe,
+  readDeletedRecipe,
+  type DeletedRecipe,
+} from '@/lib/recipes/recently-deleted'
+
+// ============================================================================
+// GRAPHQL MUTATION
+// ============================================================================
+
+/**
+ * Recreate a deleted recipe with its original name and instructions
+ */
+const RESTORE_RECIPE = gql`
+  mutation RestoreRecipe($input: CreateRecipeInput!) {
+    createRecipe(input: $input) {
+      id
+      name
+      slug
+      instructions
+      createdAt
+      updatedAt
+    }
+  }
+`
+
+// ============================================================================
+// UNDO DELETE BANNER
+// ============================================================================
+
+/**
+ * Banner offering to undo the last recipe deletion while the undo window is
+ * open. Undo recreates the recipe, so it gets a new id (and possibly slug).
+ */
+export function UndoDeleteBanner() {
+  const [deleted, setDeleted] = useState<DeletedRecipe | null>(null)
+  const [now, setNow] = useState(() => Date.now())
+  const [restoredSlug, setRestoredSlug] = useState<string | null>(null)
+  const [error, setError] = useState<string | null>(null)
+
+  const [restoreRecipe, { loading }] = useMutation<
+    RestoreRecipeMutation,
+    RestoreRecipeMutationVariables
+  >(RESTORE_RECIPE, {
+    refetchQueries: ['GetRecipes'],
+    onCompleted: (data) => {
+      forgetDeletedRecipe()
+      setDeleted(null)
+      setRestoredSlug(data.createRecipe.slug)
+    },
+    onError: (err) => {
+      setError(err.message || 'Failed to restore recipe')
+    },
+  })
+
+  // sessionStorage is only available after mounting
+  useEffect(() => {
+    setDeleted(readDeletedRecipe())
+  }, [])
+
+  // Count down, and close the window once it has passed
+  useEffect(() => {
+    if (!deleted || loading) return
+
+    const interval = setInterval(() => {
+      const current = Date.now()
+      setNow(current)
+      if (current - deleted.deletedAt >= UNDO_DELETE_WINDOW_MS) {
+        forgetDeletedRecipe()
+        setDeleted(null)
+      }
+    }, 1000)
+    return () => clearInterval(interval)
+  }, [deleted, loading])
+
+  const handleUndo = async () => {
+    if (!deleted) return
+    setError(null)
+
+    try {
+      await restoreRecipe({
+        variables: {
+          input: {
+            name: deleted.name,
+            instructions: deleted.instructions ?? undefined,
+          },
+        },
+      })
+    } catch (err) {
+      // Error handled by onError callback
+    }
+  }
+
+  if (restoredSlug) {
+    return (
+      <div className="mb-6 p-4 bg-primary/10 border border-primary/20 rounded-lg flex items-center justify-between gap-4">
+        <p className="text-sm text-foreground">Recipe restored.</p>
+        <div className="flex gap-2">
+          <Button asChild variant="outline" size="sm">
+            <Link href={`/app/recipes/${restoredSlug}`}>View Recipe</Link>
+          </Button>
+          <Button variant="ghost" size="sm" onClick={() => setRestoredSlug(null)}>
+            Dismiss
+          </Button>
+        </div>
+      </div>
+    )
+  }
+
+  if (!deleted) return null
+
+  const secondsLeft = Math.max(
+    0,
+    Math.ceil((UNDO_DELETE_WINDOW_MS - (now - deleted.deletedAt)) / 1000)
+  )
+
+  return (
+    <div className="mb-6 p-4 bg-muted border border-border rounded-lg space-y-2" role="status">
+      <div className="flex items-center justify-between gap-4">
+        <p className="text-sm text-foreground">
+          Deleted &quot;{deleted.name}&quot;.
+          {!loading && (
+            <span className="text-muted-foreground"> Undo available for {secondsLeft}s.</span>
+          )}
+        </p>
+        <Button variant="outline" size="sm" onClick={handleUndo} disabled={loading}>
+          {loading ? 'Restoring...' : 'Undo'}
+        </Button>
+      </div>
+      {error && <p className="text-destructive text-sm font-medium">{error}</p>}
+    </div>
+  )
+}
+
+export default UndoDeleteBanner
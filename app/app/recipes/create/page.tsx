@@ -8,9 +8,16 @@ import { useRouter } from 'next/navigation'
 import { Card, CardHeader, CardTitle, CardDescription, CardContent } from '@/components/ui/card'
 import { Input } from '@/components/ui/input'
 import { Label } from '@/components/ui/label'
-import { Textarea } from '@/components/ui/textarea'
 import { Button } from '@/components/ui/button'
+import { useAuth } from '@/hooks/useAuth'
 import Link from 'next/link'
+import {
+  RecipeInstructionsEditor,
+  createInstructionsDraft,
+  serializeInstructionsDraft,
+  validateInstructionsDraft,
+} from '../components/recipe-instructions-editor'
+import { ReadOnlyNotice } from '../components/read-only-notice'
 
 // ============================================================================
 // GRAPHQL MUTATION
@@ -34,8 +41,11 @@ const CREATE_RECIPE = gql`
 
 export default function CreateRecipePage() {
   const router = useRouter()
+  const { user, hasRole } = useAuth()
+  // Viewers see the form but can't submit it (the BFF would refuse anyway)
+  const readOnly = !!user && !hasRole('editor')
   const [name, setName] = useState('')
-  const [instructions, setInstructions] = useState('')
+  const [instructions, setInstructions] = useState(() => createInstructionsDraft())
   const [error, setError] = useState<string | null>(null)
 
   const [createRecipe, { loading }] = useMutation<CreateRecipeMutation, CreateRecipeMutationVariables>(
@@ -60,12 +70,18 @@ export default function CreateRecipePage() {
       return
     }
 
+    const instructionsError = validateInstructionsDraft(instructions)
+    if (instructionsError) {
+      setError(instructionsError)
+      return
+    }
+
     try {
       await createRecipe({
         variables: {
           input: {
             name: name.trim(),
-            instructions: instructions.trim() || undefined,
+            instructions: serializeInstructionsDraft(instructions) || undefined,
           },
         },
       })
@@ -111,6 +127,8 @@ export default function CreateRecipePage() {
           </CardHeader>
           <CardContent>
             <form onSubmit={handleSubmit} className="space-y-6">
+              {readOnly && <ReadOnlyNotice />}
+
               {/* Error Message */}
               {error && (
                 <div className="p-4 bg-destructive/10 border border-destructive/20 rounded-lg">
@@ -127,28 +145,18 @@ export default function CreateRecipePage() {
                   value={name}
                   onChange={(e) => setName(e.target.value)}
                   placeholder="e.g., Mediterranean Bowl"
-                  disabled={loading}
+                  disabled={loading || readOnly}
                   required
                   className="w-full"
                 />
               </div>
 
               {/* Instructions */}
-              <div className="space-y-2">
-                <Label htmlFor="instructions">Instructions</Label>
-                <Textarea
-                  id="instructions"
-                  value={instructions}
-                  onChange={(e) => setInstructions(e.target.value)}
-                  placeholder="Enter recipe instructions..."
-                  disabled={loading}
-                  rows={8}
-                  className="w-full resize-none"
-                />
-                <p className="text-sm text-muted-foreground">
-                  Optional: Add detailed instructions for preparing this recipe
-                </p>
-              </div>
+              <RecipeInstructionsEditor
+                value={instructions}
+                onChange={setInstructions}
+                disabled={loading || readOnly}
+              />
 
               {/* Form Actions */}
               <div className="flex gap-4 justify-end pt-4">
@@ -162,7 +170,7 @@ export default function CreateRecipePage() {
                 </Button>
                 <Button
                   type="submit"
-                  disabled={loading || !name.trim()}
+                  disabled={loading || readOnly || !name.trim()}
                 >
                   {loading ? 'Creating...' : 'Create Recipe'}
                 </Button>
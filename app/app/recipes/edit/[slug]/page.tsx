@@ -11,9 +11,17 @@ import { useParams, useRouter } from 'next/navigation'
 import { Card, CardHeader, CardTitle, CardDescription, CardContent } from '@/components/ui/card'
 import { Input } from '@/components/ui/input'
 import { Label } from '@/components/ui/label'
-import { Textarea } from '@/components/ui/textarea'
 import { Button } from '@/components/ui/button'
+import { useAuth } from '@/hooks/useAuth'
 import Link from 'next/link'
+import {
+  RecipeInstructionsEditor,
+  createInstructionsDraft,
+  serializeInstructionsDraft,
+  validateInstructionsDraft,
+} from '../../components/recipe-instructions-editor'
+import { DeleteRecipeButton } from '../../components/delete-recipe-button'
+import { ReadOnlyNotice } from '../../components/read-only-notice'
 
 // ============================================================================
 // GRAPHQL QUERIES & MUTATIONS
@@ -55,6 +63,9 @@ function EditRecipeForm() {
   const params = useParams()
   const router = useRouter()
   const slug = params.slug as string
+  const { user, hasRole } = useAuth()
+  // Viewers see the form but can't submit it (the BFF would refuse anyway)
+  const readOnly = !!user && !hasRole('editor')
 
   // Fetch existing recipe data
   const { data } = useSuspenseQuery<GetRecipeForEditQuery, GetRecipeForEditQueryVariables>(
@@ -68,14 +79,14 @@ function EditRecipeForm() {
 
   // Form state
   const [name, setName] = useState('')
-  const [instructions, setInstructions] = useState('')
+  const [instructions, setInstructions] = useState(() => createInstructionsDraft())
   const [error, setError] = useState<string | null>(null)
 
   // Initialize form with recipe data
   useEffect(() => {
     if (recipe) {
       setName(recipe.name || '')
-      setInstructions(recipe.instructions || '')
+      setInstructions(createInstructionsDraft(recipe.instructions))
     }
   }, [recipe])
 
@@ -98,13 +109,19 @@ function EditRecipeForm() {
       return
     }
 
+    const instructionsError = validateInstructionsDraft(instructions)
+    if (instructionsError) {
+      setError(instructionsError)
+      return
+    }
+
     try {
       await updateRecipe({
         variables: {
           slug,
           input: {
             name: name.trim(),
-            instructions: instructions.trim() || undefined,
+            instructions: serializeInstructionsDraft(instructions) || undefined,
           },
         },
       })
@@ -142,6 +159,8 @@ function EditRecipeForm() {
         </CardHeader>
         <CardContent>
           <form onSubmit={handleSubmit} className="space-y-6">
+            {readOnly && <ReadOnlyNotice />}
+
             {/* Error Message */}
             {error && (
               <div className="p-4 bg-destructive/10 border border-destructive/20 rounded-lg">
@@ -158,31 +177,26 @@ function EditRecipeForm() {
                 value={name}
                 onChange={(e) => setName(e.target.value)}
                 placeholder="e.g., Mediterranean Bowl"
-                disabled={loading}
+                disabled={loading || readOnly}
                 required
                 className="w-full"
               />
             </div>
 
             {/* Instructions */}
-            <div className="space-y-2">
-              <Label htmlFor="instructions">Instructions</Label>
-              <Textarea
-                id="instructions"
-                value={instructions}
-                onChange={(e) => setInstructions(e.target.value)}
-                placeholder="Enter recipe instructions..."
-                disabled={loading}
-                rows={8}
-                className="w-full resize-none"
-              />
-              <p className="text-sm text-muted-foreground">
-                Optional: Add detailed instructions for preparing this recipe
-              </p>
-            </div>
+            <RecipeInstructionsEditor
+              value={instructions}
+              onChange={setInstructions}
+              disabled={loading || readOnly}
+            />
 
             {/* Form Actions */}
             <div className="flex gap-4 justify-end pt-4">
+              {!readOnly && (
+                <div className="mr-auto">
+                  <DeleteRecipeButton recipe={recipe} disabled={loading} />
+                </div>
+              )}
               <Button
                 type="button"
                 variant="outline"
@@ -193,7 +207,7 @@ function EditRecipeForm() {
               </Button>
               <Button
                 type="submit"
-                disabled={loading || !name.trim()}
+                disabled={loading || readOnly || !name.trim()}
               >
                 {loading ? 'Updating...' : 'Update Recipe'}
               </Button>
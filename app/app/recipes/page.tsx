@@ -1,25 +1,53 @@
 'use client'
 
-import { Suspense } from 'react'
+import { Suspense, useCallback, useEffect, useRef, useState } from 'react'
 import { useSuspenseQuery } from '@apollo/client/react'
 import { gql } from '@apollo/client'
 import type { GetRecipesQuery } from '@/lib/graphql/generated/graphql'
+import { usePathname, useRouter, useSearchParams } from 'next/navigation'
+import {
+  DEFAULT_RECIPE_SORT,
+  RECIPE_SORT_KEYS,
+  RECIPE_SORT_LABELS,
+  getMatchSnippet,
+  isRecipeSortKey,
+  parseSearchTerms,
+  searchRecipes,
+  type RecipeSortKey,
+} from '@/lib/recipes/search'
+import {
+  hasMorePages,
+  isRepeatedPage,
+  type OffsetPaginationVariables,
+} from '@/lib/graphql/pagination'
 import { Card, CardHeader, CardTitle, CardDescription, CardContent } from '@/components/ui/card'
 import { Badge } from '@/components/ui/badge'
 import { Separator } from '@/components/ui/separator'
 import Link from 'next/link'
 import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select'
+import { RequireRole } from '@/components/require-role'
+import { HighlightedText } from './components/highlighted-text'
+import { UndoDeleteBanner } from './components/undo-delete-banner'
 
 // ============================================================================
 // GRAPHQL QUERY
 // ============================================================================
 
 /**
- * Get all recipes
+ * Get a page of recipes
  */
 const GET_RECIPES = gql`
-  query GetRecipes {
-    recipes {
+  query GetRecipes($offset: Int, $limit: Int) {
+    recipes(offset: $offset, limit: $limit) {
       id
       name
       slug
@@ -32,43 +60,290 @@ const GET_RECIPES = gql`
   }
 `
 
-function RecipesList() {
-  const { data } = useSuspenseQuery<GetRecipesQuery>(GET_RECIPES)
+// ============================================================================
+// RECIPES LIST
+// ============================================================================
+
+/**
+ * Invisible marker that calls onVisible when scrolled into view
+ * Re-observes whenever shownCount changes, so a marker still on screen after
+ * a page is shown keeps loading.
+ */
+function InfiniteScrollTrigger({
+  onVisible,
+  shownCount,
+}: {
+  onVisible: () => void
+  shownCount: number
+}) {
+  const ref = useRef<HTMLDivElement>(null)
+  // Kept in a ref so a new callback on every render doesn't re-observe
+  const onVisibleRef = useRef(onVisible)
+
+  useEffect(() => {
+    onVisibleRef.current = onVisible
+  }, [onVisible])
+
+  useEffect(() => {
+    const element = ref.current
+    if (!element || typeof IntersectionObserver === 'undefined') return
+
+    const observer = new IntersectionObserver(
+      (entries) => {
+        if (entries.some((entry) => entry.isIntersecting)) onVisibleRef.current()
+      },
+      { rootMargin: '400px' }
+    )
+    observer.observe(element)
+    return () => observer.disconnect()
+  }, [shownCount])
+
+  return <div ref={ref} aria-hidden="true" />
+}
+
+interface RecipesListProps {
+  query: string
+  sort: RecipeSortKey
+}
+
+/**
+ * Recipes fetched and shown per page
+ */
+const RECIPES_PAGE_SIZE = 24
+
+/**
+ * Recipes grid with infinite scroll. Search and sort apply to the recipes
+ * loaded so far; a backend that returns every recipe at once has loaded the
+ * whole collection and pages are sliced client-side.
+ */
+function RecipesList({ query, sort }: RecipesListProps) {
+  const { data, fetchMore } = useSuspenseQuery<GetRecipesQuery, OffsetPaginationVariables>(
+    GET_RECIPES,
+    {
+      variables: { offset: 0, limit: RECIPES_PAGE_SIZE },
+    }
+  )
+  const loadedRecipes = data?.recipes ?? []
+
+  const [visibleCount, setVisibleCount] = useState(RECIPES_PAGE_SIZE)
+  const [reachedEnd, setReachedEnd] = useState(
+    () => !hasMorePages(loadedRecipes.length, { offset: 0, limit: RECIPES_PAGE_SIZE })
+  )
+  const [loadingMore, setLoadingMore] = useState(false)
+  const [loadMoreError, setLoadMoreError] = useState<string | null>(null)
+
+  // Start over from the first page whenever the search or sort changes
+  useEffect(() => {
+    setVisibleCount(RECIPES_PAGE_SIZE)
+  }, [query, sort])
 
-  if (!data?.recipes || data.recipes.length === 0) {
+  const terms = parseSearchTerms(query)
+  const recipes = searchRecipes(loadedRecipes, query, sort)
+  const visibleRecipes = recipes.slice(0, visibleCount)
+  const hasMore = visibleCount < recipes.length || !reachedEnd
+
+  const loadMore = async () => {
+    if (loadingMore) return
+    setLoadMoreError(null)
+
+    // Already in the cache: just show the next slice
+    if (visibleCount < recipes.length) {
+      setVisibleCount((count) => count + RECIPES_PAGE_SIZE)
+      return
+    }
+
+    const variables = { offset: loadedRecipes.length, limit: RECIPES_PAGE_SIZE }
+    setLoadingMore(true)
+    try {
+      const result = await fetchMore({ variables })
+      const page = result.data?.recipes ?? []
+      // A repeated page means the backend returned the whole list again
+      if (
+        !hasMorePages(page.length, variables) ||
+        isRepeatedPage(loadedRecipes, page, (recipe) => recipe.id)
+      ) {
+        setReachedEnd(true)
+      }
+      setVisibleCount((count) => count + RECIPES_PAGE_SIZE)
+    } catch (err) {
+      setLoadMoreError(err instanceof Error ? err.message : 'Failed to load more recipes')
+    } finally {
+      setLoadingMore(false)
+    }
+  }
+
+  if (loadedRecipes.length === 0) {
     return (
       <div className="text-center py-12">
         <p className="text-muted-foreground text-lg">No recipes found</p>
-        <p className="text-muted-foreground text-sm mt-2">Get started by creating your first recipe!</p>
+        <p className="text-muted-foreground text-sm mt-2">
+          Get started by creating your first recipe!
+        </p>
+      </div>
+    )
+  }
+
+  if (recipes.length === 0 && !hasMore) {
+    return (
+      <div className="text-center py-12">
+        <p className="text-muted-foreground text-lg">No recipes match &quot;{query.trim()}&quot;</p>
+        <p className="text-muted-foreground text-sm mt-2">
+          Try a different search, or check the spelling.
+        </p>
       </div>
     )
   }
 
   return (
-    <div className="grid md:grid-cols-2 lg:grid-cols-3 gap-6">
-      {data.recipes.map((recipe) => (
-        <Card key={recipe.id} className="hover:shadow-lg transition-shadow">
-          <CardHeader>
-            <div className="flex items-start justify-between">
-              <CardTitle className="text-xl">{recipe.name}</CardTitle>
-              <Badge variant="outline">{recipe.slug}</Badge>
-            </div>
-          </CardHeader>
-          <CardContent>
-            {recipe.instructions && (
-              <CardDescription className="line-clamp-3 mb-4">
-                {recipe.instructions}
-              </CardDescription>
-            )}
-            <Separator className="my-4" />
-            <div className="flex justify-end">
-              <Button asChild variant="outline" size="sm">
-                <Link href={`/app/recipes/${recipe.slug}`}>View Recipe</Link>
-              </Button>
-            </div>
-          </CardContent>
-        </Card>
-      ))}
+    <div className="space-y-4">
+      {terms.length > 0 && (
+        <p className="text-sm text-muted-foreground">
+          {recipes.length} of {loadedRecipes.length} recipes
+        </p>
+      )}
+      <div className="grid md:grid-cols-2 lg:grid-cols-3 gap-6">
+        {visibleRecipes.map((recipe) => {
+          // Show the matching part of the instructions when the match is there
+          const snippet =
+            recipe.instructions && terms.length > 0
+              ? getMatchSnippet(recipe.instructions, terms)
+              : null
+
+          return (
+            <Card key={recipe.id} className="hover:shadow-lg transition-shadow">
+              <CardHeader>
+                <div className="flex items-start justify-between">
+                  <CardTitle className="text-xl">
+                    <HighlightedText text={recipe.name} terms={terms} />
+                  </CardTitle>
+                  <Badge variant="outline">
+                    <HighlightedText text={recipe.slug} terms={terms} />
+                  </Badge>
+                </div>
+              </CardHeader>
+              <CardContent>
+                {recipe.instructions && (
+                  <CardDescription className="line-clamp-3 mb-4">
+                    <HighlightedText text={snippet ?? recipe.instructions} terms={terms} />
+                  </CardDescription>
+                )}
+                <Separator className="my-4" />
+                <div className="flex justify-end">
+                  <Button asChild variant="outline" size="sm">
+                    <Link href={`/app/recipes/${recipe.slug}`}>View Recipe</Link>
+                  </Button>
+                </div>
+              </CardContent>
+            </Card>
+          )
+        })}
+      </div>
+
+      {/* Pagination */}
+      {loadMoreError && (
+        <div className="p-4 bg-destructive/10 border border-destructive/20 rounded-lg">
+          <p className="text-destructive text-sm font-medium">{loadMoreError}</p>
+        </div>
+      )}
+      {hasMore && (
+        <div className="flex justify-center pt-4">
+          {!loadMoreError && <InfiniteScrollTrigger onVisible={loadMore} shownCount={visibleCount} />}
+          <Button variant="outline" onClick={loadMore} disabled={loadingMore}>
+            {loadingMore ? 'Loading...' : 'Load More'}
+          </Button>
+        </div>
+      )}
+    </div>
+  )
+}
+
+// ============================================================================
+// SEARCH & SORT CONTROLS
+// ============================================================================
+
+/**
+ * Delay before the search box is written to the URL
+ */
+const SEARCH_PARAM_DEBOUNCE_MS = 300
+
+/**
+ * Search and sort controls synced to the `q` and `sort` URL parameters, so a
+ * filtered list can be bookmarked and shared
+ */
+function RecipesBrowser() {
+  const router = useRouter()
+  const pathname = usePathname()
+  const searchParams = useSearchParams()
+
+  const sortParam = searchParams.get('sort')
+  const sort = isRecipeSortKey(sortParam) ? sortParam : DEFAULT_RECIPE_SORT
+  const searchParam = searchParams.get('q') ?? ''
+  const [search, setSearch] = useState(searchParam)
+
+  const replaceParams = useCallback(
+    (changes: { q?: string; sort?: RecipeSortKey }) => {
+      // Read the live URL so a debounced search update doesn't undo a sort change
+      const params = new URLSearchParams(window.location.search)
+
+      if (changes.q !== undefined) {
+        if (changes.q.trim()) params.set('q', changes.q.trim())
+        else params.delete('q')
+      }
+      if (changes.sort !== undefined) {
+        if (changes.sort !== DEFAULT_RECIPE_SORT) params.set('sort', changes.sort)
+        else params.delete('sort')
+      }
+
+      const queryString = params.toString()
+      router.replace(queryString ? `${pathname}?${queryString}` : pathname, { scroll: false })
+    },
+    [router, pathname]
+  )
+
+  // The list filters immediately; the URL catches up once typing pauses
+  useEffect(() => {
+    if (search.trim() === searchParam) return
+
+    const timeout = setTimeout(() => replaceParams({ q: search }), SEARCH_PARAM_DEBOUNCE_MS)
+    return () => clearTimeout(timeout)
+  }, [search, searchParam, replaceParams])
+
+  return (
+    <div className="space-y-6">
+      <div className="flex gap-4 items-end flex-wrap">
+        <div className="space-y-2 flex-1 min-w-64">
+          <Label htmlFor="recipe-search">Search</Label>
+          <Input
+            id="recipe-search"
+            type="search"
+            value={search}
+            onChange={(e) => setSearch(e.target.value)}
+            placeholder="Search by name, slug or instructions..."
+          />
+        </div>
+        <div className="space-y-2">
+          <Label htmlFor="recipe-sort">Sort by</Label>
+          <Select
+            value={sort}
+            onValueChange={(value) => {
+              if (isRecipeSortKey(value)) replaceParams({ sort: value })
+            }}
+          >
+            <SelectTrigger id="recipe-sort" className="min-w-44">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {RECIPE_SORT_KEYS.map((key) => (
+                <SelectItem key={key} value={key}>
+                  {RECIPE_SORT_LABELS[key]}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+      </div>
+
+      <RecipesList query={search} sort={sort} />
     </div>
   )
 }
@@ -86,6 +361,9 @@ export default function RecipesPage() {
             <Button asChild variant="ghost">
               <Link href="/">Home</Link>
             </Button>
+            <Button asChild variant="ghost">
+              <Link href="/app/meal-plan">Meal Plan</Link>
+            </Button>
             <Button asChild variant="default">
               <Link href="/auth/login">Sign In</Link>
             </Button>
@@ -98,15 +376,17 @@ export default function RecipesPage() {
         <div className="mb-8 flex justify-between items-center">
           <div>
             <h2 className="text-4xl font-bold text-foreground mb-4">Recipes</h2>
-            <p className="text-muted-foreground text-lg">
-              Discover delicious bowl recipes
-            </p>
+            <p className="text-muted-foreground text-lg">Discover delicious bowl recipes</p>
           </div>
-          <Button asChild>
-            <Link href="/app/recipes/create">Create Recipe</Link>
-          </Button>
+          <RequireRole role="editor">
+            <Button asChild>
+              <Link href="/app/recipes/create">Create Recipe</Link>
+            </Button>
+          </RequireRole>
         </div>
 
+        <UndoDeleteBanner />
+
         <Suspense
           fallback={
             <div className="text-center py-12">
@@ -115,7 +395,7 @@ export default function RecipesPage() {
             </div>
           }
         >
-          <RecipesList />
+          <RecipesBrowser />
         </Suspense>
       </div>
     </main>
@@ -0,0 +1,61 @@
+'use client'
+
+import { useState } from 'react'
+import { Button } from '@/components/ui/button'
+
+const FALLBACK_FILE_NAME = 'account-data.zip'
+
+/**
+ * The file name the server chose in Content-Disposition
+ */
+function fileNameFromResponse(response: Response): string {
+  const disposition = response.headers.get('Content-Disposition') ?? ''
+  return disposition.match(/filename="([^"]+)"/)?.[1] ?? FALLBACK_FILE_NAME
+}
+
+/**
+ * Download the user's profile, recipes and meal plan as a ZIP of JSON files
+ */
+export function DownloadDataButton() {
+  const [isDownloading, setIsDownloading] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  const handleDownload = async () => {
+    setIsDownloading(true)
+    setError(null)
+
+    try {
+      const response = await fetch('/api/auth/account/export')
+
+      if (!response.ok) {
+        const data = await response.json()
+        throw new Error(data.error || 'Failed to download your data')
+      }
+
+      const url = URL.createObjectURL(await response.blob())
+      const link = document.createElement('a')
+      link.href = url
+      link.download = fileNameFromResponse(response)
+      link.click()
+      URL.revokeObjectURL(url)
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to download your data')
+    } finally {
+      setIsDownloading(false)
+    }
+  }
+
+  return (
+    <div className="space-y-4">
+      {error && <p className="text-destructive text-sm font-medium">{error}</p>}
+
+      <div className="flex justify-end">
+        <Button type="button" variant="outline" onClick={handleDownload} disabled={isDownloading}>
+          {isDownloading ? 'Preparing download...' : 'Download My Data'}
+        </Button>
+      </div>
+    </div>
+  )
+}
+
+export default DownloadDataButton
@@ -0,0 +1,44 @@
+'use client'
+
+import Link from 'next/link'
+import { Card, CardHeader, CardTitle, CardDescription, CardContent } from '@/components/ui/card'
+import { Button } from '@/components/ui/button'
+import { DownloadDataButton } from './components/download-data-button'
+
+// ============================================================================
+// PAGE
+// ============================================================================
+
+/**
+ * Account Settings Page
+ * Downloads everything the user has stored as a ZIP of JSON files
+ */
+export default function AccountSettingsPage() {
+  return (
+    <main className="min-h-screen bg-background px-4 py-12">
+      <div className="max-w-2xl mx-auto space-y-6">
+        <div className="flex items-center justify-between gap-4">
+          <div>
+            <h1 className="text-3xl font-bold text-foreground">Account</h1>
+            <p className="text-muted-foreground">Your data</p>
+          </div>
+          <Button asChild variant="outline">
+            <Link href="/app/dashboard">Back to Dashboard</Link>
+          </Button>
+        </div>
+
+        <Card>
+          <CardHeader>
+            <CardTitle>Download My Data</CardTitle>
+            <CardDescription>
+              A ZIP file with your profile, recipes and meal plan as JSON.
+            </CardDescription>
+          </CardHeader>
+          <CardContent>
+            <DownloadDataButton />
+          </CardContent>
+        </Card>
+      </div>
+    </main>
+  )
+}
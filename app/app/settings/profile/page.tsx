@@ -0,0 +1,126 @@
+'use client'
+
+import Link from 'next/link'
+import { useQuery } from '@apollo/client/react'
+import { gql } from '@apollo/client'
+import type { GetAccountProfileQuery } from '@/lib/graphql/generated/graphql'
+import { Card, CardHeader, CardTitle, CardContent } from '@/components/ui/card'
+import { Badge } from '@/components/ui/badge'
+import { Button } from '@/components/ui/button'
+
+// ============================================================================
+// GRAPHQL QUERY
+// ============================================================================
+
+/**
+ * Get the account details shown on the profile page
+ */
+const GET_ACCOUNT_PROFILE = gql`
+  query GetAccountProfile {
+    me {
+      id
+      email
+      firstName
+      lastName
+      emailVerified
+      status
+      lastLoginAt
+      createdAt
+    }
+  }
+`
+
+type AccountStatus = NonNullable<GetAccountProfileQuery['me']>['status']
+
+const STATUS_LABELS: Record<AccountStatus, string> = {
+  ACTIVE: 'Active',
+  INACTIVE: 'Inactive',
+  SUSPENDED: 'Suspended',
+}
+
+function formatTimestamp(value: string): string {
+  return new Date(value).toLocaleString(undefined, {
+    year: 'numeric',
+    month: 'short',
+    day: 'numeric',
+    hour: 'numeric',
+    minute: '2-digit',
+  })
+}
+
+// ============================================================================
+// PAGE
+// ============================================================================
+
+/**
+ * Profile Page
+ * Shows the current user's account details
+ */
+export default function ProfilePage() {
+  const { data, loading, error } = useQuery<GetAccountProfileQuery>(GET_ACCOUNT_PROFILE)
+  const profile = data?.me
+
+  return (
+    <main className="min-h-screen bg-background px-4 py-12">
+      <div className="max-w-2xl mx-auto space-y-6">
+        <div className="flex items-center justify-between gap-4">
+          <div>
+            <h1 className="text-3xl font-bold text-foreground">Profile</h1>
+            <p className="text-muted-foreground">Your account details</p>
+          </div>
+          <Button asChild variant="outline">
+            <Link href="/app/dashboard">Back to Dashboard</Link>
+          </Button>
+        </div>
+
+        <Card>
+          <CardHeader>
+            <CardTitle>Account</CardTitle>
+          </CardHeader>
+          <CardContent>
+            {loading && (
+              <div className="text-center py-8">
+                <div className="text-4xl mb-4">⏳</div>
+                <p className="text-muted-foreground">Loading your account...</p>
+              </div>
+            )}
+
+            {error && (
+              <p className="text-destructive text-sm font-medium">
+                {error.message || 'Failed to load your account'}
+              </p>
+            )}
+
+            {profile && (
+              <dl className="grid grid-cols-[auto_1fr] gap-x-6 gap-y-3 text-sm">
+                <dt className="text-muted-foreground">Name</dt>
+                <dd className="text-foreground">
+                  {profile.firstName} {profile.lastName}
+                </dd>
+
+                <dt className="text-muted-foreground">Email</dt>
+                <dd className="flex items-center gap-2 text-foreground">
+                  {profile.email}
+                  <Badge variant={profile.emailVerified ? 'secondary' : 'destructive'}>
+                    {profile.emailVerified ? 'Verified' : 'Not verified'}
+                  </Badge>
+                </dd>
+
+                <dt className="text-muted-foreground">Status</dt>
+                <dd className="text-foreground">{STATUS_LABELS[profile.status]}</dd>
+
+                <dt className="text-muted-foreground">Last sign-in</dt>
+                <dd className="text-foreground">
+                  {profile.lastLoginAt ? formatTimestamp(profile.lastLoginAt) : 'Never'}
+                </dd>
+
+                <dt className="text-muted-foreground">Member since</dt>
+                <dd className="text-foreground">{formatTimestamp(profile.createdAt)}</dd>
+              </dl>
+            )}
+          </CardContent>
+        </Card>
+      </div>
+    </main>
+  )
+}
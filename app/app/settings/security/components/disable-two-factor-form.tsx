@@ -0,0 +1,76 @@
+'use client'
+
+import { useState } from 'react'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import { Button } from '@/components/ui/button'
+import { csrfHeaders } from '@/lib/common/csrf'
+
+interface DisableTwoFactorFormProps {
+  onDisabled: (message: string) => void
+}
+
+/**
+ * Turn off two-factor authentication, confirmed with a current code
+ */
+export function DisableTwoFactorForm({ onDisabled }: DisableTwoFactorFormProps) {
+  const [code, setCode] = useState('')
+  const [isSaving, setIsSaving] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault()
+    setIsSaving(true)
+    setError(null)
+
+    try {
+      const response = await fetch('/api/auth/two-factor/disable', {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          ...csrfHeaders(),
+        },
+        body: JSON.stringify({ code: code.trim() }),
+      })
+      const data = await response.json()
+
+      if (!response.ok) {
+        throw new Error(data.error || 'Failed to turn off two-factor authentication')
+      }
+
+      setCode('')
+      onDisabled(data.message)
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to turn off two-factor authentication')
+    } finally {
+      setIsSaving(false)
+    }
+  }
+
+  return (
+    <form onSubmit={handleSubmit} className="space-y-4">
+      {error && <p className="text-destructive text-sm font-medium">{error}</p>}
+
+      <div className="space-y-2">
+        <Label htmlFor="disableCode">Authentication or Recovery Code</Label>
+        <Input
+          id="disableCode"
+          type="text"
+          autoComplete="one-time-code"
+          value={code}
+          onChange={(e) => setCode(e.target.value)}
+          disabled={isSaving}
+          required
+        />
+      </div>
+
+      <div className="flex justify-end">
+        <Button type="submit" variant="destructive" disabled={isSaving || !code.trim()}>
+          {isSaving ? 'Turning off...' : 'Turn Off'}
+        </Button>
+      </div>
+    </form>
+  )
+}
+
+export default DisableTwoFactorForm
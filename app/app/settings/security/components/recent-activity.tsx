@@ -0,0 +1,141 @@
+'use client'
+
+import { useEffect, useState } from 'react'
+import { Badge } from '@/components/ui/badge'
+import { Separator } from '@/components/ui/separator'
+import { describeUserAgent } from '@/lib/session/user-agent'
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+/**
+ * An audit event as returned by GET /api/auth/activity
+ */
+interface ActivityEvent {
+  id: string
+  type:
+    | 'login_succeeded'
+    | 'login_failed'
+    | 'logout'
+    | 'password_reset_requested'
+    | 'password_reset_completed'
+    | 'session_revoked'
+  occurredAt: string
+  ipAddress: string | null
+  userAgent: string | null
+  method?: 'password' | 'two_factor'
+  reason?: 'invalid_credentials' | 'invalid_two_factor_code' | 'too_many_attempts'
+  revokedCount?: number
+}
+
+const SIGN_IN_METHOD_LABELS: Record<NonNullable<ActivityEvent['method']>, string> = {
+  password: 'with password',
+  two_factor: 'with two-factor authentication',
+}
+
+const FAILURE_REASON_LABELS: Record<NonNullable<ActivityEvent['reason']>, string> = {
+  invalid_credentials: 'wrong password',
+  invalid_two_factor_code: 'wrong authentication code',
+  too_many_attempts: 'too many attempts',
+}
+
+function describeEvent(event: ActivityEvent): string {
+  switch (event.type) {
+    case 'login_succeeded':
+      return event.method ? `Signed in ${SIGN_IN_METHOD_LABELS[event.method]}` : 'Signed in'
+    case 'login_failed':
+      return event.reason
+        ? `Failed sign-in (${FAILURE_REASON_LABELS[event.reason]})`
+        : 'Failed sign-in'
+    case 'logout':
+      return 'Signed out'
+    case 'password_reset_requested':
+      return 'Password reset requested'
+    case 'password_reset_completed':
+      return 'Password reset'
+    case 'session_revoked':
+      return event.revokedCount === 1
+        ? 'Signed out 1 other session'
+        : `Signed out ${event.revokedCount ?? 0} other sessions`
+  }
+}
+
+function formatTimestamp(value: string): string {
+  return new Date(value).toLocaleString(undefined, {
+    month: 'short',
+    day: 'numeric',
+    hour: 'numeric',
+    minute: '2-digit',
+  })
+}
+
+// ============================================================================
+// COMPONENT
+// ============================================================================
+
+/**
+ * Recent sign-ins, failed sign-ins and other security events of the account
+ */
+export function RecentActivity() {
+  const [events, setEvents] = useState<ActivityEvent[] | null>(null)
+  const [error, setError] = useState<string | null>(null)
+
+  useEffect(() => {
+    const loadActivity = async () => {
+      try {
+        const response = await fetch('/api/auth/activity')
+        const data = await response.json()
+
+        if (!response.ok) {
+          throw new Error(data.error || 'Failed to load recent activity')
+        }
+
+        setEvents(data.events)
+      } catch (err) {
+        setError(err instanceof Error ? err.message : 'Failed to load recent activity')
+      }
+    }
+
+    loadActivity()
+  }, [])
+
+  if (error) {
+    return <p className="text-destructive text-sm font-medium">{error}</p>
+  }
+
+  if (events === null) {
+    return (
+      <div className="text-center py-8">
+        <div className="text-4xl mb-4">⏳</div>
+        <p className="text-muted-foreground">Loading activity...</p>
+      </div>
+    )
+  }
+
+  if (events.length === 0) {
+    return <p className="text-sm text-muted-foreground">No recent activity.</p>
+  }
+
+  return (
+    <ul className="space-y-4">
+      {events.map((event, index) => (
+        <li key={event.id} className="space-y-4">
+          {index > 0 && <Separator />}
+          <div className="space-y-1">
+            <div className="flex items-center gap-2">
+              <p className="font-medium text-foreground">{describeEvent(event)}</p>
+              {event.type === 'login_failed' && <Badge variant="destructive">Failed</Badge>}
+            </div>
+            <p className="text-sm text-muted-foreground">
+              {formatTimestamp(event.occurredAt)} · {describeUserAgent(event.userAgent)}
+              {event.ipAddress && ` from ${event.ipAddress}`}
+            </p>
+          </div>
+        </li>
+      ))}
+    </ul>
+  )
+}
+
+export default RecentActivity
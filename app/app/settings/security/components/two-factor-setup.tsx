@@ -0,0 +1,155 @@
+'use client'
+
+import { useState } from 'react'
+import Image from 'next/image'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import { Button } from '@/components/ui/button'
+import { csrfHeaders } from '@/lib/common/csrf'
+
+/**
+ * Enrollment as returned by POST /api/auth/two-factor/setup
+ */
+interface Enrollment {
+  secret: string
+  qrCodeDataUrl: string
+}
+
+interface TwoFactorSetupProps {
+  /** Called once two-factor is on; the recovery codes are shown by the caller */
+  onEnabled: (recoveryCodes: string[]) => void
+}
+
+/**
+ * Turn on two-factor authentication
+ * Shows a QR code for the authenticator app and asks for a first code.
+ */
+export function TwoFactorSetup({ onEnabled }: TwoFactorSetupProps) {
+  const [enrollment, setEnrollment] = useState<Enrollment | null>(null)
+  const [code, setCode] = useState('')
+  const [isBusy, setIsBusy] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  const handleStart = async () => {
+    setIsBusy(true)
+    setError(null)
+
+    try {
+      const response = await fetch('/api/auth/two-factor/setup', {
+        method: 'POST',
+        headers: csrfHeaders(),
+      })
+      const data = await response.json()
+
+      if (!response.ok) {
+        throw new Error(data.error || 'Failed to start setup')
+      }
+
+      setEnrollment({ secret: data.secret, qrCodeDataUrl: data.qrCodeDataUrl })
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to start setup')
+    } finally {
+      setIsBusy(false)
+    }
+  }
+
+  const handleConfirm = async (e: React.FormEvent) => {
+    e.preventDefault()
+    setIsBusy(true)
+    setError(null)
+
+    try {
+      const response = await fetch('/api/auth/two-factor/enable', {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          ...csrfHeaders(),
+        },
+        body: JSON.stringify({ code: code.trim() }),
+      })
+      const data = await response.json()
+
+      if (!response.ok) {
+        throw new Error(data.error || 'Failed to turn on two-factor authentication')
+      }
+
+      setEnrollment(null)
+      setCode('')
+      onEnabled(data.recoveryCodes)
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to turn on two-factor authentication')
+    } finally {
+      setIsBusy(false)
+    }
+  }
+
+  if (!enrollment) {
+    return (
+      <div className="space-y-4">
+        {error && <p className="text-destructive text-sm font-medium">{error}</p>}
+        <Button type="button" onClick={handleStart} disabled={isBusy}>
+          {isBusy ? 'Starting...' : 'Set Up Two-Factor Authentication'}
+        </Button>
+      </div>
+    )
+  }
+
+  return (
+    <form onSubmit={handleConfirm} className="space-y-6">
+      {error && (
+        <div className="p-4 bg-destructive/10 border border-destructive/20 rounded-lg">
+          <p className="text-destructive text-sm font-medium">{error}</p>
+        </div>
+      )}
+
+      <div className="space-y-4">
+        <p className="text-sm text-muted-foreground">
+          Scan this QR code with your authenticator app, then enter the code it shows.
+        </p>
+        <Image
+          src={enrollment.qrCodeDataUrl}
+          alt="Two-factor authentication QR code"
+          width={200}
+          height={200}
+          unoptimized
+          className="rounded-lg border border-border bg-white"
+        />
+        <p className="text-sm text-muted-foreground">
+          Can&apos;t scan it? Enter this key instead:{' '}
+          <code className="font-mono text-foreground break-all">{enrollment.secret}</code>
+        </p>
+      </div>
+
+      <div className="space-y-2">
+        <Label htmlFor="setupCode">Authentication Code</Label>
+        <Input
+          id="setupCode"
+          type="text"
+          inputMode="numeric"
+          autoComplete="one-time-code"
+          value={code}
+          onChange={(e) => setCode(e.target.value)}
+          disabled={isBusy}
+          placeholder="123456"
+          required
+        />
+      </div>
+
+      <div className="flex justify-end gap-2">
+        <Button
+          type="button"
+          variant="outline"
+          onClick={() => setEnrollment(null)}
+          disabled={isBusy}
+        >
+          Cancel
+        </Button>
+        <Button type="submit" disabled={isBusy || !code.trim()}>
+          {isBusy ? 'Verifying...' : 'Turn On'}
+        </Button>
+      </div>
+    </form>
+  )
+}
+
+export default TwoFactorSetup
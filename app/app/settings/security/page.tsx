@@ -0,0 +1,159 @@
+'use client'
+
+import { useCallback, useEffect, useState } from 'react'
+import Link from 'next/link'
+import { Card, CardHeader, CardTitle, CardDescription, CardContent } from '@/components/ui/card'
+import { Badge } from '@/components/ui/badge'
+import { Button } from '@/components/ui/button'
+import { TwoFactorSetup } from './components/two-factor-setup'
+import { DisableTwoFactorForm } from './components/disable-two-factor-form'
+import { RecentActivity } from './components/recent-activity'
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+/**
+ * Two-factor status as returned by GET /api/auth/two-factor
+ */
+interface TwoFactorStatus {
+  enabled: boolean
+  recoveryCodesRemaining: number
+}
+
+// ============================================================================
+// PAGE
+// ============================================================================
+
+/**
+ * Security Settings Page
+ * Turns two-factor authentication on and off. Recovery codes are shown once,
+ * right after setup; the server only keeps their hashes. Below, recent
+ * sign-ins and other security events help spot activity that wasn't the user.
+ */
+export default function SecuritySettingsPage() {
+  const [status, setStatus] = useState<TwoFactorStatus | null>(null)
+  const [recoveryCodes, setRecoveryCodes] = useState<string[] | null>(null)
+  const [error, setError] = useState<string | null>(null)
+  const [message, setMessage] = useState<string | null>(null)
+
+  const loadStatus = useCallback(async () => {
+    try {
+      const response = await fetch('/api/auth/two-factor')
+      const data = await response.json()
+
+      if (!response.ok) {
+        throw new Error(data.error || 'Failed to load two-factor status')
+      }
+
+      setStatus({ enabled: data.enabled, recoveryCodesRemaining: data.recoveryCodesRemaining })
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to load two-factor status')
+    }
+  }, [])
+
+  useEffect(() => {
+    loadStatus()
+  }, [loadStatus])
+
+  const handleEnabled = (codes: string[]) => {
+    setMessage('Two-factor authentication turned on')
+    setRecoveryCodes(codes)
+    setStatus({ enabled: true, recoveryCodesRemaining: codes.length })
+  }
+
+  const handleDisabled = (confirmation: string) => {
+    setMessage(confirmation)
+    setRecoveryCodes(null)
+    setStatus({ enabled: false, recoveryCodesRemaining: 0 })
+  }
+
+  return (
+    <main className="min-h-screen bg-background px-4 py-12">
+      <div className="max-w-2xl mx-auto space-y-6">
+        <div className="flex items-center justify-between gap-4">
+          <div>
+            <h1 className="text-3xl font-bold text-foreground">Security</h1>
+            <p className="text-muted-foreground">Protect your account with a second step</p>
+          </div>
+          <Button asChild variant="outline">
+            <Link href="/app/dashboard">Back to Dashboard</Link>
+          </Button>
+        </div>
+
+        {message && (
+          <div className="p-4 bg-primary/10 border border-primary/20 rounded-lg" role="status">
+            <p className="text-sm text-foreground">{message}</p>
+          </div>
+        )}
+        {error && <p className="text-destructive text-sm font-medium">{error}</p>}
+
+        <Card>
+          <CardHeader>
+            <div className="flex items-center gap-2">
+              <CardTitle>Two-Factor Authentication</CardTitle>
+              {status && (
+                <Badge variant={status.enabled ? 'default' : 'secondary'}>
+                  {status.enabled ? 'On' : 'Off'}
+                </Badge>
+              )}
+            </div>
+            <CardDescription>
+              Signing in asks for a code from an authenticator app after your password.
+            </CardDescription>
+          </CardHeader>
+          <CardContent>
+            {status === null && !error && (
+              <div className="text-center py-8">
+                <div className="text-4xl mb-4">⏳</div>
+                <p className="text-muted-foreground">Loading...</p>
+              </div>
+            )}
+
+            {status && !status.enabled && <TwoFactorSetup onEnabled={handleEnabled} />}
+
+            {status?.enabled && (
+              <div className="space-y-6">
+                {recoveryCodes && (
+                  <div className="space-y-2">
+                    <p className="text-sm font-medium text-foreground">Recovery codes</p>
+                    <p className="text-sm text-muted-foreground">
+                      Save these somewhere safe. Each one signs you in once if you lose your
+                      authenticator app. They won&apos;t be shown again.
+                    </p>
+                    <ul className="grid grid-cols-2 gap-2 p-4 bg-muted rounded-lg font-mono text-sm">
+                      {recoveryCodes.map((code) => (
+                        <li key={code}>{code}</li>
+                      ))}
+                    </ul>
+                  </div>
+                )}
+
+                {!recoveryCodes && (
+                  <p className="text-sm text-muted-foreground">
+                    {status.recoveryCodesRemaining} recovery codes left.
+                  </p>
+                )}
+
+                <DisableTwoFactorForm onDisabled={handleDisabled} />
+              </div>
+            )}
+          </CardContent>
+        </Card>
+
+        <Card>
+          <CardHeader>
+            <CardTitle>Recent Security Activity</CardTitle>
+            <CardDescription>
+              If you see a sign-in you don&apos;t recognize, reset your password and sign out your
+              other sessions.
+            </CardDescription>
+          </CardHeader>
+          <CardContent>
+            <RecentActivity />
+          </CardContent>
+        </Card>
+      </div>
+    </main>
+  )
+}
@@ -0,0 +1,98 @@
+'use client'
+
+import { useState } from 'react'
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+  AlertDialogTrigger,
+} from '@/components/ui/alert-dialog'
+import { Button } from '@/components/ui/button'
+import { csrfHeaders } from '@/lib/common/csrf'
+
+interface SignOutOtherSessionsButtonProps {
+  otherSessionCount: number
+  /** Called with the server's confirmation message */
+  onSignedOut: (message: string) => void
+}
+
+/**
+ * "Sign out everywhere else" action, confirmed in a dialog
+ */
+export function SignOutOtherSessionsButton({
+  otherSessionCount,
+  onSignedOut,
+}: SignOutOtherSessionsButtonProps) {
+  const [open, setOpen] = useState(false)
+  const [isSigningOut, setIsSigningOut] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  const handleOpenChange = (nextOpen: boolean) => {
+    if (isSigningOut) return
+    setOpen(nextOpen)
+    setError(null)
+  }
+
+  const handleSignOut = async (e: React.MouseEvent) => {
+    // Keep the dialog open until the request finishes so errors stay visible
+    e.preventDefault()
+    setIsSigningOut(true)
+    setError(null)
+
+    try {
+      const response = await fetch('/api/auth/sessions/revoke-others', {
+        method: 'POST',
+        headers: csrfHeaders(),
+      })
+      const data = await response.json()
+
+      if (!response.ok) {
+        throw new Error(data.error || 'Failed to sign out other sessions')
+      }
+
+      setOpen(false)
+      onSignedOut(data.message)
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to sign out other sessions')
+    } finally {
+      setIsSigningOut(false)
+    }
+  }
+
+  return (
+    <AlertDialog open={open} onOpenChange={handleOpenChange}>
+      <AlertDialogTrigger asChild>
+        <Button type="button" variant="destructive" disabled={otherSessionCount === 0}>
+          Sign Out Everywhere Else
+        </Button>
+      </AlertDialogTrigger>
+      <AlertDialogContent>
+        <AlertDialogHeader>
+          <AlertDialogTitle>Sign out everywhere else?</AlertDialogTitle>
+          <AlertDialogDescription>
+            {otherSessionCount === 1
+              ? 'Your other session will be signed out.'
+              : `Your ${otherSessionCount} other sessions will be signed out.`}{' '}
+            This device stays signed in.
+          </AlertDialogDescription>
+        </AlertDialogHeader>
+
+        {error && <p className="text-destructive text-sm font-medium">{error}</p>}
+
+        <AlertDialogFooter>
+          <AlertDialogCancel disabled={isSigningOut}>Cancel</AlertDialogCancel>
+          <AlertDialogAction variant="destructive" onClick={handleSignOut} disabled={isSigningOut}>
+            {isSigningOut ? 'Signing out...' : 'Sign Out'}
+          </AlertDialogAction>
+        </AlertDialogFooter>
+      </AlertDialogContent>
+    </AlertDialog>
+  )
+}
+
+export default SignOutOtherSessionsButton
@@ -0,0 +1,191 @@
+'use client'
+
+import { useCallback, useEffect, useState } from 'react'
+import Link from 'next/link'
+import { Card, CardHeader, CardTitle, CardDescription, CardContent } from '@/components/ui/card'
+import { Badge } from '@/components/ui/badge'
+import { Button } from '@/components/ui/button'
+import { Separator } from '@/components/ui/separator'
+import { describeUserAgent } from '@/lib/session/user-agent'
+import { SignOutOtherSessionsButton } from './components/sign-out-other-sessions-button'
+import { csrfHeaders } from '@/lib/common/csrf'
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+/**
+ * A session as returned by GET /api/auth/sessions
+ */
+interface ActiveSession {
+  id: string
+  current: boolean
+  createdAt: string
+  lastAccessedAt: string
+  userAgent: string | null
+  ipAddress: string | null
+}
+
+function formatTimestamp(value: string): string {
+  return new Date(value).toLocaleString(undefined, {
+    month: 'short',
+    day: 'numeric',
+    hour: 'numeric',
+    minute: '2-digit',
+  })
+}
+
+// ============================================================================
+// PAGE
+// ============================================================================
+
+/**
+ * Active Sessions Page
+ * Lists every signed-in session of the current user and lets them sign out
+ * other devices, one at a time or all at once.
+ */
+export default function ActiveSessionsPage() {
+  const [sessions, setSessions] = useState<ActiveSession[] | null>(null)
+  const [error, setError] = useState<string | null>(null)
+  const [message, setMessage] = useState<string | null>(null)
+  const [revokingId, setRevokingId] = useState<string | null>(null)
+
+  const loadSessions = useCallback(async () => {
+    try {
+      const response = await fetch('/api/auth/sessions')
+      const data = await response.json()
+
+      if (!response.ok) {
+        throw new Error(data.error || 'Failed to load sessions')
+      }
+
+      setSessions(data.sessions)
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to load sessions')
+    }
+  }, [])
+
+  useEffect(() => {
+    loadSessions()
+  }, [loadSessions])
+
+  const handleRevoke = async (sessionId: string) => {
+    setRevokingId(sessionId)
+    setError(null)
+    setMessage(null)
+
+    try {
+      const response = await fetch(`/api/auth/sessions/${encodeURIComponent(sessionId)}`, {
+        method: 'DELETE',
+        headers: csrfHeaders(),
+      })
+      const data = await response.json()
+
+      if (!response.ok) {
+        throw new Error(data.error || 'Failed to sign out session')
+      }
+
+      setMessage(data.message)
+      setSessions((current) => current?.filter((session) => session.id !== sessionId) ?? null)
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to sign out session')
+    } finally {
+      setRevokingId(null)
+    }
+  }
+
+  const handleSignedOutOthers = (confirmation: string) => {
+    setError(null)
+    setMessage(confirmation)
+    loadSessions()
+  }
+
+  const otherSessionCount = sessions?.filter((session) => !session.current).length ?? 0
+
+  return (
+    <main className="min-h-screen bg-background px-4 py-12">
+      <div className="max-w-2xl mx-auto space-y-6">
+        <div className="flex items-center justify-between gap-4">
+          <div>
+            <h1 className="text-3xl font-bold text-foreground">Active Sessions</h1>
+            <p className="text-muted-foreground">Devices where you are signed in</p>
+          </div>
+          <Button asChild variant="outline">
+            <Link href="/app/dashboard">Back to Dashboard</Link>
+          </Button>
+        </div>
+
+        {message && (
+          <div className="p-4 bg-primary/10 border border-primary/20 rounded-lg" role="status">
+            <p className="text-sm text-foreground">{message}</p>
+          </div>
+        )}
+        {error && <p className="text-destructive text-sm font-medium">{error}</p>}
+
+        <Card>
+          <CardHeader>
+            <CardTitle>Sessions</CardTitle>
+            <CardDescription>
+              If you don&apos;t recognize a session, sign it out and change your password.
+            </CardDescription>
+          </CardHeader>
+          <CardContent>
+            {sessions === null && !error && (
+              <div className="text-center py-8">
+                <div className="text-4xl mb-4">⏳</div>
+                <p className="text-muted-foreground">Loading sessions...</p>
+              </div>
+            )}
+
+            {sessions && (
+              <ul className="space-y-4">
+                {sessions.map((session, index) => (
+                  <li key={session.id} className="space-y-4">
+                    {index > 0 && <Separator />}
+                    <div className="flex items-start justify-between gap-4">
+                      <div className="space-y-1">
+                        <div className="flex items-center gap-2">
+                          <p className="font-medium text-foreground">
+                            {describeUserAgent(session.userAgent)}
+                          </p>
+                          {session.current && <Badge variant="secondary">This device</Badge>}
+                        </div>
+                        <p className="text-sm text-muted-foreground">
+                          Signed in {formatTimestamp(session.createdAt)}
+                          {session.ipAddress && ` from ${session.ipAddress}`}
+                        </p>
+                        <p className="text-sm text-muted-foreground">
+                          Last active {formatTimestamp(session.lastAccessedAt)}
+                        </p>
+                      </div>
+                      {!session.current && (
+                        <Button
+                          type="button"
+                          variant="outline"
+                          size="sm"
+                          onClick={() => handleRevoke(session.id)}
+                          disabled={revokingId !== null}
+                        >
+                          {revokingId === session.id ? 'Signing out...' : 'Sign Out'}
+                        </Button>
+                      )}
+                    </div>
+                  </li>
+                ))}
+              </ul>
+            )}
+          </CardContent>
+        </Card>
+
+        {sessions && (
+          <div className="flex justify-end">
+            <SignOutOtherSessionsButton
+              otherSessionCount={otherSessionCount}
+              onSignedOut={handleSignedOutOthers}
+            />
+          </div>
+        )}
+      </div>
+    </main>
+  )
+}
@@ -0,0 +1,373 @@
+'use client'
+
+import { Suspense, useEffect, useState } from 'react'
+import { useSuspenseQuery } from '@apollo/client/react'
+import { gql } from '@apollo/client'
+import type {
+  GetShoppingListMealPlanQuery,
+  GetShoppingListMealPlanQueryVariables,
+} from '@/lib/graphql/generated/graphql'
+import {
+  formatDateRangeLabel,
+  getWeekRange,
+  getWeekStart,
+  parseIsoDate,
+  validateMealPlanRange,
+} from '@/lib/meal-plan/week'
+import {
+  buildShoppingList,
+  collectScheduledRecipes,
+  formatShoppingListAmounts,
+  formatShoppingListText,
+} from '@/lib/meal-plan/shopping-list'
+import { Card, CardContent } from '@/components/ui/card'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import { cn } from '@/lib/utils'
+import Link from 'next/link'
+
+// ============================================================================
+// GRAPHQL QUERIES
+// ============================================================================
+
+/**
+ * Get the recipes (with instructions) scheduled in a date range
+ */
+const GET_SHOPPING_LIST_MEAL_PLAN = gql`
+  query GetShoppingListMealPlan($input: MealPlanRangeInput!) {
+    mealPlanRange(input: $input) {
+      date
+      entries {
+        id
+        mealType
+        recipe {
+          id
+          name
+          slug
+          instructions
+        }
+      }
+    }
+  }
+`
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+interface DateRange {
+  startDateInclusive: string
+  endDateInclusive: string
+}
+
+// ============================================================================
+// HELPERS
+// ============================================================================
+
+function describeRange(range: DateRange): string {
+  const start = parseIsoDate(range.startDateInclusive)
+  const end = parseIsoDate(range.endDateInclusive)
+  return start && end
+    ? formatDateRangeLabel(start, end)
+    : `${range.startDateInclusive} – ${range.endDateInclusive}`
+}
+
+function checkedStorageKey(range: DateRange): string {
+  return `shopping-list:${range.startDateInclusive}:${range.endDateInclusive}`
+}
+
+/**
+ * Checked items are remembered per range so the list survives a reload
+ * while shopping
+ */
+function useCheckedItems(range: DateRange) {
+  const storageKey = checkedStorageKey(range)
+  const [checkedKeys, setCheckedKeys] = useState<Set<string>>(new Set())
+
+  useEffect(() => {
+    try {
+      const stored = window.localStorage.getItem(storageKey)
+      setCheckedKeys(new Set(stored ? (JSON.parse(stored) as string[]) : []))
+    } catch {
+      setCheckedKeys(new Set())
+    }
+  }, [storageKey])
+
+  const update = (next: Set<string>) => {
+    setCheckedKeys(next)
+    try {
+      window.localStorage.setItem(storageKey, JSON.stringify(Array.from(next)))
+    } catch {
+      // Storage unavailable (private mode), keep in-memory state only
+    }
+  }
+
+  const toggle = (key: string) => {
+    const next = new Set(checkedKeys)
+    if (next.has(key)) {
+      next.delete(key)
+    } else {
+      next.add(key)
+    }
+    update(next)
+  }
+
+  return { checkedKeys, toggle, clear: () => update(new Set()) }
+}
+
+// ============================================================================
+// SHOPPING LIST
+// ============================================================================
+
+interface ShoppingListContentProps {
+  range: DateRange
+}
+
+function ShoppingListContent({ range }: ShoppingListContentProps) {
+  const { data } = useSuspenseQuery<
+    GetShoppingListMealPlanQuery,
+    GetShoppingListMealPlanQueryVariables
+  >(GET_SHOPPING_LIST_MEAL_PLAN, {
+    variables: { input: range },
+  })
+  const { checkedKeys, toggle, clear } = useCheckedItems(range)
+  const [copied, setCopied] = useState(false)
+
+  const scheduledRecipes = collectScheduledRecipes(data?.mealPlanRange ?? [])
+  const { items, recipesWithoutIngredients } = buildShoppingList(scheduledRecipes)
+  const title = `Shopping list for ${describeRange(range)}`
+
+  const handleCopy = async () => {
+    try {
+      await navigator.clipboard.writeText(formatShoppingListText(items, { title, checkedKeys }))
+      setCopied(true)
+      setTimeout(() => setCopied(false), 2000)
+    } catch {
+      setCopied(false)
+    }
+  }
+
+  const handleDownload = () => {
+    const text = formatShoppingListText(items, { title, checkedKeys })
+    const url = URL.createObjectURL(new Blob([text], { type: 'text/plain;charset=utf-8' }))
+    const link = document.createElement('a')
+    link.href = url
+    link.download = `shopping-list-${range.startDateInclusive}-to-${range.endDateInclusive}.txt`
+    link.click()
+    URL.revokeObjectURL(url)
+  }
+
+  if (scheduledRecipes.length === 0) {
+    return (
+      <div className="text-center py-12">
+        <div className="text-6xl mb-4">🛒</div>
+        <h3 className="text-2xl font-semibold text-foreground mb-2">Nothing planned</h3>
+        <p className="text-muted-foreground mb-6">No recipes are scheduled between these dates.</p>
+        <Button asChild size="lg">
+          <Link href="/app/meal-plan">Plan Some Meals</Link>
+        </Button>
+      </div>
+    )
+  }
+
+  return (
+    <div className="space-y-6">
+      <div className="flex justify-between items-start gap-4 flex-wrap">
+        <div>
+          <h3 className="text-xl font-semibold text-foreground">{title}</h3>
+          <p className="text-sm text-muted-foreground">
+            {items.length} {items.length === 1 ? 'item' : 'items'} from {scheduledRecipes.length}{' '}
+            {scheduledRecipes.length === 1 ? 'recipe' : 'recipes'}
+            {checkedKeys.size > 0 && ` · ${checkedKeys.size} checked`}
+          </p>
+        </div>
+        <div className="flex gap-2 print:hidden">
+          <Button variant="outline" size="sm" onClick={handleCopy} disabled={items.length === 0}>
+            {copied ? 'Copied!' : 'Copy as Text'}
+          </Button>
+          <Button
+            variant="outline"
+            size="sm"
+            onClick={handleDownload}
+            disabled={items.length === 0}
+          >
+            Download .txt
+          </Button>
+          <Button variant="outline" size="sm" onClick={() => window.print()}>
+            Print
+          </Button>
+          {checkedKeys.size > 0 && (
+            <Button variant="ghost" size="sm" onClick={clear}>
+              Uncheck All
+            </Button>
+          )}
+        </div>
+      </div>
+
+      {items.length > 0 && (
+        <ul className="divide-y divide-border">
+          {items.map((item) => {
+            const checked = checkedKeys.has(item.key)
+            const amounts = formatShoppingListAmounts(item)
+            return (
+              <li key={item.key} className="py-3 break-inside-avoid">
+                <label className="flex items-start gap-3 cursor-pointer">
+                  <input
+                    type="checkbox"
+                    checked={checked}
+                    onChange={() => toggle(item.key)}
+                    className="mt-1 size-4 accent-primary"
+                  />
+                  <span className="flex-1">
+                    <span
+                      className={cn(
+                        'text-foreground',
+                        checked && 'line-through text-muted-foreground'
+                      )}
+                    >
+                      {amounts && <span className="font-semibold">{amounts} </span>}
+                      {item.name}
+                      {item.notes.length > 0 && (
+                        <span className="text-muted-foreground"> ({item.notes.join('; ')})</span>
+                      )}
+                    </span>
+                    <span className="block text-xs text-muted-foreground print:hidden">
+                      {item.recipes.join(', ')}
+                    </span>
+                  </span>
+                </label>
+              </li>
+            )
+          })}
+        </ul>
+      )}
+
+      {recipesWithoutIngredients.length > 0 && (
+        <div className="p-4 bg-muted rounded-lg print:hidden">
+          <p className="text-sm font-medium text-foreground mb-2">
+            No ingredients found for these recipes
+          </p>
+          <p className="text-sm text-muted-foreground mb-3">
+            Add ingredients with the recipe editor, or list them under an &quot;Ingredients&quot;
+            heading in the instructions (e.g. &quot;- 2 cups rice&quot;), to include them here.
+          </p>
+          <ul className="space-y-1">
+            {recipesWithoutIngredients.map((recipe) => (
+              <li key={recipe.slug} className="text-sm">
+                <Link
+                  href={`/app/recipes/edit/${recipe.slug}`}
+                  className="text-primary hover:underline"
+                >
+                  {recipe.name}
+                </Link>
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+    </div>
+  )
+}
+
+// ============================================================================
+// PAGE
+// ============================================================================
+
+export default function ShoppingListPage() {
+  const [range, setRange] = useState<DateRange>(() => getWeekRange(getWeekStart(new Date())))
+  const [startDate, setStartDate] = useState(range.startDateInclusive)
+  const [endDate, setEndDate] = useState(range.endDateInclusive)
+  const [error, setError] = useState<string | null>(null)
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault()
+
+    const validationError = validateMealPlanRange(startDate, endDate)
+    setError(validationError)
+    if (validationError) return
+
+    setRange({ startDateInclusive: startDate, endDateInclusive: endDate })
+  }
+
+  return (
+    <main className="min-h-screen bg-background">
+      {/* Navigation */}
+      <nav className="bg-card backdrop-blur-md border-b border-border print:hidden">
+        <div className="max-w-7xl mx-auto px-6 py-4 flex justify-between items-center">
+          <Link href="/">
+            <h1 className="text-2xl font-bold text-foreground">Roll a Bowl</h1>
+          </Link>
+          <div className="flex gap-4 items-center">
+            <Button asChild variant="ghost">
+              <Link href="/app/recipes">Recipes</Link>
+            </Button>
+            <Button asChild variant="ghost">
+              <Link href="/app/meal-plan">Meal Plan</Link>
+            </Button>
+            <Button asChild variant="default">
+              <Link href="/auth/login">Sign In</Link>
+            </Button>
+          </div>
+        </div>
+      </nav>
+
+      {/* Content */}
+      <div className="max-w-3xl mx-auto px-6 py-12 print:p-0">
+        <div className="mb-8 print:hidden">
+          <h2 className="text-4xl font-bold text-foreground mb-4">Shopping List</h2>
+          <p className="text-muted-foreground text-lg">
+            Everything you need for the meals planned between two dates
+          </p>
+        </div>
+
+        {/* Range Form */}
+        <form onSubmit={handleSubmit} className="mb-6 flex gap-4 items-end flex-wrap print:hidden">
+          <div className="space-y-2">
+            <Label htmlFor="start-date">From</Label>
+            <Input
+              id="start-date"
+              type="date"
+              value={startDate}
+              onChange={(e) => setStartDate(e.target.value)}
+              required
+            />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="end-date">To</Label>
+            <Input
+              id="end-date"
+              type="date"
+              value={endDate}
+              onChange={(e) => setEndDate(e.target.value)}
+              required
+            />
+          </div>
+          <Button type="submit">Build List</Button>
+        </form>
+
+        {/* Error Message */}
+        {error && (
+          <div className="mb-6 p-4 bg-destructive/10 border border-destructive/20 rounded-lg print:hidden">
+            <p className="text-destructive text-sm font-medium">{error}</p>
+          </div>
+        )}
+
+        <Card className="print:border-0 print:shadow-none">
+          <CardContent>
+            <Suspense
+              fallback={
+                <div className="text-center py-12">
+                  <div className="inline-block animate-spin text-4xl mb-4">⏳</div>
+                  <p className="text-muted-foreground">Loading shopping list...</p>
+                </div>
+              }
+            >
+              <ShoppingListContent range={range} />
+            </Suspense>
+          </CardContent>
+        </Card>
+      </div>
+    </main>
+  )
+}
@@ -0,0 +1,147 @@
+'use client'
+
+import { useState, Suspense } from 'react'
+import { useSearchParams } from 'next/navigation'
+import Link from 'next/link'
+import { useAuth } from '@/hooks/useAuth'
+
+function TwoFactorContent() {
+  const searchParams = useSearchParams()
+  const { verifyTwoFactor, isLoading, error, clearError } = useAuth()
+
+  const [code, setCode] = useState('')
+  const [useRecoveryCode, setUseRecoveryCode] = useState(false)
+  const [localError, setLocalError] = useState<string | null>(null)
+
+  const redirect = searchParams.get('redirect') || '/dashboard'
+
+  const handleSubmit = async (e: React.FormEvent<HTMLFormElement>) => {
+    e.preventDefault()
+    setLocalError(null)
+    clearError()
+
+    if (!code.trim()) {
+      setLocalError(useRecoveryCode ? 'Please enter a recovery code' : 'Please enter your code')
+      return
+    }
+
+    try {
+      await verifyTwoFactor(code.trim())
+      // Use window.location for hard redirect to ensure cookie is included
+      window.location.href = redirect
+    } catch (err) {
+      setLocalError(err instanceof Error ? err.message : 'Verification failed. Please try again.')
+      setCode('')
+    }
+  }
+
+  const toggleRecoveryCode = () => {
+    setUseRecoveryCode(!useRecoveryCode)
+    setCode('')
+    setLocalError(null)
+    clearError()
+  }
+
+  const displayError = localError || error
+
+  return (
+    <main className="min-h-screen bg-background flex items-center justify-center px-4">
+      <div className="w-full max-w-md">
+        {/* Card */}
+        <div className="bg-card border border-border rounded-lg p-8 shadow-lg">
+          {/* Header */}
+          <div className="text-center mb-8">
+            <h1 className="text-3xl font-bold text-foreground mb-2">Two-Factor Authentication</h1>
+            <p className="text-muted-foreground">
+              {useRecoveryCode
+                ? 'Enter one of your recovery codes'
+                : 'Enter the 6-digit code from your authenticator app'}
+            </p>
+          </div>
+
+          {/* Error Message */}
+          {displayError && (
+            <div className="mb-6 p-4 bg-destructive/10 border border-destructive/20 rounded-lg">
+              <p className="text-destructive text-sm font-medium">{displayError}</p>
+            </div>
+          )}
+
+          {/* Form */}
+          <form onSubmit={handleSubmit} className="space-y-6">
+            <div>
+              <label htmlFor="code" className="block text-sm font-medium text-foreground mb-2">
+                {useRecoveryCode ? 'Recovery Code' : 'Authentication Code'}
+              </label>
+              <input
+                id="code"
+                type="text"
+                value={code}
+                onChange={(e) => setCode(e.target.value)}
+                placeholder={useRecoveryCode ? 'xxxxx-xxxxx' : '123456'}
+                inputMode={useRecoveryCode ? 'text' : 'numeric'}
+                autoComplete="one-time-code"
+                autoFocus
+                disabled={isLoading}
+                className="w-full px-4 py-3 bg-border border border-input rounded-lg text-foreground placeholder-muted-foreground placeholder-opacity-50 focus:outline-none focus:border-opacity-40 focus:bg-opacity-20 transition-all disabled:opacity-50"
+              />
+            </div>
+
+            {/* Submit Button */}
+            <button
+              type="submit"
+              disabled={isLoading}
+              className="w-full px-4 py-3 bg-primary hover:bg-primary/90 text-foreground font-semibold rounded-lg transition-all transform hover:scale-105 disabled:opacity-50 disabled:cursor-not-allowed disabled:hover:scale-100 shadow-lg"
+            >
+              {isLoading ? (
+                <span className="flex items-center justify-center">
+                  <span className="inline-block animate-spin mr-2">⏳</span>
+                  Verifying...
+                </span>
+              ) : (
+                'Verify'
+              )}
+            </button>
+          </form>
+
+          {/* Footer Links */}
+          <div className="mt-6 space-y-3 text-center">
+            <div>
+              <button
+                type="button"
+                onClick={toggleRecoveryCode}
+                className="text-primary hover:text-muted-foreground transition-colors text-sm"
+              >
+                {useRecoveryCode ? 'Use your authenticator app' : 'Use a recovery code'}
+              </button>
+            </div>
+            <div>
+              <Link
+                href="/auth/login"
+                className="text-primary hover:text-muted-foreground transition-colors text-sm"
+              >
+                Back to sign in
+              </Link>
+            </div>
+          </div>
+        </div>
+      </div>
+    </main>
+  )
+}
+
+export default function TwoFactorPage() {
+  return (
+    <Suspense
+      fallback={
+        <main className="min-h-screen bg-background flex items-center justify-center px-4">
+          <div className="text-foreground text-center">
+            <div className="inline-block animate-spin text-4xl mb-4">⏳</div>
+            <p>Loading...</p>
+          </div>
+        </main>
+      }
+    >
+      <TwoFactorContent />
+    </Suspense>
+  )
+}
@@ -4,6 +4,7 @@ import { useState, Suspense } from 'react'
 import { useSearchParams } from 'next/navigation'
 import Link from 'next/link'
 import { useAuth } from '@/hooks/useAuth'
+import { SESSION_EXPIRED_REASON } from '@/lib/session/idle-timeout'
 
 function LoginContent() {
   const searchParams = useSearchParams()
@@ -14,6 +15,7 @@ function LoginContent() {
   const [localError, setLocalError] = useState<string | null>(null)
 
   const redirect = searchParams.get('redirect') || '/dashboard'
+  const sessionExpired = searchParams.get('reason') === SESSION_EXPIRED_REASON
 
   const handleSubmit = async (e: React.FormEvent<HTMLFormElement>) => {
     e.preventDefault()
@@ -32,7 +34,11 @@ function LoginContent() {
     }
 
     try {
-      await login(email, password)
+      const { twoFactorRequired } = await login(email, password)
+      if (twoFactorRequired) {
+        window.location.href = `/auth/login/2fa?redirect=${encodeURIComponent(redirect)}`
+        return
+      }
       // Use window.location for hard redirect to ensure cookie is included
       window.location.href = redirect
     } catch (err) {
@@ -53,6 +59,15 @@ function LoginContent() {
             <p className="text-muted-foreground">Sign in to your account</p>
           </div>
 
+          {/* Session Expired Notice */}
+          {sessionExpired && !displayError && (
+            <div className="mb-6 p-4 bg-primary/10 border border-primary/20 rounded-lg" role="status">
+              <p className="text-foreground text-sm font-medium">
+                Your session has expired. Please sign in again.
+              </p>
+            </div>
+          )}
+
           {/* Error Message */}
           {displayError && (
             <div className="mb-6 p-4 bg-destructive/10 border border-destructive/20 rounded-lg">
@@ -0,0 +1,117 @@
+'use client'
+
+import { useState, useEffect, useRef, Suspense } from 'react'
+import { useSearchParams } from 'next/navigation'
+import Link from 'next/link'
+import { csrfHeaders } from '@/lib/common/csrf'
+
+/**
+ * Landing page of the "this wasn't me" link in the new device sign-in email:
+ * signs the new device out and emails a password reset link
+ */
+function NotMeContent() {
+  const searchParams = useSearchParams()
+  const token = searchParams.get('token')
+  const [message, setMessage] = useState<string | null>(null)
+  const [error, setError] = useState<string | null>(
+    token ? null : 'This link is incomplete. Please use the link from your email.'
+  )
+
+  // Links are single-use, so make sure the request is only sent once
+  const requestedToken = useRef<string | null>(null)
+
+  useEffect(() => {
+    if (!token || requestedToken.current === token) return
+    requestedToken.current = token
+
+    const reportSignIn = async () => {
+      try {
+        const response = await fetch('/api/auth/not-me', {
+          method: 'POST',
+          headers: { 'Content-Type': 'application/json', ...csrfHeaders() },
+          body: JSON.stringify({ token }),
+        })
+        const data = await response.json()
+
+        if (!response.ok) {
+          throw new Error(data.error || 'Failed to sign the device out')
+        }
+
+        setMessage(data.message)
+      } catch (err) {
+        setError(err instanceof Error ? err.message : 'Failed to sign the device out')
+      }
+    }
+
+    reportSignIn()
+  }, [token])
+
+  if (!message && !error) {
+    return (
+      <main className="min-h-screen bg-background flex items-center justify-center px-4">
+        <div className="text-foreground text-center">
+          <div className="inline-block animate-spin text-4xl mb-4">⏳</div>
+          <p>Signing the device out...</p>
+        </div>
+      </main>
+    )
+  }
+
+  return (
+    <main className="min-h-screen bg-background flex items-center justify-center px-4">
+      <div className="w-full max-w-md">
+        {/* Card */}
+        <div className="bg-card border border-border rounded-lg p-8 shadow-lg">
+          {/* Header */}
+          <div className="text-center mb-6">
+            <h1 className="text-3xl font-bold text-foreground mb-2">
+              {message ? 'Device Signed Out' : 'Link Not Valid'}
+            </h1>
+            {message && (
+              <p className="text-muted-foreground">
+                Choose a new password with the link we emailed you to secure your account.
+              </p>
+            )}
+          </div>
+
+          {/* Result Message */}
+          {message && (
+            <div className="mb-6 p-4 bg-primary/10 border border-primary/20 rounded-lg">
+              <p className="text-foreground text-sm font-medium">{message}</p>
+            </div>
+          )}
+          {error && (
+            <div className="mb-6 p-4 bg-destructive/10 border border-destructive/20 rounded-lg">
+              <p className="text-destructive text-sm font-medium">{error}</p>
+            </div>
+          )}
+
+          {/* Actions */}
+          <Link
+            href="/auth/login"
+            className="block w-full px-4 py-3 bg-primary hover:bg-primary/90 text-foreground font-semibold rounded-lg transition-all transform hover:scale-105 shadow-lg text-center"
+          >
+            Sign In
+          </Link>
+        </div>
+      </div>
+    </main>
+  )
+}
+
+export default function NotMePage() {
+  return (
+    <Suspense
+      fallback={
+        <main className="min-h-screen bg-background flex items-center justify-center px-4">
+          <div className="text-foreground text-center">
+            <div className="inline-block animate-spin text-4xl mb-4">⏳</div>
+            <p>Loading...</p>
+          </div>
+        </main>
+      }
+    >
+      <NotMeContent />
+    </Suspense>
+  )
+}
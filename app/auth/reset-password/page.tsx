@@ -3,11 +3,15 @@
 import { useState, useEffect, Suspense } from 'react'
 import { useSearchParams, useRouter } from 'next/navigation'
 import Link from 'next/link'
+import { csrfHeaders } from '@/lib/common/csrf'
+import { checkPasswordStrength } from '@/lib/common/password-strength'
+import { PasswordStrengthMeter, usePasswordMinScore } from '@/components/password-strength-meter'
 
 function ResetPasswordContent() {
   const searchParams = useSearchParams()
   const router = useRouter()
   const token = searchParams.get('token')
+  const minScore = usePasswordMinScore()
 
   const [newPassword, setNewPassword] = useState('')
   const [confirmPassword, setConfirmPassword] = useState('')
@@ -48,8 +52,9 @@ function ResetPasswordContent() {
       return
     }
 
-    if (newPassword.length < 8) {
-      setError('Password must be at least 8 characters')
+    const passwordCheck = checkPasswordStrength(newPassword, { minScore })
+    if (!passwordCheck.ok) {
+      setError(passwordCheck.error)
       return
     }
 
@@ -58,7 +63,7 @@ function ResetPasswordContent() {
     try {
       const response = await fetch('/api/auth/reset-password', {
         method: 'POST',
-        headers: { 'Content-Type': 'application/json' },
+        headers: { 'Content-Type': 'application/json', ...csrfHeaders() },
         body: JSON.stringify({ token, newPassword }),
       })
 
@@ -206,6 +211,7 @@ function ResetPasswordContent() {
                 disabled={isLoading}
                 className="w-full px-4 py-3 bg-border border border-input rounded-lg text-foreground placeholder-muted-foreground placeholder-opacity-50 focus:outline-none focus:border-opacity-40 focus:bg-opacity-20 transition-all disabled:opacity-50"
               />
+              <PasswordStrengthMeter password={newPassword} minScore={minScore} />
             </div>
 
             {/* Confirm Password */}
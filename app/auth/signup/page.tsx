@@ -3,9 +3,12 @@
 import { useState } from 'react'
 import Link from 'next/link'
 import { useAuth } from '@/hooks/useAuth'
+import { checkPasswordStrength } from '@/lib/common/password-strength'
+import { PasswordStrengthMeter, usePasswordMinScore } from '@/components/password-strength-meter'
 
 export default function SignupPage() {
   const { signup, isLoading, error, clearError } = useAuth()
+  const minScore = usePasswordMinScore()
 
   const [email, setEmail] = useState('')
   const [password, setPassword] = useState('')
@@ -31,8 +34,12 @@ export default function SignupPage() {
       return
     }
 
-    if (password.length < 8) {
-      setLocalError('Password must be at least 8 characters')
+    const passwordCheck = checkPasswordStrength(password, {
+      minScore,
+      userInputs: [email, firstName, lastName],
+    })
+    if (!passwordCheck.ok) {
+      setLocalError(passwordCheck.error)
       return
     }
 
@@ -196,6 +203,11 @@ export default function SignupPage() {
               <p className="mt-2 text-xs text-muted-foreground text-opacity-60">
                 Must be at least 8 characters
               </p>
+              <PasswordStrengthMeter
+                password={password}
+                minScore={minScore}
+                userInputs={[email, firstName, lastName]}
+              />
             </div>
 
             {/* Submit Button */}
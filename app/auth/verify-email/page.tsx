@@ -0,0 +1,193 @@
+'use client'
+
+import { useState, useEffect, useRef, Suspense } from 'react'
+import { useSearchParams } from 'next/navigation'
+import Link from 'next/link'
+import { useAuth } from '@/hooks/useAuth'
+import { csrfHeaders } from '@/lib/common/csrf'
+
+type VerificationStatus = 'verifying' | 'success' | 'error'
+
+function VerifyEmailContent() {
+  const searchParams = useSearchParams()
+  const token = searchParams.get('token')
+  const { isAuthenticated, fetchUser, resendVerificationEmail } = useAuth()
+
+  const [status, setStatus] = useState<VerificationStatus>(token ? 'verifying' : 'error')
+  const [error, setError] = useState<string | null>(
+    token ? null : 'The verification link is missing its token.'
+  )
+  const [isResending, setIsResending] = useState(false)
+  const [resendMessage, setResendMessage] = useState<string | null>(null)
+
+  // Tokens are single-use, so make sure the request is only sent once
+  const requestedToken = useRef<string | null>(null)
+
+  useEffect(() => {
+    if (!token || requestedToken.current === token) return
+    requestedToken.current = token
+
+    const verify = async () => {
+      try {
+        const response = await fetch('/api/auth/verify-email', {
+          method: 'POST',
+          headers: { 'Content-Type': 'application/json', ...csrfHeaders() },
+          body: JSON.stringify({ token }),
+        })
+
+        const data = await response.json()
+
+        if (!response.ok) {
+          throw new Error(data.error || 'Email verification failed')
+        }
+
+        setStatus('success')
+        // Refresh the signed-in user (if any) so banners pick up the change
+        await fetchUser()
+      } catch (err) {
+        setError(err instanceof Error ? err.message : 'Failed to verify email')
+        setStatus('error')
+      }
+    }
+
+    verify()
+  }, [token, fetchUser])
+
+  const handleResend = async () => {
+    setIsResending(true)
+    setError(null)
+    setResendMessage(null)
+
+    try {
+      setResendMessage(await resendVerificationEmail())
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to send verification email')
+    } finally {
+      setIsResending(false)
+    }
+  }
+
+  // Verifying state
+  if (status === 'verifying') {
+    return (
+      <main className="min-h-screen bg-background flex items-center justify-center px-4">
+        <div className="text-foreground text-center">
+          <div className="inline-block animate-spin text-4xl mb-4">⏳</div>
+          <p>Verifying your email...</p>
+        </div>
+      </main>
+    )
+  }
+
+  // Success state
+  if (status === 'success') {
+    return (
+      <main className="min-h-screen bg-background flex items-center justify-center px-4">
+        <div className="w-full max-w-md">
+          {/* Success Card */}
+          <div className="bg-card border border-border rounded-lg p-8 shadow-lg">
+            {/* Success Icon */}
+            <div className="flex justify-center mb-6">
+              <div className="w-16 h-16 bg-green-500 bg-opacity-20 border-2 border-green-400 rounded-full flex items-center justify-center">
+                <span className="text-4xl">✓</span>
+              </div>
+            </div>
+
+            {/* Header */}
+            <div className="text-center mb-6">
+              <h1 className="text-3xl font-bold text-foreground mb-2">Email Verified!</h1>
+              <p className="text-muted-foreground">Your email address has been confirmed</p>
+            </div>
+
+            {/* Actions */}
+            <Link
+              href={isAuthenticated ? '/app/dashboard' : '/auth/login'}
+              className="block w-full px-4 py-3 bg-primary hover:bg-primary/90 text-foreground font-semibold rounded-lg transition-all transform hover:scale-105 shadow-lg text-center"
+            >
+              {isAuthenticated ? 'Continue to Dashboard' : 'Continue to Login'}
+            </Link>
+          </div>
+        </div>
+      </main>
+    )
+  }
+
+  // Error state (missing, invalid or expired token)
+  return (
+    <main className="min-h-screen bg-background flex items-center justify-center px-4">
+      <div className="w-full max-w-md">
+        {/* Error Card */}
+        <div className="bg-card border border-border rounded-lg p-8 shadow-lg">
+          {/* Error Icon */}
+          <div className="flex justify-center mb-6">
+            <div className="w-16 h-16 bg-destructive/20 border-2 border-destructive/40 rounded-full flex items-center justify-center">
+              <span className="text-4xl">✕</span>
+            </div>
+          </div>
+
+          {/* Header */}
+          <div className="text-center mb-6">
+            <h1 className="text-3xl font-bold text-foreground mb-2">Verification Failed</h1>
+            <p className="text-muted-foreground">We couldn&apos;t verify your email address</p>
+          </div>
+
+          {/* Error Message */}
+          {error && (
+            <div className="bg-destructive/10 border border-destructive/20 rounded-lg p-4 mb-6">
+              <p className="text-destructive text-sm leading-relaxed">{error}</p>
+            </div>
+          )}
+
+          {/* Resend Message */}
+          {resendMessage && (
+            <div className="bg-muted border border-border rounded-lg p-4 mb-6">
+              <p className="text-foreground text-sm leading-relaxed text-center">{resendMessage}</p>
+            </div>
+          )}
+
+          {/* Actions */}
+          <div className="space-y-3">
+            {isAuthenticated ? (
+              <button
+                type="button"
+                onClick={handleResend}
+                disabled={isResending}
+                className="w-full px-4 py-3 bg-primary hover:bg-primary/90 text-foreground font-semibold rounded-lg transition-all transform hover:scale-105 disabled:opacity-50 disabled:cursor-not-allowed disabled:hover:scale-100 shadow-lg"
+              >
+                {isResending ? 'Sending...' : 'Send a New Verification Link'}
+              </button>
+            ) : (
+              <Link
+                href="/auth/login?redirect=/app/dashboard"
+                className="block w-full px-4 py-3 bg-primary hover:bg-primary/90 text-foreground font-semibold rounded-lg transition-all transform hover:scale-105 shadow-lg text-center"
+              >
+                Sign In to Request a New Link
+              </Link>
+            )}
+            <Link
+              href={isAuthenticated ? '/app/dashboard' : '/auth/login'}
+              className="block w-full px-4 py-3 bg-border hover:bg-opacity-20 text-foreground font-medium rounded-lg transition-all border border-input text-center"
+            >
+              {isAuthenticated ? 'Back to Dashboard' : 'Back to Login'}
+            </Link>
+          </div>
+        </div>
+      </div>
+    </main>
+  )
+}
+
+export default function VerifyEmailPage() {
+  return (
+    <Suspense fallback={
+      <main className="min-h-screen bg-background flex items-center justify-center px-4">
+        <div className="text-foreground text-center">
+          <div className="inline-block animate-spin text-4xl mb-4">⏳</div>
+          <p>Loading...</p>
+        </div>
+      </main>
+    }>
+      <VerifyEmailContent />
+    </Suspense>
+  )
+}
@@ -3,12 +3,16 @@
 import { AuthProvider } from '@/hooks/useAuth'
 import { ApolloWrapper } from '@/lib/graphql/provider'
 import { PublicConfigProvider } from '@/lib/config/public/providers'
+import { SessionTimeoutDialog } from '@/components/session-timeout-dialog'
 
 export function Providers({ children }: { children: React.ReactNode }) {
   return (
     <PublicConfigProvider>
       <ApolloWrapper>
-        <AuthProvider>{children}</AuthProvider>
+        <AuthProvider>
+          {children}
+          <SessionTimeoutDialog />
+        </AuthProvider>
       </ApolloWrapper>
     </PublicConfigProvider>
   )
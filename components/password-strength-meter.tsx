@@ -0,0 +1,107 @@
+'use client'
+
+import { useEffect, useState } from 'react'
+import {
+  DEFAULT_PASSWORD_MIN_SCORE,
+  PASSWORD_SCORE_LABELS,
+  estimatePasswordStrength,
+} from '@/lib/common/password-strength'
+
+const SEGMENT_COLORS = [
+  'bg-destructive',
+  'bg-destructive',
+  'bg-yellow-500',
+  'bg-green-500',
+  'bg-green-500',
+]
+
+let minScorePromise: Promise<number> | null = null
+
+function fetchPasswordMinScore(): Promise<number> {
+  minScorePromise ??= fetch('/api/auth/password-policy')
+    .then((response) => (response.ok ? response.json() : null))
+    .then((data) =>
+      typeof data?.minScore === 'number' ? data.minScore : DEFAULT_PASSWORD_MIN_SCORE
+    )
+    .catch(() => {
+      // Try again next time
+      minScorePromise = null
+      return DEFAULT_PASSWORD_MIN_SCORE
+    })
+  return minScorePromise
+}
+
+/**
+ * Minimum password score the server enforces (PASSWORD_MIN_SCORE)
+ * The default until the policy has loaded.
+ */
+export function usePasswordMinScore(): number {
+  const [minScore, setMinScore] = useState<number>(DEFAULT_PASSWORD_MIN_SCORE)
+
+  useEffect(() => {
+    let active = true
+    fetchPasswordMinScore().then((score) => {
+      if (active) setMinScore(score)
+    })
+    return () => {
+      active = false
+    }
+  }, [])
+
+  return minScore
+}
+
+interface PasswordStrengthMeterProps {
+  password: string
+  minScore: number
+  /** The user's name and email, which make weak passwords */
+  userInputs?: Array<string | null | undefined>
+}
+
+/**
+ * Live strength bar and tips for a new password
+ */
+export function PasswordStrengthMeter({
+  password,
+  minScore,
+  userInputs,
+}: PasswordStrengthMeterProps) {
+  if (!password) return null
+
+  const strength = estimatePasswordStrength(password, { userInputs })
+  const filledSegments = Math.max(strength.score, 1)
+  const acceptable = !strength.common && strength.score >= minScore
+
+  return (
+    <div className="mt-2 space-y-1" aria-live="polite">
+      <div className="flex gap-1" aria-hidden="true">
+        {[1, 2, 3, 4].map((segment) => (
+          <div
+            key={segment}
+            className={`h-1.5 flex-1 rounded-full ${
+              segment <= filledSegments ? SEGMENT_COLORS[strength.score] : 'bg-border'
+            }`}
+          />
+        ))}
+      </div>
+      <p className="text-xs text-muted-foreground">
+        Strength:{' '}
+        <span
+          className={acceptable ? 'text-foreground font-medium' : 'text-destructive font-medium'}
+        >
+          {PASSWORD_SCORE_LABELS[strength.score]}
+        </span>
+        {strength.score < minScore &&
+          ` (at least ${PASSWORD_SCORE_LABELS[minScore] ?? minScore} required)`}
+      </p>
+      {strength.warning && <p className="text-xs text-destructive">{strength.warning}</p>}
+      {strength.suggestions.map((suggestion) => (
+        <p key={suggestion} className="text-xs text-muted-foreground">
+          {suggestion}
+        </p>
+      ))}
+    </div>
+  )
+}
+
+export default PasswordStrengthMeter
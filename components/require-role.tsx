@@ -0,0 +1,24 @@
+'use client'
+
+import type { ReactNode } from 'react'
+import { useAuth } from '@/hooks/useAuth'
+import type { UserRole } from '@/lib/common/roles'
+
+interface RequireRoleProps {
+  /** Lowest role that may see the children */
+  role: UserRole
+  /** Shown instead, e.g. a disabled control (default: nothing) */
+  fallback?: ReactNode
+  children: ReactNode
+}
+
+/**
+ * Renders its children only for users with the role (or a higher one)
+ * This only hides UI; the BFF checks the role again (requireRole).
+ */
+export function RequireRole({ role, fallback = null, children }: RequireRoleProps) {
+  const { hasRole } = useAuth()
+  return <>{hasRole(role) ? children : fallback}</>
+}
+
+export default RequireRole
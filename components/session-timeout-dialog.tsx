@@ -0,0 +1,176 @@
+'use client'
+
+import { useCallback, useEffect, useRef, useState } from 'react'
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from '@/components/ui/alert-dialog'
+import { useAuth } from '@/hooks/useAuth'
+import {
+  SESSION_EXPIRED_LOGIN_PATH,
+  SESSION_WARNING_MS,
+  formatTimeRemaining,
+  getSessionTimeoutAction,
+} from '@/lib/session/idle-timeout'
+
+const ACTIVITY_EVENTS = ['pointerdown', 'keydown', 'scroll'] as const
+
+/**
+ * Warns before the session times out
+ * Users who have been active since the session was last extended are kept
+ * signed in without a prompt; idle users get a countdown and can choose to
+ * stay signed in. When the countdown runs out the user is signed out.
+ */
+export function SessionTimeoutDialog() {
+  const { user, sessionExpiresAt, keepAlive, logout } = useAuth()
+  const [remainingMs, setRemainingMs] = useState<number | null>(null)
+  const [isExtending, setIsExtending] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+  const lastActivityAt = useRef(0)
+  const lastExtendedAt = useRef(0)
+  const isExtendingSilently = useRef(false)
+  const hasExpired = useRef(false)
+
+  // A new expiry means the server has just seen a request
+  useEffect(() => {
+    lastExtendedAt.current = Date.now()
+  }, [sessionExpiresAt])
+
+  useEffect(() => {
+    if (!user) return
+
+    const recordActivity = () => {
+      lastActivityAt.current = Date.now()
+    }
+    ACTIVITY_EVENTS.forEach((event) =>
+      window.addEventListener(event, recordActivity, { passive: true })
+    )
+    return () => {
+      ACTIVITY_EVENTS.forEach((event) => window.removeEventListener(event, recordActivity))
+    }
+  }, [user])
+
+  const extendSilently = useCallback(async () => {
+    if (isExtendingSilently.current) return
+    isExtendingSilently.current = true
+
+    try {
+      await keepAlive()
+    } catch {
+      // Fall back to asking the user
+      lastExtendedAt.current = Date.now()
+    } finally {
+      isExtendingSilently.current = false
+    }
+  }, [keepAlive])
+
+  const expire = useCallback(async () => {
+    if (hasExpired.current) return
+    hasExpired.current = true
+
+    try {
+      await logout()
+    } catch {
+      // The session is gone either way
+    }
+    window.location.href = SESSION_EXPIRED_LOGIN_PATH
+  }, [logout])
+
+  useEffect(() => {
+    if (!user || !sessionExpiresAt) {
+      setRemainingMs(null)
+      return
+    }
+
+    const check = () => {
+      const now = Date.now()
+      const action = getSessionTimeoutAction({
+        expiresAt: sessionExpiresAt,
+        now,
+        lastActivityAt: lastActivityAt.current,
+        lastExtendedAt: lastExtendedAt.current,
+      })
+
+      switch (action) {
+        case 'none':
+          setRemainingMs(null)
+          break
+        case 'extend':
+          setRemainingMs(null)
+          extendSilently()
+          break
+        case 'warn':
+          setRemainingMs(sessionExpiresAt.getTime() - now)
+          break
+        case 'expire':
+          setRemainingMs(null)
+          expire()
+          break
+      }
+    }
+
+    check()
+    const interval = setInterval(check, 1000)
+    return () => clearInterval(interval)
+  }, [user, sessionExpiresAt, extendSilently, expire])
+
+  const handleStaySignedIn = async (e: React.MouseEvent) => {
+    // Keep the dialog open until the request finishes so errors stay visible
+    e.preventDefault()
+    setIsExtending(true)
+    setError(null)
+
+    try {
+      const expiresAt = await keepAlive()
+      // The session can't outlive the user token, so it may not move much
+      if (expiresAt.getTime() - Date.now() <= SESSION_WARNING_MS) {
+        setError("Your session can't be extended any further. Please sign in again.")
+      }
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to extend session')
+    } finally {
+      setIsExtending(false)
+    }
+  }
+
+  const handleSignOut = async () => {
+    try {
+      await logout()
+    } finally {
+      window.location.href = '/auth/login'
+    }
+  }
+
+  return (
+    <AlertDialog open={remainingMs !== null}>
+      <AlertDialogContent>
+        <AlertDialogHeader>
+          <AlertDialogTitle>Are you still there?</AlertDialogTitle>
+          <AlertDialogDescription>
+            You&apos;ll be signed out in {formatTimeRemaining(remainingMs ?? 0)} because of
+            inactivity.
+          </AlertDialogDescription>
+        </AlertDialogHeader>
+
+        {error && <p className="text-destructive text-sm font-medium">{error}</p>}
+
+        <AlertDialogFooter>
+          <AlertDialogCancel onClick={handleSignOut} disabled={isExtending}>
+            Sign Out
+          </AlertDialogCancel>
+          <AlertDialogAction onClick={handleStaySignedIn} disabled={isExtending}>
+            {isExtending ? 'Extending...' : 'Stay Signed In'}
+          </AlertDialogAction>
+        </AlertDialogFooter>
+      </AlertDialogContent>
+    </AlertDialog>
+  )
+}
+
+export default SessionTimeoutDialog
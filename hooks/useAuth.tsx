@@ -7,7 +7,10 @@
  * Handles login, logout, user data fetching, and loading/error states.
  */
 
-import { useState, useCallback, useEffect, useContext, createContext } from 'react'
+import { useState, useCallback, useEffect, useRef, useContext, createContext } from 'react'
+import { csrfHeaders } from '@/lib/common/csrf'
+import { hasRole as rolesInclude, type UserRole } from '@/lib/common/roles'
+import { openAuthChannel, type AuthChannel } from '@/lib/session/auth-channel'
 
 // ============================================================================
 // TYPES
@@ -19,6 +22,12 @@ export interface User {
   firstName: string
   lastName: string
   emailVerified: boolean
+  roles: UserRole[]
+}
+
+export interface LoginResult {
+  /** The password was right; finish with verifyTwoFactor */
+  twoFactorRequired: boolean
 }
 
 export interface AuthContextType {
@@ -26,10 +35,19 @@ export interface AuthContextType {
   isLoading: boolean
   isAuthenticated: boolean
   error: string | null
-  login: (email: string, password: string) => Promise<void>
+  /** When the session ends unless the server sees another request */
+  sessionExpiresAt: Date | null
+  login: (email: string, password: string) => Promise<LoginResult>
+  /** Complete a login that needs a two-factor code (TOTP or recovery code) */
+  verifyTwoFactor: (code: string) => Promise<void>
   signup: (email: string, password: string, firstName: string, lastName: string) => Promise<void>
   logout: () => Promise<void>
   fetchUser: () => Promise<void>
+  /** Extend the session; resolves with the new expiry */
+  keepAlive: () => Promise<Date>
+  resendVerificationEmail: () => Promise<string>
+  /** Whether the user has the role or a higher one (false when signed out) */
+  hasRole: (role: UserRole) => boolean
   clearError: () => void
 }
 
@@ -59,12 +77,14 @@ export function AuthProvider({ children }: { children: React.ReactNode }) {
   const [user, setUser] = useState<User | null>(null)
   const [isLoading, setIsLoading] = useState(false)
   const [error, setError] = useState<string | null>(null)
+  const [sessionExpiresAt, setSessionExpiresAt] = useState<Date | null>(null)
+  const channelRef = useRef<AuthChannel | null>(null)
 
   // =========================================================================
   // LOGIN
   // =========================================================================
 
-  const login = useCallback(async (email: string, password: string) => {
+  const login = useCallback(async (email: string, password: string): Promise<LoginResult> => {
     setIsLoading(true)
     setError(null)
 
@@ -73,6 +93,7 @@ export function AuthProvider({ children }: { children: React.ReactNode }) {
         method: 'POST',
         headers: {
           'Content-Type': 'application/json',
+          ...csrfHeaders(),
         },
         body: JSON.stringify({ email, password }),
       })
@@ -82,8 +103,49 @@ export function AuthProvider({ children }: { children: React.ReactNode }) {
         throw new Error(data.error || 'Login failed')
       }
 
+      const data = await response.json()
+      if (data.twoFactorRequired) {
+        return { twoFactorRequired: true }
+      }
+
+      setUser(data.user)
+      channelRef.current?.post({ type: 'login' })
+      return { twoFactorRequired: false }
+    } catch (err) {
+      const message = err instanceof Error ? err.message : 'An error occurred'
+      setError(message)
+      throw err
+    } finally {
+      setIsLoading(false)
+    }
+  }, [])
+
+  // =========================================================================
+  // TWO-FACTOR LOGIN
+  // =========================================================================
+
+  const verifyTwoFactor = useCallback(async (code: string) => {
+    setIsLoading(true)
+    setError(null)
+
+    try {
+      const response = await fetch('/api/auth/login/2fa', {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          ...csrfHeaders(),
+        },
+        body: JSON.stringify({ code }),
+      })
+
+      if (!response.ok) {
+        const data = await response.json()
+        throw new Error(data.error || 'Verification failed')
+      }
+
       const data = await response.json()
       setUser(data.user)
+      channelRef.current?.post({ type: 'login' })
     } catch (err) {
       const message = err instanceof Error ? err.message : 'An error occurred'
       setError(message)
@@ -106,6 +168,7 @@ export function AuthProvider({ children }: { children: React.ReactNode }) {
         method: 'POST',
         headers: {
           'Content-Type': 'application/json',
+          ...csrfHeaders(),
         },
         body: JSON.stringify({ email, password, firstName, lastName }),
       })
@@ -139,6 +202,7 @@ export function AuthProvider({ children }: { children: React.ReactNode }) {
         method: 'POST',
         headers: {
           'Content-Type': 'application/json',
+          ...csrfHeaders(),
         },
       })
 
@@ -148,6 +212,8 @@ export function AuthProvider({ children }: { children: React.ReactNode }) {
       }
 
       setUser(null)
+      setSessionExpiresAt(null)
+      channelRef.current?.post({ type: 'logout' })
     } catch (err) {
       const message = err instanceof Error ? err.message : 'An error occurred'
       setError(message)
@@ -176,6 +242,7 @@ export function AuthProvider({ children }: { children: React.ReactNode }) {
       if (!response.ok) {
         if (response.status === 401) {
           setUser(null)
+          setSessionExpiresAt(null)
           return
         }
         const data = await response.json()
@@ -184,15 +251,78 @@ export function AuthProvider({ children }: { children: React.ReactNode }) {
 
       const data = await response.json()
       setUser(data.user)
+      setSessionExpiresAt(new Date(data.session.expiresAt))
     } catch (err) {
       const message = err instanceof Error ? err.message : 'An error occurred'
       setError(message)
       setUser(null)
+      setSessionExpiresAt(null)
     } finally {
       setIsLoading(false)
     }
   }, [])
 
+  // =========================================================================
+  // RESEND VERIFICATION EMAIL
+  // =========================================================================
+
+  // Doesn't touch isLoading/error so the page stays rendered; callers show
+  // the returned message or the thrown error themselves
+  const resendVerificationEmail = useCallback(async () => {
+    const response = await fetch('/api/auth/resend-verification', {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        ...csrfHeaders(),
+      },
+    })
+
+    const data = await response.json()
+
+    if (!response.ok) {
+      throw new Error(data.error || 'Failed to send verification email')
+    }
+
+    // Verified in the meantime (e.g. from another device)
+    if (data.emailVerified) {
+      setUser((current) => (current ? { ...current, emailVerified: true } : current))
+    }
+
+    return data.message as string
+  }, [])
+
+  // =========================================================================
+  // KEEP ALIVE
+  // =========================================================================
+
+  // Restarts the session's idle timeout; other tabs pick up the new expiry
+  const keepAlive = useCallback(async () => {
+    const response = await fetch('/api/auth/keep-alive', {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        ...csrfHeaders(),
+      },
+    })
+
+    const data = await response.json()
+
+    if (!response.ok) {
+      throw new Error(data.error || 'Failed to extend session')
+    }
+
+    const expiresAt = new Date(data.expiresAt)
+    setSessionExpiresAt(expiresAt)
+    channelRef.current?.post({ type: 'session-extended', expiresAt: data.expiresAt })
+    return expiresAt
+  }, [])
+
+  // =========================================================================
+  // ROLES
+  // =========================================================================
+
+  const hasRole = useCallback((role: UserRole) => rolesInclude(user?.roles, role), [user])
+
   // =========================================================================
   // CLEAR ERROR
   // =========================================================================
@@ -201,6 +331,38 @@ export function AuthProvider({ children }: { children: React.ReactNode }) {
     setError(null)
   }, [])
 
+  // =========================================================================
+  // CROSS-TAB SYNC
+  // =========================================================================
+
+  // All tabs share the session cookie, so a sign in, sign out or keep-alive
+  // in one tab applies to every tab
+  useEffect(() => {
+    const channel = openAuthChannel((message) => {
+      switch (message.type) {
+        case 'login':
+          fetchUser()
+          break
+        case 'logout':
+          setUser(null)
+          setSessionExpiresAt(null)
+          if (window.location.pathname.startsWith('/app')) {
+            window.location.href = '/auth/login'
+          }
+          break
+        case 'session-extended':
+          setSessionExpiresAt(new Date(message.expiresAt))
+          break
+      }
+    })
+    channelRef.current = channel
+
+    return () => {
+      channel.close()
+      channelRef.current = null
+    }
+  }, [fetchUser])
+
   // =========================================================================
   // INITIALIZE
   // =========================================================================
@@ -218,10 +380,15 @@ export function AuthProvider({ children }: { children: React.ReactNode }) {
     isLoading,
     isAuthenticated: !!user,
     error,
+    sessionExpiresAt,
     login,
+    verifyTwoFactor,
     signup,
     logout,
     fetchUser,
+    keepAlive,
+    resendVerificationEmail,
+    hasRole,
     clearError,
   }
 
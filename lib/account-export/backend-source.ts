@@ -0,0 +1,144 @@
+/**
+ * Backend Account Data Source
+ *
+ * Reads a user's data for the export from the backend's GraphQL API, the
+ * same way the GraphQL proxy route does: with the BFF's Bearer token and the
+ * user's token in X-User-Token.
+ */
+
+import { tokenManager } from '@/lib/backend/generated/api-client'
+import { apiClient } from '@/lib/config/api-client'
+import { createLogger } from '@/lib/config/logging'
+import { type Result, ok, err } from '@/lib/common/result'
+import { InternalServerErrorException } from '@/lib/exceptions'
+import type {
+  AccountDataSource,
+  AccountExportMealPlanEntry,
+  AccountExportProfile,
+  AccountExportRecipe,
+} from './index'
+
+const logger = createLogger('AccountExport')
+
+// ============================================================================
+// QUERIES
+// ============================================================================
+
+const EXPORT_PROFILE_QUERY = `
+  query ExportProfile {
+    me {
+      id
+      email
+      firstName
+      lastName
+      emailVerified
+      status
+      createdAt
+      updatedAt
+      lastLoginAt
+    }
+  }
+`
+
+const EXPORT_RECIPES_QUERY = `
+  query ExportRecipes {
+    recipes {
+      id
+      userId
+      name
+      slug
+      instructions
+      createdAt
+      updatedAt
+    }
+  }
+`
+
+const EXPORT_MEAL_PLAN_QUERY = `
+  query ExportMealPlan($input: MealPlanRangeInput!) {
+    mealPlanRange(input: $input) {
+      entries {
+        id
+        date
+        mealType
+        createdAt
+        updatedAt
+        recipe {
+          id
+          name
+          slug
+        }
+      }
+    }
+  }
+`
+
+// ============================================================================
+// SOURCE
+// ============================================================================
+
+/**
+ * Read the data of the user the token belongs to
+ */
+export function createBackendAccountDataSource(userToken: string): AccountDataSource {
+  async function request<T>(
+    query: string,
+    variables?: Record<string, unknown>
+  ): Promise<Result<T, InternalServerErrorException>> {
+    try {
+      const response = await fetch(`${apiClient.baseUrl}/graphql`, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          Authorization: `Bearer ${await tokenManager.getToken()}`,
+          'X-User-Token': userToken,
+        },
+        body: JSON.stringify({ query, variables }),
+        signal: AbortSignal.timeout(apiClient.timeout),
+      })
+      const body = await response.json()
+
+      if (!response.ok || body.errors?.length || !body.data) {
+        logger.warn(
+          { status: response.status, firstError: body.errors?.[0]?.message },
+          'Account export query failed'
+        )
+        return err(new InternalServerErrorException('Failed to read account data'))
+      }
+      return ok(body.data as T)
+    } catch (error) {
+      logger.error({ error }, 'Account export query failed')
+      return err(
+        new InternalServerErrorException(
+          'Failed to read account data',
+          error instanceof Error ? error : undefined
+        )
+      )
+    }
+  }
+
+  return {
+    async getProfile() {
+      const result = await request<{ me: AccountExportProfile | null }>(EXPORT_PROFILE_QUERY)
+      if (!result.ok) {
+        return result
+      }
+      return result.value.me
+        ? ok(result.value.me)
+        : err(new InternalServerErrorException('The backend did not return the user'))
+    },
+
+    async getRecipes() {
+      const result = await request<{ recipes: AccountExportRecipe[] }>(EXPORT_RECIPES_QUERY)
+      return result.ok ? ok(result.value.recipes) : result
+    },
+
+    async getMealPlan(startDate, endDate) {
+      const result = await request<{ mealPlanRange: { entries: AccountExportMealPlanEntry[] }[] }>(
+        EXPORT_MEAL_PLAN_QUERY,
+        { input: { startDateInclusive: startDate, endDateInclusive: endDate } }
+      )
+      return result.ok ? ok(result.value.mealPlanRange.flatMap((day) => day.entries)) : result
+    },
+  }
+}
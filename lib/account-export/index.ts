@@ -0,0 +1,148 @@
+/**
+ * Account Data Export
+ *
+ * Gathers everything the app stores about a user (profile, recipes and meal
+ * plan entries) into a ZIP of JSON files for GET /api/auth/account/export.
+ *
+ * The data comes from the backend's GraphQL API with the user's token (see
+ * backend-source.ts). The backend has no query for a user's whole meal plan,
+ * so it is read in mealPlanRange windows from the week the account was
+ * created until a year ahead.
+ */
+
+import { type Result, ok } from '@/lib/common/result'
+import type { InternalServerErrorException } from '@/lib/exceptions'
+import type { MealPlanEntryType, RecipeType, UserProfile } from '@/lib/graphql/generated/graphql'
+import { MAX_MEAL_PLAN_RANGE_DAYS, addDays, getWeekStart, toIsoDate } from '@/lib/meal-plan/week'
+import { createZip } from './zip'
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export type AccountExportProfile = Pick<
+  UserProfile,
+  | 'id'
+  | 'email'
+  | 'firstName'
+  | 'lastName'
+  | 'emailVerified'
+  | 'status'
+  | 'createdAt'
+  | 'updatedAt'
+  | 'lastLoginAt'
+>
+
+export type AccountExportRecipe = Pick<
+  RecipeType,
+  'id' | 'userId' | 'name' | 'slug' | 'instructions' | 'createdAt' | 'updatedAt'
+>
+
+export type AccountExportMealPlanEntry = Pick<
+  MealPlanEntryType,
+  'id' | 'date' | 'mealType' | 'createdAt' | 'updatedAt'
+> & {
+  recipe: Pick<RecipeType, 'id' | 'name' | 'slug'>
+}
+
+/**
+ * Where the exported data is read from
+ */
+export interface AccountDataSource {
+  getProfile(): Promise<Result<AccountExportProfile, InternalServerErrorException>>
+  getRecipes(): Promise<Result<AccountExportRecipe[], InternalServerErrorException>>
+  /** Entries on the days of an inclusive YYYY-MM-DD range */
+  getMealPlan(
+    startDate: string,
+    endDate: string
+  ): Promise<Result<AccountExportMealPlanEntry[], InternalServerErrorException>>
+}
+
+export interface AccountData {
+  profile: AccountExportProfile
+  recipes: AccountExportRecipe[]
+  mealPlan: AccountExportMealPlanEntry[]
+}
+
+export interface CollectAccountDataOptions {
+  /** Current time (default: now) */
+  now?: Date
+  /** How far ahead to look for planned meals (default: 366 days) */
+  mealPlanDaysAhead?: number
+}
+
+export const DEFAULT_MEAL_PLAN_DAYS_AHEAD = 366
+
+// ============================================================================
+// EXPORT
+// ============================================================================
+
+/**
+ * Read all of a user's data
+ */
+export async function collectAccountData(
+  source: AccountDataSource,
+  options: CollectAccountDataOptions = {}
+): Promise<Result<AccountData, InternalServerErrorException>> {
+  const now = options.now ?? new Date()
+
+  const profileResult = await source.getProfile()
+  if (!profileResult.ok) {
+    return profileResult
+  }
+  const profile = profileResult.value
+
+  const recipesResult = await source.getRecipes()
+  if (!recipesResult.ok) {
+    return recipesResult
+  }
+  // The recipes query lists the whole tenant's recipes
+  const recipes = recipesResult.value.filter((recipe) => recipe.userId === profile.id)
+
+  const mealPlan: AccountExportMealPlanEntry[] = []
+  const lastDay = addDays(now, options.mealPlanDaysAhead ?? DEFAULT_MEAL_PLAN_DAYS_AHEAD)
+
+  for (
+    let windowStart = getWeekStart(new Date(profile.createdAt));
+    windowStart <= lastDay;
+    windowStart = addDays(windowStart, MAX_MEAL_PLAN_RANGE_DAYS)
+  ) {
+    const windowEnd = addDays(windowStart, MAX_MEAL_PLAN_RANGE_DAYS - 1)
+    const entriesResult = await source.getMealPlan(
+      toIsoDate(windowStart),
+      toIsoDate(windowEnd < lastDay ? windowEnd : lastDay)
+    )
+    if (!entriesResult.ok) {
+      return entriesResult
+    }
+    mealPlan.push(...entriesResult.value)
+  }
+
+  return ok({ profile, recipes, mealPlan })
+}
+
+/**
+ * Pack the data as one JSON file per kind
+ */
+export function createAccountExportZip(data: AccountData, exportedAt: Date): Buffer {
+  const json = (value: unknown) => `${JSON.stringify(value, null, 2)}\n`
+
+  return createZip(
+    [
+      { name: 'profile.json', content: json(data.profile) },
+      { name: 'recipes.json', content: json(data.recipes) },
+      { name: 'meal-plan.json', content: json(data.mealPlan) },
+    ],
+    exportedAt
+  )
+}
+
+/**
+ * File name offered for download, e.g. "account-data-2026-10-18.zip"
+ */
+export function getAccountExportFileName(exportedAt: Date): string {
+  return `account-data-${exportedAt.toISOString().slice(0, 10)}.zip`
+}
+
+export { createBackendAccountDataSource } from './backend-source'
+export { createZip, type ZipEntry } from './zip'
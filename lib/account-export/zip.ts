@@ -0,0 +1,106 @@
+/**
+ * ZIP Archives
+ *
+ * Writes small ZIP archives in memory with Node's zlib: each file is
+ * compressed with DEFLATE, the one method every unzip tool supports. There
+ * is no ZIP64 support, so archives must stay under 4 GB, far above what an
+ * account export reaches.
+ */
+
+import { crc32, deflateRawSync } from 'zlib'
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export interface ZipEntry {
+  /** Path inside the archive, with forward slashes */
+  name: string
+  content: string | Buffer
+}
+
+// ============================================================================
+// FORMAT
+// ============================================================================
+
+const LOCAL_FILE_HEADER_SIGNATURE = 0x04034b50
+const CENTRAL_DIRECTORY_HEADER_SIGNATURE = 0x02014b50
+const END_OF_CENTRAL_DIRECTORY_SIGNATURE = 0x06054b50
+
+const VERSION = 20 // 2.0: DEFLATE
+const FLAG_UTF8_NAMES = 0x0800
+const METHOD_DEFLATE = 8
+
+/**
+ * MS-DOS date and time fields (2-second precision, from 1980)
+ */
+function toDosDateTime(date: Date): { time: number; date: number } {
+  const year = Math.max(date.getUTCFullYear(), 1980)
+  return {
+    time: (date.getUTCHours() << 11) | (date.getUTCMinutes() << 5) | (date.getUTCSeconds() >> 1),
+    date: ((year - 1980) << 9) | ((date.getUTCMonth() + 1) << 5) | date.getUTCDate(),
+  }
+}
+
+/**
+ * Build a ZIP archive
+ *
+ * @param modifiedAt - Modification time of every entry
+ */
+export function createZip(entries: ZipEntry[], modifiedAt: Date = new Date()): Buffer {
+  const { time, date } = toDosDateTime(modifiedAt)
+  const localParts: Buffer[] = []
+  const centralParts: Buffer[] = []
+  let offset = 0
+
+  for (const entry of entries) {
+    const name = Buffer.from(entry.name, 'utf8')
+    const content =
+      typeof entry.content === 'string' ? Buffer.from(entry.content, 'utf8') : entry.content
+    const compressed = deflateRawSync(content)
+    const checksum = crc32(content)
+
+    const local = Buffer.alloc(30)
+    local.writeUInt32LE(LOCAL_FILE_HEADER_SIGNATURE, 0)
+    local.writeUInt16LE(VERSION, 4)
+    local.writeUInt16LE(FLAG_UTF8_NAMES, 6)
+    local.writeUInt16LE(METHOD_DEFLATE, 8)
+    local.writeUInt16LE(time, 10)
+    local.writeUInt16LE(date, 12)
+    local.writeUInt32LE(checksum, 14)
+    local.writeUInt32LE(compressed.length, 18)
+    local.writeUInt32LE(content.length, 22)
+    local.writeUInt16LE(name.length, 26)
+    local.writeUInt16LE(0, 28) // Extra field length
+
+    const central = Buffer.alloc(46)
+    central.writeUInt32LE(CENTRAL_DIRECTORY_HEADER_SIGNATURE, 0)
+    central.writeUInt16LE(VERSION, 4) // Version made by
+    central.writeUInt16LE(VERSION, 6) // Version needed to extract
+    central.writeUInt16LE(FLAG_UTF8_NAMES, 8)
+    central.writeUInt16LE(METHOD_DEFLATE, 10)
+    central.writeUInt16LE(time, 12)
+    central.writeUInt16LE(date, 14)
+    central.writeUInt32LE(checksum, 16)
+    central.writeUInt32LE(compressed.length, 20)
+    central.writeUInt32LE(content.length, 24)
+    central.writeUInt16LE(name.length, 28)
+    // Extra field, comment, disk number and attributes stay zero
+    central.writeUInt32LE(offset, 42)
+
+    localParts.push(local, name, compressed)
+    centralParts.push(central, name)
+    offset += local.length + name.length + compressed.length
+  }
+
+  const centralDirectory = Buffer.concat(centralParts)
+
+  const end = Buffer.alloc(22)
+  end.writeUInt32LE(END_OF_CENTRAL_DIRECTORY_SIGNATURE, 0)
+  end.writeUInt16LE(entries.length, 8) // Entries on this disk
+  end.writeUInt16LE(entries.length, 10) // Entries in total
+  end.writeUInt32LE(centralDirectory.length, 12)
+  end.writeUInt32LE(offset, 16)
+
+  return Buffer.concat([...localParts, centralDirectory, end])
+}
@@ -0,0 +1,120 @@
+/**
+ * Auth Audit Events
+ *
+ * What the auth routes record about sign-ins, sign-outs, password resets
+ * and session revocations. Each event names the user it concerns by id,
+ * email or both: failed logins and reset requests only know the email that
+ * was entered.
+ */
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+/**
+ * How a session was started. "two_factor" sessions completed a second step
+ * after the password.
+ */
+export type AuthAuditSignInMethod = 'password' | 'two_factor'
+
+export type AuthAuditLoginFailureReason =
+  | 'invalid_credentials'
+  | 'invalid_two_factor_code'
+  | 'too_many_attempts'
+
+interface AuthAuditEventBase {
+  id: string
+  occurredAt: Date
+  userId: number | null
+  email: string | null // Lower-cased
+  ipAddress: string | null
+  userAgent: string | null
+}
+
+export interface LoginSucceededEvent extends AuthAuditEventBase {
+  type: 'login_succeeded'
+  method: AuthAuditSignInMethod
+}
+
+export interface LoginFailedEvent extends AuthAuditEventBase {
+  type: 'login_failed'
+  reason: AuthAuditLoginFailureReason
+}
+
+export interface LogoutEvent extends AuthAuditEventBase {
+  type: 'logout'
+}
+
+export interface PasswordResetRequestedEvent extends AuthAuditEventBase {
+  type: 'password_reset_requested'
+}
+
+/**
+ * The backend doesn't say whose password a reset token changed, so these
+ * carry the email the reset link was sent to and no user id. Links the BFF
+ * no longer remembers (e.g. expired) leave the email null as well.
+ */
+export interface PasswordResetCompletedEvent extends AuthAuditEventBase {
+  type: 'password_reset_completed'
+}
+
+export interface SessionRevokedEvent extends AuthAuditEventBase {
+  type: 'session_revoked'
+  scope: 'single' | 'others'
+  revokedCount: number
+}
+
+export type AuthAuditEvent =
+  | LoginSucceededEvent
+  | LoginFailedEvent
+  | LogoutEvent
+  | PasswordResetRequestedEvent
+  | PasswordResetCompletedEvent
+  | SessionRevokedEvent
+
+export type AuthAuditEventType = AuthAuditEvent['type']
+
+// Omit applied to each member of a union, so each keeps its own fields
+type DistributiveOmit<T, K extends PropertyKey> = T extends unknown ? Omit<T, K> : never
+
+/**
+ * An event as passed to AuthAuditLog.record, before it has an id and time
+ */
+export type NewAuthAuditEvent = DistributiveOmit<AuthAuditEvent, 'id' | 'occurredAt'>
+
+/**
+ * Whose activity to list: events with the user's id or email
+ */
+export interface AuthAuditSubject {
+  userId: number
+  email: string
+}
+
+// ============================================================================
+// SERIALIZATION
+// ============================================================================
+
+export function serializeAuthAuditEvent(event: AuthAuditEvent): string {
+  return JSON.stringify(event)
+}
+
+/**
+ * Decode an event encoded with serializeAuthAuditEvent
+ * Throws if the value is not valid JSON or the time is invalid.
+ */
+export function deserializeAuthAuditEvent(value: string): AuthAuditEvent {
+  const event = JSON.parse(value) as AuthAuditEvent
+  const occurredAt = new Date(event.occurredAt)
+  if (Number.isNaN(occurredAt.getTime())) {
+    throw new Error('Invalid date in auth audit event field "occurredAt"')
+  }
+
+  return { ...event, occurredAt }
+}
+
+/**
+ * Whether an event concerns the subject
+ */
+export function isSubjectOf(event: AuthAuditEvent, subject: AuthAuditSubject): boolean {
+  return event.userId === subject.userId || event.email === subject.email.toLowerCase()
+}
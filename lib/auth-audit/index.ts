@@ -0,0 +1,127 @@
+/**
+ * Auth Audit Log
+ *
+ * A structured record of sign-ins, failed sign-ins, sign-outs, password
+ * resets and session revocations, written by the auth routes next to their
+ * pino logs. Users see their own recent events under Security settings
+ * (GET /api/auth/activity) to spot sign-ins that weren't them.
+ *
+ * Recording never fails the request: a sink error is logged and the event
+ * dropped.
+ */
+
+import { randomUUID } from 'crypto'
+import { config } from '@/lib/config'
+import { createLogger } from '@/lib/config/logging'
+import { openSqlDatabase } from '@/lib/session/sql-database'
+import type { AuthAuditEvent, AuthAuditSubject, NewAuthAuditEvent } from './events'
+import {
+  FileAuthAuditSink,
+  MemoryAuthAuditSink,
+  SqlAuthAuditSink,
+  type IAuthAuditSink,
+} from './sinks'
+
+const logger = createLogger('AuthAuditLog')
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export interface AuthAuditLogOptions {
+  /** Where events are written (default: chosen by AUTH_AUDIT_SINK) */
+  sink?: IAuthAuditSink
+  /** Current time in epoch milliseconds; tests pass a fixed clock */
+  now?: () => number
+}
+
+export const DEFAULT_ACTIVITY_LIMIT = 20
+export const MAX_ACTIVITY_LIMIT = 100
+
+// ============================================================================
+// SINK SELECTION
+// ============================================================================
+
+function createAuthAuditSink(): IAuthAuditSink {
+  if (config.authAuditSink === 'database') {
+    logger.info({}, 'Using database auth audit sink')
+    return new SqlAuthAuditSink(openSqlDatabase(config.databaseUrl!))
+  }
+  if (config.authAuditSink === 'file') {
+    logger.info({ filename: config.authAuditLogFile }, 'Using file auth audit sink')
+    return new FileAuthAuditSink(config.authAuditLogFile)
+  }
+
+  logger.info({}, 'Using in-memory auth audit sink (events are lost on restart)')
+  return new MemoryAuthAuditSink()
+}
+
+// ============================================================================
+// SERVICE
+// ============================================================================
+
+export class AuthAuditLog {
+  private readonly sink: IAuthAuditSink
+  private readonly now: () => number
+
+  constructor(options: AuthAuditLogOptions = {}) {
+    this.sink = options.sink ?? createAuthAuditSink()
+    this.now = options.now ?? Date.now
+  }
+
+  /**
+   * Prepare the sink
+   * Call once on server startup so setup errors surface before the first request.
+   */
+  async initialize(): Promise<void> {
+    await this.sink.initialize?.()
+  }
+
+  /**
+   * Record an event
+   */
+  async record(event: NewAuthAuditEvent): Promise<void> {
+    const recorded = {
+      ...event,
+      id: randomUUID(),
+      occurredAt: new Date(this.now()),
+      email: event.email?.trim().toLowerCase() ?? null,
+    } as AuthAuditEvent
+
+    try {
+      await this.sink.append(recorded)
+    } catch (error) {
+      logger.error(
+        { error: error instanceof Error ? error.message : String(error), type: event.type },
+        'Failed to record auth audit event'
+      )
+    }
+  }
+
+  /**
+   * A user's most recent events, newest first
+   */
+  async listForSubject(
+    subject: AuthAuditSubject,
+    limit: number = DEFAULT_ACTIVITY_LIMIT
+  ): Promise<AuthAuditEvent[]> {
+    return this.sink.listForSubject(subject, Math.min(Math.max(limit, 1), MAX_ACTIVITY_LIMIT))
+  }
+}
+
+// ============================================================================
+// SINGLETON INSTANCE
+// ============================================================================
+
+export const authAuditLog = new AuthAuditLog()
+
+export type {
+  AuthAuditEvent,
+  AuthAuditEventType,
+  AuthAuditLoginFailureReason,
+  AuthAuditSignInMethod,
+  AuthAuditSubject,
+  NewAuthAuditEvent,
+} from './events'
+export type { IAuthAuditSink } from './sinks'
+export { FileAuthAuditSink, MemoryAuthAuditSink, SqlAuthAuditSink } from './sinks'
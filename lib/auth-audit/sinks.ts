@@ -0,0 +1,227 @@
+/**
+ * Auth Audit Sinks
+ *
+ * Where audit events are written, selected by AUTH_AUDIT_SINK:
+ *
+ * - memory: the most recent events of this process (development and tests)
+ * - file: one JSON line per event appended to AUTH_AUDIT_LOG_FILE, for
+ *   shipping to a log pipeline; rotate it with copytruncate
+ * - database: an `auth_audit_events` table in DATABASE_URL (see
+ *   sql-database.ts), shared by every server instance
+ */
+
+import { appendFile, mkdir, readFile } from 'node:fs/promises'
+import path from 'node:path'
+import { createLogger } from '@/lib/config/logging'
+import { applySqlMigrations, type SqlDatabase, type SqlMigration } from '@/lib/session/sql-database'
+import {
+  deserializeAuthAuditEvent,
+  isSubjectOf,
+  serializeAuthAuditEvent,
+  type AuthAuditEvent,
+  type AuthAuditSubject,
+} from './events'
+
+const logger = createLogger('AuthAuditSink')
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export interface IAuthAuditSink {
+  append(event: AuthAuditEvent): Promise<void>
+  /** The subject's most recent events, newest first */
+  listForSubject(subject: AuthAuditSubject, limit: number): Promise<AuthAuditEvent[]>
+  /** Prepare the backend (e.g. run migrations) before serving requests */
+  initialize?(): Promise<void>
+}
+
+/**
+ * Sort events in the order they were appended, newest first
+ */
+function newestFirst(events: AuthAuditEvent[]): AuthAuditEvent[] {
+  // Reversed first so events recorded in the same millisecond keep their order
+  return events.reverse().sort((a, b) => b.occurredAt.getTime() - a.occurredAt.getTime())
+}
+
+// ============================================================================
+// MEMORY
+// ============================================================================
+
+export const DEFAULT_MEMORY_SINK_MAX_EVENTS = 10_000
+
+/**
+ * In-memory sink keeping the latest events (lost on restart)
+ */
+export class MemoryAuthAuditSink implements IAuthAuditSink {
+  // Stored serialized so callers can't mutate stored events in place
+  private events: string[] = []
+  private readonly maxEvents: number
+
+  constructor(options: { maxEvents?: number } = {}) {
+    this.maxEvents = options.maxEvents ?? DEFAULT_MEMORY_SINK_MAX_EVENTS
+  }
+
+  async append(event: AuthAuditEvent): Promise<void> {
+    this.events.push(serializeAuthAuditEvent(event))
+    if (this.events.length > this.maxEvents) {
+      this.events.splice(0, this.events.length - this.maxEvents)
+    }
+  }
+
+  async listForSubject(subject: AuthAuditSubject, limit: number): Promise<AuthAuditEvent[]> {
+    const events = this.events
+      .map(deserializeAuthAuditEvent)
+      .filter((event) => isSubjectOf(event, subject))
+    return newestFirst(events).slice(0, limit)
+  }
+}
+
+// ============================================================================
+// FILE
+// ============================================================================
+
+/**
+ * Appends events to a JSON lines file
+ * Listing reads the whole file, which suits files rotated regularly.
+ */
+export class FileAuthAuditSink implements IAuthAuditSink {
+  constructor(private readonly filename: string) {}
+
+  async initialize(): Promise<void> {
+    await mkdir(path.dirname(path.resolve(this.filename)), { recursive: true })
+  }
+
+  async append(event: AuthAuditEvent): Promise<void> {
+    await appendFile(this.filename, `${serializeAuthAuditEvent(event)}\n`, 'utf8')
+  }
+
+  async listForSubject(subject: AuthAuditSubject, limit: number): Promise<AuthAuditEvent[]> {
+    let contents: string
+    try {
+      contents = await readFile(this.filename, 'utf8')
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+        return [] // Nothing recorded yet, or just rotated
+      }
+      throw error
+    }
+
+    const events: AuthAuditEvent[] = []
+    for (const line of contents.split('\n')) {
+      if (!line.trim()) continue
+      try {
+        const event = deserializeAuthAuditEvent(line)
+        if (isSubjectOf(event, subject)) {
+          events.push(event)
+        }
+      } catch {
+        // A line cut short by a crash mid-write
+        logger.warn({ filename: this.filename }, 'Skipping unreadable auth audit line')
+      }
+    }
+
+    return newestFirst(events).slice(0, limit)
+  }
+}
+
+// ============================================================================
+// SQL
+// ============================================================================
+
+/**
+ * Schema migrations, applied in order. Never edit an applied migration; add
+ * a new version instead. Statements must work on both SQLite and Postgres.
+ */
+export const AUTH_AUDIT_MIGRATIONS: SqlMigration[] = [
+  {
+    version: 1,
+    name: 'create_auth_audit_events',
+    statements: [
+      `CREATE TABLE IF NOT EXISTS auth_audit_events (
+        id TEXT PRIMARY KEY,
+        type TEXT NOT NULL,
+        user_id INTEGER,
+        email TEXT,
+        occurred_at BIGINT NOT NULL,
+        data TEXT NOT NULL
+      )`,
+      'CREATE INDEX IF NOT EXISTS auth_audit_events_user_idx ON auth_audit_events (user_id, occurred_at)',
+      'CREATE INDEX IF NOT EXISTS auth_audit_events_email_idx ON auth_audit_events (email, occurred_at)',
+    ],
+  },
+]
+
+/**
+ * Writes events to an `auth_audit_events` table
+ */
+export class SqlAuthAuditSink implements IAuthAuditSink {
+  private readonly database: Promise<SqlDatabase>
+  private migration: Promise<SqlDatabase> | null = null
+
+  /**
+   * @param database - Open database, or a pending connection (see openSqlDatabase)
+   */
+  constructor(database: SqlDatabase | Promise<SqlDatabase>) {
+    this.database = Promise.resolve(database)
+    this.database.catch((error) => {
+      logger.error(
+        { error: error instanceof Error ? error.message : String(error) },
+        'Auth audit database connection failed'
+      )
+    })
+  }
+
+  async initialize(): Promise<void> {
+    await this.ready()
+  }
+
+  async append(event: AuthAuditEvent): Promise<void> {
+    const db = await this.ready()
+    await db.execute(
+      `INSERT INTO auth_audit_events (id, type, user_id, email, occurred_at, data)
+       VALUES (?, ?, ?, ?, ?, ?)`,
+      [
+        event.id,
+        event.type,
+        event.userId,
+        event.email,
+        event.occurredAt.getTime(),
+        serializeAuthAuditEvent(event),
+      ]
+    )
+  }
+
+  async listForSubject(subject: AuthAuditSubject, limit: number): Promise<AuthAuditEvent[]> {
+    const db = await this.ready()
+    const rows = await db.query<{ data: string }>(
+      `SELECT data FROM auth_audit_events WHERE user_id = ? OR email = ?
+       ORDER BY occurred_at DESC LIMIT ?`,
+      [subject.userId, subject.email.toLowerCase(), limit]
+    )
+    return rows.map((row) => deserializeAuthAuditEvent(row.data))
+  }
+
+  /**
+   * Wait for the connection and run migrations once; a failed attempt is
+   * retried on the next call
+   */
+  private ready(): Promise<SqlDatabase> {
+    if (!this.migration) {
+      this.migration = this.database.then(async (db) => {
+        const applied = await applySqlMigrations(db, 'auth_audit_migrations', AUTH_AUDIT_MIGRATIONS)
+        for (const migration of applied) {
+          logger.info(
+            { version: migration.version, name: migration.name },
+            'Auth audit migration applied'
+          )
+        }
+        return db
+      })
+      this.migration.catch(() => {
+        this.migration = null
+      })
+    }
+    return this.migration
+  }
+}
@@ -9,6 +9,7 @@
 import api from './generated/api-client'
 import { createLogger } from '@/lib/config/logging'
 import { Result, ok, err } from '@/lib/common/result'
+import { parseUserRoles, type UserRole } from '@/lib/common/roles'
 import {
   InvalidCredentialsError,
   InvalidEmailError,
@@ -26,6 +27,7 @@ import type {
   UserLoginDto,
   UserRegisterDto,
   EmailVerificationDto,
+  RequestEmailVerificationDto,
   PasswordResetRequestDto,
   PasswordResetDto,
 } from './generated/data-contracts'
@@ -51,6 +53,7 @@ export interface LoginResponse {
     firstName: string
     lastName: string
     emailVerified: boolean
+    roles: UserRole[]
   }
 }
 
@@ -72,6 +75,15 @@ export interface SignupResponse {
   }
 }
 
+export interface RequestEmailVerificationRequest {
+  userId: number
+}
+
+export interface RequestEmailVerificationResponse {
+  token: string
+  expiresAt: string | null
+}
+
 export interface VerifyEmailRequest {
   token: string
 }
@@ -126,6 +138,11 @@ export type SignupError =
   | EmailAlreadyExistsError
   | InternalServerErrorException
 
+/**
+ * All possible errors that can occur when requesting a verification token
+ */
+export type RequestEmailVerificationError = UserNotFoundError | InternalServerErrorException
+
 /**
  * All possible errors that can occur during email verification
  */
@@ -206,6 +223,8 @@ export class AuthClient {
         firstName: string
         lastName: string
         emailVerified: boolean
+        roles?: unknown
+        role?: unknown
       }
 
       const loginResponse: LoginResponse = {
@@ -218,6 +237,7 @@ export class AuthClient {
           firstName: user.firstName,
           lastName: user.lastName,
           emailVerified: user.emailVerified,
+          roles: parseUserRoles(user),
         },
       }
 
@@ -323,6 +343,51 @@ export class AuthClient {
     }
   }
 
+  /**
+   * Request a new email verification token for a user
+   * The token is not emailed by the backend; the caller sends the link.
+   *
+   * @returns Result with the token or enumerated RequestEmailVerificationError
+   */
+  async requestEmailVerification(
+    request: RequestEmailVerificationRequest
+  ): Promise<Result<RequestEmailVerificationResponse, RequestEmailVerificationError>> {
+    logger.debug({ userId: request.userId }, 'Requesting email verification token')
+
+    try {
+      const response = await api.authControllerRequestEmailVerification(
+        request as RequestEmailVerificationDto
+      )
+      const data = response.data
+
+      if (!data.success || !data.token) {
+        logger.error({ userId: request.userId, error: data.error }, 'No verification token returned')
+        return err(
+          new InternalServerErrorException(data.error || 'Failed to generate verification token')
+        )
+      }
+
+      const verificationResponse: RequestEmailVerificationResponse = {
+        token: data.token,
+        expiresAt: data.expiresAt ?? null,
+      }
+
+      logger.info({ userId: request.userId }, 'Email verification token generated')
+      return ok(verificationResponse)
+    } catch (error) {
+      const serviceError = mapBackendErrorToServiceException(error)
+      logger.error({ error: serviceError.message }, 'Email verification request failed')
+
+      // Map to specific verification request errors
+      if (serviceError instanceof UserNotFoundError) {
+        return err(serviceError)
+      }
+
+      // Fallback to internal server error
+      return err(new InternalServerErrorException(serviceError.message))
+    }
+  }
+
   /**
    * Verify user email address with token
    *
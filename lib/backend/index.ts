@@ -22,6 +22,8 @@ export type {
   LoginResponse,
   SignupRequest,
   SignupResponse,
+  RequestEmailVerificationRequest,
+  RequestEmailVerificationResponse,
   VerifyEmailRequest,
   VerifyEmailResponse,
   RequestPasswordResetRequest,
@@ -0,0 +1,190 @@
+/**
+ * Common Passwords
+ *
+ * The most frequent passwords in public breach corpora, lower-cased. Bundled
+ * so the check works offline and in the browser; the strength estimator also
+ * catches these with digits or symbols appended and with simple
+ * letter-for-digit swaps (p@ssw0rd).
+ */
+
+export const COMMON_PASSWORDS: ReadonlySet<string> = new Set([
+  // Digit and keyboard patterns
+  '123456',
+  '12345678',
+  '123456789',
+  '1234567890',
+  '12345',
+  '1234567',
+  '1234',
+  '123123',
+  '123321',
+  '654321',
+  '987654321',
+  '111111',
+  '000000',
+  '666666',
+  '696969',
+  '777777',
+  '7777777',
+  '555555',
+  '11111111',
+  '112233',
+  '121212',
+  '131313',
+  '159753',
+  '147258369',
+  '123qwe',
+  '1q2w3e',
+  '1q2w3e4r',
+  '1q2w3e4r5t',
+  '1qaz2wsx',
+  'qwerty',
+  'qwerty123',
+  'qwertyuiop',
+  'qwert',
+  'asdf',
+  'asdfgh',
+  'asdfghjkl',
+  'zxcvbn',
+  'zxcvbnm',
+  'qazwsx',
+  'qweasd',
+  'qweasdzxc',
+  'aaaaaa',
+  'abc123',
+  'abcdef',
+  'abcd1234',
+  'a1b2c3',
+
+  // Words and names
+  'password',
+  'passw0rd',
+  'pass',
+  'passwort',
+  'letmein',
+  'welcome',
+  'admin',
+  'administrator',
+  'root',
+  'login',
+  'master',
+  'hello',
+  'secret',
+  'access',
+  'default',
+  'changeme',
+  'guest',
+  'test',
+  'iloveyou',
+  'loveme',
+  'love',
+  'lovely',
+  'trustno1',
+  'whatever',
+  'nothing',
+  'freedom',
+  'sunshine',
+  'shadow',
+  'monkey',
+  'dragon',
+  'princess',
+  'superman',
+  'batman',
+  'spiderman',
+  'starwars',
+  'pokemon',
+  'naruto',
+  'matrix',
+  'killer',
+  'hunter',
+  'ranger',
+  'mustang',
+  'harley',
+  'ferrari',
+  'corvette',
+  'mercedes',
+  'football',
+  'baseball',
+  'basketball',
+  'soccer',
+  'hockey',
+  'golf',
+  'tennis',
+  'yankees',
+  'cowboys',
+  'eagles',
+  'lakers',
+  'liverpool',
+  'chelsea',
+  'arsenal',
+  'barcelona',
+  'dallas',
+  'austin',
+  'london',
+  'chicago',
+  'summer',
+  'winter',
+  'spring',
+  'autumn',
+  'monday',
+  'friday',
+  'january',
+  'thunder',
+  'silver',
+  'golden',
+  'diamond',
+  'orange',
+  'banana',
+  'cookie',
+  'cheese',
+  'chocolate',
+  'pepper',
+  'ginger',
+  'butterfly',
+  'flower',
+  'computer',
+  'internet',
+  'google',
+  'facebook',
+  'samsung',
+  'apple',
+  'microsoft',
+  'qwertz',
+  'azerty',
+  'michael',
+  'jennifer',
+  'jordan',
+  'jessica',
+  'michelle',
+  'ashley',
+  'nicole',
+  'amanda',
+  'daniel',
+  'andrew',
+  'joshua',
+  'matthew',
+  'robert',
+  'thomas',
+  'charlie',
+  'george',
+  'william',
+  'anthony',
+  'hannah',
+  'jasmine',
+  'taylor',
+  'maggie',
+  'buster',
+  'tigger',
+  'bailey',
+  'biteme',
+  'zaq12wsx',
+  'blink182',
+  'secret123',
+  'letmein123',
+  'welcome1',
+  'password1',
+  'password123',
+  'admin123',
+  'root123',
+  'iloveyou1',
+])
@@ -0,0 +1,37 @@
+/**
+ * CSRF Token
+ *
+ * Every session has a random CSRF token. The BFF hands it to the browser in
+ * a readable (not HttpOnly) cookie next to the session cookie, and rejects
+ * state-changing requests of a session unless they echo the token in a
+ * header. Other sites can make the browser send the session cookie, but
+ * can't read the CSRF cookie to set the header.
+ */
+
+export const CSRF_COOKIE_NAME = 'csrf-token'
+
+export const CSRF_HEADER_NAME = 'X-CSRF-Token'
+
+/**
+ * Read the CSRF token from a cookie string (default: the page's cookies)
+ */
+export function readCsrfToken(cookieString?: string): string | null {
+  const cookies = cookieString ?? (typeof document === 'undefined' ? '' : document.cookie)
+
+  for (const cookie of cookies.split(';')) {
+    const [name, ...valueParts] = cookie.trim().split('=')
+    if (name === CSRF_COOKIE_NAME) {
+      return decodeURIComponent(valueParts.join('=')) || null
+    }
+  }
+  return null
+}
+
+/**
+ * Headers to add to a state-changing request to the BFF
+ * Empty without a token (signed out, or on the server).
+ */
+export function csrfHeaders(): Record<string, string> {
+  const token = readCsrfToken()
+  return token ? { [CSRF_HEADER_NAME]: token } : {}
+}
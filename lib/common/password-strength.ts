@@ -0,0 +1,231 @@
+/**
+ * Password Strength
+ *
+ * Estimates how hard a password is to guess, shared by the signup and reset
+ * password forms (live feedback) and the BFF validators (which enforce the
+ * configured minimum score, PASSWORD_MIN_SCORE).
+ *
+ * The estimate is the password's entropy in bits: its length times the bits
+ * per character of the character classes it uses. Repeated characters,
+ * sequences ("abc", "321") and the user's own name or email count for
+ * little, and passwords from the common-password list score 0 whatever
+ * their entropy.
+ */
+
+import { COMMON_PASSWORDS } from './common-passwords'
+import { type Result, ok, err } from './result'
+
+export const PASSWORD_MIN_LENGTH = 8
+
+export type PasswordScore = 0 | 1 | 2 | 3 | 4
+
+export const PASSWORD_SCORE_LABELS = ['Very weak', 'Weak', 'Fair', 'Strong', 'Very strong'] as const
+
+/**
+ * Minimum score when PASSWORD_MIN_SCORE is not set
+ */
+export const DEFAULT_PASSWORD_MIN_SCORE: PasswordScore = 2
+
+/**
+ * Bits of entropy needed for scores 1 to 4
+ */
+const SCORE_THRESHOLD_BITS = [25, 40, 55, 70]
+
+/**
+ * Characters continuing a repeat or sequence count as this much of a character
+ */
+const PATTERN_CHARACTER_WEIGHT = 0.25
+
+/**
+ * Shortest name or email part that counts as personal information
+ */
+const MIN_USER_INPUT_LENGTH = 3
+
+/**
+ * Letter-for-symbol swaps undone before the common-password lookup
+ */
+const SUBSTITUTIONS: Record<string, string> = {
+  '@': 'a',
+  '4': 'a',
+  '3': 'e',
+  '1': 'i',
+  '!': 'i',
+  '0': 'o',
+  $: 's',
+  '5': 's',
+  '7': 't',
+}
+
+export interface PasswordStrength {
+  score: PasswordScore
+  entropyBits: number
+  /** Found in the common-password list (possibly with a suffix or swaps) */
+  common: boolean
+  /** The main problem, if there is one */
+  warning: string | null
+  /** How to make the password stronger (empty once it is strong) */
+  suggestions: string[]
+}
+
+export interface PasswordStrengthOptions {
+  /** The user's name, email etc., which make weak password material */
+  userInputs?: Array<string | null | undefined>
+}
+
+export interface PasswordPolicyOptions extends PasswordStrengthOptions {
+  minScore: number
+}
+
+// ============================================================================
+// HELPERS
+// ============================================================================
+
+function characterPoolSize(password: string): number {
+  let size = 0
+  if (/[a-z]/.test(password)) size += 26
+  if (/[A-Z]/.test(password)) size += 26
+  if (/[0-9]/.test(password)) size += 10
+  if (/[ -/:-@[-`{-~]/.test(password)) size += 33
+  if (/[^\x20-\x7e]/.test(password)) size += 100
+  return size
+}
+
+function characterClassCount(password: string): number {
+  return [/[a-z]/, /[A-Z]/, /[0-9]/, /[^a-zA-Z0-9]/].filter((pattern) => pattern.test(password))
+    .length
+}
+
+/**
+ * Length with repeats and sequences counted as a fraction of a character
+ */
+function effectiveLength(characters: string[]): number {
+  let length = 0
+
+  for (let i = 0; i < characters.length; i++) {
+    const code = characters[i].codePointAt(0)!
+    const previous = characters[i - 1]?.codePointAt(0)
+    const beforePrevious = characters[i - 2]?.codePointAt(0)
+
+    const isRepeat = code === previous
+    const isSequence =
+      previous !== undefined &&
+      beforePrevious !== undefined &&
+      Math.abs(code - previous) === 1 &&
+      code - previous === previous - beforePrevious
+
+    length += isRepeat || isSequence ? PATTERN_CHARACTER_WEIGHT : 1
+  }
+
+  return length
+}
+
+function undoSubstitutions(value: string): string {
+  return Array.from(value, (character) => SUBSTITUTIONS[character] ?? character).join('')
+}
+
+function isCommonPassword(password: string): boolean {
+  const lower = password.toLowerCase()
+  // "Password1!" and "summer2024" are as guessable as their words
+  const base = lower.replace(/[^a-z]+$/, '')
+  const candidates = [lower, base, undoSubstitutions(lower), undoSubstitutions(base)]
+  return candidates.some((candidate) => candidate.length > 0 && COMMON_PASSWORDS.has(candidate))
+}
+
+/**
+ * Lower-cased names and email parts worth looking for in a password
+ */
+function userInputTokens(userInputs: PasswordStrengthOptions['userInputs'] = []): string[] {
+  const tokens = userInputs
+    .filter((input): input is string => typeof input === 'string')
+    .flatMap((input) => [input, ...input.split(/[\s@.+_-]+/)])
+    .map((token) => token.trim().toLowerCase())
+    .filter((token) => token.length >= MIN_USER_INPUT_LENGTH)
+
+  // Longest first, so "ada.cook" is removed before "ada"
+  return Array.from(new Set(tokens)).sort((a, b) => b.length - a.length)
+}
+
+function scoreForBits(bits: number): PasswordScore {
+  return SCORE_THRESHOLD_BITS.filter((threshold) => bits >= threshold).length as PasswordScore
+}
+
+// ============================================================================
+// ESTIMATE
+// ============================================================================
+
+/**
+ * Estimate the strength of a password
+ */
+export function estimatePasswordStrength(
+  password: string,
+  options: PasswordStrengthOptions = {}
+): PasswordStrength {
+  if (!password) {
+    return { score: 0, entropyBits: 0, common: false, warning: null, suggestions: [] }
+  }
+
+  // Each name or email part in the password counts as one character
+  let remaining = password.toLowerCase()
+  let personalCharacters = 0
+  for (const token of userInputTokens(options.userInputs)) {
+    if (remaining.includes(token)) {
+      remaining = remaining.split(token).join('')
+      personalCharacters += 1
+    }
+  }
+
+  const characters = Array.from(password)
+  const remainingCharacters = Array.from(remaining)
+  const length = effectiveLength(remainingCharacters) + personalCharacters
+  const entropyBits = Math.round(length * Math.log2(characterPoolSize(password)) * 10) / 10
+  const common = isCommonPassword(password)
+  const score = common ? 0 : scoreForBits(entropyBits)
+
+  let warning: string | null = null
+  if (common) {
+    warning = 'This is a commonly used password'
+  } else if (personalCharacters > 0) {
+    warning = 'Avoid using your name or email address'
+  } else if (effectiveLength(remainingCharacters) < remainingCharacters.length * 0.75) {
+    warning = 'Avoid repeated characters and sequences like "aaa" or "123"'
+  }
+
+  const suggestions: string[] = []
+  if (score < 3) {
+    if (characters.length < 12) {
+      suggestions.push('Use a longer password; a few unrelated words work well')
+    }
+    if (characterClassCount(password) < 3) {
+      suggestions.push('Mix in upper case letters, numbers or symbols')
+    }
+  }
+
+  return { score, entropyBits, common, warning, suggestions }
+}
+
+/**
+ * Check a new password against the length and strength rules
+ *
+ * @returns The strength, or a message saying what is wrong
+ */
+export function checkPasswordStrength(
+  password: string,
+  options: PasswordPolicyOptions
+): Result<PasswordStrength, string> {
+  if (password.length < PASSWORD_MIN_LENGTH) {
+    return err(`Password must be at least ${PASSWORD_MIN_LENGTH} characters`)
+  }
+
+  const strength = estimatePasswordStrength(password, options)
+
+  if (strength.common) {
+    return err('This password is too common. Please choose a different one')
+  }
+
+  if (strength.score < options.minScore) {
+    const hint = strength.warning ?? strength.suggestions[0]
+    return err(hint ? `Password is too weak. ${hint}` : 'Password is too weak')
+  }
+
+  return ok(strength)
+}
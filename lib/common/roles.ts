@@ -0,0 +1,48 @@
+/**
+ * User Roles
+ *
+ * Roles come from the backend login response and are kept in the session.
+ * They are ranked, so a higher role has every permission of the lower ones:
+ *  - viewer: read recipes
+ *  - editor: also create, edit and delete recipes
+ *  - owner: also manage the account
+ *
+ * Shared by the BFF (requireRole middleware) and the browser (useAuth,
+ * <RequireRole>). The browser checks only decide what to show; the BFF
+ * enforces them.
+ */
+
+export const USER_ROLES = ['viewer', 'editor', 'owner'] as const
+
+export type UserRole = (typeof USER_ROLES)[number]
+
+/**
+ * Roles of users the backend sends without any known role
+ * Least privilege: editing needs a role the backend granted.
+ */
+export const DEFAULT_USER_ROLES: readonly UserRole[] = ['viewer']
+
+function isUserRole(value: unknown): value is UserRole {
+  return typeof value === 'string' && (USER_ROLES as readonly string[]).includes(value)
+}
+
+/**
+ * Read the roles of a backend user object (`roles: string[]` or `role: string`)
+ * Unknown roles are dropped; without any known role the user gets the defaults.
+ */
+export function parseUserRoles(user: { roles?: unknown; role?: unknown }): UserRole[] {
+  const values = Array.isArray(user.roles) ? user.roles : [user.role]
+  const roles = values
+    .map((value) => (typeof value === 'string' ? value.trim().toLowerCase() : value))
+    .filter(isUserRole)
+
+  return roles.length > 0 ? Array.from(new Set(roles)) : [...DEFAULT_USER_ROLES]
+}
+
+/**
+ * Whether the roles include the required role or a higher one
+ */
+export function hasRole(roles: readonly UserRole[] | undefined, required: UserRole): boolean {
+  const requiredRank = USER_ROLES.indexOf(required)
+  return (roles ?? []).some((role) => USER_ROLES.indexOf(role) >= requiredRank)
+}
@@ -8,6 +8,8 @@
  * All environment variables are validated at startup to catch missing config early.
  */
 
+import { DEFAULT_PASSWORD_MIN_SCORE } from '@/lib/common/password-strength'
+
 // ============================================================================
 // TYPE DEFINITIONS
 // ============================================================================
@@ -31,6 +33,26 @@ export interface EnvironmentConfig {
   redisUrl?: string
   databaseUrl?: string
 
+  // Reverse Proxy
+  trustProxy: boolean | number | string // Express "trust proxy" setting, see loadTrustProxy
+
+  // Rate Limiting
+  rateLimitEnabled: boolean
+
+  // CSRF Protection
+  csrfTrustedOrigins: string[] // Origins besides the app's own allowed to send requests
+
+  // Password Policy
+  passwordMinScore: number // 0-4, see lib/common/password-strength.ts
+
+  // Auth Audit Log
+  authAuditSink: 'memory' | 'file' | 'database'
+  authAuditLogFile: string // JSON lines file written by the "file" sink
+
+  // New Device Alerts
+  newDeviceAlerts: boolean // Email users about sign-ins from devices not seen before
+  newDeviceAlertLinkHours: number // How long the "this wasn't me" link works
+
   // Feature Flags
   enableEmailVerification: boolean
   enablePasswordReset: boolean
@@ -81,6 +103,20 @@ function loadEnvNumber(key: string, defaultValue: number): number {
   return num
 }
 
+/**
+ * Load TRUST_PROXY for Express's "trust proxy" setting
+ * "true"/"false", a number of proxy hops, or comma-separated addresses,
+ * subnets and names such as "loopback". Off by default: behind a proxy,
+ * req.ip is then the proxy's address.
+ */
+function loadTrustProxy(): boolean | number | string {
+  const value = process.env.TRUST_PROXY?.trim()
+  if (!value || value === 'false') return false
+  if (value === 'true') return true
+  if (/^\d+$/.test(value)) return Number(value)
+  return value
+}
+
 // ============================================================================
 // CONFIGURATION OBJECT
 // ============================================================================
@@ -104,6 +140,31 @@ export const config: EnvironmentConfig = {
   redisUrl: process.env.REDIS_URL,
   databaseUrl: process.env.DATABASE_URL,
 
+  // Reverse Proxy
+  trustProxy: loadTrustProxy(),
+
+  // Rate Limiting
+  rateLimitEnabled: loadEnvBoolean('RATE_LIMIT_ENABLED', true),
+
+  // CSRF Protection
+  csrfTrustedOrigins: (process.env.CSRF_TRUSTED_ORIGINS || '')
+    .split(',')
+    .map((origin) => origin.trim())
+    .filter(Boolean),
+
+  // Password Policy
+  passwordMinScore: loadEnvNumber('PASSWORD_MIN_SCORE', DEFAULT_PASSWORD_MIN_SCORE),
+
+  // Auth Audit Log
+  authAuditSink:
+    (process.env.AUTH_AUDIT_SINK as any) ||
+    (process.env.SESSION_STORAGE === 'database' ? 'database' : 'memory'),
+  authAuditLogFile: loadEnvVar('AUTH_AUDIT_LOG_FILE', false, './data/auth-audit.log'),
+
+  // New Device Alerts
+  newDeviceAlerts: loadEnvBoolean('NEW_DEVICE_ALERTS', true),
+  newDeviceAlertLinkHours: loadEnvNumber('NEW_DEVICE_ALERT_LINK_HOURS', 72),
+
   // Feature Flags
   enableEmailVerification: loadEnvBoolean('ENABLE_EMAIL_VERIFICATION', true),
   enablePasswordReset: loadEnvBoolean('ENABLE_PASSWORD_RESET', true),
@@ -144,6 +205,25 @@ export function validateConfig(): void {
     errors.push('SESSION_STORAGE is "database" but DATABASE_URL is not configured')
   }
 
+  // Validate password policy
+  if (config.passwordMinScore < 0 || config.passwordMinScore > 4) {
+    errors.push(`PASSWORD_MIN_SCORE must be between 0 and 4, got ${config.passwordMinScore}`)
+  }
+
+  // Validate new device alerts
+  if (config.newDeviceAlertLinkHours <= 0) {
+    errors.push(`NEW_DEVICE_ALERT_LINK_HOURS must be positive, got ${config.newDeviceAlertLinkHours}`)
+  }
+
+  // Validate auth audit log
+  if (!['memory', 'file', 'database'].includes(config.authAuditSink)) {
+    errors.push(`AUTH_AUDIT_SINK must be "memory", "file" or "database", got "${config.authAuditSink}"`)
+  }
+
+  if (config.authAuditSink === 'database' && !config.databaseUrl) {
+    errors.push('AUTH_AUDIT_SINK is "database" but DATABASE_URL is not configured')
+  }
+
   // Validate email configuration
   if (config.transactionEmailProvider === 'resend' && !config.resendApiKey) {
     errors.push('TRANSACTION_EMAIL_PROVIDER is "resend" but RESEND_API_KEY is not configured')
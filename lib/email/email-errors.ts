@@ -73,6 +73,18 @@ export class WelcomeEmailSendError extends EmailSendError {
   }
 }
 
+/**
+ * New device sign-in email send failure
+ */
+export class NewDeviceSignInEmailSendError extends EmailSendError {
+  constructor(email: string, cause?: Error) {
+    super(`Failed to send new device sign-in email to ${email}`, cause, {
+      email,
+      emailType: 'new-device-sign-in',
+    })
+  }
+}
+
 /**
  * Invalid email address
  */
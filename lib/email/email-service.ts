@@ -42,4 +42,10 @@ export const emailService = createEmailProvider()
 /**
  * Export types for convenience
  */
-export type { EmailProvider, VerificationEmailData, PasswordResetEmailData, WelcomeEmailData } from './types'
+export type {
+  EmailProvider,
+  VerificationEmailData,
+  PasswordResetEmailData,
+  WelcomeEmailData,
+  NewDeviceSignInEmailData,
+} from './types'
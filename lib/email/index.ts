@@ -13,4 +13,5 @@ export type {
   VerificationEmailData,
   PasswordResetEmailData,
   WelcomeEmailData,
+  NewDeviceSignInEmailData,
 } from './types'
@@ -2,36 +2,60 @@
  * Mock Email Provider
  *
  * Logs email content to console instead of sending actual emails.
- * Useful for development and testing.
+ * Useful for development and testing: emails are also kept in `sentEmails`
+ * so tests can read the links they contain.
  */
 
 import { createLogger } from '@/lib/config/logging'
 import { ok } from '@/lib/common/result'
 import type { Result } from '@/lib/common/result'
 import type {
+  EmailMessage,
   EmailProvider,
   VerificationEmailData,
   PasswordResetEmailData,
   WelcomeEmailData,
+  NewDeviceSignInEmailData,
 } from '../types'
 import {
   VerificationEmailSendError,
   PasswordResetEmailSendError,
   WelcomeEmailSendError,
+  NewDeviceSignInEmailSendError,
 } from '../email-errors'
-import { generateVerificationEmailText } from '../templates/verification-email'
-import { generatePasswordResetEmailText } from '../templates/password-reset-email'
+import { generateVerificationEmailHtml, generateVerificationEmailText } from '../templates/verification-email'
+import { generatePasswordResetEmailHtml, generatePasswordResetEmailText } from '../templates/password-reset-email'
+import {
+  generateNewDeviceSignInEmailHtml,
+  generateNewDeviceSignInEmailSubject,
+  generateNewDeviceSignInEmailText,
+} from '../templates/new-device-sign-in-email'
 import { config } from '@/lib/config'
 
 const logger = createLogger('MockEmailProvider')
 
 export class MockEmailProvider implements EmailProvider {
+  /**
+   * Emails "sent" so far, oldest first
+   */
+  readonly sentEmails: EmailMessage[] = []
+
+  private record(to: string, subject: string, html: string, text: string): void {
+    this.sentEmails.push({
+      to,
+      from: `${config.transactionEmailFromName} <${config.transactionAuthEmailFromAddress}>`,
+      subject,
+      html,
+      text,
+    })
+  }
+
   /**
    * Send a verification email (mock - logs to console)
    */
   async sendVerificationEmail(data: VerificationEmailData): Promise<Result<void, VerificationEmailSendError>> {
     const text = generateVerificationEmailText(data)
-    // HTML version is available via generateVerificationEmailHtml(data) if needed
+    this.record(data.email, 'Verify your email address', generateVerificationEmailHtml(data), text)
 
     // Log structured data for debugging
     logger.info(
@@ -72,7 +96,7 @@ export class MockEmailProvider implements EmailProvider {
    */
   async sendPasswordResetEmail(data: PasswordResetEmailData): Promise<Result<void, PasswordResetEmailSendError>> {
     const text = generatePasswordResetEmailText(data)
-    // HTML version is available via generatePasswordResetEmailHtml(data) if needed
+    this.record(data.email, 'Reset your password', generatePasswordResetEmailHtml(data), text)
 
     // Log structured data for debugging
     logger.info(
@@ -138,4 +162,45 @@ export class MockEmailProvider implements EmailProvider {
 
     return ok(undefined)
   }
+
+  /**
+   * Tell a user about a sign-in from a new device (mock - logs to console)
+   */
+  async sendNewDeviceSignInEmail(
+    data: NewDeviceSignInEmailData
+  ): Promise<Result<void, NewDeviceSignInEmailSendError>> {
+    const subject = generateNewDeviceSignInEmailSubject(data)
+    const text = generateNewDeviceSignInEmailText(data)
+    this.record(data.email, subject, generateNewDeviceSignInEmailHtml(data), text)
+
+    // Log structured data for debugging
+    logger.info(
+      {
+        to: data.email,
+        from: config.transactionAuthEmailFromAddress,
+        subject,
+        device: data.device,
+        ipAddress: data.ipAddress,
+        notMeUrl: data.notMeUrl,
+      },
+      'Mock Email: New Device Sign-In Email'
+    )
+
+    // Pretty console output for easy copy-paste of the "this wasn't me" URL
+    console.log('\n')
+    console.log('━'.repeat(80))
+    console.log('📧  NEW DEVICE SIGN-IN EMAIL (Mock)')
+    console.log('━'.repeat(80))
+    console.log(`To:        ${data.email}`)
+    console.log(`From:      ${config.transactionEmailFromName} <${config.transactionAuthEmailFromAddress}>`)
+    console.log(`Subject:   ${subject}`)
+    console.log('━'.repeat(80))
+    console.log(`\n💻 Device: ${data.device}${data.ipAddress ? ` from ${data.ipAddress}` : ''}`)
+    console.log(`\n🔗 THIS WASN'T ME URL:`)
+    console.log(`   ${data.notMeUrl}`)
+    console.log('━'.repeat(80))
+    console.log('\n')
+
+    return ok(undefined)
+  }
 }
@@ -15,14 +15,21 @@ import type {
   VerificationEmailData,
   PasswordResetEmailData,
   WelcomeEmailData,
+  NewDeviceSignInEmailData,
 } from '../types'
 import {
   VerificationEmailSendError,
   PasswordResetEmailSendError,
   WelcomeEmailSendError,
+  NewDeviceSignInEmailSendError,
 } from '../email-errors'
 import { generateVerificationEmailHtml, generateVerificationEmailText } from '../templates/verification-email'
 import { generatePasswordResetEmailHtml, generatePasswordResetEmailText } from '../templates/password-reset-email'
+import {
+  generateNewDeviceSignInEmailHtml,
+  generateNewDeviceSignInEmailSubject,
+  generateNewDeviceSignInEmailText,
+} from '../templates/new-device-sign-in-email'
 
 const logger = createLogger('ResendEmailProvider')
 
@@ -173,4 +180,46 @@ The Tenant App Team`
       return err(new WelcomeEmailSendError(data.email, error instanceof Error ? error : undefined))
     }
   }
+
+  /**
+   * Tell a user about a sign-in from a new device via Resend
+   */
+  async sendNewDeviceSignInEmail(
+    data: NewDeviceSignInEmailData
+  ): Promise<Result<void, NewDeviceSignInEmailSendError>> {
+    const subject = generateNewDeviceSignInEmailSubject(data)
+    const html = generateNewDeviceSignInEmailHtml(data)
+    const text = generateNewDeviceSignInEmailText(data)
+
+    try {
+      const result = await this.resend.emails.send({
+        from: `${config.transactionEmailFromName} <${config.transactionAuthEmailFromAddress}>`,
+        to: data.email,
+        subject,
+        html,
+        text,
+      })
+
+      logger.info(
+        {
+          emailId: result.data?.id,
+          to: data.email,
+          subject,
+        },
+        'New device sign-in email sent via Resend'
+      )
+
+      return ok(undefined)
+    } catch (error) {
+      logger.error(
+        {
+          error,
+          to: data.email,
+        },
+        'Failed to send new device sign-in email via Resend'
+      )
+
+      return err(new NewDeviceSignInEmailSendError(data.email, error instanceof Error ? error : undefined))
+    }
+  }
 }
@@ -0,0 +1,148 @@
+/**
+ * New Device Sign-In Email Template
+ *
+ * Subject, HTML and plain text templates telling a user about a sign-in from
+ * a device not seen before, with a link to report it
+ */
+
+import type { NewDeviceSignInEmailData } from '../types'
+
+/**
+ * The sign-in time as shown in the email, e.g. "Sunday, October 18, 2026 at 9:41 AM UTC"
+ */
+function formatSignedInAt(signedInAt: Date): string {
+  return `${signedInAt.toLocaleString('en-US', {
+    dateStyle: 'full',
+    timeStyle: 'short',
+    timeZone: 'UTC',
+  })} UTC`
+}
+
+/**
+ * Where the sign-in came from, e.g. "Chrome on macOS from 203.0.113.7"
+ */
+function formatDevice(data: NewDeviceSignInEmailData): string {
+  return data.ipAddress ? `${data.device} from ${data.ipAddress}` : data.device
+}
+
+/**
+ * Generate the subject line for a new device sign-in
+ */
+export function generateNewDeviceSignInEmailSubject(data: NewDeviceSignInEmailData): string {
+  return `New sign-in to your ${data.appName} account`
+}
+
+/**
+ * Generate HTML email for a new device sign-in
+ */
+export function generateNewDeviceSignInEmailHtml(data: NewDeviceSignInEmailData): string {
+  return `
+<!DOCTYPE html>
+<html lang="en">
+<head>
+  <meta charset="UTF-8">
+  <meta name="viewport" content="width=device-width, initial-scale=1.0">
+  <title>${generateNewDeviceSignInEmailSubject(data)}</title>
+</head>
+<body style="margin: 0; padding: 0; font-family: -apple-system, BlinkMacSystemFont, 'Segoe UI', Roboto, 'Helvetica Neue', Arial, sans-serif; background-color: #f3f4f6;">
+  <table role="presentation" style="width: 100%; border-collapse: collapse;">
+    <tr>
+      <td align="center" style="padding: 40px 0;">
+        <table role="presentation" style="width: 600px; border-collapse: collapse; background-color: #ffffff; border-radius: 8px; box-shadow: 0 2px 4px rgba(0, 0, 0, 0.1);">
+          <!-- Header -->
+          <tr>
+            <td style="padding: 40px 40px 20px; text-align: center; background: linear-gradient(135deg, #f59e0b 0%, #d97706 100%); border-radius: 8px 8px 0 0;">
+              <h1 style="margin: 0; color: #ffffff; font-size: 28px; font-weight: 700;">New Sign-In</h1>
+            </td>
+          </tr>
+
+          <!-- Content -->
+          <tr>
+            <td style="padding: 40px;">
+              <h2 style="margin: 0 0 16px; color: #1f2937; font-size: 24px; font-weight: 600;">Hi ${data.firstName},</h2>
+
+              <p style="margin: 0 0 24px; color: #4b5563; font-size: 16px; line-height: 24px;">
+                Your ${data.appName} account <strong>${data.email}</strong> was just signed in to from a device we haven't seen before.
+              </p>
+
+              <!-- Sign-In Details -->
+              <table role="presentation" style="margin: 0 0 24px; width: 100%; border-collapse: collapse; background-color: #f9fafb; border-radius: 6px;">
+                <tr>
+                  <td style="padding: 16px; color: #4b5563; font-size: 14px; line-height: 22px;">
+                    <strong>When:</strong> ${formatSignedInAt(data.signedInAt)}<br>
+                    <strong>Device:</strong> ${formatDevice(data)}
+                  </td>
+                </tr>
+              </table>
+
+              <p style="margin: 0 0 24px; color: #4b5563; font-size: 16px; line-height: 24px;">
+                If this was you, there's nothing to do. If it wasn't, we'll sign that device out and email you a link to choose a new password.
+              </p>
+
+              <!-- CTA Button -->
+              <table role="presentation" style="margin: 32px 0; width: 100%;">
+                <tr>
+                  <td align="center">
+                    <a href="${data.notMeUrl}"
+                       style="display: inline-block; padding: 16px 32px; background: linear-gradient(135deg, #ef4444 0%, #dc2626 100%); color: #ffffff; text-decoration: none; border-radius: 6px; font-weight: 600; font-size: 16px; box-shadow: 0 4px 6px rgba(239, 68, 68, 0.25);">
+                      This Wasn't Me
+                    </a>
+                  </td>
+                </tr>
+              </table>
+
+              <p style="margin: 24px 0 0; color: #6b7280; font-size: 14px; line-height: 20px;">
+                Or copy and paste this link into your browser:
+              </p>
+              <p style="margin: 8px 0 0; color: #ef4444; font-size: 14px; word-break: break-all;">
+                ${data.notMeUrl}
+              </p>
+
+              <!-- Expiry Notice -->
+              <div style="margin-top: 32px; padding: 16px; background-color: #fef3c7; border-left: 4px solid #f59e0b; border-radius: 4px;">
+                <p style="margin: 0; color: #92400e; font-size: 14px; line-height: 20px;">
+                  ⏰ This link will expire in <strong>${data.expiresInHours} hours</strong>. After that, sign out the device from your active sessions and change your password.
+                </p>
+              </div>
+            </td>
+          </tr>
+
+          <!-- Footer -->
+          <tr>
+            <td style="padding: 32px 40px; background-color: #f9fafb; border-radius: 0 0 8px 8px; border-top: 1px solid #e5e7eb;">
+              <p style="margin: 0; color: #9ca3af; font-size: 12px; line-height: 16px;">
+                © ${new Date().getFullYear()} ${data.appName}. All rights reserved.
+              </p>
+            </td>
+          </tr>
+        </table>
+      </td>
+    </tr>
+  </table>
+</body>
+</html>
+  `.trim()
+}
+
+/**
+ * Generate plain text email for a new device sign-in
+ */
+export function generateNewDeviceSignInEmailText(data: NewDeviceSignInEmailData): string {
+  return `
+Hi ${data.firstName},
+
+Your ${data.appName} account ${data.email} was just signed in to from a device we haven't seen before.
+
+When: ${formatSignedInAt(data.signedInAt)}
+Device: ${formatDevice(data)}
+
+If this was you, there's nothing to do. If it wasn't, open this link and we'll sign that device out and email you a link to choose a new password:
+
+${data.notMeUrl}
+
+This link will expire in ${data.expiresInHours} hours. After that, sign out the device from your active sessions and change your password.
+
+---
+© ${new Date().getFullYear()} ${data.appName}. All rights reserved.
+  `.trim()
+}
@@ -10,6 +10,7 @@ import type {
   VerificationEmailSendError,
   PasswordResetEmailSendError,
   WelcomeEmailSendError,
+  NewDeviceSignInEmailSendError,
 } from './email-errors'
 
 // ============================================================================
@@ -30,7 +31,11 @@ export interface EmailMessage {
 /**
  * Email template types supported by the system
  */
-export type EmailTemplateType = 'verification' | 'password-reset' | 'welcome'
+export type EmailTemplateType =
+  | 'verification'
+  | 'password-reset'
+  | 'welcome'
+  | 'new-device-sign-in'
 
 // ============================================================================
 // VERIFICATION EMAIL DATA
@@ -75,6 +80,25 @@ export interface WelcomeEmailData {
   lastName: string
 }
 
+// ============================================================================
+// NEW DEVICE SIGN-IN EMAIL DATA
+// ============================================================================
+
+/**
+ * Data required to tell a user about a sign-in from a new device
+ */
+export interface NewDeviceSignInEmailData {
+  email: string
+  firstName: string
+  lastName: string
+  appName: string
+  signedInAt: Date
+  device: string // e.g. "Chrome on macOS"
+  ipAddress: string | null
+  notMeUrl: string // Signs the session out and starts a password reset
+  expiresInHours: number
+}
+
 // ============================================================================
 // EMAIL PROVIDER INTERFACE
 // ============================================================================
@@ -103,6 +127,14 @@ export interface EmailProvider {
    * Returns Result with void on success, or WelcomeEmailSendError on failure
    */
   sendWelcomeEmail(data: WelcomeEmailData): Promise<Result<void, WelcomeEmailSendError>>
+
+  /**
+   * Tell a user about a sign-in from a device not seen before
+   * Returns Result with void on success, or NewDeviceSignInEmailSendError on failure
+   */
+  sendNewDeviceSignInEmail(
+    data: NewDeviceSignInEmailData
+  ): Promise<Result<void, NewDeviceSignInEmailSendError>>
 }
 
 // ============================================================================
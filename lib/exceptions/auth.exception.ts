@@ -16,6 +16,8 @@ import {
 
 import {
   InvalidCredentialsError,
+  InvalidTwoFactorCodeError,
+  TwoFactorSetupError,
   SessionNotFoundError,
   SessionExpiredError,
   SessionInvalidError,
@@ -33,6 +35,8 @@ import {
   InsufficientRoleError,
   TenantAccessDeniedError,
   ResourceAccessDeniedError,
+  InvalidCsrfTokenError,
+  CrossOriginRequestError,
   InvalidEmailError,
   InvalidPasswordError,
   WeakPasswordError,
@@ -48,7 +52,7 @@ import {
  */
 export function mapServiceToHttpException(error: Error): Error {
   // Invalid credentials -> 401
-  if (error instanceof InvalidCredentialsError) {
+  if (error instanceof InvalidCredentialsError || error instanceof InvalidTwoFactorCodeError) {
     return new UnauthorizedException(error.message)
   }
 
@@ -86,7 +90,9 @@ export function mapServiceToHttpException(error: Error): Error {
     error instanceof InsufficientPermissionsError ||
     error instanceof InsufficientRoleError ||
     error instanceof TenantAccessDeniedError ||
-    error instanceof ResourceAccessDeniedError
+    error instanceof ResourceAccessDeniedError ||
+    error instanceof InvalidCsrfTokenError ||
+    error instanceof CrossOriginRequestError
   ) {
     return new ForbiddenException(error.message)
   }
@@ -97,7 +103,7 @@ export function mapServiceToHttpException(error: Error): Error {
   }
 
   // Conflict errors -> 409
-  if (error instanceof EmailAlreadyExistsError) {
+  if (error instanceof EmailAlreadyExistsError || error instanceof TwoFactorSetupError) {
     return new ConflictException(error.message)
   }
 
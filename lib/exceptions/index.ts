@@ -44,6 +44,8 @@ export {
 
   // Authentication
   InvalidCredentialsError,
+  InvalidTwoFactorCodeError,
+  TwoFactorSetupError,
   SessionError,
   SessionNotFoundError,
   SessionExpiredError,
@@ -78,6 +80,8 @@ export {
   InsufficientRoleError,
   TenantAccessDeniedError,
   ResourceAccessDeniedError,
+  InvalidCsrfTokenError,
+  CrossOriginRequestError,
 
   // Rate Limiting
   RateLimitError,
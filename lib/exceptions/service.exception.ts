@@ -62,6 +62,30 @@ export class InvalidCredentialsError extends ServiceException {
   }
 }
 
+/**
+ * Wrong or already used two-factor code (TOTP or recovery code)
+ */
+export class InvalidTwoFactorCodeError extends ServiceException {
+  constructor() {
+    super({
+      message: 'Invalid authentication code',
+      code: 'INVALID_TWO_FACTOR_CODE',
+    })
+  }
+}
+
+/**
+ * Two-factor setup in the wrong state (already enabled, or not started)
+ */
+export class TwoFactorSetupError extends ServiceException {
+  constructor(message: string) {
+    super({
+      message,
+      code: 'TWO_FACTOR_SETUP',
+    })
+  }
+}
+
 /**
  * Session-related errors
  */
@@ -358,6 +382,24 @@ export class ResourceAccessDeniedError extends AuthorizationError {
   }
 }
 
+/**
+ * CSRF token missing or not the session's token
+ */
+export class InvalidCsrfTokenError extends AuthorizationError {
+  constructor() {
+    super('Invalid or missing CSRF token. Reload the page and try again', 'CSRF_TOKEN_INVALID')
+  }
+}
+
+/**
+ * Request sent from a page of another origin
+ */
+export class CrossOriginRequestError extends AuthorizationError {
+  constructor(origin: string) {
+    super('Cross-origin request rejected', 'CSRF_ORIGIN_REJECTED', { origin })
+  }
+}
+
 // ============================================================================
 // RATE LIMITING ERRORS
 // ============================================================================
@@ -393,8 +435,13 @@ export class TooManyLoginAttemptsError extends RateLimitError {
  * Too many password reset attempts
  */
 export class TooManyPasswordResetAttemptsError extends RateLimitError {
-  constructor() {
-    super('Too many password reset attempts')
+  constructor(retryAfter?: number) {
+    super(
+      retryAfter
+        ? `Too many password reset attempts. Try again in ${retryAfter} seconds`
+        : 'Too many password reset attempts',
+      retryAfter
+    )
   }
 }
 
@@ -402,8 +449,13 @@ export class TooManyPasswordResetAttemptsError extends RateLimitError {
  * Too many verification attempts
  */
 export class TooManyVerificationAttemptsError extends RateLimitError {
-  constructor() {
-    super('Too many verification attempts')
+  constructor(retryAfter?: number) {
+    super(
+      retryAfter
+        ? `Too many verification attempts. Try again in ${retryAfter} seconds`
+        : 'Too many verification attempts',
+      retryAfter
+    )
   }
 }
 
@@ -4,13 +4,16 @@
  * Configured to use the Next.js GraphQL proxy endpoint (/api/graphql)
  * which handles authentication and forwards requests to the backend.
  * 
- * Session cookie is automatically sent by the browser.
+ * Session cookie is automatically sent by the browser; the CSRF link adds
+ * the session's CSRF token header the BFF requires.
  */
 
 import { ApolloClient, ApolloLink, HttpLink, InMemoryCache } from '@apollo/client'
 import { createLogger } from '@/lib/common/logger'
+import { csrfHeaders } from '@/lib/common/csrf'
 import { map, catchError } from 'rxjs'
 import { throwError } from 'rxjs'
+import { offsetPaginationFieldPolicy } from './pagination'
 
 // Get debug mode - works on both server and client
 const getDebugMode = (): boolean => {
@@ -40,6 +43,19 @@ const httpLink = new HttpLink({
   fetch,
 })
 
+// ============================================================================
+// CSRF LINK (echoes the CSRF cookie in a header)
+// ============================================================================
+
+const csrfLink = new ApolloLink((operation, forward) => {
+  // Read per request: the token changes when the user signs in again
+  operation.setContext(({ headers = {} }: { headers?: Record<string, string> }) => ({
+    headers: { ...headers, ...csrfHeaders() },
+  }))
+
+  return forward(operation)
+})
+
 // ============================================================================
 // LOGGING LINK (for debugging)
 // ============================================================================
@@ -105,7 +121,8 @@ const cache = new InMemoryCache({
   typePolicies: {
     Query: {
       fields: {
-        // Add cache policies here as needed
+        // Paged with `offset`/`limit` variables, see pagination.ts
+        recipes: offsetPaginationFieldPolicy(),
       },
     },
   },
@@ -117,7 +134,7 @@ const cache = new InMemoryCache({
 
 export const apolloClient = new ApolloClient({
   ssrMode: typeof window === 'undefined', // Enable SSR mode on server
-  link: ApolloLink.from([errorLink, loggingLink, httpLink]),
+  link: ApolloLink.from([errorLink, loggingLink, csrfLink, httpLink]),
   cache,
 })
 
@@ -14,19 +14,39 @@ import type { TypedDocumentNode as DocumentNode } from '@graphql-typed-document-
  * Learn more about it here: https://the-guild.dev/graphql/codegen/plugins/presets/preset-client#reducing-bundle-size
  */
 type Documents = {
+    "\n  query GetMealPlanRange($input: MealPlanRangeInput!) {\n    mealPlanRange(input: $input) {\n      date\n      entries {\n        id\n        date\n        mealType\n        createdAt\n        updatedAt\n        recipe {\n          id\n          name\n          slug\n        }\n      }\n    }\n  }\n": typeof types.GetMealPlanRangeDocument,
+    "\n  query GetMealPlanRecipes {\n    recipes {\n      id\n      name\n      slug\n    }\n  }\n": typeof types.GetMealPlanRecipesDocument,
+    "\n  mutation AddRecipeToMealPlan($input: AddRecipeToMealPlanInput!) {\n    addRecipeToMealPlan(input: $input) {\n      id\n      date\n      mealType\n      createdAt\n      updatedAt\n      recipe {\n        id\n        name\n        slug\n      }\n    }\n  }\n": typeof types.AddRecipeToMealPlanDocument,
+    "\n  mutation RemoveRecipeFromMealPlan($input: RemoveRecipeFromMealPlanInput!) {\n    removeRecipeFromMealPlan(input: $input)\n  }\n": typeof types.RemoveRecipeFromMealPlanDocument,
+    "\n  mutation ClearMealSlot($input: ClearMealSlotInput!) {\n    clearMealSlot(input: $input)\n  }\n": typeof types.ClearMealSlotDocument,
     "\n  query GetRecipeBySlug($slug: String!) {\n    recipe(slug: $slug) {\n      id\n      name\n      slug\n      instructions\n      createdAt\n      updatedAt\n      tenantId\n      userId\n    }\n  }\n": typeof types.GetRecipeBySlugDocument,
+    "\n  query GetUpcomingRecipeSchedule($input: MealPlanRangeInput!) {\n    mealPlanRange(input: $input) {\n      date\n      entries {\n        id\n        date\n        mealType\n        recipe {\n          id\n          slug\n        }\n      }\n    }\n  }\n": typeof types.GetUpcomingRecipeScheduleDocument,
+    "\n  mutation DeleteRecipe($slug: String!) {\n    deleteRecipe(slug: $slug)\n  }\n": typeof types.DeleteRecipeDocument,
+    "\n  mutation RestoreRecipe($input: CreateRecipeInput!) {\n    createRecipe(input: $input) {\n      id\n      name\n      slug\n      instructions\n      createdAt\n      updatedAt\n    }\n  }\n": typeof types.RestoreRecipeDocument,
     "\n  mutation CreateRecipe($input: CreateRecipeInput!) {\n    createRecipe(input: $input) {\n      id\n      name\n      slug\n      instructions\n      createdAt\n      updatedAt\n    }\n  }\n": typeof types.CreateRecipeDocument,
     "\n  query GetRecipeForEdit($slug: String!) {\n    recipe(slug: $slug) {\n      id\n      name\n      slug\n      instructions\n      createdAt\n      updatedAt\n    }\n  }\n": typeof types.GetRecipeForEditDocument,
     "\n  mutation UpdateRecipe($slug: String!, $input: UpdateRecipeInput!) {\n    updateRecipe(slug: $slug, input: $input) {\n      id\n      name\n      slug\n      instructions\n      createdAt\n      updatedAt\n    }\n  }\n": typeof types.UpdateRecipeDocument,
-    "\n  query GetRecipes {\n    recipes {\n      id\n      name\n      slug\n      instructions\n      createdAt\n      updatedAt\n      tenantId\n      userId\n    }\n  }\n": typeof types.GetRecipesDocument,
+    "\n  query GetRecipes($offset: Int, $limit: Int) {\n    recipes(offset: $offset, limit: $limit) {\n      id\n      name\n      slug\n      instructions\n      createdAt\n      updatedAt\n      tenantId\n      userId\n    }\n  }\n": typeof types.GetRecipesDocument,
+    "\n  query GetAccountProfile {\n    me {\n      id\n      email\n      firstName\n      lastName\n      emailVerified\n      status\n      lastLoginAt\n      createdAt\n    }\n  }\n": typeof types.GetAccountProfileDocument,
+    "\n  query GetShoppingListMealPlan($input: MealPlanRangeInput!) {\n    mealPlanRange(input: $input) {\n      date\n      entries {\n        id\n        mealType\n        recipe {\n          id\n          name\n          slug\n          instructions\n        }\n      }\n    }\n  }\n": typeof types.GetShoppingListMealPlanDocument,
     "\n  query GetCurrentUser {\n    me {\n      id\n      email\n      firstName\n      lastName\n      fullName\n      emailVerified\n      status\n      tenantId\n      createdAt\n      updatedAt\n    }\n  }\n": typeof types.GetCurrentUserDocument,
 };
 const documents: Documents = {
+    "\n  query GetMealPlanRange($input: MealPlanRangeInput!) {\n    mealPlanRange(input: $input) {\n      date\n      entries {\n        id\n        date\n        mealType\n        createdAt\n        updatedAt\n        recipe {\n          id\n          name\n          slug\n        }\n      }\n    }\n  }\n": types.GetMealPlanRangeDocument,
+    "\n  query GetMealPlanRecipes {\n    recipes {\n      id\n      name\n      slug\n    }\n  }\n": types.GetMealPlanRecipesDocument,
+    "\n  mutation AddRecipeToMealPlan($input: AddRecipeToMealPlanInput!) {\n    addRecipeToMealPlan(input: $input) {\n      id\n      date\n      mealType\n      createdAt\n      updatedAt\n      recipe {\n        id\n        name\n        slug\n      }\n    }\n  }\n": types.AddRecipeToMealPlanDocument,
+    "\n  mutation RemoveRecipeFromMealPlan($input: RemoveRecipeFromMealPlanInput!) {\n    removeRecipeFromMealPlan(input: $input)\n  }\n": types.RemoveRecipeFromMealPlanDocument,
+    "\n  mutation ClearMealSlot($input: ClearMealSlotInput!) {\n    clearMealSlot(input: $input)\n  }\n": types.ClearMealSlotDocument,
     "\n  query GetRecipeBySlug($slug: String!) {\n    recipe(slug: $slug) {\n      id\n      name\n      slug\n      instructions\n      createdAt\n      updatedAt\n      tenantId\n      userId\n    }\n  }\n": types.GetRecipeBySlugDocument,
+    "\n  query GetUpcomingRecipeSchedule($input: MealPlanRangeInput!) {\n    mealPlanRange(input: $input) {\n      date\n      entries {\n        id\n        date\n        mealType\n        recipe {\n          id\n          slug\n        }\n      }\n    }\n  }\n": types.GetUpcomingRecipeScheduleDocument,
+    "\n  mutation DeleteRecipe($slug: String!) {\n    deleteRecipe(slug: $slug)\n  }\n": types.DeleteRecipeDocument,
+    "\n  mutation RestoreRecipe($input: CreateRecipeInput!) {\n    createRecipe(input: $input) {\n      id\n      name\n      slug\n      instructions\n      createdAt\n      updatedAt\n    }\n  }\n": types.RestoreRecipeDocument,
     "\n  mutation CreateRecipe($input: CreateRecipeInput!) {\n    createRecipe(input: $input) {\n      id\n      name\n      slug\n      instructions\n      createdAt\n      updatedAt\n    }\n  }\n": types.CreateRecipeDocument,
     "\n  query GetRecipeForEdit($slug: String!) {\n    recipe(slug: $slug) {\n      id\n      name\n      slug\n      instructions\n      createdAt\n      updatedAt\n    }\n  }\n": types.GetRecipeForEditDocument,
     "\n  mutation UpdateRecipe($slug: String!, $input: UpdateRecipeInput!) {\n    updateRecipe(slug: $slug, input: $input) {\n      id\n      name\n      slug\n      instructions\n      createdAt\n      updatedAt\n    }\n  }\n": types.UpdateRecipeDocument,
-    "\n  query GetRecipes {\n    recipes {\n      id\n      name\n      slug\n      instructions\n      createdAt\n      updatedAt\n      tenantId\n      userId\n    }\n  }\n": types.GetRecipesDocument,
+    "\n  query GetRecipes($offset: Int, $limit: Int) {\n    recipes(offset: $offset, limit: $limit) {\n      id\n      name\n      slug\n      instructions\n      createdAt\n      updatedAt\n      tenantId\n      userId\n    }\n  }\n": types.GetRecipesDocument,
+    "\n  query GetAccountProfile {\n    me {\n      id\n      email\n      firstName\n      lastName\n      emailVerified\n      status\n      lastLoginAt\n      createdAt\n    }\n  }\n": types.GetAccountProfileDocument,
+    "\n  query GetShoppingListMealPlan($input: MealPlanRangeInput!) {\n    mealPlanRange(input: $input) {\n      date\n      entries {\n        id\n        mealType\n        recipe {\n          id\n          name\n          slug\n          instructions\n        }\n      }\n    }\n  }\n": types.GetShoppingListMealPlanDocument,
     "\n  query GetCurrentUser {\n    me {\n      id\n      email\n      firstName\n      lastName\n      fullName\n      emailVerified\n      status\n      tenantId\n      createdAt\n      updatedAt\n    }\n  }\n": types.GetCurrentUserDocument,
 };
 
@@ -44,10 +64,42 @@ const documents: Documents = {
  */
 export function graphql(source: string): unknown;
 
+/**
+ * The graphql function is used to parse GraphQL queries into a document that can be used by GraphQL clients.
+ */
+export function graphql(source: "\n  query GetMealPlanRange($input: MealPlanRangeInput!) {\n    mealPlanRange(input: $input) {\n      date\n      entries {\n        id\n        date\n        mealType\n        createdAt\n        updatedAt\n        recipe {\n          id\n          name\n          slug\n        }\n      }\n    }\n  }\n"): (typeof documents)["\n  query GetMealPlanRange($input: MealPlanRangeInput!) {\n    mealPlanRange(input: $input) {\n      date\n      entries {\n        id\n        date\n        mealType\n        createdAt\n        updatedAt\n        recipe {\n          id\n          name\n          slug\n        }\n      }\n    }\n  }\n"];
+/**
+ * The graphql function is used to parse GraphQL queries into a document that can be used by GraphQL clients.
+ */
+export function graphql(source: "\n  query GetMealPlanRecipes {\n    recipes {\n      id\n      name\n      slug\n    }\n  }\n"): (typeof documents)["\n  query GetMealPlanRecipes {\n    recipes {\n      id\n      name\n      slug\n    }\n  }\n"];
+/**
+ * The graphql function is used to parse GraphQL queries into a document that can be used by GraphQL clients.
+ */
+export function graphql(source: "\n  mutation AddRecipeToMealPlan($input: AddRecipeToMealPlanInput!) {\n    addRecipeToMealPlan(input: $input) {\n      id\n      date\n      mealType\n      createdAt\n      updatedAt\n      recipe {\n        id\n        name\n        slug\n      }\n    }\n  }\n"): (typeof documents)["\n  mutation AddRecipeToMealPlan($input: AddRecipeToMealPlanInput!) {\n    addRecipeToMealPlan(input: $input) {\n      id\n      date\n      mealType\n      createdAt\n      updatedAt\n      recipe {\n        id\n        name\n        slug\n      }\n    }\n  }\n"];
+/**
+ * The graphql function is used to parse GraphQL queries into a document that can be used by GraphQL clients.
+ */
+export function graphql(source: "\n  mutation RemoveRecipeFromMealPlan($input: RemoveRecipeFromMealPlanInput!) {\n    removeRecipeFromMealPlan(input: $input)\n  }\n"): (typeof documents)["\n  mutation RemoveRecipeFromMealPlan($input: RemoveRecipeFromMealPlanInput!) {\n    removeRecipeFromMealPlan(input: $input)\n  }\n"];
+/**
+ * The graphql function is used to parse GraphQL queries into a document that can be used by GraphQL clients.
+ */
+export function graphql(source: "\n  mutation ClearMealSlot($input: ClearMealSlotInput!) {\n    clearMealSlot(input: $input)\n  }\n"): (typeof documents)["\n  mutation ClearMealSlot($input: ClearMealSlotInput!) {\n    clearMealSlot(input: $input)\n  }\n"];
 /**
  * The graphql function is used to parse GraphQL queries into a document that can be used by GraphQL clients.
  */
 export function graphql(source: "\n  query GetRecipeBySlug($slug: String!) {\n    recipe(slug: $slug) {\n      id\n      name\n      slug\n      instructions\n      createdAt\n      updatedAt\n      tenantId\n      userId\n    }\n  }\n"): (typeof documents)["\n  query GetRecipeBySlug($slug: String!) {\n    recipe(slug: $slug) {\n      id\n      name\n      slug\n      instructions\n      createdAt\n      updatedAt\n      tenantId\n      userId\n    }\n  }\n"];
+/**
+ * The graphql function is used to parse GraphQL queries into a document that can be used by GraphQL clients.
+ */
+export function graphql(source: "\n  query GetUpcomingRecipeSchedule($input: MealPlanRangeInput!) {\n    mealPlanRange(input: $input) {\n      date\n      entries {\n        id\n        date\n        mealType\n        recipe {\n          id\n          slug\n        }\n      }\n    }\n  }\n"): (typeof documents)["\n  query GetUpcomingRecipeSchedule($input: MealPlanRangeInput!) {\n    mealPlanRange(input: $input) {\n      date\n      entries {\n        id\n        date\n        mealType\n        recipe {\n          id\n          slug\n        }\n      }\n    }\n  }\n"];
+/**
+ * The graphql function is used to parse GraphQL queries into a document that can be used by GraphQL clients.
+ */
+export function graphql(source: "\n  mutation DeleteRecipe($slug: String!) {\n    deleteRecipe(slug: $slug)\n  }\n"): (typeof documents)["\n  mutation DeleteRecipe($slug: String!) {\n    deleteRecipe(slug: $slug)\n  }\n"];
+/**
+ * The graphql function is used to parse GraphQL queries into a document that can be used by GraphQL clients.
+ */
+export function graphql(source: "\n  mutation RestoreRecipe($input: CreateRecipeInput!) {\n    createRecipe(input: $input) {\n      id\n      name\n      slug\n      instructions\n      createdAt\n      updatedAt\n    }\n  }\n"): (typeof documents)["\n  mutation RestoreRecipe($input: CreateRecipeInput!) {\n    createRecipe(input: $input) {\n      id\n      name\n      slug\n      instructions\n      createdAt\n      updatedAt\n    }\n  }\n"];
 /**
  * The graphql function is used to parse GraphQL queries into a document that can be used by GraphQL clients.
  */
@@ -63,7 +115,15 @@ export function graphql(source: "\n  mutation UpdateRecipe($slug: String!, $inpu
 /**
  * The graphql function is used to parse GraphQL queries into a document that can be used by GraphQL clients.
  */
-export function graphql(source: "\n  query GetRecipes {\n    recipes {\n      id\n      name\n      slug\n      instructions\n      createdAt\n      updatedAt\n      tenantId\n      userId\n    }\n  }\n"): (typeof documents)["\n  query GetRecipes {\n    recipes {\n      id\n      name\n      slug\n      instructions\n      createdAt\n      updatedAt\n      tenantId\n      userId\n    }\n  }\n"];
+export function graphql(source: "\n  query GetRecipes($offset: Int, $limit: Int) {\n    recipes(offset: $offset, limit: $limit) {\n      id\n      name\n      slug\n      instructions\n      createdAt\n      updatedAt\n      tenantId\n      userId\n    }\n  }\n"): (typeof documents)["\n  query GetRecipes($offset: Int, $limit: Int) {\n    recipes(offset: $offset, limit: $limit) {\n      id\n      name\n      slug\n      instructions\n      createdAt\n      updatedAt\n      tenantId\n      userId\n    }\n  }\n"];
+/**
+ * The graphql function is used to parse GraphQL queries into a document that can be used by GraphQL clients.
+ */
+export function graphql(source: "\n  query GetAccountProfile {\n    me {\n      id\n      email\n      firstName\n      lastName\n      emailVerified\n      status\n      lastLoginAt\n      createdAt\n    }\n  }\n"): (typeof documents)["\n  query GetAccountProfile {\n    me {\n      id\n      email\n      firstName\n      lastName\n      emailVerified\n      status\n      lastLoginAt\n      createdAt\n    }\n  }\n"];
+/**
+ * The graphql function is used to parse GraphQL queries into a document that can be used by GraphQL clients.
+ */
+export function graphql(source: "\n  query GetShoppingListMealPlan($input: MealPlanRangeInput!) {\n    mealPlanRange(input: $input) {\n      date\n      entries {\n        id\n        mealType\n        recipe {\n          id\n          name\n          slug\n          instructions\n        }\n      }\n    }\n  }\n"): (typeof documents)["\n  query GetShoppingListMealPlan($input: MealPlanRangeInput!) {\n    mealPlanRange(input: $input) {\n      date\n      entries {\n        id\n        mealType\n        recipe {\n          id\n          name\n          slug\n          instructions\n        }\n      }\n    }\n  }\n"];
 /**
  * The graphql function is used to parse GraphQL queries into a document that can be used by GraphQL clients.
  */
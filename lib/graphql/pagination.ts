@@ -0,0 +1,110 @@
+/**
+ * Apollo Pagination Helpers
+ *
+ * Offset/limit pagination for list fields. Pages are requested with `offset`
+ * and `limit` field arguments and merged into place in the cache. A backend
+ * that doesn't honour the arguments returns the full list instead; the field
+ * policy detects that (more items than `limit`, or a "next page" that repeats
+ * items already loaded) and stores the full list, and the UI falls back to
+ * slicing it client-side.
+ */
+
+import type { FieldFunctionOptions, FieldPolicy, Reference } from '@apollo/client'
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+/**
+ * Arguments (and matching operation variables) that request a page of a list
+ * field
+ */
+export interface OffsetPaginationVariables {
+  offset?: number
+  limit?: number
+}
+
+export type OffsetPaginationFieldPolicy = FieldPolicy<
+  Reference[],
+  Reference[],
+  Reference[],
+  FieldFunctionOptions<OffsetPaginationVariables, Record<string, unknown>>
+>
+
+// ============================================================================
+// HELPERS
+// ============================================================================
+
+/**
+ * Check if a response is a single page rather than the full list
+ * A backend that ignores `limit` returns more items than requested.
+ */
+export function isPageResult(itemCount: number, variables?: OffsetPaginationVariables): boolean {
+  return variables?.limit !== undefined && itemCount <= variables.limit
+}
+
+/**
+ * Check if a page repeats items loaded before it
+ * A backend that ignores `offset` returns the first items again, so a list
+ * that fits in exactly `limit` items still looks like a full page.
+ */
+export function isRepeatedPage<T>(
+  loaded: readonly T[],
+  page: readonly T[],
+  getKey: (item: T) => unknown
+): boolean {
+  const loadedKeys = new Set(loaded.map(getKey))
+  return page.some((item) => loadedKeys.has(getKey(item)))
+}
+
+/**
+ * Check if a page result means there are more items to fetch
+ */
+export function hasMorePages(itemCount: number, variables: OffsetPaginationVariables): boolean {
+  return isPageResult(itemCount, variables) && itemCount === variables.limit
+}
+
+// ============================================================================
+// FIELD POLICY
+// ============================================================================
+
+/**
+ * Field policy for an offset-paginated list field
+ *
+ * - Full lists (no `limit`, more items than `limit`, or items repeated from
+ *   earlier pages) replace what is cached
+ * - Pages are written into place at `offset`, keeping the other pages, and a
+ *   short page truncates the list
+ * - Reads return every cached item, skipping evicted entries
+ */
+export function offsetPaginationFieldPolicy(): OffsetPaginationFieldPolicy {
+  return {
+    // Every page belongs to the same cached list
+    keyArgs: false,
+
+    merge(existing, incoming, { args }) {
+      const offset = args?.offset ?? 0
+      if (
+        !isPageResult(incoming.length, args ?? undefined) ||
+        isRepeatedPage(existing?.slice(0, offset) ?? [], incoming, (item) => item.__ref)
+      ) {
+        return incoming.slice()
+      }
+
+      const merged = existing ? existing.slice() : []
+      incoming.forEach((item, index) => {
+        merged[offset + index] = item
+      })
+
+      // A short page is the end of the list, drop anything cached past it
+      if (!hasMorePages(incoming.length, args!)) {
+        merged.length = offset + incoming.length
+      }
+      return merged
+    },
+
+    read(existing, { canRead }) {
+      return existing?.filter((item) => canRead(item))
+    },
+  }
+}
@@ -0,0 +1,131 @@
+/**
+ * Meal Plan Cache Helpers
+ *
+ * Apollo cache updates for meal plan mutations.
+ * MealPlanType has no identifier, so every cached `mealPlanRange` result is
+ * stored inline on the Query root. These helpers rewrite all cached ranges
+ * that contain the affected date, so optimistic updates show up in every view
+ * (week planner, shopping list, ...) without refetching.
+ */
+
+import type { ApolloCache, Reference } from '@apollo/client'
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+/**
+ * Identifies a single date/meal type cell of the meal plan
+ */
+export interface MealSlotKey {
+  date: string
+  mealType: string
+}
+
+/**
+ * Minimal shape of a meal plan entry needed to write it to the cache
+ */
+export interface CachedMealPlanEntry {
+  __typename?: 'MealPlanEntryType'
+  id: number
+  date: string
+  mealType: string
+}
+
+interface CachedMealPlanDay {
+  date: string
+  entries: ReadonlyArray<Reference>
+}
+
+// ============================================================================
+// CACHE UPDATES
+// ============================================================================
+
+/**
+ * Remove the entry for a recipe from a meal slot in every cached range
+ */
+export function removeMealPlanEntryFromCache(
+  cache: ApolloCache,
+  slot: MealSlotKey,
+  recipeSlug: string
+): void {
+  cache.modify({
+    fields: {
+      mealPlanRange(existing, { readField }) {
+        const days = existing as ReadonlyArray<CachedMealPlanDay>
+
+        return days.map((day) => {
+          if (day.date !== slot.date) return day
+
+          return {
+            ...day,
+            entries: day.entries.filter((entryRef) => {
+              if (readField<string>('mealType', entryRef) !== slot.mealType) return true
+              const recipeRef = readField<Reference>('recipe', entryRef)
+              return readField<string>('slug', recipeRef) !== recipeSlug
+            }),
+          }
+        })
+      },
+    },
+  })
+}
+
+/**
+ * Remove every entry for a recipe from every cached range (e.g. once the
+ * recipe itself is deleted)
+ */
+export function removeRecipeFromMealPlanCache(cache: ApolloCache, recipeSlug: string): void {
+  cache.modify({
+    fields: {
+      mealPlanRange(existing, { readField }) {
+        const days = existing as ReadonlyArray<CachedMealPlanDay>
+
+        return days.map((day) => ({
+          ...day,
+          entries: day.entries.filter((entryRef) => {
+            const recipeRef = readField<Reference>('recipe', entryRef)
+            return readField<string>('slug', recipeRef) !== recipeSlug
+          }),
+        }))
+      },
+    },
+  })
+}
+
+/**
+ * Append a (normalized) meal plan entry to its date in every cached range
+ */
+export function addMealPlanEntryToCache(cache: ApolloCache, entry: CachedMealPlanEntry): void {
+  cache.modify({
+    fields: {
+      mealPlanRange(existing, { toReference }) {
+        const days = existing as ReadonlyArray<CachedMealPlanDay>
+        const entryRef = toReference({ __typename: 'MealPlanEntryType', id: entry.id })
+        if (!entryRef) return days
+
+        return days.map((day) => {
+          if (day.date !== entry.date) return day
+          if (day.entries.some((ref) => ref.__ref === entryRef.__ref)) return day
+
+          return { ...day, entries: [...day.entries, entryRef] }
+        })
+      },
+    },
+  })
+}
+
+// ============================================================================
+// OPTIMISTIC IDS
+// ============================================================================
+
+let optimisticIdCounter = 0
+
+/**
+ * Generate a temporary negative ID for an optimistic entry
+ * Negative IDs never collide with server-assigned IDs
+ */
+export function nextOptimisticEntryId(): number {
+  optimisticIdCounter -= 1
+  return optimisticIdCounter
+}
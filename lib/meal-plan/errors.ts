@@ -0,0 +1,27 @@
+/**
+ * Meal Plan Error Helpers
+ *
+ * Classifies errors returned by meal plan mutations so the UI can show a
+ * specific message instead of the raw GraphQL error.
+ */
+
+import { CombinedGraphQLErrors } from '@apollo/client'
+
+/**
+ * Check if a mutation failed because the recipe is already scheduled in the
+ * target slot (addRecipeToMealPlan rejects duplicates)
+ */
+export function isRecipeAlreadyScheduledError(error: unknown): boolean {
+  const messages: string[] = []
+
+  if (CombinedGraphQLErrors.is(error)) {
+    for (const graphQLError of error.errors) {
+      if (graphQLError.extensions?.code === 'CONFLICT') return true
+      messages.push(graphQLError.message)
+    }
+  } else if (error instanceof Error) {
+    messages.push(error.message)
+  }
+
+  return messages.some((message) => /already (been )?scheduled|already exists/i.test(message))
+}
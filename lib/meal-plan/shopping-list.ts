@@ -0,0 +1,226 @@
+/**
+ * Shopping List
+ *
+ * Consolidates the ingredients of every recipe scheduled in a meal plan range
+ * into a single de-duplicated shopping list. The same ingredient is merged
+ * across recipes by name, and amounts in the same or a convertible unit
+ * ("1 cup" + "2 tbsp") are summed.
+ */
+
+import { extractIngredients, ingredientKey, type Ingredient } from '@/lib/recipes/ingredients'
+import type { Quantity } from '@/lib/recipes/quantity'
+import { convertValue, formatAmount } from '@/lib/recipes/units'
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+/**
+ * A recipe scheduled in the range, with how many times it was scheduled
+ */
+export interface ShoppingListRecipe {
+  slug: string
+  name: string
+  instructions: string
+  occurrences: number
+}
+
+/**
+ * Total measured amount of an ingredient in one unit
+ */
+export interface ShoppingListAmount {
+  unit: string | null
+  quantity: number
+  maxQuantity: number
+}
+
+export interface ShoppingListItem {
+  /** Stable de-duplication key, used for checked state */
+  key: string
+  name: string
+  amounts: ShoppingListAmount[]
+  /** At least one recipe uses the ingredient without measuring it ("Salt") */
+  unmeasured: boolean
+  notes: string[]
+  /** Names of the recipes that need this ingredient */
+  recipes: string[]
+}
+
+export interface ShoppingList {
+  items: ShoppingListItem[]
+  /** Recipes whose instructions contain no recognizable ingredients */
+  recipesWithoutIngredients: ShoppingListRecipe[]
+}
+
+// ============================================================================
+// CONSOLIDATION
+// ============================================================================
+
+/**
+ * Count how many times each recipe is scheduled in a mealPlanRange result
+ */
+export function collectScheduledRecipes(
+  days: Array<{
+    entries: Array<{ recipe: { slug: string; name: string; instructions?: string | null } }>
+  }>
+): ShoppingListRecipe[] {
+  const recipes = new Map<string, ShoppingListRecipe>()
+
+  for (const day of days) {
+    for (const { recipe } of day.entries) {
+      const existing = recipes.get(recipe.slug)
+      if (existing) {
+        existing.occurrences += 1
+      } else {
+        recipes.set(recipe.slug, {
+          slug: recipe.slug,
+          name: recipe.name,
+          instructions: recipe.instructions ?? '',
+          occurrences: 1,
+        })
+      }
+    }
+  }
+
+  return Array.from(recipes.values())
+}
+
+/**
+ * Find the amount a new use of the ingredient should be added to, and the
+ * factor that converts the ingredient's unit into that amount's unit
+ */
+function findAmount(
+  amounts: ShoppingListAmount[],
+  unit: string | null
+): { amount: ShoppingListAmount; factor: number } | null {
+  const sameUnit = amounts.find((amount) => amount.unit === unit)
+  if (sameUnit) return { amount: sameUnit, factor: 1 }
+  if (!unit) return null
+
+  for (const amount of amounts) {
+    if (!amount.unit) continue
+    const factor = convertValue(1, unit, amount.unit)
+    if (factor !== null) return { amount, factor }
+  }
+  return null
+}
+
+/**
+ * Add a measured use of an ingredient, once per time its recipe is scheduled
+ */
+function addAmount(
+  amounts: ShoppingListAmount[],
+  ingredient: Ingredient & { quantity: Quantity },
+  occurrences: number
+) {
+  const match = findAmount(amounts, ingredient.unit)
+  const factor = (match?.factor ?? 1) * occurrences
+  const value = ingredient.quantity.value * factor
+  const maxValue = (ingredient.quantity.maxValue ?? ingredient.quantity.value) * factor
+
+  if (!match) {
+    amounts.push({ unit: ingredient.unit, quantity: value, maxQuantity: maxValue })
+    return
+  }
+
+  match.amount.quantity += value
+  match.amount.maxQuantity += maxValue
+}
+
+/**
+ * Build a consolidated shopping list, sorted by ingredient name
+ */
+export function buildShoppingList(recipes: ShoppingListRecipe[]): ShoppingList {
+  const items = new Map<string, ShoppingListItem>()
+  const recipesWithoutIngredients: ShoppingListRecipe[] = []
+
+  for (const recipe of recipes) {
+    const ingredients = extractIngredients(recipe.instructions)
+    if (ingredients.length === 0) {
+      recipesWithoutIngredients.push(recipe)
+      continue
+    }
+
+    for (const ingredient of ingredients) {
+      const key = ingredientKey(ingredient.name)
+      let item = items.get(key)
+      if (!item) {
+        item = {
+          key,
+          name: ingredient.name,
+          amounts: [],
+          unmeasured: false,
+          notes: [],
+          recipes: [],
+        }
+        items.set(key, item)
+      }
+
+      // Unmeasured uses ("Salt") are kept apart so they don't hide measured totals
+      if (ingredient.quantity) {
+        addAmount(
+          item.amounts,
+          { ...ingredient, quantity: ingredient.quantity },
+          recipe.occurrences
+        )
+      } else {
+        item.unmeasured = true
+      }
+      if (ingredient.note && !item.notes.includes(ingredient.note)) {
+        item.notes.push(ingredient.note)
+      }
+      if (!item.recipes.includes(recipe.name)) {
+        item.recipes.push(recipe.name)
+      }
+    }
+  }
+
+  return {
+    items: Array.from(items.values()).sort((a, b) => a.name.localeCompare(b.name)),
+    recipesWithoutIngredients,
+  }
+}
+
+// ============================================================================
+// FORMATTING
+// ============================================================================
+
+/**
+ * Format the amounts of an item, e.g. "2 cups + 200 g", or "1/2 tsp + some"
+ * when a recipe also uses it unmeasured
+ * Returns an empty string for ingredients no recipe measures.
+ */
+export function formatShoppingListAmounts(item: ShoppingListItem): string {
+  const amounts = item.amounts.map((amount) =>
+    formatAmount(
+      {
+        value: amount.quantity,
+        maxValue: amount.maxQuantity > amount.quantity ? amount.maxQuantity : undefined,
+      },
+      amount.unit
+    )
+  )
+  if (item.unmeasured && amounts.length > 0) {
+    amounts.push('some')
+  }
+  return amounts.join(' + ')
+}
+
+/**
+ * Render the shopping list as plain text, one checkbox line per item
+ */
+export function formatShoppingListText(
+  items: ShoppingListItem[],
+  options: { title: string; checkedKeys?: ReadonlySet<string> }
+): string {
+  const lines = [options.title, '']
+
+  for (const item of items) {
+    const checked = options.checkedKeys?.has(item.key) ? 'x' : ' '
+    const amounts = formatShoppingListAmounts(item)
+    const notes = item.notes.length > 0 ? ` (${item.notes.join('; ')})` : ''
+    lines.push(`[${checked}] ${amounts ? `${amounts} ` : ''}${item.name}${notes}`)
+  }
+
+  return lines.join('\n') + '\n'
+}
@@ -0,0 +1,175 @@
+/**
+ * Meal Plan Week Utilities
+ *
+ * Date helpers for working with the week-based meal plan views.
+ * All dates exchanged with the GraphQL API use the ISO 8601 calendar date
+ * format (YYYY-MM-DD) and are interpreted in the browser's local time zone.
+ */
+
+// ============================================================================
+// MEAL TYPES
+// ============================================================================
+
+/**
+ * Meal types supported by the backend, in display order
+ */
+export const MEAL_TYPES = ['breakfast', 'lunch', 'dinner', 'snacks'] as const
+
+export type MealType = (typeof MEAL_TYPES)[number]
+
+/**
+ * Human-readable labels for each meal type
+ */
+export const MEAL_TYPE_LABELS: Record<MealType, string> = {
+  breakfast: 'Breakfast',
+  lunch: 'Lunch',
+  dinner: 'Dinner',
+  snacks: 'Snacks',
+}
+
+/**
+ * Check if a string is a known meal type
+ */
+export function isMealType(value: string): value is MealType {
+  return (MEAL_TYPES as readonly string[]).includes(value)
+}
+
+// ============================================================================
+// DATE HELPERS
+// ============================================================================
+
+export const DAYS_PER_WEEK = 7
+
+/**
+ * Format a date as YYYY-MM-DD using local time
+ */
+export function toIsoDate(date: Date): string {
+  const year = date.getFullYear()
+  const month = String(date.getMonth() + 1).padStart(2, '0')
+  const day = String(date.getDate()).padStart(2, '0')
+  return `${year}-${month}-${day}`
+}
+
+/**
+ * Parse a YYYY-MM-DD string into a local Date (midnight)
+ * Returns null if the string is not a valid calendar date
+ */
+export function parseIsoDate(value: string): Date | null {
+  const match = /^(\d{4})-(\d{2})-(\d{2})$/.exec(value)
+  if (!match) return null
+
+  const [, year, month, day] = match
+  const date = new Date(Number(year), Number(month) - 1, Number(day))
+
+  // Reject overflowed dates such as 2024-02-31
+  if (toIsoDate(date) !== value) return null
+
+  return date
+}
+
+/**
+ * Return a new date offset by the given number of days
+ */
+export function addDays(date: Date, days: number): Date {
+  const result = new Date(date.getFullYear(), date.getMonth(), date.getDate())
+  result.setDate(result.getDate() + days)
+  return result
+}
+
+/**
+ * Get the Monday that starts the week containing the given date
+ */
+export function getWeekStart(date: Date): Date {
+  const day = date.getDay() // 0 = Sunday
+  const offset = day === 0 ? -6 : 1 - day
+  return addDays(date, offset)
+}
+
+/**
+ * Get every date in the week starting at weekStart
+ */
+export function getWeekDates(weekStart: Date): Date[] {
+  return Array.from({ length: DAYS_PER_WEEK }, (_, index) => addDays(weekStart, index))
+}
+
+/**
+ * Build the inclusive date range input for a week
+ */
+export function getWeekRange(weekStart: Date): {
+  startDateInclusive: string
+  endDateInclusive: string
+} {
+  return {
+    startDateInclusive: toIsoDate(weekStart),
+    endDateInclusive: toIsoDate(addDays(weekStart, DAYS_PER_WEEK - 1)),
+  }
+}
+
+/**
+ * Format a week as a short human-readable label, e.g. "Mar 4 – Mar 10, 2024"
+ */
+export function formatWeekLabel(weekStart: Date): string {
+  return formatDateRangeLabel(weekStart, addDays(weekStart, DAYS_PER_WEEK - 1))
+}
+
+// ============================================================================
+// DATE RANGES
+// ============================================================================
+
+/**
+ * Maximum number of days the mealPlanRange query accepts
+ */
+export const MAX_MEAL_PLAN_RANGE_DAYS = 60
+
+/**
+ * Count the days in an inclusive date range (1 when start and end are equal)
+ */
+export function countDaysInclusive(start: Date, end: Date): number {
+  const startUtc = Date.UTC(start.getFullYear(), start.getMonth(), start.getDate())
+  const endUtc = Date.UTC(end.getFullYear(), end.getMonth(), end.getDate())
+  return Math.round((endUtc - startUtc) / (24 * 60 * 60 * 1000)) + 1
+}
+
+/**
+ * Validate an inclusive YYYY-MM-DD range against the mealPlanRange limits
+ * Returns an error message, or null if the range is valid
+ */
+export function validateMealPlanRange(startDate: string, endDate: string): string | null {
+  const start = parseIsoDate(startDate)
+  const end = parseIsoDate(endDate)
+
+  if (!start || !end) return 'Please choose a valid start and end date'
+
+  const days = countDaysInclusive(start, end)
+  if (days < 1) return 'The end date must be on or after the start date'
+  if (days > MAX_MEAL_PLAN_RANGE_DAYS) {
+    return `Date ranges can cover at most ${MAX_MEAL_PLAN_RANGE_DAYS} days`
+  }
+
+  return null
+}
+
+/**
+ * Format an inclusive date range, e.g. "Mar 4 – Mar 17, 2024"
+ */
+export function formatDateRangeLabel(start: Date, end: Date): string {
+  const startLabel = start.toLocaleDateString(undefined, { month: 'short', day: 'numeric' })
+  const endLabel = end.toLocaleDateString(undefined, {
+    month: 'short',
+    day: 'numeric',
+    year: 'numeric',
+  })
+  return `${startLabel} – ${endLabel}`
+}
+
+/**
+ * Describe a meal slot, e.g. "Dinner on Mon, Mar 4"
+ */
+export function describeMealSlot(slot: { date: string; mealType: string }): string {
+  const date = parseIsoDate(slot.date)
+  const day = date
+    ? date.toLocaleDateString(undefined, { weekday: 'short', month: 'short', day: 'numeric' })
+    : slot.date
+  const mealType = isMealType(slot.mealType) ? MEAL_TYPE_LABELS[slot.mealType] : slot.mealType
+  return `${mealType} on ${day}`
+}
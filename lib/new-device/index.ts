@@ -0,0 +1,259 @@
+/**
+ * New Device Alerts
+ *
+ * Emails users when their account is signed in to from a device (user agent
+ * and IP address combination) not seen for them before. The email carries a
+ * "this wasn't me" link to /auth/not-me, whose page signs the new device's
+ * session out and starts a password reset.
+ *
+ * A user's first device is remembered silently: there is nothing to compare
+ * it with. Only hashes of devices and link tokens are stored.
+ */
+
+import { createHash, randomBytes } from 'crypto'
+import { config } from '@/lib/config'
+import { clientConfig } from '@/lib/config/public/config'
+import {
+  storageConfig,
+  isRedisStorageEnabled,
+  isDatabaseStorageEnabled,
+} from '@/lib/config/storage'
+import { createLogger } from '@/lib/config/logging'
+import { type Result, ok, err } from '@/lib/common/result'
+import { TokenExpiredError, TokenInvalidError } from '@/lib/exceptions'
+import { emailService, type EmailProvider } from '@/lib/email'
+import type { NewDeviceSignInEmailSendError } from '@/lib/email/email-errors'
+import { getSessionHandle, type SessionData } from '@/lib/session'
+import { createRedisClient } from '@/lib/session/redis-storage'
+import { openSqlDatabase } from '@/lib/session/sql-database'
+import { describeUserAgent } from '@/lib/session/user-agent'
+import {
+  MemoryKnownDeviceStore,
+  MemoryNewDeviceAlertStore,
+  RedisKnownDeviceStore,
+  RedisNewDeviceAlertStore,
+  SqlKnownDeviceStore,
+  SqlNewDeviceAlertStore,
+  type IKnownDeviceStore,
+  type INewDeviceAlertStore,
+  type NewDeviceAlertRecord,
+} from './stores'
+
+const logger = createLogger('NewDeviceAlertService')
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export interface NewDeviceAlertServiceOptions {
+  /** Known device storage (default: chosen by SESSION_STORAGE) */
+  deviceStore?: IKnownDeviceStore
+  /** "This wasn't me" link storage (default: chosen by SESSION_STORAGE) */
+  alertStore?: INewDeviceAlertStore
+  /** Sends the alerts (default: the configured email service) */
+  emailProvider?: EmailProvider
+  /** Current time in epoch milliseconds; tests pass a fixed clock */
+  now?: () => number
+  /** How long a "this wasn't me" link works (default: NEW_DEVICE_ALERT_LINK_HOURS) */
+  linkTtlMs?: number
+}
+
+/**
+ * The session a sign-in started
+ */
+export type NewDeviceSignIn = Pick<
+  SessionData,
+  'id' | 'userId' | 'email' | 'firstName' | 'lastName' | 'userAgent' | 'ipAddress'
+>
+
+/**
+ * What a sign-in turned out to be
+ * - first_device: the user's first remembered device, not alerted
+ * - known_device: seen before, not alerted
+ * - alerted: a new device, emailed about
+ */
+export type NewDeviceCheckOutcome = 'first_device' | 'known_device' | 'alerted'
+
+/**
+ * All possible errors of using a "this wasn't me" link
+ */
+export type NotMeReportError = TokenInvalidError | TokenExpiredError
+
+// ============================================================================
+// HELPERS
+// ============================================================================
+
+function sha256(value: string): string {
+  return createHash('sha256').update(value).digest('hex')
+}
+
+function randomToken(): string {
+  return randomBytes(32).toString('base64url')
+}
+
+/**
+ * Hash identifying the device a session was started from
+ */
+export function getDeviceHash(
+  userAgent: string | undefined,
+  ipAddress: string | undefined
+): string {
+  return sha256(`${userAgent ?? ''}\n${ipAddress ?? ''}`)
+}
+
+// ============================================================================
+// STORE SELECTION
+// ============================================================================
+
+function createKnownDeviceStore(): IKnownDeviceStore {
+  if (isRedisStorageEnabled()) {
+    logger.info({}, 'Using Redis known device storage')
+    return new RedisKnownDeviceStore(createRedisClient(storageConfig.redisUrl!))
+  }
+  if (isDatabaseStorageEnabled()) {
+    logger.info({}, 'Using database known device storage')
+    return new SqlKnownDeviceStore(openSqlDatabase(storageConfig.databaseUrl!))
+  }
+
+  logger.info({}, 'Using in-memory known device storage (devices are forgotten on restart)')
+  return new MemoryKnownDeviceStore()
+}
+
+function createNewDeviceAlertStore(): INewDeviceAlertStore {
+  if (isRedisStorageEnabled()) {
+    logger.info({}, 'Using Redis new device alert storage')
+    return new RedisNewDeviceAlertStore(createRedisClient(storageConfig.redisUrl!))
+  }
+  if (isDatabaseStorageEnabled()) {
+    logger.info({}, 'Using database new device alert storage')
+    return new SqlNewDeviceAlertStore(openSqlDatabase(storageConfig.databaseUrl!))
+  }
+
+  logger.info({}, 'Using in-memory new device alert storage (links work on this instance only)')
+  return new MemoryNewDeviceAlertStore()
+}
+
+// ============================================================================
+// SERVICE
+// ============================================================================
+
+export class NewDeviceAlertService {
+  private readonly deviceStore: IKnownDeviceStore
+  private readonly alertStore: INewDeviceAlertStore
+  private readonly emailProvider: EmailProvider
+  private readonly now: () => number
+  readonly linkTtlMs: number
+
+  constructor(options: NewDeviceAlertServiceOptions = {}) {
+    this.deviceStore = options.deviceStore ?? createKnownDeviceStore()
+    this.alertStore = options.alertStore ?? createNewDeviceAlertStore()
+    this.emailProvider = options.emailProvider ?? emailService
+    this.now = options.now ?? Date.now
+    this.linkTtlMs = options.linkTtlMs ?? config.newDeviceAlertLinkHours * 60 * 60 * 1000
+  }
+
+  async initialize(): Promise<void> {
+    await this.deviceStore.initialize?.()
+    await this.alertStore.initialize?.()
+  }
+
+  /**
+   * Remember the device of a new session, emailing the user if it is new
+   * The device stays remembered when the email fails, so one failure
+   * doesn't turn into an email on every later sign-in.
+   */
+  async checkSignIn(
+    session: NewDeviceSignIn
+  ): Promise<Result<NewDeviceCheckOutcome, NewDeviceSignInEmailSendError>> {
+    const now = this.now()
+    const deviceHash = getDeviceHash(session.userAgent, session.ipAddress)
+
+    if (!(await this.deviceStore.add(session.userId, deviceHash, new Date(now)))) {
+      return ok('known_device')
+    }
+
+    if ((await this.deviceStore.count(session.userId)) <= 1) {
+      logger.info({ userId: session.userId }, 'First device remembered')
+      return ok('first_device')
+    }
+
+    const token = randomToken()
+    const record: NewDeviceAlertRecord = {
+      userId: session.userId,
+      email: session.email,
+      sessionHandle: getSessionHandle(session.id),
+      deviceHash,
+      expiresAt: now + this.linkTtlMs,
+    }
+    await this.alertStore.save(sha256(token), record, this.linkTtlMs)
+
+    const notMeUrl = `${config.transactionBaseEmailUrl}/auth/not-me?token=${encodeURIComponent(token)}`
+    const emailResult = await this.emailProvider.sendNewDeviceSignInEmail({
+      email: session.email,
+      firstName: session.firstName,
+      lastName: session.lastName,
+      appName: clientConfig.appName,
+      signedInAt: new Date(now),
+      device: describeUserAgent(session.userAgent),
+      ipAddress: session.ipAddress ?? null,
+      notMeUrl,
+      expiresInHours: Math.round(this.linkTtlMs / (60 * 60 * 1000)),
+    })
+
+    if (!emailResult.ok) {
+      // A link nobody received is no use
+      await this.alertStore.delete(sha256(token))
+      return emailResult
+    }
+
+    logger.info({ userId: session.userId }, 'New device sign-in alert sent')
+    return ok('alerted')
+  }
+
+  /**
+   * Use a "this wasn't me" link, once
+   * The device is forgotten, so signing in from it again alerts again.
+   * Signing the session out and resetting the password is up to the caller.
+   *
+   * @returns Result with the sign-in the link was sent about
+   */
+  async reportNotMe(token: string): Promise<Result<NewDeviceAlertRecord, NotMeReportError>> {
+    const tokenHash = sha256(token)
+    const record = await this.alertStore.get(tokenHash)
+
+    if (!record) {
+      return err(new TokenInvalidError())
+    }
+
+    if (record.expiresAt <= this.now()) {
+      await this.alertStore.delete(tokenHash)
+      return err(new TokenExpiredError())
+    }
+
+    // Of concurrent uses of the same link only the one that deletes it wins
+    if (!(await this.alertStore.delete(tokenHash))) {
+      return err(new TokenInvalidError())
+    }
+
+    await this.deviceStore.remove(record.userId, record.deviceHash)
+
+    logger.info({ userId: record.userId }, 'New device sign-in reported')
+    return ok(record)
+  }
+}
+
+// ============================================================================
+// SINGLETON INSTANCE
+// ============================================================================
+
+export const newDeviceAlertService = new NewDeviceAlertService()
+
+export type { IKnownDeviceStore, INewDeviceAlertStore, NewDeviceAlertRecord } from './stores'
+export {
+  MemoryKnownDeviceStore,
+  MemoryNewDeviceAlertStore,
+  RedisKnownDeviceStore,
+  RedisNewDeviceAlertStore,
+  SqlKnownDeviceStore,
+  SqlNewDeviceAlertStore,
+} from './stores'
@@ -0,0 +1,400 @@
+/**
+ * New Device Stores
+ *
+ * Known devices: per user, the devices (user agent and IP address
+ * combinations) they have signed in from, as SHA-256 hashes. The backends
+ * mirror the session storage backends (memory, Redis, SQL) and are selected
+ * by the same SESSION_STORAGE setting.
+ *
+ * Alert links: the "this wasn't me" links of new device emails, keyed by the
+ * SHA-256 hash of their token and expiring with the link, kept in the same
+ * backends.
+ */
+
+import type Redis from 'ioredis'
+import { createLogger } from '@/lib/config/logging'
+import { applySqlMigrations, type SqlDatabase, type SqlMigration } from '@/lib/session/sql-database'
+
+const logger = createLogger('NewDeviceStore')
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export interface IKnownDeviceStore {
+  /** Remember a device; false if it was already known */
+  add(userId: number, deviceHash: string, seenAt: Date): Promise<boolean>
+  /** Number of devices known for the user */
+  count(userId: number): Promise<number>
+  /** Forget a device, e.g. one the user reported */
+  remove(userId: number, deviceHash: string): Promise<void>
+  /** Prepare the backend (e.g. run migrations) before serving requests */
+  initialize?(): Promise<void>
+}
+
+export interface NewDeviceAlertRecord {
+  userId: number
+  email: string
+  sessionHandle: string // The session started on the new device (see getSessionHandle)
+  deviceHash: string
+  expiresAt: number // Epoch milliseconds
+}
+
+export interface INewDeviceAlertStore {
+  save(tokenHash: string, record: NewDeviceAlertRecord, ttlMs: number): Promise<void>
+  get(tokenHash: string): Promise<NewDeviceAlertRecord | null>
+  /** Remove the link; false if it was already gone, e.g. used by a concurrent request */
+  delete(tokenHash: string): Promise<boolean>
+  /** Prepare the backend (e.g. run migrations) before serving requests */
+  initialize?(): Promise<void>
+}
+
+// ============================================================================
+// KNOWN DEVICES: MEMORY
+// ============================================================================
+
+/**
+ * In-memory store (development and tests; lost on restart)
+ */
+export class MemoryKnownDeviceStore implements IKnownDeviceStore {
+  private devices: Map<number, Set<string>> = new Map()
+
+  async add(userId: number, deviceHash: string): Promise<boolean> {
+    const devices = this.devices.get(userId) ?? new Set<string>()
+    this.devices.set(userId, devices)
+
+    if (devices.has(deviceHash)) {
+      return false
+    }
+    devices.add(deviceHash)
+    return true
+  }
+
+  async count(userId: number): Promise<number> {
+    return this.devices.get(userId)?.size ?? 0
+  }
+
+  async remove(userId: number, deviceHash: string): Promise<void> {
+    this.devices.get(userId)?.delete(deviceHash)
+  }
+}
+
+// ============================================================================
+// KNOWN DEVICES: REDIS
+// ============================================================================
+
+const DEFAULT_KNOWN_DEVICE_KEY_PREFIX = 'known-devices:'
+
+/**
+ * Keeps each user's device hashes in the set `known-devices:<userId>`
+ */
+export class RedisKnownDeviceStore implements IKnownDeviceStore {
+  private readonly keyPrefix: string
+
+  constructor(
+    private readonly redis: Redis,
+    options: { keyPrefix?: string } = {}
+  ) {
+    this.keyPrefix = options.keyPrefix ?? DEFAULT_KNOWN_DEVICE_KEY_PREFIX
+  }
+
+  async add(userId: number, deviceHash: string): Promise<boolean> {
+    return (await this.redis.sadd(this.key(userId), deviceHash)) > 0
+  }
+
+  async count(userId: number): Promise<number> {
+    return (await this.redis.smembers(this.key(userId))).length
+  }
+
+  async remove(userId: number, deviceHash: string): Promise<void> {
+    await this.redis.srem(this.key(userId), deviceHash)
+  }
+
+  private key(userId: number): string {
+    return `${this.keyPrefix}${userId}`
+  }
+}
+
+// ============================================================================
+// KNOWN DEVICES: SQL
+// ============================================================================
+
+/**
+ * Schema migrations, applied in order. Never edit an applied migration; add
+ * a new version instead. Statements must work on both SQLite and Postgres.
+ */
+export const KNOWN_DEVICE_MIGRATIONS: SqlMigration[] = [
+  {
+    version: 1,
+    name: 'create_known_devices',
+    statements: [
+      `CREATE TABLE IF NOT EXISTS known_devices (
+        user_id INTEGER NOT NULL,
+        device_hash TEXT NOT NULL,
+        first_seen_at BIGINT NOT NULL,
+        PRIMARY KEY (user_id, device_hash)
+      )`,
+    ],
+  },
+]
+
+/**
+ * Stores devices in a `known_devices` table (see sql-database.ts)
+ */
+export class SqlKnownDeviceStore implements IKnownDeviceStore {
+  private readonly database: Promise<SqlDatabase>
+  private migration: Promise<SqlDatabase> | null = null
+
+  /**
+   * @param database - Open database, or a pending connection (see openSqlDatabase)
+   */
+  constructor(database: SqlDatabase | Promise<SqlDatabase>) {
+    this.database = Promise.resolve(database)
+    this.database.catch((error) => {
+      logger.error(
+        { error: error instanceof Error ? error.message : String(error) },
+        'Known device database connection failed'
+      )
+    })
+  }
+
+  async initialize(): Promise<void> {
+    await this.ready()
+  }
+
+  async add(userId: number, deviceHash: string, seenAt: Date): Promise<boolean> {
+    const db = await this.ready()
+    const existing = await db.query(
+      'SELECT device_hash FROM known_devices WHERE user_id = ? AND device_hash = ?',
+      [userId, deviceHash]
+    )
+    if (existing.length > 0) {
+      return false
+    }
+
+    // Of concurrent first sign-ins from the same device only one inserts
+    const inserted = await db.execute(
+      `INSERT INTO known_devices (user_id, device_hash, first_seen_at) VALUES (?, ?, ?)
+       ON CONFLICT (user_id, device_hash) DO NOTHING`,
+      [userId, deviceHash, seenAt.getTime()]
+    )
+    return inserted > 0
+  }
+
+  async count(userId: number): Promise<number> {
+    const db = await this.ready()
+    const [row] = await db.query<{ count: number | string }>(
+      'SELECT COUNT(*) AS count FROM known_devices WHERE user_id = ?',
+      [userId]
+    )
+    return Number(row?.count ?? 0)
+  }
+
+  async remove(userId: number, deviceHash: string): Promise<void> {
+    const db = await this.ready()
+    await db.execute('DELETE FROM known_devices WHERE user_id = ? AND device_hash = ?', [
+      userId,
+      deviceHash,
+    ])
+  }
+
+  /**
+   * Wait for the connection and run migrations once; a failed attempt is
+   * retried on the next call
+   */
+  private ready(): Promise<SqlDatabase> {
+    if (!this.migration) {
+      this.migration = this.database.then(async (db) => {
+        const applied = await applySqlMigrations(
+          db,
+          'known_device_migrations',
+          KNOWN_DEVICE_MIGRATIONS
+        )
+        for (const migration of applied) {
+          logger.info(
+            { version: migration.version, name: migration.name },
+            'Known device migration applied'
+          )
+        }
+        return db
+      })
+      this.migration.catch(() => {
+        this.migration = null
+      })
+    }
+    return this.migration
+  }
+}
+
+// ============================================================================
+// ALERT LINKS: MEMORY
+// ============================================================================
+
+/**
+ * In-memory store (single server instance; links are lost on restart)
+ */
+export class MemoryNewDeviceAlertStore implements INewDeviceAlertStore {
+  private alerts: Map<string, NewDeviceAlertRecord> = new Map()
+
+  async save(tokenHash: string, record: NewDeviceAlertRecord): Promise<void> {
+    this.sweep(Date.now())
+    this.alerts.set(tokenHash, { ...record })
+  }
+
+  async get(tokenHash: string): Promise<NewDeviceAlertRecord | null> {
+    const record = this.alerts.get(tokenHash)
+    return record ? { ...record } : null
+  }
+
+  async delete(tokenHash: string): Promise<boolean> {
+    return this.alerts.delete(tokenHash)
+  }
+
+  /**
+   * Drop expired links so unused ones don't pile up
+   */
+  private sweep(now: number): void {
+    for (const [tokenHash, record] of this.alerts) {
+      if (record.expiresAt <= now) {
+        this.alerts.delete(tokenHash)
+      }
+    }
+  }
+}
+
+// ============================================================================
+// ALERT LINKS: REDIS
+// ============================================================================
+
+const DEFAULT_ALERT_KEY_PREFIX = 'new-device-alert:'
+
+/**
+ * Stores each link as JSON under `new-device-alert:<token hash>`, expiring with it
+ */
+export class RedisNewDeviceAlertStore implements INewDeviceAlertStore {
+  private readonly keyPrefix: string
+
+  constructor(
+    private readonly redis: Redis,
+    options: { keyPrefix?: string } = {}
+  ) {
+    this.keyPrefix = options.keyPrefix ?? DEFAULT_ALERT_KEY_PREFIX
+  }
+
+  async save(tokenHash: string, record: NewDeviceAlertRecord, ttlMs: number): Promise<void> {
+    await this.redis.set(this.key(tokenHash), JSON.stringify(record), 'PX', ttlMs)
+  }
+
+  async get(tokenHash: string): Promise<NewDeviceAlertRecord | null> {
+    const value = await this.redis.get(this.key(tokenHash))
+    return value ? (JSON.parse(value) as NewDeviceAlertRecord) : null
+  }
+
+  async delete(tokenHash: string): Promise<boolean> {
+    return (await this.redis.del(this.key(tokenHash))) > 0
+  }
+
+  private key(tokenHash: string): string {
+    return `${this.keyPrefix}${tokenHash}`
+  }
+}
+
+// ============================================================================
+// ALERT LINKS: SQL
+// ============================================================================
+
+/**
+ * Schema migrations, applied in order. Never edit an applied migration; add
+ * a new version instead. Statements must work on both SQLite and Postgres.
+ */
+export const NEW_DEVICE_ALERT_MIGRATIONS: SqlMigration[] = [
+  {
+    version: 1,
+    name: 'create_new_device_alerts',
+    statements: [
+      `CREATE TABLE IF NOT EXISTS new_device_alerts (
+        token_hash TEXT PRIMARY KEY,
+        data TEXT NOT NULL,
+        expires_at BIGINT NOT NULL
+      )`,
+      'CREATE INDEX IF NOT EXISTS new_device_alerts_expires_at_idx ON new_device_alerts (expires_at)',
+    ],
+  },
+]
+
+/**
+ * Stores links in a `new_device_alerts` table (see sql-database.ts)
+ */
+export class SqlNewDeviceAlertStore implements INewDeviceAlertStore {
+  private readonly database: Promise<SqlDatabase>
+  private migration: Promise<SqlDatabase> | null = null
+
+  /**
+   * @param database - Open database, or a pending connection (see openSqlDatabase)
+   */
+  constructor(database: SqlDatabase | Promise<SqlDatabase>) {
+    this.database = Promise.resolve(database)
+    this.database.catch((error) => {
+      logger.error(
+        { error: error instanceof Error ? error.message : String(error) },
+        'New device alert database connection failed'
+      )
+    })
+  }
+
+  async initialize(): Promise<void> {
+    await this.ready()
+  }
+
+  async save(tokenHash: string, record: NewDeviceAlertRecord): Promise<void> {
+    const db = await this.ready()
+    // Drop expired links so unused ones don't pile up
+    await db.execute('DELETE FROM new_device_alerts WHERE expires_at <= ?', [Date.now()])
+    await db.execute(
+      'INSERT INTO new_device_alerts (token_hash, data, expires_at) VALUES (?, ?, ?)',
+      [tokenHash, JSON.stringify(record), record.expiresAt]
+    )
+  }
+
+  async get(tokenHash: string): Promise<NewDeviceAlertRecord | null> {
+    const db = await this.ready()
+    const [row] = await db.query<{ data: string }>(
+      'SELECT data FROM new_device_alerts WHERE token_hash = ?',
+      [tokenHash]
+    )
+    return row ? (JSON.parse(row.data) as NewDeviceAlertRecord) : null
+  }
+
+  async delete(tokenHash: string): Promise<boolean> {
+    const db = await this.ready()
+    // Of concurrent uses of the same link only one deletes the row
+    return (await db.execute('DELETE FROM new_device_alerts WHERE token_hash = ?', [tokenHash])) > 0
+  }
+
+  /**
+   * Wait for the connection and run migrations once; a failed attempt is
+   * retried on the next call
+   */
+  private ready(): Promise<SqlDatabase> {
+    if (!this.migration) {
+      this.migration = this.database.then(async (db) => {
+        const applied = await applySqlMigrations(
+          db,
+          'new_device_alert_migrations',
+          NEW_DEVICE_ALERT_MIGRATIONS
+        )
+        for (const migration of applied) {
+          logger.info(
+            { version: migration.version, name: migration.name },
+            'New device alert migration applied'
+          )
+        }
+        return db
+      })
+      this.migration.catch(() => {
+        this.migration = null
+      })
+    }
+    return this.migration
+  }
+}
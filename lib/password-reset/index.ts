@@ -0,0 +1,122 @@
+/**
+ * Password Reset Links
+ *
+ * Remembers whom each password reset link the BFF emails was sent to. The
+ * backend's reset endpoint doesn't say whose password a token changed, so
+ * this is how a completed reset is recorded against the user (see
+ * lib/auth-audit). Only hashes of the tokens are stored.
+ */
+
+import { createHash } from 'crypto'
+import { config } from '@/lib/config'
+import {
+  storageConfig,
+  isRedisStorageEnabled,
+  isDatabaseStorageEnabled,
+} from '@/lib/config/storage'
+import { createLogger } from '@/lib/config/logging'
+import { createRedisClient } from '@/lib/session/redis-storage'
+import { openSqlDatabase } from '@/lib/session/sql-database'
+import {
+  MemoryPasswordResetLinkStore,
+  RedisPasswordResetLinkStore,
+  SqlPasswordResetLinkStore,
+  type IPasswordResetLinkStore,
+} from './stores'
+
+const logger = createLogger('PasswordResetLinkService')
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export interface PasswordResetLinkServiceOptions {
+  /** Link storage (default: chosen by SESSION_STORAGE) */
+  store?: IPasswordResetLinkStore
+  /** Current time in epoch milliseconds; tests pass a fixed clock */
+  now?: () => number
+  /** How long a link works (default: VERIFICATION_TOKEN_EXPIRY_HOURS, like the backend token) */
+  ttlMs?: number
+}
+
+// ============================================================================
+// HELPERS
+// ============================================================================
+
+function sha256(value: string): string {
+  return createHash('sha256').update(value).digest('hex')
+}
+
+// ============================================================================
+// STORE SELECTION
+// ============================================================================
+
+function createPasswordResetLinkStore(): IPasswordResetLinkStore {
+  if (isRedisStorageEnabled()) {
+    logger.info({}, 'Using Redis password reset link storage')
+    return new RedisPasswordResetLinkStore(createRedisClient(storageConfig.redisUrl!))
+  }
+  if (isDatabaseStorageEnabled()) {
+    logger.info({}, 'Using database password reset link storage')
+    return new SqlPasswordResetLinkStore(openSqlDatabase(storageConfig.databaseUrl!))
+  }
+
+  logger.info({}, 'Using in-memory password reset link storage (links are forgotten on restart)')
+  return new MemoryPasswordResetLinkStore()
+}
+
+// ============================================================================
+// SERVICE
+// ============================================================================
+
+export class PasswordResetLinkService {
+  private readonly store: IPasswordResetLinkStore
+  private readonly now: () => number
+  readonly ttlMs: number
+
+  constructor(options: PasswordResetLinkServiceOptions = {}) {
+    this.store = options.store ?? createPasswordResetLinkStore()
+    this.now = options.now ?? Date.now
+    this.ttlMs = options.ttlMs ?? config.verificationTokenExpiryHours * 60 * 60 * 1000
+  }
+
+  async initialize(): Promise<void> {
+    await this.store.initialize?.()
+  }
+
+  /**
+   * Remember whom a reset link was sent to
+   */
+  async remember(token: string, email: string): Promise<void> {
+    await this.store.save(sha256(token), { email, expiresAt: this.now() + this.ttlMs }, this.ttlMs)
+  }
+
+  /**
+   * Forget a used reset link
+   *
+   * @returns The email the link was sent to, or null if it is unknown or expired
+   */
+  async forget(token: string): Promise<string | null> {
+    const tokenHash = sha256(token)
+    const record = await this.store.get(tokenHash)
+    if (!record) {
+      return null
+    }
+
+    await this.store.delete(tokenHash)
+    return record.expiresAt > this.now() ? record.email : null
+  }
+}
+
+// ============================================================================
+// SINGLETON INSTANCE
+// ============================================================================
+
+export const passwordResetLinkService = new PasswordResetLinkService()
+
+export type { IPasswordResetLinkStore, PasswordResetLinkRecord } from './stores'
+export {
+  MemoryPasswordResetLinkStore,
+  RedisPasswordResetLinkStore,
+  SqlPasswordResetLinkStore,
+} from './stores'
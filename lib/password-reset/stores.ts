@@ -0,0 +1,206 @@
+/**
+ * Password Reset Link Stores
+ *
+ * Whom each emailed password reset link was sent to, keyed by the SHA-256
+ * hash of its token and expiring with the link. The backends mirror the
+ * session storage backends (memory, Redis, SQL) and are selected by the same
+ * SESSION_STORAGE setting.
+ */
+
+import type Redis from 'ioredis'
+import { createLogger } from '@/lib/config/logging'
+import { applySqlMigrations, type SqlDatabase, type SqlMigration } from '@/lib/session/sql-database'
+
+const logger = createLogger('PasswordResetLinkStore')
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export interface PasswordResetLinkRecord {
+  email: string
+  expiresAt: number // Epoch milliseconds
+}
+
+export interface IPasswordResetLinkStore {
+  save(tokenHash: string, record: PasswordResetLinkRecord, ttlMs: number): Promise<void>
+  get(tokenHash: string): Promise<PasswordResetLinkRecord | null>
+  /** Remove the link; false if it was already gone */
+  delete(tokenHash: string): Promise<boolean>
+  /** Prepare the backend (e.g. run migrations) before serving requests */
+  initialize?(): Promise<void>
+}
+
+// ============================================================================
+// MEMORY
+// ============================================================================
+
+/**
+ * In-memory store (single server instance; links are lost on restart)
+ */
+export class MemoryPasswordResetLinkStore implements IPasswordResetLinkStore {
+  private links: Map<string, PasswordResetLinkRecord> = new Map()
+
+  async save(tokenHash: string, record: PasswordResetLinkRecord): Promise<void> {
+    this.sweep(Date.now())
+    this.links.set(tokenHash, { ...record })
+  }
+
+  async get(tokenHash: string): Promise<PasswordResetLinkRecord | null> {
+    const record = this.links.get(tokenHash)
+    return record ? { ...record } : null
+  }
+
+  async delete(tokenHash: string): Promise<boolean> {
+    return this.links.delete(tokenHash)
+  }
+
+  /**
+   * Drop expired links so unused ones don't pile up
+   */
+  private sweep(now: number): void {
+    for (const [tokenHash, record] of this.links) {
+      if (record.expiresAt <= now) {
+        this.links.delete(tokenHash)
+      }
+    }
+  }
+}
+
+// ============================================================================
+// REDIS
+// ============================================================================
+
+const DEFAULT_REDIS_KEY_PREFIX = 'password-reset-link:'
+
+/**
+ * Stores each link as JSON under `password-reset-link:<token hash>`, expiring with it
+ */
+export class RedisPasswordResetLinkStore implements IPasswordResetLinkStore {
+  private readonly keyPrefix: string
+
+  constructor(
+    private readonly redis: Redis,
+    options: { keyPrefix?: string } = {}
+  ) {
+    this.keyPrefix = options.keyPrefix ?? DEFAULT_REDIS_KEY_PREFIX
+  }
+
+  async save(tokenHash: string, record: PasswordResetLinkRecord, ttlMs: number): Promise<void> {
+    await this.redis.set(this.key(tokenHash), JSON.stringify(record), 'PX', ttlMs)
+  }
+
+  async get(tokenHash: string): Promise<PasswordResetLinkRecord | null> {
+    const value = await this.redis.get(this.key(tokenHash))
+    return value ? (JSON.parse(value) as PasswordResetLinkRecord) : null
+  }
+
+  async delete(tokenHash: string): Promise<boolean> {
+    return (await this.redis.del(this.key(tokenHash))) > 0
+  }
+
+  private key(tokenHash: string): string {
+    return `${this.keyPrefix}${tokenHash}`
+  }
+}
+
+// ============================================================================
+// SQL
+// ============================================================================
+
+/**
+ * Schema migrations, applied in order. Never edit an applied migration; add
+ * a new version instead. Statements must work on both SQLite and Postgres.
+ */
+export const PASSWORD_RESET_LINK_MIGRATIONS: SqlMigration[] = [
+  {
+    version: 1,
+    name: 'create_password_reset_links',
+    statements: [
+      `CREATE TABLE IF NOT EXISTS password_reset_links (
+        token_hash TEXT PRIMARY KEY,
+        data TEXT NOT NULL,
+        expires_at BIGINT NOT NULL
+      )`,
+      'CREATE INDEX IF NOT EXISTS password_reset_links_expires_at_idx ON password_reset_links (expires_at)',
+    ],
+  },
+]
+
+/**
+ * Stores links in a `password_reset_links` table (see sql-database.ts)
+ */
+export class SqlPasswordResetLinkStore implements IPasswordResetLinkStore {
+  private readonly database: Promise<SqlDatabase>
+  private migration: Promise<SqlDatabase> | null = null
+
+  /**
+   * @param database - Open database, or a pending connection (see openSqlDatabase)
+   */
+  constructor(database: SqlDatabase | Promise<SqlDatabase>) {
+    this.database = Promise.resolve(database)
+    this.database.catch((error) => {
+      logger.error(
+        { error: error instanceof Error ? error.message : String(error) },
+        'Password reset link database connection failed'
+      )
+    })
+  }
+
+  async initialize(): Promise<void> {
+    await this.ready()
+  }
+
+  async save(tokenHash: string, record: PasswordResetLinkRecord): Promise<void> {
+    const db = await this.ready()
+    // Drop expired links so unused ones don't pile up
+    await db.execute('DELETE FROM password_reset_links WHERE expires_at <= ?', [Date.now()])
+    await db.execute(
+      'INSERT INTO password_reset_links (token_hash, data, expires_at) VALUES (?, ?, ?)',
+      [tokenHash, JSON.stringify(record), record.expiresAt]
+    )
+  }
+
+  async get(tokenHash: string): Promise<PasswordResetLinkRecord | null> {
+    const db = await this.ready()
+    const [row] = await db.query<{ data: string }>(
+      'SELECT data FROM password_reset_links WHERE token_hash = ?',
+      [tokenHash]
+    )
+    return row ? (JSON.parse(row.data) as PasswordResetLinkRecord) : null
+  }
+
+  async delete(tokenHash: string): Promise<boolean> {
+    const db = await this.ready()
+    return (
+      (await db.execute('DELETE FROM password_reset_links WHERE token_hash = ?', [tokenHash])) > 0
+    )
+  }
+
+  /**
+   * Wait for the connection and run migrations once; a failed attempt is
+   * retried on the next call
+   */
+  private ready(): Promise<SqlDatabase> {
+    if (!this.migration) {
+      this.migration = this.database.then(async (db) => {
+        const applied = await applySqlMigrations(
+          db,
+          'password_reset_link_migrations',
+          PASSWORD_RESET_LINK_MIGRATIONS
+        )
+        for (const migration of applied) {
+          logger.info(
+            { version: migration.version, name: migration.name },
+            'Password reset link migration applied'
+          )
+        }
+        return db
+      })
+      this.migration.catch(() => {
+        this.migration = null
+      })
+    }
+    return this.migration
+  }
+}
@@ -0,0 +1,121 @@
+/**
+ * Rate Limiting
+ *
+ * Throttles the BFF's unauthenticated auth routes (login, signup, password
+ * reset) before requests reach the backend. Limits are sliding windows per
+ * key (see stores.ts); the Express middleware builds the keys from the
+ * client IP and the email in the request body.
+ *
+ * Counts are kept in Redis when SESSION_STORAGE is redis, so every server
+ * instance sees the same counts; otherwise in memory.
+ */
+
+import { config } from '@/lib/config'
+import { storageConfig, isRedisStorageEnabled } from '@/lib/config/storage'
+import { createLogger } from '@/lib/config/logging'
+import { createRedisClient } from '@/lib/session/redis-storage'
+import {
+  MemoryRateLimitStore,
+  RedisRateLimitStore,
+  type IRateLimitStore,
+  type RateLimitResult,
+  type RateLimitRule,
+} from './stores'
+
+const logger = createLogger('RateLimiter')
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export interface RateLimiterOptions {
+  /** Hit storage (default: chosen by SESSION_STORAGE) */
+  store?: IRateLimitStore
+  /** Current time in epoch milliseconds; tests pass a fixed clock */
+  now?: () => number
+  /** When false every hit is allowed (default: RATE_LIMIT_ENABLED) */
+  enabled?: boolean
+}
+
+// ============================================================================
+// STORE SELECTION
+// ============================================================================
+
+function createRateLimitStore(): IRateLimitStore {
+  if (isRedisStorageEnabled()) {
+    logger.info({}, 'Using Redis rate limit storage')
+    return new RedisRateLimitStore(createRedisClient(storageConfig.redisUrl!))
+  }
+
+  logger.info({}, 'Using in-memory rate limit storage (limits are per server instance)')
+  return new MemoryRateLimitStore()
+}
+
+// ============================================================================
+// RATE LIMITER
+// ============================================================================
+
+export class RateLimiter {
+  private readonly store: IRateLimitStore
+  private readonly now: () => number
+  readonly enabled: boolean
+
+  constructor(options: RateLimiterOptions = {}) {
+    this.enabled = options.enabled ?? config.rateLimitEnabled
+    // Don't connect to Redis for a disabled limiter
+    this.store =
+      options.store ?? (this.enabled ? createRateLimitStore() : new MemoryRateLimitStore())
+    this.now = options.now ?? Date.now
+  }
+
+  /**
+   * Record a hit for the key
+   */
+  async hit(key: string, rule: RateLimitRule): Promise<RateLimitResult> {
+    if (!this.enabled) {
+      return { allowed: true, remaining: rule.limit, retryAfterMs: 0 }
+    }
+
+    const result = await this.store.hit(key, rule, this.now())
+    if (!result.allowed) {
+      logger.warn({ key, retryAfterMs: result.retryAfterMs }, 'Rate limit exceeded')
+    }
+    return result
+  }
+
+  /**
+   * Record a hit for each key; allowed only if every key is within its limit
+   * All keys are counted even after one is over, so e.g. an IP can't spread
+   * attempts over many emails without using up its own limit.
+   */
+  async hitAll(hits: { key: string; rule: RateLimitRule }[]): Promise<RateLimitResult> {
+    const results = await Promise.all(hits.map(({ key, rule }) => this.hit(key, rule)))
+
+    const rejected = results.filter((result) => !result.allowed)
+    if (rejected.length > 0) {
+      return {
+        allowed: false,
+        remaining: 0,
+        retryAfterMs: Math.max(...rejected.map((result) => result.retryAfterMs)),
+      }
+    }
+    return {
+      allowed: true,
+      remaining: Math.min(...results.map((result) => result.remaining)),
+      retryAfterMs: 0,
+    }
+  }
+
+  async reset(key: string): Promise<void> {
+    await this.store.reset(key)
+  }
+}
+
+// ============================================================================
+// SINGLETON INSTANCE
+// ============================================================================
+
+export const rateLimiter = new RateLimiter()
+
+export type { IRateLimitStore, RateLimitResult, RateLimitRule } from './stores'
+export { MemoryRateLimitStore, RedisRateLimitStore } from './stores'
@@ -0,0 +1,169 @@
+/**
+ * Rate Limit Stores
+ *
+ * Sliding window logs: each key keeps the timestamps of its accepted hits
+ * within the window. A hit is accepted while fewer than `limit` hits are in
+ * the window; rejected hits are not recorded, so a client that keeps trying
+ * isn't locked out for longer.
+ *
+ * The memory store counts per process; the Redis store shares counts between
+ * server instances.
+ */
+
+import { randomUUID } from 'crypto'
+import type Redis from 'ioredis'
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export interface RateLimitRule {
+  /** Hits allowed within the window */
+  limit: number
+  windowMs: number
+}
+
+export interface RateLimitResult {
+  allowed: boolean
+  /** Hits left in the window after this one */
+  remaining: number
+  /** Time until a hit would be accepted again (0 when allowed) */
+  retryAfterMs: number
+}
+
+export interface IRateLimitStore {
+  /** Record a hit for the key if it is within the rule's limit */
+  hit(key: string, rule: RateLimitRule, now: number): Promise<RateLimitResult>
+  /** Forget the key's hits */
+  reset(key: string): Promise<void>
+}
+
+/**
+ * Decide on a hit given the earlier hits in the window, oldest first
+ */
+function decide(earlier: number[], rule: RateLimitRule, now: number): RateLimitResult {
+  if (earlier.length < rule.limit) {
+    return { allowed: true, remaining: rule.limit - earlier.length - 1, retryAfterMs: 0 }
+  }
+
+  // Accepted again once enough of the earlier hits have left the window
+  const freedAt = earlier[earlier.length - rule.limit] + rule.windowMs
+  return { allowed: false, remaining: 0, retryAfterMs: Math.max(freedAt - now, 0) }
+}
+
+// ============================================================================
+// MEMORY
+// ============================================================================
+
+const SWEEP_INTERVAL_MS = 60 * 1000
+
+/**
+ * In-memory store (single server instance; counts reset on restart)
+ */
+export class MemoryRateLimitStore implements IRateLimitStore {
+  private hits: Map<string, { timestamps: number[]; windowMs: number }> = new Map()
+  private lastSweep = 0
+
+  async hit(key: string, rule: RateLimitRule, now: number): Promise<RateLimitResult> {
+    this.sweep(now)
+
+    const entry = this.hits.get(key) ?? { timestamps: [], windowMs: rule.windowMs }
+    entry.timestamps = entry.timestamps.filter((timestamp) => timestamp > now - rule.windowMs)
+    entry.windowMs = rule.windowMs
+
+    const result = decide(entry.timestamps, rule, now)
+    if (result.allowed) {
+      entry.timestamps.push(now)
+    }
+
+    this.hits.set(key, entry)
+    return result
+  }
+
+  async reset(key: string): Promise<void> {
+    this.hits.delete(key)
+  }
+
+  /**
+   * Drop keys without hits in their window, at most once a minute
+   */
+  private sweep(now: number): void {
+    if (now - this.lastSweep < SWEEP_INTERVAL_MS) {
+      return
+    }
+    this.lastSweep = now
+
+    for (const [key, entry] of this.hits) {
+      const newest = entry.timestamps[entry.timestamps.length - 1] ?? 0
+      if (newest <= now - entry.windowMs) {
+        this.hits.delete(key)
+      }
+    }
+  }
+}
+
+// ============================================================================
+// REDIS
+// ============================================================================
+
+const DEFAULT_REDIS_KEY_PREFIX = 'rate-limit:'
+
+/**
+ * Stores each key's hits in a sorted set under `rate-limit:<key>`, scored by
+ * timestamp and expiring with the window
+ *
+ * The hit is added before counting and removed again if it is over the
+ * limit, so concurrent requests from several instances can't overshoot it.
+ */
+export class RedisRateLimitStore implements IRateLimitStore {
+  private readonly keyPrefix: string
+
+  constructor(
+    private readonly redis: Redis,
+    options: { keyPrefix?: string } = {}
+  ) {
+    this.keyPrefix = options.keyPrefix ?? DEFAULT_REDIS_KEY_PREFIX
+  }
+
+  async hit(key: string, rule: RateLimitRule, now: number): Promise<RateLimitResult> {
+    const redisKey = this.key(key)
+    const member = `${now}:${randomUUID()}`
+
+    const results = await this.redis
+      .pipeline()
+      .zremrangebyscore(redisKey, '-inf', now - rule.windowMs)
+      .zadd(redisKey, now, member)
+      .zrange(redisKey, 0, -1, 'WITHSCORES')
+      .pexpire(redisKey, rule.windowMs)
+      .exec()
+
+    // Pipelines report per-command errors instead of rejecting
+    const failed = results?.find(([error]) => error)
+    if (failed) {
+      throw failed[0]
+    }
+
+    // [member, score, member, score, ...] in score order
+    const entries = (results?.[2][1] ?? []) as string[]
+    const earlier: number[] = []
+    for (let i = 0; i < entries.length; i += 2) {
+      if (entries[i] !== member) {
+        earlier.push(Number(entries[i + 1]))
+      }
+    }
+
+    const result = decide(earlier, rule, now)
+    if (!result.allowed) {
+      await this.redis.zrem(redisKey, member)
+    }
+    return result
+  }
+
+  async reset(key: string): Promise<void> {
+    await this.redis.del(this.key(key))
+  }
+
+  private key(key: string): string {
+    return `${this.keyPrefix}${key}`
+  }
+}
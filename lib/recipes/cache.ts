@@ -0,0 +1,29 @@
+/**
+ * Recipe Cache Helpers
+ *
+ * Apollo cache updates for recipe mutations.
+ */
+
+import type { ApolloCache } from '@apollo/client'
+import { removeRecipeFromMealPlanCache } from '@/lib/meal-plan/cache'
+
+// ============================================================================
+// CACHE UPDATES
+// ============================================================================
+
+/**
+ * Remove a deleted recipe from the cache
+ *
+ * Evicts the recipe itself and its `recipe(slug)` lookup, and drops its meal
+ * plan entries from every cached range. The `recipes` list skips the evicted
+ * reference when read (see pagination.ts).
+ */
+export function evictRecipeFromCache(
+  cache: ApolloCache,
+  recipe: { id: number; slug: string }
+): void {
+  removeRecipeFromMealPlanCache(cache, recipe.slug)
+  cache.evict({ id: cache.identify({ __typename: 'RecipeType', id: recipe.id }) })
+  cache.evict({ id: 'ROOT_QUERY', fieldName: 'recipe', args: { slug: recipe.slug } })
+  cache.gc()
+}
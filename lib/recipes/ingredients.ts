@@ -0,0 +1,210 @@
+/**
+ * Recipe Ingredients
+ *
+ * Recipes only store free-text instructions, so ingredients are recovered on
+ * the frontend by parsing them out of that text. A recipe is expected to list
+ * its ingredients under an "Ingredients" heading, one per line:
+ *
+ *   Ingredients:
+ *   - 2 cups rice, rinsed
+ *   - 1 1/2 tbsp soy sauce (low sodium)
+ *   - Salt
+ *
+ * Recipes without that heading fall back to bulleted lines that start with a
+ * quantity. Recipes saved with the structured editor (see recipe-format.ts)
+ * are read from their ingredient rows directly.
+ */
+
+import { parseQuantity, scaleQuantity, type Quantity } from './quantity'
+import {
+  convertToSystem,
+  formatAmount,
+  normalizeUnit,
+  parseUnit,
+  type MeasurementSystem,
+} from './units'
+import { parseStructuredRecipe, type IngredientRow } from './recipe-format'
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export interface Ingredient {
+  /** Amount, or null for unmeasured ingredients ("Salt") */
+  quantity: Quantity | null
+  /** Canonical unit (see normalizeUnit), or null for counts ("3 eggs") */
+  unit: string | null
+  /** Ingredient name, e.g. "rice" */
+  name: string
+  /** Preparation note, e.g. "rinsed" */
+  note: string | null
+}
+
+// ============================================================================
+// LINE PARSING
+// ============================================================================
+
+const BULLET_PATTERN = /^\s*(?:[-*•]|\d+[.)])\s+/
+
+/**
+ * Parse a single ingredient line
+ * Returns null for blank lines.
+ *
+ * @example
+ * parseIngredientLine('- 2 cups rice, rinsed')
+ * // { quantity: { value: 2 }, unit: 'cup', name: 'rice', note: 'rinsed' }
+ */
+export function parseIngredientLine(line: string): Ingredient | null {
+  let text = line.replace(BULLET_PATTERN, '').trim()
+  if (!text) return null
+
+  let quantity: Quantity | null = null
+  let unit: string | null = null
+
+  const parsedQuantity = parseQuantity(text)
+  if (parsedQuantity) {
+    quantity = parsedQuantity.quantity
+    text = parsedQuantity.rest
+
+    const parsedUnit = parseUnit(text)
+    if (parsedUnit) {
+      unit = parsedUnit.unit
+      text = parsedUnit.rest.replace(/^of\s+/i, '')
+    }
+  }
+
+  // Split off preparation notes: "rice (rinsed)" or "rice, rinsed"
+  const notes: string[] = []
+  text = text.replace(/\(([^)]*)\)/g, (_, note: string) => {
+    if (note.trim()) notes.push(note.trim())
+    return ' '
+  })
+  const commaIndex = text.indexOf(',')
+  if (commaIndex !== -1) {
+    const note = text.slice(commaIndex + 1).trim()
+    if (note) notes.push(note)
+    text = text.slice(0, commaIndex)
+  }
+
+  const name = text.replace(/\s+/g, ' ').trim()
+  if (!name) return null
+
+  return {
+    quantity,
+    unit,
+    name,
+    note: notes.length > 0 ? notes.join(', ') : null,
+  }
+}
+
+/**
+ * Convert a structured editor row into an ingredient
+ */
+export function ingredientFromRow(row: IngredientRow): Ingredient {
+  const unit = row.unit.trim()
+  return {
+    quantity: parseQuantity(row.quantity)?.quantity ?? null,
+    unit: unit ? (normalizeUnit(unit) ?? unit.toLowerCase()) : null,
+    name: row.item.trim(),
+    note: row.note.trim() || null,
+  }
+}
+
+export interface IngredientAmountOptions {
+  /** Scale factor, e.g. 1.5 to go from 4 to 6 servings */
+  factor?: number
+  /** Convert volumes and weights into this system */
+  system?: MeasurementSystem | null
+}
+
+/**
+ * Format the amount of an ingredient row after scaling and unit conversion
+ * Amounts are shown exactly as entered when nothing changes them.
+ *
+ * @example
+ * // row: { quantity: '1 1/2', unit: 'cups', item: 'rice', note: '' }
+ * formatIngredientRowAmount(row, { factor: 2 }) // '3 cups'
+ * formatIngredientRowAmount(row, { system: 'metric' }) // '355 ml'
+ */
+export function formatIngredientRowAmount(
+  row: IngredientRow,
+  { factor = 1, system = null }: IngredientAmountOptions = {}
+): string {
+  const unit = row.unit.trim() || null
+  const original = [row.quantity.trim(), unit].filter(Boolean).join(' ')
+
+  // Unmeasured amounts ("pinch") can't be scaled or converted
+  const parsed = parseQuantity(row.quantity)
+  if (!parsed) return original
+
+  const scaled = scaleQuantity(parsed.quantity, factor)
+  const converted = unit && system ? convertToSystem(scaled, unit, system) : null
+
+  if (converted) return formatAmount(converted.quantity, converted.unit)
+  if (factor === 1) return original
+  return formatAmount(scaled, unit)
+}
+
+// ============================================================================
+// INSTRUCTIONS PARSING
+// ============================================================================
+
+const INGREDIENTS_HEADING_PATTERN = /^\s*(?:#{1,6}\s*)?ingredients\s*:?\s*$/i
+
+/**
+ * Headings that end the ingredients section, e.g. "## Steps" or "Method:"
+ */
+const SECTION_END_PATTERN =
+  /^\s*(?:#{1,6}\s+\S.*|(?:steps|instructions|method|directions|preparation|notes)\s*:?\s*)$/i
+
+/**
+ * Sub-headings inside the section, e.g. "For the sauce:"
+ */
+const SUBHEADING_PATTERN = /:\s*$/
+
+/**
+ * Extract the ingredients from a recipe's free-text instructions
+ */
+export function extractIngredients(instructions: string): Ingredient[] {
+  const structured = parseStructuredRecipe(instructions)
+  if (structured) return structured.ingredients.map(ingredientFromRow)
+
+  const lines = instructions.split(/\r?\n/)
+  const headingIndex = lines.findIndex((line) => INGREDIENTS_HEADING_PATTERN.test(line))
+
+  if (headingIndex !== -1) {
+    const ingredients: Ingredient[] = []
+    for (const line of lines.slice(headingIndex + 1)) {
+      if (SECTION_END_PATTERN.test(line)) break
+      if (SUBHEADING_PATTERN.test(line)) continue
+      const ingredient = parseIngredientLine(line)
+      if (ingredient) ingredients.push(ingredient)
+    }
+    return ingredients
+  }
+
+  // No heading: only trust bulleted lines that start with a quantity
+  return lines
+    .filter((line) => /^\s*[-*•]\s+/.test(line))
+    .map(parseIngredientLine)
+    .filter((ingredient): ingredient is Ingredient => ingredient?.quantity != null)
+}
+
+/**
+ * Normalize an ingredient name so the same ingredient matches across recipes
+ * ("Eggs" and "egg" share a key)
+ */
+export function ingredientKey(name: string): string {
+  const words = name.toLowerCase().replace(/\s+/g, ' ').trim().split(' ')
+  const last = words[words.length - 1]
+
+  if (/ies$/.test(last)) {
+    words[words.length - 1] = last.replace(/ies$/, 'y')
+  } else if (/oes$/.test(last)) {
+    words[words.length - 1] = last.replace(/es$/, '')
+  } else if (/[^s]s$/.test(last)) {
+    words[words.length - 1] = last.slice(0, -1)
+  }
+
+  return words.join(' ')
+}
@@ -0,0 +1,216 @@
+/**
+ * Recipe Quantity Parsing
+ *
+ * Parses, scales and formats the numeric amounts found at the start of
+ * ingredient lines, e.g. "2", "1.5", "1/2", "1 1/2", "1½", "2-3".
+ */
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+/**
+ * A parsed quantity. Ranges such as "2-3" keep both bounds.
+ */
+export interface Quantity {
+  value: number
+  maxValue?: number
+}
+
+/**
+ * Result of parsing a quantity from the start of a string
+ */
+export interface ParsedQuantity {
+  quantity: Quantity
+  /** Remaining text after the quantity, trimmed */
+  rest: string
+}
+
+// ============================================================================
+// PARSING
+// ============================================================================
+
+const UNICODE_FRACTIONS: Record<string, number> = {
+  '½': 1 / 2,
+  '⅓': 1 / 3,
+  '⅔': 2 / 3,
+  '¼': 1 / 4,
+  '¾': 3 / 4,
+  '⅕': 1 / 5,
+  '⅖': 2 / 5,
+  '⅗': 3 / 5,
+  '⅘': 4 / 5,
+  '⅙': 1 / 6,
+  '⅚': 5 / 6,
+  '⅛': 1 / 8,
+  '⅜': 3 / 8,
+  '⅝': 5 / 8,
+  '⅞': 7 / 8,
+}
+
+const UNICODE_FRACTION_CLASS = `[${Object.keys(UNICODE_FRACTIONS).join('')}]`
+
+/**
+ * Single number patterns, most specific first
+ */
+const NUMBER_PATTERNS: Array<{
+  regex: RegExp
+  toValue: (match: RegExpExecArray) => number | null
+}> = [
+  // Mixed number: "1 1/2"
+  {
+    regex: /^(\d+)\s+(\d+)\s*\/\s*(\d+)/,
+    toValue: (m) => fraction(Number(m[1]), Number(m[2]), Number(m[3])),
+  },
+  // Mixed unicode: "1½" or "1 ½"
+  {
+    regex: new RegExp(`^(\\d+)\\s*(${UNICODE_FRACTION_CLASS})`),
+    toValue: (m) => Number(m[1]) + UNICODE_FRACTIONS[m[2]],
+  },
+  // Fraction: "1/2"
+  {
+    regex: /^(\d+)\s*\/\s*(\d+)/,
+    toValue: (m) => fraction(0, Number(m[1]), Number(m[2])),
+  },
+  // Unicode fraction: "½"
+  {
+    regex: new RegExp(`^(${UNICODE_FRACTION_CLASS})`),
+    toValue: (m) => UNICODE_FRACTIONS[m[1]],
+  },
+  // Decimal or integer: "1.5", ".5", "2"
+  {
+    regex: /^(\d*\.\d+|\d+)/,
+    toValue: (m) => Number(m[1]),
+  },
+]
+
+function fraction(whole: number, numerator: number, denominator: number): number | null {
+  if (denominator === 0) return null
+  return whole + numerator / denominator
+}
+
+/**
+ * Read a single number from the start of the text
+ */
+function readNumber(text: string): { value: number; length: number } | null {
+  for (const { regex, toValue } of NUMBER_PATTERNS) {
+    const match = regex.exec(text)
+    if (!match) continue
+
+    const value = toValue(match)
+    if (value === null || !Number.isFinite(value)) return null
+    return { value, length: match[0].length }
+  }
+  return null
+}
+
+/**
+ * Parse a quantity (number, fraction, mixed number or range) from the start
+ * of a string. Returns null if the string does not start with a quantity.
+ *
+ * @example
+ * parseQuantity('1 1/2 cups rice') // { quantity: { value: 1.5 }, rest: 'cups rice' }
+ * parseQuantity('2-3 cloves garlic') // { quantity: { value: 2, maxValue: 3 }, rest: 'cloves garlic' }
+ */
+export function parseQuantity(text: string): ParsedQuantity | null {
+  const trimmed = text.trimStart()
+  const first = readNumber(trimmed)
+  if (!first) return null
+
+  let consumed = first.length
+  const quantity: Quantity = { value: first.value }
+
+  // Optional range: "2-3", "2 – 3", "2 to 3"
+  const rangeMatch = /^\s*(?:-|–|to)\s*/i.exec(trimmed.slice(consumed))
+  if (rangeMatch) {
+    const second = readNumber(trimmed.slice(consumed + rangeMatch[0].length))
+    if (second && second.value > first.value) {
+      quantity.maxValue = second.value
+      consumed += rangeMatch[0].length + second.length
+    }
+  }
+
+  return { quantity, rest: trimmed.slice(consumed).trim() }
+}
+
+// ============================================================================
+// SCALING
+// ============================================================================
+
+/**
+ * Multiply a quantity (including both ends of a range) by a factor
+ *
+ * @example
+ * scaleQuantity({ value: 1.5 }, 2) // { value: 3 }
+ */
+export function scaleQuantity(quantity: Quantity, factor: number): Quantity {
+  const scaled: Quantity = { value: quantity.value * factor }
+  if (quantity.maxValue !== undefined) scaled.maxValue = quantity.maxValue * factor
+  return scaled
+}
+
+// ============================================================================
+// FORMATTING
+// ============================================================================
+
+/**
+ * "fraction" prefers kitchen fractions (1 1/2), "decimal" is used for metric
+ * units (1.5)
+ */
+export type QuantityStyle = 'fraction' | 'decimal'
+
+export interface FormatQuantityOptions {
+  style?: QuantityStyle
+}
+
+const FRACTION_DENOMINATORS = [2, 3, 4, 8]
+const FRACTION_TOLERANCE = 0.01
+
+/**
+ * Format a number for display, preferring kitchen fractions
+ *
+ * @example
+ * formatNumber(1.5) // '1 1/2'
+ * formatNumber(0.333) // '1/3'
+ * formatNumber(2.45) // '2.45'
+ */
+export function formatNumber(value: number): string {
+  const whole = Math.floor(value)
+  const remainder = value - whole
+
+  if (remainder < FRACTION_TOLERANCE) return String(whole)
+  if (1 - remainder < FRACTION_TOLERANCE) return String(whole + 1)
+
+  for (const denominator of FRACTION_DENOMINATORS) {
+    const numerator = Math.round(remainder * denominator)
+    if (Math.abs(numerator / denominator - remainder) < FRACTION_TOLERANCE) {
+      const fractionText = `${numerator}/${denominator}`
+      return whole > 0 ? `${whole} ${fractionText}` : fractionText
+    }
+  }
+
+  return formatDecimal(value)
+}
+
+/**
+ * Format a number with at most two decimals, e.g. 2.5 or 0.33
+ */
+export function formatDecimal(value: number): string {
+  return String(Number(value.toFixed(2)))
+}
+
+/**
+ * Format a quantity (including ranges) for display
+ *
+ * @example
+ * formatQuantity({ value: 2, maxValue: 3 }) // '2-3'
+ * formatQuantity({ value: 2.5 }, { style: 'decimal' }) // '2.5'
+ */
+export function formatQuantity(quantity: Quantity, options: FormatQuantityOptions = {}): string {
+  const format = options.style === 'decimal' ? formatDecimal : formatNumber
+
+  if (quantity.maxValue !== undefined) {
+    return `${format(quantity.value)}-${format(quantity.maxValue)}`
+  }
+  return format(quantity.value)
+}
@@ -0,0 +1,75 @@
+/**
+ * Recently Deleted Recipe
+ *
+ * Remembers the last deleted recipe for a short undo window. Deleting
+ * navigates back to the recipes list, so the recipe is kept in sessionStorage
+ * for the list page to offer an undo that recreates it.
+ */
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export interface DeletedRecipe {
+  name: string
+  instructions: string | null
+  /** Epoch milliseconds when the recipe was deleted */
+  deletedAt: number
+}
+
+// ============================================================================
+// CONFIGURATION
+// ============================================================================
+
+/**
+ * How long a deleted recipe can be restored
+ */
+export const UNDO_DELETE_WINDOW_MS = 10_000
+
+const STORAGE_KEY = 'recipes:recently-deleted'
+
+// ============================================================================
+// STORAGE
+// ============================================================================
+
+/**
+ * Remember a deleted recipe so it can be restored
+ */
+export function rememberDeletedRecipe(recipe: Omit<DeletedRecipe, 'deletedAt'>): void {
+  const deleted: DeletedRecipe = { ...recipe, deletedAt: Date.now() }
+  try {
+    window.sessionStorage.setItem(STORAGE_KEY, JSON.stringify(deleted))
+  } catch {
+    // Storage unavailable (private mode), undo is not offered
+  }
+}
+
+/**
+ * Get the recently deleted recipe, or null once the undo window has passed
+ */
+export function readDeletedRecipe(now = Date.now()): DeletedRecipe | null {
+  try {
+    const stored = window.sessionStorage.getItem(STORAGE_KEY)
+    if (!stored) return null
+
+    const deleted = JSON.parse(stored) as DeletedRecipe
+    if (now - deleted.deletedAt >= UNDO_DELETE_WINDOW_MS) {
+      forgetDeletedRecipe()
+      return null
+    }
+    return deleted
+  } catch {
+    return null
+  }
+}
+
+/**
+ * Forget the recently deleted recipe (restored, or the window has passed)
+ */
+export function forgetDeletedRecipe(): void {
+  try {
+    window.sessionStorage.removeItem(STORAGE_KEY)
+  } catch {
+    // Storage unavailable, nothing to forget
+  }
+}
@@ -0,0 +1,242 @@
+/**
+ * Structured Recipe Format
+ *
+ * Recipes only have a free-text `instructions` field, so structured
+ * ingredients and steps are stored in it using a small Markdown subset that
+ * stays readable anywhere the raw text is shown:
+ *
+ *   ## Ingredients (serves 4)
+ *   - **2 cups** rice _rinsed_
+ *   - **1 1/2 tbsp** soy sauce
+ *   - salt
+ *
+ *   ## Steps
+ *   1. Rinse the rice.
+ *   2. Cook until tender.
+ *
+ * The "(serves N)" suffix is optional. Ingredient lines are `- ` followed by
+ * an optional bold amount (quantity and/or unit), the item, and an optional
+ * italic note. Steps are numbered
+ * from 1. Text that doesn't follow this format exactly is treated as
+ * free text and left untouched.
+ */
+
+import { parseQuantity } from './quantity'
+import { normalizeUnit } from './units'
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+/**
+ * An ingredient row as entered by the user. All fields are kept as typed so
+ * serializing and parsing round-trips exactly.
+ */
+export interface IngredientRow {
+  quantity: string
+  unit: string
+  item: string
+  note: string
+}
+
+export interface StructuredRecipe {
+  /** Number of servings the ingredient amounts make, if known */
+  servings: number | null
+  ingredients: IngredientRow[]
+  steps: string[]
+}
+
+// ============================================================================
+// SERIALIZATION
+// ============================================================================
+
+const INGREDIENTS_HEADING = '## Ingredients'
+const STEPS_HEADING = '## Steps'
+
+function collapseWhitespace(value: string): string {
+  return value.replace(/\s+/g, ' ').trim()
+}
+
+/**
+ * Serialize a single ingredient row, e.g. "- **2 cups** rice _rinsed_"
+ */
+export function serializeIngredientRow(row: IngredientRow): string {
+  const amount = collapseWhitespace(`${row.quantity} ${row.unit}`)
+  const note = collapseWhitespace(row.note)
+
+  let line = '-'
+  if (amount) line += ` **${amount}**`
+  line += ` ${collapseWhitespace(row.item)}`
+  if (note) line += ` _${note}_`
+  return line
+}
+
+/**
+ * Serialize a structured recipe into the instructions format
+ * Empty sections are omitted.
+ */
+export function serializeStructuredRecipe(recipe: StructuredRecipe): string {
+  const ingredients = recipe.ingredients.filter((row) => collapseWhitespace(row.item))
+  const steps = recipe.steps.map(collapseWhitespace).filter(Boolean)
+  const sections: string[] = []
+
+  if (ingredients.length > 0) {
+    const heading = recipe.servings
+      ? `${INGREDIENTS_HEADING} (serves ${recipe.servings})`
+      : INGREDIENTS_HEADING
+    sections.push([heading, ...ingredients.map(serializeIngredientRow)].join('\n'))
+  }
+  if (steps.length > 0) {
+    sections.push(
+      [STEPS_HEADING, ...steps.map((step, index) => `${index + 1}. ${step}`)].join('\n')
+    )
+  }
+
+  return sections.join('\n\n')
+}
+
+// ============================================================================
+// PARSING
+// ============================================================================
+
+const INGREDIENTS_HEADING_PATTERN = /^## Ingredients(?: \(serves ([1-9]\d*)\))?$/
+const INGREDIENT_LINE_PATTERN = /^- (?:\*\*([^*]+)\*\* )?(.+?)(?: _([^_]+)_)?$/
+const STEP_LINE_PATTERN = /^(\d+)\. (.+)$/
+
+/**
+ * Parse a serialized ingredient line back into a row
+ */
+export function parseIngredientRow(line: string): IngredientRow | null {
+  const match = INGREDIENT_LINE_PATTERN.exec(line)
+  if (!match) return null
+
+  const [, amount = '', item, note = ''] = match
+  const parsed = parseQuantity(amount)
+  const quantity = parsed ? amount.slice(0, amount.length - parsed.rest.length).trim() : ''
+
+  return {
+    quantity,
+    unit: parsed ? parsed.rest : amount,
+    item,
+    note,
+  }
+}
+
+/**
+ * Parse instructions written in the structured format
+ * Returns null for free-text instructions.
+ */
+export function parseStructuredRecipe(instructions: string): StructuredRecipe | null {
+  const recipe: StructuredRecipe = { servings: null, ingredients: [], steps: [] }
+  const seenSections = new Set<string>()
+  let section: 'ingredients' | 'steps' | null = null
+
+  for (const rawLine of instructions.split(/\r?\n/)) {
+    const line = rawLine.trim()
+    if (!line) continue
+
+    const ingredientsHeading = INGREDIENTS_HEADING_PATTERN.exec(line)
+    if (ingredientsHeading || line === STEPS_HEADING) {
+      section = ingredientsHeading ? 'ingredients' : 'steps'
+
+      // Each section may only appear once
+      if (seenSections.has(section)) return null
+      seenSections.add(section)
+
+      if (ingredientsHeading?.[1]) recipe.servings = Number(ingredientsHeading[1])
+      continue
+    }
+
+    if (section === 'ingredients') {
+      const row = parseIngredientRow(line)
+      if (!row) return null
+      recipe.ingredients.push(row)
+    } else if (section === 'steps') {
+      const match = STEP_LINE_PATTERN.exec(line)
+      if (!match || Number(match[1]) !== recipe.steps.length + 1) return null
+      recipe.steps.push(match[2])
+    } else {
+      // Content before the first heading means this is free text
+      return null
+    }
+  }
+
+  return section ? recipe : null
+}
+
+// ============================================================================
+// VALIDATION
+// ============================================================================
+
+/**
+ * Check that an ingredient row can be serialized without changing meaning
+ * Returns an error message, or null if the row is valid.
+ */
+export function validateIngredientRow(row: IngredientRow): string | null {
+  const quantity = row.quantity.trim()
+  const unit = row.unit.trim()
+  const item = row.item.trim()
+
+  if (!item) {
+    return quantity || unit || row.note.trim() ? 'Every ingredient needs an item name' : null
+  }
+  if (quantity && parseQuantity(quantity)?.rest !== '') {
+    return `"${quantity}" isn't a quantity. Use numbers like 2, 1.5, 1/2, 1 1/2 or 2-3`
+  }
+  if (unit && parseQuantity(unit)) {
+    return `Put the amount for "${item}" in the quantity field`
+  }
+  if (unit.includes('*')) {
+    return `The unit for "${item}" can't contain "*"`
+  }
+  if (row.note.includes('_')) {
+    return `The note for "${item}" can't contain "_"`
+  }
+  if (/^\*\*/.test(item) || /_[^_]+_$/.test(item)) {
+    return `"${item}" can't start with "**" or end with an underscored word`
+  }
+  return null
+}
+
+// ============================================================================
+// CONVERSION
+// ============================================================================
+
+/**
+ * Best-effort conversion of free-text instructions into a structured recipe,
+ * used when switching an existing recipe to the structured editor. Bulleted
+ * lines become ingredients and every other line becomes a step; headings
+ * are dropped.
+ */
+export function structureFreeText(instructions: string): StructuredRecipe {
+  const recipe: StructuredRecipe = { servings: null, ingredients: [], steps: [] }
+
+  for (const rawLine of instructions.split(/\r?\n/)) {
+    const line = rawLine.trim()
+    if (!line || /^#/.test(line) || /:$/.test(line)) continue
+
+    const bullet = /^[-*•]\s+(.*)$/.exec(line)
+    if (bullet) {
+      const text = bullet[1]
+      const parsed = parseQuantity(text)
+      const quantity = parsed ? text.slice(0, text.length - parsed.rest.length).trim() : ''
+      const rest = parsed ? parsed.rest : text
+
+      // Keep the unit as typed ("cups", not "cup") when it is a known unit
+      const unitMatch = quantity ? /^(\S+)\s+(.+)$/.exec(rest) : null
+      const hasUnit = unitMatch !== null && normalizeUnit(unitMatch[1]) !== null
+
+      recipe.ingredients.push({
+        quantity,
+        unit: hasUnit ? unitMatch[1] : '',
+        item: hasUnit ? unitMatch[2] : rest,
+        note: '',
+      })
+      continue
+    }
+
+    recipe.steps.push(line.replace(/^\d+[.)]\s*/, ''))
+  }
+
+  return recipe
+}
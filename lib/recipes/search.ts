@@ -0,0 +1,138 @@
+/**
+ * Recipe Search
+ *
+ * Client-side search and sorting for the recipes list. A query is split into
+ * terms and a recipe matches when every term appears in its name, slug or
+ * instructions (case-insensitive).
+ */
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export interface SearchableRecipe {
+  name: string
+  slug: string
+  instructions?: string | null
+  createdAt: string
+  updatedAt: string
+}
+
+export const RECIPE_SORT_KEYS = ['name', 'created', 'updated'] as const
+
+export type RecipeSortKey = (typeof RECIPE_SORT_KEYS)[number]
+
+export const DEFAULT_RECIPE_SORT: RecipeSortKey = 'name'
+
+/**
+ * Human-readable labels for each sort option
+ */
+export const RECIPE_SORT_LABELS: Record<RecipeSortKey, string> = {
+  name: 'Name (A–Z)',
+  created: 'Newest first',
+  updated: 'Recently updated',
+}
+
+/**
+ * Check if a string is a known sort key (e.g. from a URL parameter)
+ */
+export function isRecipeSortKey(value: string | null | undefined): value is RecipeSortKey {
+  return (RECIPE_SORT_KEYS as readonly string[]).includes(value ?? '')
+}
+
+// ============================================================================
+// MATCHING
+// ============================================================================
+
+/**
+ * Split a search query into unique lowercase terms
+ */
+export function parseSearchTerms(query: string): string[] {
+  return Array.from(new Set(query.toLowerCase().split(/\s+/).filter(Boolean)))
+}
+
+/**
+ * Find every occurrence of the terms in the text
+ * Returns sorted, non-overlapping [start, end) ranges for highlighting.
+ */
+export function findMatchRanges(text: string, terms: string[]): Array<[number, number]> {
+  const lower = text.toLowerCase()
+  const ranges: Array<[number, number]> = []
+
+  for (const term of terms) {
+    let index = lower.indexOf(term)
+    while (index !== -1) {
+      ranges.push([index, index + term.length])
+      index = lower.indexOf(term, index + term.length)
+    }
+  }
+
+  ranges.sort((a, b) => a[0] - b[0])
+
+  // Merge overlapping ranges ("bo" and "bowl" in "bowl")
+  const merged: Array<[number, number]> = []
+  for (const range of ranges) {
+    const last = merged[merged.length - 1]
+    if (last && range[0] <= last[1]) {
+      last[1] = Math.max(last[1], range[1])
+    } else {
+      merged.push([...range])
+    }
+  }
+  return merged
+}
+
+/**
+ * Check if every term appears in the recipe's name, slug or instructions
+ */
+export function matchesRecipe(recipe: SearchableRecipe, terms: string[]): boolean {
+  const haystack = [recipe.name, recipe.slug, recipe.instructions ?? ''].join('\n').toLowerCase()
+  return terms.every((term) => haystack.includes(term))
+}
+
+/**
+ * Extract a short excerpt of the text around the first match
+ * Returns null if none of the terms appear in the text.
+ */
+export function getMatchSnippet(text: string, terms: string[], radius = 60): string | null {
+  const [firstMatch] = findMatchRanges(text, terms)
+  if (!firstMatch) return null
+
+  const start = Math.max(0, firstMatch[0] - radius)
+  const end = Math.min(text.length, firstMatch[1] + radius)
+  const excerpt = text.slice(start, end).replace(/\s+/g, ' ').trim()
+
+  return `${start > 0 ? '…' : ''}${excerpt}${end < text.length ? '…' : ''}`
+}
+
+// ============================================================================
+// SORTING
+// ============================================================================
+
+function compareNames(a: SearchableRecipe, b: SearchableRecipe): number {
+  return a.name.localeCompare(b.name, undefined, { sensitivity: 'base' })
+}
+
+const RECIPE_COMPARATORS: Record<
+  RecipeSortKey,
+  (a: SearchableRecipe, b: SearchableRecipe) => number
+> = {
+  name: compareNames,
+  created: (a, b) =>
+    new Date(b.createdAt).getTime() - new Date(a.createdAt).getTime() || compareNames(a, b),
+  updated: (a, b) =>
+    new Date(b.updatedAt).getTime() - new Date(a.updatedAt).getTime() || compareNames(a, b),
+}
+
+/**
+ * Filter recipes by a search query and sort them
+ */
+export function searchRecipes<T extends SearchableRecipe>(
+  recipes: readonly T[],
+  query: string,
+  sort: RecipeSortKey = DEFAULT_RECIPE_SORT
+): T[] {
+  const terms = parseSearchTerms(query)
+  const matches = terms.length > 0 ? recipes.filter((r) => matchesRecipe(r, terms)) : [...recipes]
+  return matches.sort(RECIPE_COMPARATORS[sort])
+}
@@ -0,0 +1,301 @@
+/**
+ * Recipe Units
+ *
+ * Canonical unit names and the aliases people actually type in recipes.
+ * Normalizing units lets the same ingredient be recognized across recipes
+ * ("2 Tbsp." and "1 tablespoon" are both "tbsp"), and converting between
+ * metric and imperial volumes and weights.
+ */
+
+import { formatQuantity, type Quantity } from './quantity'
+
+/**
+ * Canonical unit name → accepted aliases (matched case-insensitively,
+ * except for the single-letter "T"/"t" abbreviations)
+ */
+const UNIT_ALIASES: Record<string, string[]> = {
+  // Volume
+  tsp: ['tsp', 'tsps', 'teaspoon', 'teaspoons'],
+  tbsp: ['tbsp', 'tbsps', 'tbs', 'tbl', 'tablespoon', 'tablespoons'],
+  'fl oz': ['fl oz', 'fl. oz', 'fluid ounce', 'fluid ounces'],
+  cup: ['cup', 'cups', 'c'],
+  pint: ['pint', 'pints', 'pt'],
+  quart: ['quart', 'quarts', 'qt'],
+  gallon: ['gallon', 'gallons', 'gal'],
+  ml: ['ml', 'milliliter', 'milliliters', 'millilitre', 'millilitres'],
+  l: ['l', 'liter', 'liters', 'litre', 'litres'],
+
+  // Weight
+  oz: ['oz', 'ounce', 'ounces'],
+  lb: ['lb', 'lbs', 'pound', 'pounds'],
+  g: ['g', 'gram', 'grams', 'gramme', 'grammes'],
+  kg: ['kg', 'kilogram', 'kilograms', 'kilo', 'kilos'],
+
+  // Countable packaging and portions
+  pinch: ['pinch', 'pinches'],
+  dash: ['dash', 'dashes'],
+  clove: ['clove', 'cloves'],
+  can: ['can', 'cans', 'tin', 'tins'],
+  package: ['package', 'packages', 'pkg', 'packet', 'packets'],
+  slice: ['slice', 'slices'],
+  piece: ['piece', 'pieces'],
+  bunch: ['bunch', 'bunches'],
+  handful: ['handful', 'handfuls'],
+  sprig: ['sprig', 'sprigs'],
+  stalk: ['stalk', 'stalks'],
+}
+
+const CASE_SENSITIVE_ALIASES: Record<string, string> = {
+  T: 'tbsp',
+  t: 'tsp',
+}
+
+const ALIAS_LOOKUP: Map<string, string> = new Map(
+  Object.entries(UNIT_ALIASES).flatMap(([canonical, aliases]) =>
+    aliases.map((alias) => [alias, canonical] as [string, string])
+  )
+)
+
+/**
+ * Multi-word aliases, checked before single words
+ */
+const MULTI_WORD_ALIASES = Array.from(ALIAS_LOOKUP.keys()).filter((alias) => alias.includes(' '))
+
+/**
+ * Normalize a unit word to its canonical name
+ * Returns null if the word is not a known unit.
+ *
+ * @example
+ * normalizeUnit('Tablespoons') // 'tbsp'
+ * normalizeUnit('T') // 'tbsp'
+ * normalizeUnit('onion') // null
+ */
+export function normalizeUnit(word: string): string | null {
+  const cleaned = word.trim().replace(/\.$/, '')
+  if (cleaned in CASE_SENSITIVE_ALIASES) return CASE_SENSITIVE_ALIASES[cleaned]
+  return ALIAS_LOOKUP.get(cleaned.toLowerCase()) ?? null
+}
+
+/**
+ * Read a unit from the start of the text
+ * Returns the canonical unit and the remaining text, or null if there is none.
+ */
+export function parseUnit(text: string): { unit: string; rest: string } | null {
+  const trimmed = text.trimStart()
+  const lower = trimmed.toLowerCase()
+
+  for (const alias of MULTI_WORD_ALIASES) {
+    if (lower.startsWith(alias) && /^(\s|$|\.)/.test(trimmed.slice(alias.length))) {
+      return {
+        unit: ALIAS_LOOKUP.get(alias)!,
+        rest: trimmed.slice(alias.length).replace(/^\./, '').trim(),
+      }
+    }
+  }
+
+  const match = /^([A-Za-z]+\.?)(?=\s|$)/.exec(trimmed)
+  if (!match) return null
+
+  const unit = normalizeUnit(match[1])
+  if (!unit) return null
+
+  return { unit, rest: trimmed.slice(match[0].length).trim() }
+}
+
+// ============================================================================
+// CONVERSION
+// ============================================================================
+
+export type MeasurementSystem = 'metric' | 'imperial'
+
+type UnitKind = 'volume' | 'weight'
+
+interface UnitDefinition {
+  kind: UnitKind
+  system: MeasurementSystem
+  /** Size of one unit in millilitres (volume) or grams (weight) */
+  baseAmount: number
+}
+
+/**
+ * Convertible units. Imperial volumes are US customary measures.
+ */
+const UNIT_DEFINITIONS: Record<string, UnitDefinition> = {
+  tsp: { kind: 'volume', system: 'imperial', baseAmount: 4.92892 },
+  tbsp: { kind: 'volume', system: 'imperial', baseAmount: 14.7868 },
+  'fl oz': { kind: 'volume', system: 'imperial', baseAmount: 29.5735 },
+  cup: { kind: 'volume', system: 'imperial', baseAmount: 236.588 },
+  pint: { kind: 'volume', system: 'imperial', baseAmount: 473.176 },
+  quart: { kind: 'volume', system: 'imperial', baseAmount: 946.353 },
+  gallon: { kind: 'volume', system: 'imperial', baseAmount: 3785.41 },
+  ml: { kind: 'volume', system: 'metric', baseAmount: 1 },
+  l: { kind: 'volume', system: 'metric', baseAmount: 1000 },
+  oz: { kind: 'weight', system: 'imperial', baseAmount: 28.3495 },
+  lb: { kind: 'weight', system: 'imperial', baseAmount: 453.592 },
+  g: { kind: 'weight', system: 'metric', baseAmount: 1 },
+  kg: { kind: 'weight', system: 'metric', baseAmount: 1000 },
+}
+
+/**
+ * Target units for each system, smallest first, with the base amount at
+ * which the next unit takes over
+ */
+const TARGET_UNITS: Record<MeasurementSystem, Record<UnitKind, Array<[string, number]>>> = {
+  metric: {
+    volume: [
+      ['ml', 1000],
+      ['l', Infinity],
+    ],
+    weight: [
+      ['g', 1000],
+      ['kg', Infinity],
+    ],
+  },
+  imperial: {
+    volume: [
+      ['tsp', UNIT_DEFINITIONS.tbsp.baseAmount],
+      ['tbsp', UNIT_DEFINITIONS.cup.baseAmount / 4],
+      ['cup', Infinity],
+    ],
+    weight: [
+      ['oz', UNIT_DEFINITIONS.lb.baseAmount],
+      ['lb', Infinity],
+    ],
+  },
+}
+
+function getUnitDefinition(unit: string): UnitDefinition | null {
+  const canonical = normalizeUnit(unit)
+  return canonical ? (UNIT_DEFINITIONS[canonical] ?? null) : null
+}
+
+/**
+ * Get the measurement system of a unit, or null for units that don't
+ * convert (counts, pinches, cans...)
+ */
+export function getUnitSystem(unit: string): MeasurementSystem | null {
+  return getUnitDefinition(unit)?.system ?? null
+}
+
+/**
+ * Convert a value between two units of the same kind
+ * Returns null if either unit is unknown or they measure different things.
+ *
+ * @example
+ * convertValue(1, 'cup', 'ml') // 236.588
+ * convertValue(1, 'cup', 'g') // null
+ */
+export function convertValue(value: number, fromUnit: string, toUnit: string): number | null {
+  const from = getUnitDefinition(fromUnit)
+  const to = getUnitDefinition(toUnit)
+  if (!from || !to || from.kind !== to.kind) return null
+  return (value * from.baseAmount) / to.baseAmount
+}
+
+const KITCHEN_FRACTIONS = [0, 1 / 8, 1 / 4, 1 / 3, 1 / 2, 2 / 3, 3 / 4, 1]
+
+/**
+ * Round imperial amounts to fractions found on measuring cups and spoons
+ */
+function roundImperial(value: number): number {
+  const whole = Math.floor(value)
+  const remainder = value - whole
+  const fraction = KITCHEN_FRACTIONS.reduce((best, candidate) =>
+    Math.abs(candidate - remainder) < Math.abs(best - remainder) ? candidate : best
+  )
+  return Math.max(whole + fraction, KITCHEN_FRACTIONS[1])
+}
+
+/**
+ * Round metric amounts to a precision that matches their size
+ * (2.5 ml, 28 g, 475 ml, 1.15 kg)
+ */
+function roundMetric(value: number, unit: string): number {
+  const step = unit === 'l' || unit === 'kg' ? 0.05 : value < 10 ? 0.5 : value < 100 ? 1 : 5
+  // toFixed drops floating point noise (1.1500000000000001)
+  return Math.max(Number((Math.round(value / step) * step).toFixed(2)), step)
+}
+
+/**
+ * Convert a quantity into the given measurement system, picking a unit that
+ * suits the amount and rounding sensibly
+ * Returns null if the unit doesn't convert or is already in that system.
+ *
+ * @example
+ * convertToSystem({ value: 1 }, 'cup', 'metric') // { quantity: { value: 235 }, unit: 'ml' }
+ * convertToSystem({ value: 1 }, 'kg', 'imperial') // { quantity: { value: 2.25 }, unit: 'lb' }
+ */
+export function convertToSystem(
+  quantity: Quantity,
+  unit: string,
+  system: MeasurementSystem
+): { quantity: Quantity; unit: string } | null {
+  const definition = getUnitDefinition(unit)
+  if (!definition || definition.system === system) return null
+
+  // Pick the target unit from the smaller end of the range
+  const baseValue = quantity.value * definition.baseAmount
+  const [targetUnit] = TARGET_UNITS[system][definition.kind].find(
+    ([, upperBound]) => baseValue < upperBound
+  )!
+  const round = (value: number) =>
+    system === 'metric' ? roundMetric(value, targetUnit) : roundImperial(value)
+
+  const converted: Quantity = { value: round(convertValue(quantity.value, unit, targetUnit)!) }
+  if (quantity.maxValue !== undefined) {
+    const maxValue = round(convertValue(quantity.maxValue, unit, targetUnit)!)
+    if (maxValue > converted.value) converted.maxValue = maxValue
+  }
+
+  return { quantity: converted, unit: targetUnit }
+}
+
+// ============================================================================
+// FORMATTING
+// ============================================================================
+
+/**
+ * Plural display names. Abbreviations (tsp, g, oz...) never change.
+ */
+const PLURAL_UNITS: Record<string, string> = {
+  cup: 'cups',
+  pint: 'pints',
+  quart: 'quarts',
+  gallon: 'gallons',
+  pinch: 'pinches',
+  dash: 'dashes',
+  clove: 'cloves',
+  can: 'cans',
+  package: 'packages',
+  slice: 'slices',
+  piece: 'pieces',
+  bunch: 'bunches',
+  handful: 'handfuls',
+  sprig: 'sprigs',
+  stalk: 'stalks',
+}
+
+/**
+ * Format a unit for an amount, e.g. "cup" for 1/2 and "cups" for 2
+ * Unknown units are returned unchanged.
+ */
+export function formatUnit(unit: string, value: number): string {
+  const canonical = normalizeUnit(unit)
+  if (!canonical) return unit
+  return value > 1 && PLURAL_UNITS[canonical] ? PLURAL_UNITS[canonical] : canonical
+}
+
+/**
+ * Format a quantity with its unit, using decimals for metric units and
+ * kitchen fractions otherwise
+ *
+ * @example
+ * formatAmount({ value: 1.5 }, 'cup') // '1 1/2 cups'
+ * formatAmount({ value: 2.5 }, 'ml') // '2.5 ml'
+ */
+export function formatAmount(quantity: Quantity, unit: string | null): string {
+  const style = unit && getUnitSystem(unit) === 'metric' ? 'decimal' : 'fraction'
+  const formatted = formatQuantity(quantity, { style })
+  if (!unit) return formatted
+  return `${formatted} ${formatUnit(unit, quantity.maxValue ?? quantity.value)}`
+}
@@ -0,0 +1,38 @@
+/**
+ * Auth Channel
+ *
+ * Keeps the tabs of a browser in sync: signing in or out, or extending the
+ * session, in one tab is announced to the others over a BroadcastChannel.
+ * Where BroadcastChannel is unavailable (server rendering, old browsers) the
+ * channel does nothing.
+ */
+
+const CHANNEL_NAME = 'auth'
+
+export type AuthChannelMessage =
+  | { type: 'login' }
+  | { type: 'logout' }
+  | { type: 'session-extended'; expiresAt: string }
+
+export interface AuthChannel {
+  post(message: AuthChannelMessage): void
+  close(): void
+}
+
+/**
+ * Listen for auth messages from other tabs
+ * Messages posted by this tab are not delivered back to it.
+ */
+export function openAuthChannel(onMessage: (message: AuthChannelMessage) => void): AuthChannel {
+  if (typeof BroadcastChannel === 'undefined') {
+    return { post: () => {}, close: () => {} }
+  }
+
+  const channel = new BroadcastChannel(CHANNEL_NAME)
+  channel.onmessage = (event: MessageEvent<AuthChannelMessage>) => onMessage(event.data)
+
+  return {
+    post: (message) => channel.postMessage(message),
+    close: () => channel.close(),
+  }
+}
@@ -0,0 +1,155 @@
+/**
+ * Session Cookie Utilities
+ *
+ * Kept apart from the session manager so the Next.js middleware (edge
+ * runtime) can read the session cookie without bundling storage backends.
+ */
+
+import { sessionConfig } from '@/lib/config/session'
+import { CSRF_COOKIE_NAME } from '@/lib/common/csrf'
+import { createLogger } from '@/lib/config/logging'
+
+const logger = createLogger('SessionCookies')
+
+export interface SessionCookie {
+  name: string
+  value: string
+  options: {
+    maxAge: number
+    path: string
+    httpOnly: boolean
+    secure: boolean
+    sameSite: 'strict' | 'lax' | 'none'
+  }
+}
+
+/**
+ * Create session cookie
+ *
+ * @param maxAgeMs - Cookie lifetime (default: the session idle timeout)
+ */
+export function createSessionCookie(
+  sessionId: string,
+  maxAgeMs: number = sessionConfig.expiryMs
+): SessionCookie {
+  return {
+    name: sessionConfig.cookieName,
+    value: sessionId,
+    options: {
+      maxAge: Math.floor(maxAgeMs / 1000), // Convert to seconds
+      path: '/',
+      httpOnly: sessionConfig.cookieHttpOnly,
+      secure: sessionConfig.cookieSecure,
+      sameSite: sessionConfig.cookieSameSite,
+    },
+  }
+}
+
+/**
+ * Create the CSRF token cookie that goes with a session cookie
+ * Readable by page scripts, which echo it in a header (see lib/common/csrf.ts).
+ *
+ * @param maxAgeMs - Cookie lifetime (default: the session idle timeout)
+ */
+export function createCsrfCookie(
+  csrfToken: string,
+  maxAgeMs: number = sessionConfig.expiryMs
+): SessionCookie {
+  return {
+    name: CSRF_COOKIE_NAME,
+    value: csrfToken,
+    options: {
+      maxAge: Math.floor(maxAgeMs / 1000), // Convert to seconds
+      path: '/',
+      httpOnly: false,
+      secure: sessionConfig.cookieSecure,
+      sameSite: sessionConfig.cookieSameSite,
+    },
+  }
+}
+
+/**
+ * Format Set-Cookie header value
+ */
+export function formatSetCookieHeader(cookie: SessionCookie): string {
+  const { name, value, options } = cookie
+  const parts = [`${name}=${value}`]
+
+  if (options.maxAge) {
+    parts.push(`Max-Age=${options.maxAge}`)
+  }
+  if (options.path) {
+    parts.push(`Path=${options.path}`)
+  }
+  if (options.httpOnly) {
+    parts.push('HttpOnly')
+  }
+  if (options.secure) {
+    parts.push('Secure')
+  }
+  if (options.sameSite) {
+    parts.push(`SameSite=${options.sameSite}`)
+  }
+
+  return parts.join('; ')
+}
+
+/**
+ * Parse session ID from cookie header
+ */
+export function parseSessionIdFromCookie(cookieHeader: string): string | null {
+  if (!cookieHeader) {
+    logger.debug({}, 'No cookie header provided')
+    return null
+  }
+
+  const cookies = cookieHeader.split(';').map((c) => c.trim())
+  logger.debug({ cookieCount: cookies.length, lookingFor: sessionConfig.cookieName }, 'Parsing cookies')
+
+  for (const cookie of cookies) {
+    const [name, ...valueParts] = cookie.split('=')
+    const value = valueParts.join('=') // Handle values that might contain '='
+    if (name === sessionConfig.cookieName) {
+      const sessionId = value || null
+      logger.debug({ sessionId, sessionIdLength: sessionId?.length }, 'Found session ID in cookie')
+      return sessionId
+    }
+  }
+
+  logger.debug({ cookieHeader: cookieHeader.substring(0, 200) }, 'Session cookie not found in header')
+  return null
+}
+
+/**
+ * Create logout cookie (empty value, immediate expiry)
+ */
+export function createLogoutCookie(): SessionCookie {
+  return {
+    name: sessionConfig.cookieName,
+    value: '',
+    options: {
+      maxAge: 0, // Immediate expiry
+      path: '/',
+      httpOnly: sessionConfig.cookieHttpOnly,
+      secure: sessionConfig.cookieSecure,
+      sameSite: sessionConfig.cookieSameSite,
+    },
+  }
+}
+
+/**
+ * Create CSRF logout cookie (empty value, immediate expiry)
+ */
+export function createCsrfLogoutCookie(): SessionCookie {
+  return {
+    name: CSRF_COOKIE_NAME,
+    value: '',
+    options: {
+      maxAge: 0, // Immediate expiry
+      path: '/',
+      httpOnly: false,
+      secure: sessionConfig.cookieSecure,
+      sameSite: sessionConfig.cookieSameSite,
+    },
+  }
+}
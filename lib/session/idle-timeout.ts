@@ -0,0 +1,54 @@
+/**
+ * Idle Timeout
+ *
+ * Client-side decisions for the session expiry warning. The session ends at
+ * `expiresAt` (from /api/auth/me or keep-alive) unless the server sees
+ * another request first. Shortly before that, a user who has been active
+ * since the session was last extended is kept signed in silently; an idle
+ * user is asked whether to stay signed in.
+ */
+
+/**
+ * How long before expiry the warning is shown
+ */
+export const SESSION_WARNING_MS = 2 * 60 * 1000
+
+/**
+ * Where an expired session is sent; the login page explains why
+ */
+export const SESSION_EXPIRED_REASON = 'session-expired'
+
+export const SESSION_EXPIRED_LOGIN_PATH = `/auth/login?reason=${SESSION_EXPIRED_REASON}`
+
+export type SessionTimeoutAction = 'none' | 'extend' | 'warn' | 'expire'
+
+export interface SessionTimeoutState {
+  expiresAt: Date
+  now: number
+  /** Last pointer/keyboard/scroll activity in this tab */
+  lastActivityAt: number
+  /** When the server last extended the session (expiresAt received) */
+  lastExtendedAt: number
+}
+
+export function getSessionTimeoutAction(state: SessionTimeoutState): SessionTimeoutAction {
+  const remaining = state.expiresAt.getTime() - state.now
+
+  if (remaining <= 0) {
+    return 'expire'
+  }
+  if (remaining > SESSION_WARNING_MS) {
+    return 'none'
+  }
+  return state.lastActivityAt > state.lastExtendedAt ? 'extend' : 'warn'
+}
+
+/**
+ * Format a duration as m:ss, e.g. 1:05
+ */
+export function formatTimeRemaining(ms: number): string {
+  const totalSeconds = Math.max(0, Math.ceil(ms / 1000))
+  const minutes = Math.floor(totalSeconds / 60)
+  const seconds = totalSeconds % 60
+  return `${minutes}:${seconds.toString().padStart(2, '0')}`
+}
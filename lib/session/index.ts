@@ -6,13 +6,19 @@
  * and never stored in session - it's refreshed on demand and kept in memory.
  */
 
+import { createHash, randomBytes } from 'crypto'
 import { sessionConfig, shouldRefreshSession } from '@/lib/config/session'
 import {
+  storageConfig,
   isMemoryStorageEnabled,
   isRedisStorageEnabled,
   isDatabaseStorageEnabled,
 } from '@/lib/config/storage'
 import { createLogger } from '@/lib/config/logging'
+import { DEFAULT_USER_ROLES, type UserRole } from '@/lib/common/roles'
+import { RedisSessionStorage, createRedisClient } from './redis-storage'
+import { openSqlDatabase } from './sql-database'
+import { SqlSessionStorage } from './sql-storage'
 
 const logger = createLogger('SessionManager')
 
@@ -32,10 +38,15 @@ export interface SessionData {
   firstName: string
   lastName: string
   emailVerified: boolean
+  roles: UserRole[] // From the login response (see lib/common/roles.ts)
   userToken: string // X-User-Token (user-level JWT)
   userTokenExpiresAt: Date
   createdAt: Date
   lastAccessedAt: Date
+  userAgent?: string // Captured at login
+  ipAddress?: string // Captured at login
+  twoFactorPending?: boolean // Password checked, waiting for a two-factor code
+  csrfToken: string // Must be echoed by state-changing requests (see lib/common/csrf.ts)
 }
 
 export interface CreateSessionOptions {
@@ -44,8 +55,12 @@ export interface CreateSessionOptions {
   firstName: string
   lastName: string
   emailVerified: boolean
+  roles: UserRole[]
   userToken: string // X-User-Token from login response
   userTokenExpiresAt: Date
+  userAgent?: string
+  ipAddress?: string
+  twoFactorPending?: boolean
 }
 
 export interface ValidateSessionResult {
@@ -53,29 +68,41 @@ export interface ValidateSessionResult {
   session?: SessionData
   error?: string
   needsRefresh?: boolean
+  twoFactorPending?: boolean // Only usable to complete two-factor login
 }
 
+/**
+ * How long a pending two-factor session waits for its code
+ */
+export const TWO_FACTOR_PENDING_TTL_MS = 5 * 60 * 1000
+
 // ============================================================================
 // STORAGE INTERFACE
 // ============================================================================
 
-interface ISessionStorage {
+export interface ISessionStorage {
   save(session: SessionData): Promise<void>
   get(sessionId: string): Promise<SessionData | null>
   delete(sessionId: string): Promise<void>
   clear(): Promise<void>
+  /** Every stored, unexpired session of a user (per-user index) */
+  listByUser(userId: number): Promise<SessionData[]>
+  /** Prepare the backend (e.g. run migrations) before serving requests */
+  initialize?(): Promise<void>
 }
 
 // ============================================================================
 // IN-MEMORY STORAGE
 // ============================================================================
 
-class MemorySessionStorage implements ISessionStorage {
+export class MemorySessionStorage implements ISessionStorage {
   private sessions: Map<string, SessionData> = new Map()
+  private sessionIdsByUser: Map<number, Set<string>> = new Map()
 
   async save(session: SessionData): Promise<void> {
     const key = session.id
     this.sessions.set(key, session)
+    this.indexSession(session)
     logger.debug({ 
       sessionId: session.id, 
       keyUsed: key,
@@ -129,15 +156,33 @@ class MemorySessionStorage implements ISessionStorage {
   }
 
   async delete(sessionId: string): Promise<void> {
+    const session = this.sessions.get(sessionId)
+    if (session) {
+      this.sessionIdsByUser.get(session.userId)?.delete(sessionId)
+    }
     this.sessions.delete(sessionId)
     logger.debug({ sessionId }, 'Session deleted from memory')
   }
 
   async clear(): Promise<void> {
     this.sessions.clear()
+    this.sessionIdsByUser.clear()
     logger.debug({}, 'All sessions cleared from memory')
   }
 
+  async listByUser(userId: number): Promise<SessionData[]> {
+    const sessionIds = this.sessionIdsByUser.get(userId) ?? new Set<string>()
+    return Array.from(sessionIds)
+      .map((sessionId) => this.sessions.get(sessionId))
+      .filter((session): session is SessionData => !!session)
+  }
+
+  private indexSession(session: SessionData): void {
+    const sessionIds = this.sessionIdsByUser.get(session.userId) ?? new Set<string>()
+    sessionIds.add(session.id)
+    this.sessionIdsByUser.set(session.userId, sessionIds)
+  }
+
   // For debugging
   getStats() {
     return {
@@ -164,18 +209,28 @@ export class SessionManager {
       this.storage = new MemorySessionStorage()
       logger.info({}, 'Using in-memory session storage')
     } else if (isRedisStorageEnabled()) {
-      // TODO: Implement Redis storage
-      logger.warn({}, 'Redis storage not yet implemented, falling back to memory')
-      this.storage = new MemorySessionStorage()
+      this.storage = new RedisSessionStorage(createRedisClient(storageConfig.redisUrl!), {
+        ttlMs: sessionConfig.expiryMs,
+      })
+      logger.info({}, 'Using Redis session storage')
     } else if (isDatabaseStorageEnabled()) {
-      // TODO: Implement database storage
-      logger.warn({}, 'Database storage not yet implemented, falling back to memory')
-      this.storage = new MemorySessionStorage()
+      this.storage = new SqlSessionStorage(openSqlDatabase(storageConfig.databaseUrl!), {
+        ttlMs: sessionConfig.expiryMs,
+      })
+      logger.info({}, 'Using database session storage')
     } else {
       this.storage = new MemorySessionStorage()
     }
   }
 
+  /**
+   * Prepare the storage backend
+   * Call once on server startup so setup errors surface before the first request.
+   */
+  async initialize(): Promise<void> {
+    await this.storage.initialize?.()
+  }
+
   /**
    * Create a new session
    */
@@ -190,10 +245,15 @@ export class SessionManager {
       firstName: options.firstName,
       lastName: options.lastName,
       emailVerified: options.emailVerified,
+      roles: options.roles,
       userToken: options.userToken,
       userTokenExpiresAt: options.userTokenExpiresAt,
       createdAt: now,
       lastAccessedAt: now,
+      userAgent: options.userAgent,
+      ipAddress: options.ipAddress,
+      ...(options.twoFactorPending && { twoFactorPending: true }),
+      csrfToken: this.generateCsrfToken(),
     }
 
     await this.storage.save(session)
@@ -234,6 +294,21 @@ export class SessionManager {
       return null
     }
 
+    // Unfinished two-factor logins don't wait forever
+    if (
+      session.twoFactorPending &&
+      Date.now() - session.createdAt.getTime() > TWO_FACTOR_PENDING_TTL_MS
+    ) {
+      logger.info({ sessionId }, 'Pending two-factor session timed out')
+      await this.storage.delete(sessionId)
+      return null
+    }
+
+    // Sessions saved before CSRF protection get their token on next use,
+    session.csrfToken ??= this.generateCsrfToken()
+    // and sessions saved before roles get the defaults
+    session.roles ??= [...DEFAULT_USER_ROLES]
+
     // Update last accessed time
     session.lastAccessedAt = new Date()
     await this.storage.save(session)
@@ -254,6 +329,15 @@ export class SessionManager {
       }
     }
 
+    if (session.twoFactorPending) {
+      return {
+        valid: false,
+        session,
+        error: 'Two-factor verification required',
+        twoFactorPending: true,
+      }
+    }
+
     // Check if user token needs refresh
     // Note: Bearer token (API JWT) is managed separately by ApiTokenManager
     const needsRefresh = shouldRefreshSession(session.userTokenExpiresAt)
@@ -292,6 +376,64 @@ export class SessionManager {
     return session
   }
 
+  /**
+   * Mark the session's user as having verified their email
+   */
+  async markEmailVerified(sessionId: string): Promise<SessionData | null> {
+    const session = await this.storage.get(sessionId)
+
+    if (!session) {
+      logger.warn({ sessionId }, 'Cannot update non-existent session')
+      return null
+    }
+
+    session.emailVerified = true
+    await this.storage.save(session)
+    logger.info({ sessionId }, 'Session email marked as verified')
+
+    return session
+  }
+
+  /**
+   * Get a session waiting for its two-factor code
+   */
+  async getPendingTwoFactorSession(sessionId: string): Promise<SessionData | null> {
+    const session = await this.getSession(sessionId)
+    return session?.twoFactorPending ? session : null
+  }
+
+  /**
+   * Finish a two-factor login
+   * The pending session is replaced by a full session with a new ID, so the
+   * ID handed out before the code was checked never becomes usable.
+   *
+   * @returns The new session, or null if the pending session is gone
+   */
+  async completeTwoFactorLogin(pendingSessionId: string): Promise<SessionData | null> {
+    const pending = await this.getPendingTwoFactorSession(pendingSessionId)
+
+    if (!pending) {
+      logger.warn({ sessionId: pendingSessionId }, 'Cannot complete non-existent pending session')
+      return null
+    }
+
+    const session = await this.createSession({
+      userId: pending.userId,
+      email: pending.email,
+      firstName: pending.firstName,
+      lastName: pending.lastName,
+      emailVerified: pending.emailVerified,
+      roles: pending.roles,
+      userToken: pending.userToken,
+      userTokenExpiresAt: pending.userTokenExpiresAt,
+      userAgent: pending.userAgent,
+      ipAddress: pending.ipAddress,
+    })
+    await this.storage.delete(pendingSessionId)
+
+    return session
+  }
+
   /**
    * Delete session
    */
@@ -300,6 +442,45 @@ export class SessionManager {
     logger.info({ sessionId }, 'Session deleted')
   }
 
+  /**
+   * List a user's active sessions, most recently used first
+   * Sessions whose user token has expired or that are still waiting for a
+   * two-factor code are left out.
+   */
+  async listUserSessions(userId: number): Promise<SessionData[]> {
+    const now = new Date()
+    const sessions = await this.storage.listByUser(userId)
+
+    return sessions
+      .filter((session) => session.userTokenExpiresAt > now && !session.twoFactorPending)
+      .sort((a, b) => b.lastAccessedAt.getTime() - a.lastAccessedAt.getTime())
+  }
+
+  /**
+   * Find one of a user's active sessions by its handle (see getSessionHandle)
+   */
+  async findUserSession(userId: number, handle: string): Promise<SessionData | null> {
+    const sessions = await this.listUserSessions(userId)
+    return sessions.find((session) => getSessionHandle(session.id) === handle) ?? null
+  }
+
+  /**
+   * Delete every session of a user except one (usually the current session)
+   *
+   * @returns The deleted sessions, so their user tokens can be revoked
+   */
+  async deleteOtherUserSessions(userId: number, keepSessionId: string): Promise<SessionData[]> {
+    const sessions = await this.storage.listByUser(userId)
+    const others = sessions.filter((session) => session.id !== keepSessionId)
+
+    for (const session of others) {
+      await this.storage.delete(session.id)
+    }
+
+    logger.info({ userId, deleted: others.length }, 'Other sessions of user deleted')
+    return others
+  }
+
   /**
    * Delete all sessions
    */
@@ -315,6 +496,10 @@ export class SessionManager {
     return `sess_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`
   }
 
+  private generateCsrfToken(): string {
+    return randomBytes(32).toString('base64url')
+  }
+
   /**
    * Get stats (for development/debugging)
    */
@@ -327,109 +512,48 @@ export class SessionManager {
 }
 
 // ============================================================================
-// SINGLETON INSTANCE
-// ============================================================================
-
-export const sessionManager = new SessionManager()
-
-// ============================================================================
-// SESSION COOKIE UTILITIES
+// SESSION EXPIRY
 // ============================================================================
 
-export interface SessionCookie {
-  name: string
-  value: string
-  options: {
-    maxAge: number
-    path: string
-    httpOnly: boolean
-    secure: boolean
-    sameSite: 'strict' | 'lax' | 'none'
-  }
-}
-
 /**
- * Create session cookie
+ * When the session ends unless it is used again
+ * The earlier of the user token expiry and the idle timeout (the cookie and
+ * storage TTL slide by `sessionConfig.expiryMs` on every request).
  */
-export function createSessionCookie(sessionId: string): SessionCookie {
-  return {
-    name: sessionConfig.cookieName,
-    value: sessionId,
-    options: {
-      maxAge: Math.floor(sessionConfig.expiryMs / 1000), // Convert to seconds
-      path: '/',
-      httpOnly: sessionConfig.cookieHttpOnly,
-      secure: sessionConfig.cookieSecure,
-      sameSite: sessionConfig.cookieSameSite,
-    },
-  }
+export function getSessionExpiresAt(session: SessionData): Date {
+  const idleExpiresAt = session.lastAccessedAt.getTime() + sessionConfig.expiryMs
+  return new Date(Math.min(session.userTokenExpiresAt.getTime(), idleExpiresAt))
 }
 
-/**
- * Format Set-Cookie header value
- */
-export function formatSetCookieHeader(cookie: SessionCookie): string {
-  const { name, value, options } = cookie
-  const parts = [`${name}=${value}`]
-
-  if (options.maxAge) {
-    parts.push(`Max-Age=${options.maxAge}`)
-  }
-  if (options.path) {
-    parts.push(`Path=${options.path}`)
-  }
-  if (options.httpOnly) {
-    parts.push('HttpOnly')
-  }
-  if (options.secure) {
-    parts.push('Secure')
-  }
-  if (options.sameSite) {
-    parts.push(`SameSite=${options.sameSite}`)
-  }
-
-  return parts.join('; ')
-}
+// ============================================================================
+// SESSION HANDLES
+// ============================================================================
 
 /**
- * Parse session ID from cookie header
+ * Public identifier of a session
+ * Session IDs are bearer credentials (they are the cookie value), so lists of
+ * sessions shown to the user identify them by a one-way hash instead.
  */
-export function parseSessionIdFromCookie(cookieHeader: string): string | null {
-  if (!cookieHeader) {
-    logger.debug({}, 'No cookie header provided')
-    return null
-  }
+export function getSessionHandle(sessionId: string): string {
+  return createHash('sha256').update(sessionId).digest('hex').slice(0, 24)
+}
 
-  const cookies = cookieHeader.split(';').map((c) => c.trim())
-  logger.debug({ cookieCount: cookies.length, lookingFor: sessionConfig.cookieName }, 'Parsing cookies')
+// ============================================================================
+// SINGLETON INSTANCE
+// ============================================================================
 
-  for (const cookie of cookies) {
-    const [name, ...valueParts] = cookie.split('=')
-    const value = valueParts.join('=') // Handle values that might contain '='
-    if (name === sessionConfig.cookieName) {
-      const sessionId = value || null
-      logger.debug({ sessionId, sessionIdLength: sessionId?.length }, 'Found session ID in cookie')
-      return sessionId
-    }
-  }
+export const sessionManager = new SessionManager()
 
-  logger.debug({ cookieHeader: cookieHeader.substring(0, 200) }, 'Session cookie not found in header')
-  return null
-}
+// ============================================================================
+// SESSION COOKIE UTILITIES
+// ============================================================================
 
-/**
- * Create logout cookie (empty value, immediate expiry)
- */
-export function createLogoutCookie(): SessionCookie {
-  return {
-    name: sessionConfig.cookieName,
-    value: '',
-    options: {
-      maxAge: 0, // Immediate expiry
-      path: '/',
-      httpOnly: sessionConfig.cookieHttpOnly,
-      secure: sessionConfig.cookieSecure,
-      sameSite: sessionConfig.cookieSameSite,
-    },
-  }
-}
+export {
+  type SessionCookie,
+  createSessionCookie,
+  formatSetCookieHeader,
+  parseSessionIdFromCookie,
+  createLogoutCookie,
+  createCsrfCookie,
+  createCsrfLogoutCookie,
+} from './cookies'
@@ -0,0 +1,189 @@
+/**
+ * Redis Session Storage
+ *
+ * Stores each session as a JSON string under `session:<id>`. Every save
+ * resets the key's TTL, so idle sessions expire on their own and sessions
+ * survive restarts and are shared by every server instance using the same
+ * Redis.
+ *
+ * A set per user (`session-user:<userId>`) indexes the user's session IDs.
+ * It expires with the user's most recently saved session; members whose
+ * session is gone are pruned when the index is read.
+ */
+
+import Redis from 'ioredis'
+import { createLogger } from '@/lib/config/logging'
+import type { ISessionStorage, SessionData } from './index'
+import { deserializeSession, serializeSession } from './serialization'
+
+const logger = createLogger('RedisSessionStorage')
+
+// ============================================================================
+// CONFIGURATION
+// ============================================================================
+
+export interface RedisSessionStorageOptions {
+  /** Time to live of a session key, reset on every save */
+  ttlMs: number
+  /** Prefix for session keys (default: `session:`) */
+  keyPrefix?: string
+  /** Prefix for the per-user index sets (default: `session-user:`) */
+  userIndexPrefix?: string
+}
+
+const DEFAULT_KEY_PREFIX = 'session:'
+const DEFAULT_USER_INDEX_PREFIX = 'session-user:'
+
+/**
+ * Keys deleted per DEL command when clearing
+ */
+const CLEAR_BATCH_SIZE = 100
+
+// ============================================================================
+// CLIENT
+// ============================================================================
+
+/**
+ * Create a Redis client for session storage
+ * Connection errors are logged; ioredis reconnects on its own.
+ */
+export function createRedisClient(redisUrl: string): Redis {
+  const client = new Redis(redisUrl, { maxRetriesPerRequest: 3 })
+
+  client.on('error', (error) => {
+    logger.error({ error: error.message }, 'Redis connection error')
+  })
+
+  return client
+}
+
+// ============================================================================
+// STORAGE
+// ============================================================================
+
+export class RedisSessionStorage implements ISessionStorage {
+  private readonly ttlMs: number
+  private readonly keyPrefix: string
+  private readonly userIndexPrefix: string
+
+  constructor(
+    private readonly redis: Redis,
+    options: RedisSessionStorageOptions
+  ) {
+    this.ttlMs = options.ttlMs
+    this.keyPrefix = options.keyPrefix ?? DEFAULT_KEY_PREFIX
+    this.userIndexPrefix = options.userIndexPrefix ?? DEFAULT_USER_INDEX_PREFIX
+  }
+
+  async save(session: SessionData): Promise<void> {
+    const indexKey = this.userIndexKey(session.userId)
+    const results = await this.redis
+      .pipeline()
+      .set(this.key(session.id), serializeSession(session), 'PX', this.ttlMs)
+      .sadd(indexKey, session.id)
+      .pexpire(indexKey, this.ttlMs)
+      .exec()
+
+    // Pipelines report per-command errors instead of rejecting
+    const failed = results?.find(([error]) => error)
+    if (failed) {
+      throw failed[0]
+    }
+    logger.debug({ sessionId: session.id, ttlMs: this.ttlMs }, 'Session saved to Redis')
+  }
+
+  async get(sessionId: string): Promise<SessionData | null> {
+    const value = await this.redis.get(this.key(sessionId))
+    if (!value) {
+      return null
+    }
+
+    try {
+      return deserializeSession(value)
+    } catch (error) {
+      // Unreadable (e.g. written by an incompatible version), drop it
+      logger.error(
+        { sessionId, error: error instanceof Error ? error.message : String(error) },
+        'Invalid session data in Redis'
+      )
+      await this.delete(sessionId)
+      return null
+    }
+  }
+
+  async delete(sessionId: string): Promise<void> {
+    await this.redis.del(this.key(sessionId))
+  }
+
+  /**
+   * Delete every session key and user index
+   * Uses SCAN so other data in the same Redis database is left alone.
+   */
+  async clear(): Promise<void> {
+    const deleted =
+      (await this.deleteMatching(`${this.keyPrefix}*`)) +
+      (await this.deleteMatching(`${this.userIndexPrefix}*`))
+
+    logger.debug({ deleted }, 'Sessions cleared from Redis')
+  }
+
+  async listByUser(userId: number): Promise<SessionData[]> {
+    const indexKey = this.userIndexKey(userId)
+    const sessionIds = await this.redis.smembers(indexKey)
+    if (sessionIds.length === 0) {
+      return []
+    }
+
+    const values = await this.redis.mget(...sessionIds.map((sessionId) => this.key(sessionId)))
+    const sessions: SessionData[] = []
+    const stale: string[] = []
+
+    values.forEach((value, index) => {
+      if (!value) {
+        stale.push(sessionIds[index])
+        return
+      }
+      try {
+        sessions.push(deserializeSession(value))
+      } catch {
+        // Dropped by get() on the next lookup
+        stale.push(sessionIds[index])
+      }
+    })
+
+    if (stale.length > 0) {
+      await this.redis.srem(indexKey, ...stale)
+    }
+
+    return sessions
+  }
+
+  private async deleteMatching(pattern: string): Promise<number> {
+    let cursor = '0'
+    let deleted = 0
+
+    do {
+      const [nextCursor, keys] = await this.redis.scan(
+        cursor,
+        'MATCH',
+        pattern,
+        'COUNT',
+        CLEAR_BATCH_SIZE
+      )
+      if (keys.length > 0) {
+        deleted += await this.redis.del(...keys)
+      }
+      cursor = nextCursor
+    } while (cursor !== '0')
+
+    return deleted
+  }
+
+  private key(sessionId: string): string {
+    return `${this.keyPrefix}${sessionId}`
+  }
+
+  private userIndexKey(userId: number): string {
+    return `${this.userIndexPrefix}${userId}`
+  }
+}
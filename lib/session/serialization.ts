@@ -0,0 +1,38 @@
+/**
+ * Session Serialization
+ *
+ * JSON encoding for session storage backends that store sessions as strings.
+ * `Date` fields become ISO strings in JSON and are revived when decoding.
+ */
+
+import type { SessionData } from './index'
+
+/**
+ * SessionData fields holding a `Date`
+ */
+const SESSION_DATE_FIELDS = ['userTokenExpiresAt', 'createdAt', 'lastAccessedAt'] as const
+
+/**
+ * Encode a session as a JSON string
+ */
+export function serializeSession(session: SessionData): string {
+  return JSON.stringify(session)
+}
+
+/**
+ * Decode a session encoded with serializeSession
+ * Throws if the value is not valid JSON or a date field is invalid.
+ */
+export function deserializeSession(value: string): SessionData {
+  const session = JSON.parse(value) as SessionData
+
+  for (const field of SESSION_DATE_FIELDS) {
+    const date = new Date(session[field])
+    if (Number.isNaN(date.getTime())) {
+      throw new Error(`Invalid date in session field "${field}"`)
+    }
+    session[field] = date
+  }
+
+  return session
+}
@@ -0,0 +1,191 @@
+/**
+ * SQL Database Adapters
+ *
+ * Minimal async interface over the SQL drivers used for server-side storage:
+ * SQLite through the built-in `node:sqlite` module (Bun, Node 22+) for local
+ * use, and Postgres through `pg`. Statements are written with `?`
+ * placeholders; the Postgres adapter rewrites them to `$1`, `$2`, ...
+ */
+
+import { mkdir } from 'node:fs/promises'
+import path from 'node:path'
+import { Pool } from 'pg'
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export type SqlDialect = 'sqlite' | 'postgres'
+
+export type SqlValue = string | number | null
+
+export interface SqlDatabase {
+  readonly dialect: SqlDialect
+  /** Run a statement and return its rows */
+  query<T extends Record<string, unknown>>(sql: string, params?: SqlValue[]): Promise<T[]>
+  /** Run a statement and return the number of affected rows */
+  execute(sql: string, params?: SqlValue[]): Promise<number>
+  close(): Promise<void>
+}
+
+/**
+ * The parts of a `pg` Pool used by the adapter (also satisfied by pg-mem)
+ */
+export interface PostgresPool {
+  query(
+    sql: string,
+    params?: SqlValue[]
+  ): Promise<{ rows: Record<string, unknown>[]; rowCount: number | null }>
+  end(): Promise<void>
+}
+
+/**
+ * The parts of a `node:sqlite` DatabaseSync used by the adapter
+ */
+export interface SqliteConnection {
+  exec(sql: string): void
+  prepare(sql: string): {
+    all(...params: SqlValue[]): unknown[]
+    run(...params: SqlValue[]): { changes: number | bigint }
+  }
+  close(): void
+}
+
+// ============================================================================
+// POSTGRES
+// ============================================================================
+
+/**
+ * Rewrite `?` placeholders to Postgres' numbered `$n` placeholders
+ */
+export function toPostgresPlaceholders(sql: string): string {
+  let index = 0
+  return sql.replace(/\?/g, () => `$${++index}`)
+}
+
+export function createPostgresDatabase(pool: PostgresPool): SqlDatabase {
+  return {
+    dialect: 'postgres',
+    async query<T extends Record<string, unknown>>(sql: string, params: SqlValue[] = []) {
+      const result = await pool.query(toPostgresPlaceholders(sql), params)
+      return result.rows as T[]
+    },
+    async execute(sql, params = []) {
+      const result = await pool.query(toPostgresPlaceholders(sql), params)
+      return result.rowCount ?? 0
+    },
+    close: () => pool.end(),
+  }
+}
+
+// ============================================================================
+// SQLITE
+// ============================================================================
+
+export function createSqliteDatabase(connection: SqliteConnection): SqlDatabase {
+  return {
+    dialect: 'sqlite',
+    async query<T extends Record<string, unknown>>(sql: string, params: SqlValue[] = []) {
+      return connection.prepare(sql).all(...params) as T[]
+    },
+    async execute(sql, params = []) {
+      return Number(connection.prepare(sql).run(...params).changes)
+    },
+    async close() {
+      connection.close()
+    },
+  }
+}
+
+/**
+ * Open (or create) a SQLite database file, or `:memory:`
+ */
+export async function openSqliteDatabase(filename: string): Promise<SqlDatabase> {
+  // Loaded lazily: `node:sqlite` only exists on Bun and Node 22+
+  const sqliteModule = 'node:sqlite'
+  const { DatabaseSync } = (await import(sqliteModule)) as {
+    DatabaseSync: new (filename: string) => SqliteConnection
+  }
+
+  if (filename !== ':memory:') {
+    await mkdir(path.dirname(path.resolve(filename)), { recursive: true })
+  }
+
+  const connection = new DatabaseSync(filename)
+  // Let readers continue while another connection writes
+  connection.exec('PRAGMA journal_mode = WAL')
+
+  return createSqliteDatabase(connection)
+}
+
+// ============================================================================
+// MIGRATIONS
+// ============================================================================
+
+export interface SqlMigration {
+  version: number
+  name: string
+  statements: string[]
+}
+
+/**
+ * Apply pending schema migrations in order
+ * Applied versions are recorded in `table` (created if missing) and skipped
+ * on later runs, so each schema keeps its own migration history.
+ *
+ * @returns The migrations applied by this call
+ */
+export async function applySqlMigrations(
+  db: SqlDatabase,
+  table: string,
+  migrations: SqlMigration[]
+): Promise<SqlMigration[]> {
+  await db.execute(
+    `CREATE TABLE IF NOT EXISTS ${table} (
+      version INTEGER PRIMARY KEY,
+      name TEXT NOT NULL,
+      applied_at BIGINT NOT NULL
+    )`
+  )
+
+  const rows = await db.query<{ version: number | string }>(`SELECT version FROM ${table}`)
+  const applied = new Set(rows.map((row) => Number(row.version)))
+  const pending = migrations.filter((migration) => !applied.has(migration.version))
+
+  for (const migration of pending) {
+    for (const statement of migration.statements) {
+      await db.execute(statement)
+    }
+    await db.execute(
+      `INSERT INTO ${table} (version, name, applied_at) VALUES (?, ?, ?)
+       ON CONFLICT (version) DO NOTHING`,
+      [migration.version, migration.name, Date.now()]
+    )
+  }
+
+  return pending
+}
+
+// ============================================================================
+// CONNECTION URL
+// ============================================================================
+
+/**
+ * Open a database from a connection URL
+ *
+ * - `postgres://...` or `postgresql://...` connect to Postgres
+ * - `sqlite:<file>` or `file:<file>` open a SQLite file (`sqlite::memory:`
+ *   for an in-memory database)
+ */
+export async function openSqlDatabase(databaseUrl: string): Promise<SqlDatabase> {
+  if (/^postgres(ql)?:\/\//.test(databaseUrl)) {
+    return createPostgresDatabase(new Pool({ connectionString: databaseUrl }))
+  }
+
+  const sqliteMatch = /^(sqlite|file):(.+)$/.exec(databaseUrl)
+  if (sqliteMatch) {
+    return openSqliteDatabase(sqliteMatch[2])
+  }
+
+  throw new Error('Unsupported DATABASE_URL, expected postgres://, sqlite: or file:')
+}
@@ -0,0 +1,233 @@
+/**
+ * SQL Session Storage
+ *
+ * Stores sessions in a `sessions` table (SQLite or Postgres, see
+ * sql-database.ts). Each row holds the serialized session, an indexed
+ * `user_id` for listing a user's sessions and an indexed `expires_at` (epoch
+ * milliseconds) that every save pushes forward, so idle sessions expire.
+ * Expired rows are never returned and are purged periodically.
+ *
+ * The schema is created and upgraded by versioned migrations, applied on
+ * startup (initialize) or lazily before the first query.
+ */
+
+import { createLogger } from '@/lib/config/logging'
+import type { ISessionStorage, SessionData } from './index'
+import { applySqlMigrations, type SqlDatabase, type SqlMigration } from './sql-database'
+import { deserializeSession, serializeSession } from './serialization'
+
+const logger = createLogger('SqlSessionStorage')
+
+// ============================================================================
+// CONFIGURATION
+// ============================================================================
+
+export interface SqlSessionStorageOptions {
+  /** Time until an idle session expires, reset on every save */
+  ttlMs: number
+  /** How often expired rows are deleted (default: 10 minutes, 0 to disable) */
+  purgeIntervalMs?: number
+}
+
+export const DEFAULT_PURGE_INTERVAL_MS = 10 * 60 * 1000
+
+// ============================================================================
+// MIGRATIONS
+// ============================================================================
+
+/**
+ * Schema migrations, applied in order. Never edit an applied migration; add
+ * a new version instead. Statements must work on both SQLite and Postgres.
+ */
+export const SESSION_MIGRATIONS: SqlMigration[] = [
+  {
+    version: 1,
+    name: 'create_sessions',
+    statements: [
+      `CREATE TABLE IF NOT EXISTS sessions (
+        id TEXT PRIMARY KEY,
+        data TEXT NOT NULL,
+        expires_at BIGINT NOT NULL
+      )`,
+      'CREATE INDEX IF NOT EXISTS sessions_expires_at_idx ON sessions (expires_at)',
+    ],
+  },
+  {
+    version: 2,
+    name: 'index_sessions_by_user',
+    statements: [
+      // Rows saved before this migration keep a NULL user_id until their next save
+      'ALTER TABLE sessions ADD COLUMN user_id INTEGER',
+      'CREATE INDEX IF NOT EXISTS sessions_user_id_idx ON sessions (user_id)',
+    ],
+  },
+]
+
+/**
+ * Apply pending session schema migrations
+ * Versions already recorded in `session_migrations` are skipped.
+ *
+ * @returns Number of migrations applied
+ */
+export async function migrateSessionSchema(db: SqlDatabase): Promise<number> {
+  const applied = await applySqlMigrations(db, 'session_migrations', SESSION_MIGRATIONS)
+
+  for (const migration of applied) {
+    logger.info({ version: migration.version, name: migration.name }, 'Session migration applied')
+  }
+
+  return applied.length
+}
+
+// ============================================================================
+// STORAGE
+// ============================================================================
+
+export class SqlSessionStorage implements ISessionStorage {
+  private readonly ttlMs: number
+  private readonly purgeIntervalMs: number
+  private readonly database: Promise<SqlDatabase>
+  private migration: Promise<SqlDatabase> | null = null
+  private purgeTimer: ReturnType<typeof setInterval> | null = null
+
+  /**
+   * @param database - Open database, or a pending connection (see openSqlDatabase)
+   */
+  constructor(database: SqlDatabase | Promise<SqlDatabase>, options: SqlSessionStorageOptions) {
+    this.database = Promise.resolve(database)
+    this.database.catch((error) => {
+      logger.error(
+        { error: error instanceof Error ? error.message : String(error) },
+        'Session database connection failed'
+      )
+    })
+    this.ttlMs = options.ttlMs
+    this.purgeIntervalMs = options.purgeIntervalMs ?? DEFAULT_PURGE_INTERVAL_MS
+  }
+
+  /**
+   * Migrate the schema and start purging expired sessions
+   */
+  async initialize(): Promise<void> {
+    await this.ready()
+
+    if (this.purgeIntervalMs > 0 && !this.purgeTimer) {
+      this.purgeTimer = setInterval(() => {
+        this.purgeExpired().catch((error) => {
+          logger.error(
+            { error: error instanceof Error ? error.message : String(error) },
+            'Session purge failed'
+          )
+        })
+      }, this.purgeIntervalMs)
+      // Don't keep the process alive just to purge
+      this.purgeTimer.unref?.()
+    }
+  }
+
+  async save(session: SessionData): Promise<void> {
+    const db = await this.ready()
+    await db.execute(
+      `INSERT INTO sessions (id, user_id, data, expires_at) VALUES (?, ?, ?, ?)
+       ON CONFLICT (id) DO UPDATE SET
+         user_id = excluded.user_id, data = excluded.data, expires_at = excluded.expires_at`,
+      [session.id, session.userId, serializeSession(session), Date.now() + this.ttlMs]
+    )
+    logger.debug({ sessionId: session.id, dialect: db.dialect }, 'Session saved to database')
+  }
+
+  async get(sessionId: string): Promise<SessionData | null> {
+    const db = await this.ready()
+    const [row] = await db.query<{ data: string }>(
+      'SELECT data FROM sessions WHERE id = ? AND expires_at > ?',
+      [sessionId, Date.now()]
+    )
+    if (!row) {
+      return null
+    }
+
+    try {
+      return deserializeSession(row.data)
+    } catch (error) {
+      // Unreadable (e.g. written by an incompatible version), drop it
+      logger.error(
+        { sessionId, error: error instanceof Error ? error.message : String(error) },
+        'Invalid session data in database'
+      )
+      await this.delete(sessionId)
+      return null
+    }
+  }
+
+  async delete(sessionId: string): Promise<void> {
+    const db = await this.ready()
+    await db.execute('DELETE FROM sessions WHERE id = ?', [sessionId])
+  }
+
+  async clear(): Promise<void> {
+    const db = await this.ready()
+    await db.execute('DELETE FROM sessions')
+  }
+
+  async listByUser(userId: number): Promise<SessionData[]> {
+    const db = await this.ready()
+    const rows = await db.query<{ id: string; data: string }>(
+      'SELECT id, data FROM sessions WHERE user_id = ? AND expires_at > ?',
+      [userId, Date.now()]
+    )
+
+    const sessions: SessionData[] = []
+    for (const row of rows) {
+      try {
+        sessions.push(deserializeSession(row.data))
+      } catch {
+        // Dropped by get() on the next lookup
+        logger.warn({ sessionId: row.id }, 'Skipping invalid session data in database')
+      }
+    }
+    return sessions
+  }
+
+  /**
+   * Delete expired sessions
+   *
+   * @returns Number of sessions deleted
+   */
+  async purgeExpired(now: number = Date.now()): Promise<number> {
+    const db = await this.ready()
+    const deleted = await db.execute('DELETE FROM sessions WHERE expires_at <= ?', [now])
+    if (deleted > 0) {
+      logger.info({ deleted }, 'Expired sessions purged')
+    }
+    return deleted
+  }
+
+  /**
+   * Stop purging and close the database connection
+   */
+  async close(): Promise<void> {
+    if (this.purgeTimer) {
+      clearInterval(this.purgeTimer)
+      this.purgeTimer = null
+    }
+    const db = await this.database
+    await db.close()
+  }
+
+  /**
+   * Wait for the connection and run migrations once; a failed attempt is
+   * retried on the next call
+   */
+  private ready(): Promise<SqlDatabase> {
+    if (!this.migration) {
+      this.migration = this.database.then(async (db) => {
+        await migrateSessionSchema(db)
+        return db
+      })
+      this.migration.catch(() => {
+        this.migration = null
+      })
+    }
+    return this.migration
+  }
+}
@@ -0,0 +1,45 @@
+/**
+ * User Agent Descriptions
+ *
+ * Turns a User-Agent header into a short label such as "Chrome on macOS" for
+ * listing sessions. Only the common browsers and platforms are recognized;
+ * anything else falls back to "Unknown browser" / "unknown device".
+ */
+
+// Order matters: Edge and Opera also claim to be Chrome, Chrome claims Safari
+const BROWSERS: Array<[RegExp, string]> = [
+  [/Edg(e|A|iOS)?\//, 'Edge'],
+  [/OPR\/|Opera/, 'Opera'],
+  [/Firefox\/|FxiOS\//, 'Firefox'],
+  [/Chrome\/|CriOS\//, 'Chrome'],
+  [/Safari\//, 'Safari'],
+]
+
+// Order matters: Android and iOS user agents also mention Linux and Mac OS
+const PLATFORMS: Array<[RegExp, string]> = [
+  [/Android/, 'Android'],
+  [/iPhone|iPad|iPod/, 'iOS'],
+  [/Windows/, 'Windows'],
+  [/Mac OS X|Macintosh/, 'macOS'],
+  [/CrOS/, 'ChromeOS'],
+  [/Linux/, 'Linux'],
+]
+
+function match(userAgent: string, candidates: Array<[RegExp, string]>): string | null {
+  return candidates.find(([pattern]) => pattern.test(userAgent))?.[1] ?? null
+}
+
+/**
+ * Describe the browser and platform of a User-Agent header
+ *
+ * @example describeUserAgent('Mozilla/5.0 (Macintosh; ...) Chrome/120.0 Safari/537.36') // 'Chrome on macOS'
+ */
+export function describeUserAgent(userAgent: string | null | undefined): string {
+  if (!userAgent) {
+    return 'Unknown browser'
+  }
+
+  const browser = match(userAgent, BROWSERS) ?? 'Unknown browser'
+  const platform = match(userAgent, PLATFORMS) ?? 'unknown device'
+  return `${browser} on ${platform}`
+}
@@ -0,0 +1,355 @@
+/**
+ * Two-Factor Credential Storage
+ *
+ * Keeps each user's TOTP secret, hashed recovery codes and lockout state on
+ * the server; none of it is ever sent to the browser after enrollment. The
+ * backends mirror the session storage backends (memory, Redis, SQL) and are
+ * selected by the same SESSION_STORAGE setting, but credentials never
+ * expire.
+ *
+ * Unlike sessions, unreadable credentials are not dropped: that would turn
+ * two-factor authentication off. Reading them throws instead.
+ *
+ * Code checks change a credential based on what it holds (used TOTP step,
+ * recovery codes, failed attempts), so they go through `update`, which never
+ * applies a change to a credential another request has changed meanwhile.
+ */
+
+import type Redis from 'ioredis'
+import { createLogger } from '@/lib/config/logging'
+import { applySqlMigrations, type SqlDatabase, type SqlMigration } from '@/lib/session/sql-database'
+
+const logger = createLogger('TwoFactorStore')
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export interface TwoFactorCredential {
+  userId: number
+  secret: string // Base32 TOTP secret
+  enabled: boolean // False until a first code confirms enrollment
+  recoveryCodeHashes: string[] // Unused recovery codes (see hashRecoveryCode)
+  lastUsedStep: number | null // Last accepted TOTP time step, so a code works once
+  failedAttempts: number // Wrong codes since the last success or lockout
+  lockedUntil: Date | null
+  createdAt: Date
+  enabledAt: Date | null
+}
+
+/**
+ * Outcome of a change passed to ITwoFactorStore.update
+ */
+export interface TwoFactorCredentialChange<T> {
+  /** Credential to save, or null to leave the stored one as it is */
+  credential: TwoFactorCredential | null
+  result: T
+}
+
+export interface ITwoFactorStore {
+  get(userId: number): Promise<TwoFactorCredential | null>
+  save(credential: TwoFactorCredential): Promise<void>
+  /**
+   * Read, change and save a credential atomically
+   * `change` runs again on a fresh copy if the credential changed in between,
+   * so it must not have side effects. Resolves to null without a credential.
+   */
+  update<T>(
+    userId: number,
+    change: (credential: TwoFactorCredential) => TwoFactorCredentialChange<T>
+  ): Promise<T | null>
+  delete(userId: number): Promise<void>
+  /** Prepare the backend (e.g. run migrations) before serving requests */
+  initialize?(): Promise<void>
+}
+
+// ============================================================================
+// SERIALIZATION
+// ============================================================================
+
+export function serializeCredential(credential: TwoFactorCredential): string {
+  return JSON.stringify(credential)
+}
+
+/**
+ * Decode a credential encoded with serializeCredential
+ * Throws if the value is not valid JSON or a date field is invalid.
+ */
+export function deserializeCredential(value: string): TwoFactorCredential {
+  const credential = JSON.parse(value) as TwoFactorCredential
+
+  const toDate = (field: 'createdAt' | 'enabledAt' | 'lockedUntil'): Date | null => {
+    if (credential[field] === null) {
+      return null
+    }
+    const date = new Date(credential[field] as Date)
+    if (Number.isNaN(date.getTime())) {
+      throw new Error(`Invalid date in two-factor credential field "${field}"`)
+    }
+    return date
+  }
+
+  return {
+    ...credential,
+    createdAt: toDate('createdAt')!,
+    enabledAt: toDate('enabledAt'),
+    lockedUntil: toDate('lockedUntil'),
+  }
+}
+
+/**
+ * Attempts at an update before giving up on a credential that keeps changing
+ */
+const MAX_UPDATE_ATTEMPTS = 10
+
+function tooManyUpdateConflicts(userId: number): Error {
+  return new Error(`Two-factor credential of user ${userId} kept changing during an update`)
+}
+
+// ============================================================================
+// MEMORY
+// ============================================================================
+
+/**
+ * In-memory storage (development and tests; lost on restart)
+ */
+export class MemoryTwoFactorStore implements ITwoFactorStore {
+  // Stored serialized so callers can't mutate stored credentials in place
+  private credentials: Map<number, string> = new Map()
+
+  async get(userId: number): Promise<TwoFactorCredential | null> {
+    const value = this.credentials.get(userId)
+    return value ? deserializeCredential(value) : null
+  }
+
+  async save(credential: TwoFactorCredential): Promise<void> {
+    this.credentials.set(credential.userId, serializeCredential(credential))
+  }
+
+  async update<T>(
+    userId: number,
+    change: (credential: TwoFactorCredential) => TwoFactorCredentialChange<T>
+  ): Promise<T | null> {
+    // Read, change and write without awaiting, so no other update runs in between
+    const value = this.credentials.get(userId)
+    if (!value) {
+      return null
+    }
+
+    const { credential, result } = change(deserializeCredential(value))
+    if (credential) {
+      this.credentials.set(userId, serializeCredential(credential))
+    }
+    return result
+  }
+
+  async delete(userId: number): Promise<void> {
+    this.credentials.delete(userId)
+  }
+}
+
+// ============================================================================
+// REDIS
+// ============================================================================
+
+const DEFAULT_REDIS_KEY_PREFIX = 'two-factor:'
+
+/**
+ * Stores each credential as a JSON string under `two-factor:<userId>`
+ */
+export class RedisTwoFactorStore implements ITwoFactorStore {
+  private readonly keyPrefix: string
+
+  constructor(
+    private readonly redis: Redis,
+    options: { keyPrefix?: string } = {}
+  ) {
+    this.keyPrefix = options.keyPrefix ?? DEFAULT_REDIS_KEY_PREFIX
+  }
+
+  async get(userId: number): Promise<TwoFactorCredential | null> {
+    const value = await this.redis.get(this.key(userId))
+    return value ? deserializeCredential(value) : null
+  }
+
+  async save(credential: TwoFactorCredential): Promise<void> {
+    await this.redis.set(this.key(credential.userId), serializeCredential(credential))
+  }
+
+  /**
+   * WATCH the key and save in a MULTI transaction, which Redis aborts if the
+   * key changed after the WATCH. WATCH applies to a whole connection, so
+   * each update gets its own.
+   */
+  async update<T>(
+    userId: number,
+    change: (credential: TwoFactorCredential) => TwoFactorCredentialChange<T>
+  ): Promise<T | null> {
+    const key = this.key(userId)
+    const connection = this.redis.duplicate()
+    connection.on('error', (error) => {
+      logger.error({ error: error.message }, 'Redis connection error')
+    })
+
+    try {
+      for (let attempt = 0; attempt < MAX_UPDATE_ATTEMPTS; attempt++) {
+        await connection.watch(key)
+        const value = await connection.get(key)
+        if (!value) {
+          await connection.unwatch()
+          return null
+        }
+
+        const { credential, result } = change(deserializeCredential(value))
+        if (!credential) {
+          await connection.unwatch()
+          return result
+        }
+
+        const saved = await connection.multi().set(key, serializeCredential(credential)).exec()
+        if (saved) {
+          return result
+        }
+      }
+      throw tooManyUpdateConflicts(userId)
+    } finally {
+      connection.disconnect()
+    }
+  }
+
+  async delete(userId: number): Promise<void> {
+    await this.redis.del(this.key(userId))
+  }
+
+  private key(userId: number): string {
+    return `${this.keyPrefix}${userId}`
+  }
+}
+
+// ============================================================================
+// SQL
+// ============================================================================
+
+/**
+ * Schema migrations, applied in order. Never edit an applied migration; add
+ * a new version instead. Statements must work on both SQLite and Postgres.
+ */
+export const TWO_FACTOR_MIGRATIONS: SqlMigration[] = [
+  {
+    version: 1,
+    name: 'create_two_factor_credentials',
+    statements: [
+      `CREATE TABLE IF NOT EXISTS two_factor_credentials (
+        user_id INTEGER PRIMARY KEY,
+        data TEXT NOT NULL,
+        updated_at BIGINT NOT NULL
+      )`,
+    ],
+  },
+]
+
+/**
+ * Stores credentials in a `two_factor_credentials` table (see sql-database.ts)
+ */
+export class SqlTwoFactorStore implements ITwoFactorStore {
+  private readonly database: Promise<SqlDatabase>
+  private migration: Promise<SqlDatabase> | null = null
+
+  /**
+   * @param database - Open database, or a pending connection (see openSqlDatabase)
+   */
+  constructor(database: SqlDatabase | Promise<SqlDatabase>) {
+    this.database = Promise.resolve(database)
+    this.database.catch((error) => {
+      logger.error(
+        { error: error instanceof Error ? error.message : String(error) },
+        'Two-factor database connection failed'
+      )
+    })
+  }
+
+  async initialize(): Promise<void> {
+    await this.ready()
+  }
+
+  async get(userId: number): Promise<TwoFactorCredential | null> {
+    const db = await this.ready()
+    const [row] = await db.query<{ data: string }>(
+      'SELECT data FROM two_factor_credentials WHERE user_id = ?',
+      [userId]
+    )
+    return row ? deserializeCredential(row.data) : null
+  }
+
+  async save(credential: TwoFactorCredential): Promise<void> {
+    const db = await this.ready()
+    await db.execute(
+      `INSERT INTO two_factor_credentials (user_id, data, updated_at) VALUES (?, ?, ?)
+       ON CONFLICT (user_id) DO UPDATE SET data = excluded.data, updated_at = excluded.updated_at`,
+      [credential.userId, serializeCredential(credential), Date.now()]
+    )
+  }
+
+  /**
+   * Save only if the row still holds the data that was read
+   */
+  async update<T>(
+    userId: number,
+    change: (credential: TwoFactorCredential) => TwoFactorCredentialChange<T>
+  ): Promise<T | null> {
+    const db = await this.ready()
+
+    for (let attempt = 0; attempt < MAX_UPDATE_ATTEMPTS; attempt++) {
+      const [row] = await db.query<{ data: string }>(
+        'SELECT data FROM two_factor_credentials WHERE user_id = ?',
+        [userId]
+      )
+      if (!row) {
+        return null
+      }
+
+      const { credential, result } = change(deserializeCredential(row.data))
+      if (!credential) {
+        return result
+      }
+
+      const updated = await db.execute(
+        `UPDATE two_factor_credentials SET data = ?, updated_at = ?
+         WHERE user_id = ? AND data = ?`,
+        [serializeCredential(credential), Date.now(), userId, row.data]
+      )
+      if (updated > 0) {
+        return result
+      }
+    }
+    throw tooManyUpdateConflicts(userId)
+  }
+
+  async delete(userId: number): Promise<void> {
+    const db = await this.ready()
+    await db.execute('DELETE FROM two_factor_credentials WHERE user_id = ?', [userId])
+  }
+
+  /**
+   * Wait for the connection and run migrations once; a failed attempt is
+   * retried on the next call
+   */
+  private ready(): Promise<SqlDatabase> {
+    if (!this.migration) {
+      this.migration = this.database.then(async (db) => {
+        const applied = await applySqlMigrations(db, 'two_factor_migrations', TWO_FACTOR_MIGRATIONS)
+        for (const migration of applied) {
+          logger.info(
+            { version: migration.version, name: migration.name },
+            'Two-factor migration applied'
+          )
+        }
+        return db
+      })
+      this.migration.catch(() => {
+        this.migration = null
+      })
+    }
+    return this.migration
+  }
+}
@@ -0,0 +1,345 @@
+/**
+ * Two-Factor Authentication
+ *
+ * TOTP enrollment and verification for the BFF login flow. A user enrolls by
+ * scanning a QR code and confirming a first code, which turns two-factor on
+ * and issues recovery codes. At login, a correct password only creates a
+ * pending session (see SessionManager); a TOTP or recovery code completes
+ * it. Too many wrong codes lock the user's code checks for a while.
+ */
+
+import { clientConfig } from '@/lib/config/public/config'
+import {
+  storageConfig,
+  isRedisStorageEnabled,
+  isDatabaseStorageEnabled,
+} from '@/lib/config/storage'
+import { createLogger } from '@/lib/config/logging'
+import { type Result, ok, err } from '@/lib/common/result'
+import {
+  InvalidTwoFactorCodeError,
+  TooManyLoginAttemptsError,
+  TwoFactorSetupError,
+} from '@/lib/exceptions'
+import { createRedisClient } from '@/lib/session/redis-storage'
+import { openSqlDatabase } from '@/lib/session/sql-database'
+import {
+  MemoryTwoFactorStore,
+  RedisTwoFactorStore,
+  SqlTwoFactorStore,
+  type ITwoFactorStore,
+  type TwoFactorCredential,
+} from './credential-store'
+import { buildOtpAuthUri, generateTotpSecret, verifyTotp } from './totp'
+import { generateRecoveryCodes, hashRecoveryCode } from './recovery-codes'
+
+const logger = createLogger('TwoFactorService')
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export interface TwoFactorServiceOptions {
+  /** Credential storage (default: chosen by SESSION_STORAGE) */
+  store?: ITwoFactorStore
+  /** Current time in epoch milliseconds; tests pass a fixed clock */
+  now?: () => number
+  /** Wrong codes in a row before the user is locked out (default: 5) */
+  maxFailedAttempts?: number
+  /** How long a lockout lasts (default: 15 minutes) */
+  lockoutMs?: number
+}
+
+export const DEFAULT_MAX_FAILED_ATTEMPTS = 5
+export const DEFAULT_LOCKOUT_MS = 15 * 60 * 1000
+
+export interface TwoFactorStatus {
+  enabled: boolean
+  recoveryCodesRemaining: number
+}
+
+export interface TwoFactorEnrollment {
+  secret: string
+  otpauthUri: string
+}
+
+export interface TwoFactorVerification {
+  usedRecoveryCode: boolean
+  recoveryCodesRemaining: number
+}
+
+/**
+ * All possible errors of checking a code
+ */
+export type TwoFactorVerifyError =
+  | InvalidTwoFactorCodeError
+  | TooManyLoginAttemptsError
+  | TwoFactorSetupError
+
+// ============================================================================
+// STORE SELECTION
+// ============================================================================
+
+function createTwoFactorStore(): ITwoFactorStore {
+  if (isRedisStorageEnabled()) {
+    logger.info({}, 'Using Redis two-factor storage')
+    return new RedisTwoFactorStore(createRedisClient(storageConfig.redisUrl!))
+  }
+  if (isDatabaseStorageEnabled()) {
+    logger.info({}, 'Using database two-factor storage')
+    return new SqlTwoFactorStore(openSqlDatabase(storageConfig.databaseUrl!))
+  }
+
+  logger.info({}, 'Using in-memory two-factor storage (enrollments are lost on restart)')
+  return new MemoryTwoFactorStore()
+}
+
+// ============================================================================
+// SERVICE
+// ============================================================================
+
+export class TwoFactorService {
+  private readonly store: ITwoFactorStore
+  private readonly now: () => number
+  private readonly maxFailedAttempts: number
+  private readonly lockoutMs: number
+
+  constructor(options: TwoFactorServiceOptions = {}) {
+    this.store = options.store ?? createTwoFactorStore()
+    this.now = options.now ?? Date.now
+    this.maxFailedAttempts = options.maxFailedAttempts ?? DEFAULT_MAX_FAILED_ATTEMPTS
+    this.lockoutMs = options.lockoutMs ?? DEFAULT_LOCKOUT_MS
+  }
+
+  /**
+   * Prepare the storage backend
+   * Call once on server startup so setup errors surface before the first request.
+   */
+  async initialize(): Promise<void> {
+    await this.store.initialize?.()
+  }
+
+  async getStatus(userId: number): Promise<TwoFactorStatus> {
+    const credential = await this.store.get(userId)
+
+    if (!credential?.enabled) {
+      return { enabled: false, recoveryCodesRemaining: 0 }
+    }
+    return { enabled: true, recoveryCodesRemaining: credential.recoveryCodeHashes.length }
+  }
+
+  /**
+   * Whether signing in requires a code
+   */
+  async isEnabled(userId: number): Promise<boolean> {
+    const credential = await this.store.get(userId)
+    return credential?.enabled ?? false
+  }
+
+  /**
+   * Start enrollment with a new secret
+   * Replaces an unconfirmed enrollment; two-factor stays off until
+   * confirmEnrollment succeeds.
+   *
+   * @param accountName - Shown in the authenticator app (the user's email)
+   */
+  async beginEnrollment(
+    userId: number,
+    accountName: string
+  ): Promise<Result<TwoFactorEnrollment, TwoFactorSetupError>> {
+    const existing = await this.store.get(userId)
+    if (existing?.enabled) {
+      return err(new TwoFactorSetupError('Two-factor authentication is already enabled'))
+    }
+
+    const secret = generateTotpSecret()
+    await this.store.save({
+      userId,
+      secret,
+      enabled: false,
+      recoveryCodeHashes: [],
+      lastUsedStep: null,
+      failedAttempts: existing?.failedAttempts ?? 0,
+      lockedUntil: existing?.lockedUntil ?? null,
+      createdAt: new Date(this.now()),
+      enabledAt: null,
+    })
+
+    logger.info({ userId }, 'Two-factor enrollment started')
+    return ok({
+      secret,
+      otpauthUri: buildOtpAuthUri({ secret, accountName, issuer: clientConfig.appName }),
+    })
+  }
+
+  /**
+   * Turn two-factor on with a first code from the authenticator app
+   *
+   * @returns Result with the recovery codes (shown once, stored hashed)
+   */
+  async confirmEnrollment(
+    userId: number,
+    code: string
+  ): Promise<Result<{ recoveryCodes: string[] }, TwoFactorVerifyError>> {
+    const recoveryCodes = generateRecoveryCodes()
+
+    const confirmed = await this.store.update<
+      Result<{ usedRecoveryCode: boolean }, TwoFactorVerifyError>
+    >(userId, (credential) => {
+      if (credential.enabled) {
+        return {
+          credential: null,
+          result: err(new TwoFactorSetupError('Two-factor authentication is already enabled')),
+        }
+      }
+
+      const check = this.checkCode(credential, code, { allowRecoveryCode: false })
+      if (check.result.ok) {
+        credential.enabled = true
+        credential.enabledAt = new Date(this.now())
+        credential.recoveryCodeHashes = recoveryCodes.map(hashRecoveryCode)
+      }
+      return { credential: check.saveCredential ? credential : null, result: check.result }
+    })
+
+    if (!confirmed) {
+      return err(new TwoFactorSetupError('Two-factor setup has not been started'))
+    }
+    if (!confirmed.ok) {
+      this.logFailedCheck(userId, confirmed.error)
+      return confirmed
+    }
+
+    logger.info({ userId }, 'Two-factor authentication enabled')
+    return ok({ recoveryCodes })
+  }
+
+  /**
+   * Check a TOTP or recovery code of a user with two-factor enabled
+   * Each TOTP code and each recovery code is accepted once.
+   */
+  async verify(
+    userId: number,
+    code: string
+  ): Promise<Result<TwoFactorVerification, TwoFactorVerifyError>> {
+    const notEnabled = () =>
+      err(new TwoFactorSetupError('Two-factor authentication is not enabled'))
+
+    const verified = await this.store.update<Result<TwoFactorVerification, TwoFactorVerifyError>>(
+      userId,
+      (credential) => {
+        if (!credential.enabled) {
+          return { credential: null, result: notEnabled() }
+        }
+
+        const check = this.checkCode(credential, code, { allowRecoveryCode: true })
+        return {
+          credential: check.saveCredential ? credential : null,
+          result: check.result.ok
+            ? ok({
+                usedRecoveryCode: check.result.value.usedRecoveryCode,
+                recoveryCodesRemaining: credential.recoveryCodeHashes.length,
+              })
+            : check.result,
+        }
+      }
+    )
+
+    if (!verified) {
+      return notEnabled()
+    }
+    if (!verified.ok) {
+      this.logFailedCheck(userId, verified.error)
+    }
+    return verified
+  }
+
+  /**
+   * Turn two-factor off, confirmed with a TOTP or recovery code
+   */
+  async disable(userId: number, code: string): Promise<Result<void, TwoFactorVerifyError>> {
+    const verification = await this.verify(userId, code)
+    if (!verification.ok) {
+      return verification
+    }
+
+    await this.store.delete(userId)
+    logger.info({ userId }, 'Two-factor authentication disabled')
+    return ok(undefined)
+  }
+
+  /**
+   * Check a code and record the outcome (used code, failed attempts, lockout)
+   * on the credential. Runs inside a store update, so concurrent checks count
+   * against the same attempts and can't both use one code.
+   */
+  private checkCode(
+    credential: TwoFactorCredential,
+    code: string,
+    options: { allowRecoveryCode: boolean }
+  ): {
+    result: Result<{ usedRecoveryCode: boolean }, TwoFactorVerifyError>
+    saveCredential: boolean
+  } {
+    const now = this.now()
+
+    if (credential.lockedUntil && credential.lockedUntil.getTime() > now) {
+      const retryAfter = Math.ceil((credential.lockedUntil.getTime() - now) / 1000)
+      return { result: err(new TooManyLoginAttemptsError(retryAfter)), saveCredential: false }
+    }
+
+    let accepted = false
+    let usedRecoveryCode = false
+
+    const step = verifyTotp(credential.secret, code, now)
+    if (step !== null && (credential.lastUsedStep === null || step > credential.lastUsedStep)) {
+      credential.lastUsedStep = step
+      accepted = true
+    } else if (options.allowRecoveryCode) {
+      const index = credential.recoveryCodeHashes.indexOf(hashRecoveryCode(code))
+      if (index !== -1) {
+        credential.recoveryCodeHashes.splice(index, 1)
+        accepted = true
+        usedRecoveryCode = true
+      }
+    }
+
+    if (accepted) {
+      credential.failedAttempts = 0
+      credential.lockedUntil = null
+      return { result: ok({ usedRecoveryCode }), saveCredential: true }
+    }
+
+    credential.failedAttempts += 1
+    if (credential.failedAttempts >= this.maxFailedAttempts) {
+      credential.failedAttempts = 0
+      credential.lockedUntil = new Date(now + this.lockoutMs)
+      return {
+        result: err(new TooManyLoginAttemptsError(Math.ceil(this.lockoutMs / 1000))),
+        saveCredential: true,
+      }
+    }
+
+    return { result: err(new InvalidTwoFactorCodeError()), saveCredential: true }
+  }
+
+  /**
+   * Log a rejected code once the check's update has been saved
+   */
+  private logFailedCheck(userId: number, error: TwoFactorVerifyError): void {
+    if (error instanceof TooManyLoginAttemptsError) {
+      logger.warn({ userId }, 'Two-factor code rejected, locked after repeated wrong codes')
+    } else {
+      logger.debug({ userId }, 'Wrong two-factor code')
+    }
+  }
+}
+
+// ============================================================================
+// SINGLETON INSTANCE
+// ============================================================================
+
+export const twoFactorService = new TwoFactorService()
+
+export type { ITwoFactorStore, TwoFactorCredential } from './credential-store'
+export { MemoryTwoFactorStore } from './credential-store'
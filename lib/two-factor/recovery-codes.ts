@@ -0,0 +1,39 @@
+/**
+ * Recovery Codes
+ *
+ * Single-use codes that stand in for a TOTP code when the user has lost
+ * their authenticator. They are shown once at enrollment; only their SHA-256
+ * hashes are stored.
+ */
+
+import { createHash, randomInt } from 'crypto'
+
+export const RECOVERY_CODE_COUNT = 10
+
+/**
+ * Characters of a recovery code, without look-alikes (0/o, 1/l/i)
+ */
+const RECOVERY_CODE_ALPHABET = 'abcdefghjkmnpqrstuvwxyz23456789'
+const RECOVERY_CODE_GROUP_LENGTH = 5
+
+/**
+ * Generate recovery codes formatted as `xxxxx-xxxxx`
+ */
+export function generateRecoveryCodes(count = RECOVERY_CODE_COUNT): string[] {
+  const randomGroup = () =>
+    Array.from(
+      { length: RECOVERY_CODE_GROUP_LENGTH },
+      () => RECOVERY_CODE_ALPHABET[randomInt(RECOVERY_CODE_ALPHABET.length)]
+    ).join('')
+
+  return Array.from({ length: count }, () => `${randomGroup()}-${randomGroup()}`)
+}
+
+/**
+ * Hash a recovery code for storage or lookup
+ * Case, spaces and dashes are ignored, so codes can be typed loosely.
+ */
+export function hashRecoveryCode(code: string): string {
+  const normalized = code.toLowerCase().replace(/[\s-]/g, '')
+  return createHash('sha256').update(normalized).digest('hex')
+}
@@ -9,7 +9,7 @@
  */
 
 import { NextRequest, NextResponse } from 'next/server'
-import { parseSessionIdFromCookie } from '@/lib/session'
+import { parseSessionIdFromCookie } from '@/lib/session/cookies'
 
 // ============================================================================
 // CONFIGURATION
@@ -24,6 +24,7 @@ const PUBLIC_ROUTES = [
   '/auth/forgot-password',
   '/auth/reset-password',
   '/auth/verify-email',
+  '/auth/not-me',
   '/',
 ]
 
@@ -32,16 +33,29 @@ const PUBLIC_ROUTES = [
  */
 const PUBLIC_API_ROUTES = [
   '/api/auth/login',
+  '/api/auth/login/2fa', // Needs a pending two-factor session, checked by Express
   '/api/auth/signup',
   '/api/auth/verify-email',
   '/api/auth/request-password-reset',
   '/api/auth/reset-password',
+  '/api/auth/password-policy',
+  '/api/auth/not-me', // Authorized by the emailed token
 ]
 
 /**
  * API routes that require authentication
  */
-const PROTECTED_API_ROUTES = ['/api/auth/logout', '/api/auth/me', '/api/graphql']
+const PROTECTED_API_ROUTES = [
+  '/api/auth/account',
+  '/api/auth/activity',
+  '/api/auth/keep-alive',
+  '/api/auth/logout',
+  '/api/auth/me',
+  '/api/auth/resend-verification',
+  '/api/auth/sessions',
+  '/api/auth/two-factor',
+  '/api/graphql',
+]
 
 // ============================================================================
 // ROUTE CHECKERS
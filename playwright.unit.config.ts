@@ -0,0 +1,23 @@
+import { defineConfig } from '@playwright/test'
+
+/**
+ * Playwright Test Configuration for unit tests
+ *
+ * Pure tests of lib/ modules: no browser and no dev server needed.
+ * Run with `npm run test:unit`; the browser tests use playwright.config.ts.
+ */
+export default defineConfig({
+  testDir: './tests/unit',
+
+  /* Run tests in files in parallel */
+  fullyParallel: true,
+
+  /* Fail the build on CI if you accidentally left test.only in the source code. */
+  forbidOnly: !!process.env.CI,
+
+  /* Opt out of parallel tests on CI. */
+  workers: process.env.CI ? 1 : undefined,
+
+  /* Reporter to use. See https://playwright.dev/docs/test-reporters */
+  reporter: process.env.CI ? 'list' : 'html',
+})
@@ -9,7 +9,14 @@ import express, { Express, Request, Response } from 'express'
 import next from 'next'
 import { validateTenantOnStartup } from './lib/startup/tenant-validation'
 import { initializeLogging, createServerLogger } from './lib/config/logging'
+import { config } from './lib/config'
+import { sessionManager } from './lib/session'
+import { twoFactorService } from './lib/two-factor'
+import { authAuditLog } from './lib/auth-audit'
+import { passwordResetLinkService } from './lib/password-reset'
+import { newDeviceAlertService } from './lib/new-device'
 import sessionMiddleware from './server/middleware/session'
+import csrfMiddleware from './server/middleware/csrf'
 import httpLoggingMiddleware from './server/middleware/http-logging'
 import authRoutes from './server/routes/auth'
 import graphqlRoutes from './server/routes/graphql'
@@ -25,6 +32,26 @@ const dev = process.env.NODE_ENV !== 'production'
 const nextApp = next({ dev })
 const handle = nextApp.getRequestHandler()
 
+/**
+ * Run a service's startup step, exiting if it fails
+ * A server that can't reach its storage would fail every request instead.
+ */
+async function initializeOrExit(name: string, initialize: () => Promise<void>): Promise<void> {
+  const label = name.charAt(0).toUpperCase() + name.slice(1)
+
+  logger.info(`🗄️ Initializing ${name}...`)
+  try {
+    await initialize()
+  } catch (error) {
+    logger.error(
+      { error: error instanceof Error ? error.message : String(error) },
+      `❌ ${label} initialization failed`
+    )
+    process.exit(1)
+  }
+  logger.info(`✅ ${label} ready`)
+}
+
 /**
  * Main bootstrap function
  */
@@ -36,6 +63,9 @@ async function bootstrap() {
 
     const server: Express = express()
 
+    // Client IPs (rate limits, new device checks, audit log) from X-Forwarded-For
+    server.set('trust proxy', config.trustProxy)
+
     // Middleware
     server.use(express.json())
     server.use(express.urlencoded({ extended: true }))
@@ -65,6 +95,18 @@ async function bootstrap() {
       '✅ Tenant validation successful'
     )
 
+    // ====================================================================
+    // STORAGE
+    // ====================================================================
+
+    await initializeOrExit('session storage', () => sessionManager.initialize())
+    await initializeOrExit('two-factor storage', () => twoFactorService.initialize())
+    await initializeOrExit('auth audit log', () => authAuditLog.initialize())
+    await initializeOrExit('new device storage', () => newDeviceAlertService.initialize())
+    await initializeOrExit('password reset link storage', () =>
+      passwordResetLinkService.initialize()
+    )
+
     // ====================================================================
     // MIDDLEWARE
     // ====================================================================
@@ -79,6 +121,9 @@ async function bootstrap() {
     // Session validation middleware
     server.use(sessionMiddleware)
 
+    // CSRF protection for state-changing API requests (needs the session)
+    server.use('/api', csrfMiddleware)
+
     // ====================================================================
     // API ROUTES
     // ====================================================================
@@ -0,0 +1,111 @@
+/**
+ * Express CSRF Middleware
+ *
+ * Guards state-changing API requests, which are authenticated by the
+ * session cookie alone:
+ *  - The Origin (or, without one, Referer) header must be the app's own
+ *    origin or a trusted one (CSRF_TRUSTED_ORIGINS). This also covers
+ *    requests without a session, such as login.
+ *  - Requests of a session must send its CSRF token in the X-CSRF-Token
+ *    header (synchronizer token, see lib/common/csrf.ts).
+ *
+ * Runs after the session middleware, which sets `req.csrfToken`.
+ */
+
+import { timingSafeEqual } from 'crypto'
+import { Request, Response, NextFunction } from 'express'
+import { config } from '@/lib/config'
+import { CSRF_HEADER_NAME } from '@/lib/common/csrf'
+import {
+  HttpStatusCode,
+  CrossOriginRequestError,
+  InvalidCsrfTokenError,
+  type AuthorizationError,
+} from '@/lib/exceptions'
+import { createLogger } from '@/lib/config/logging'
+
+const logger = createLogger('CsrfMiddleware')
+
+const SAFE_METHODS = new Set(['GET', 'HEAD', 'OPTIONS'])
+
+/**
+ * Origin of the page that sent the request, if the browser told us
+ */
+function getRequestOrigin(req: Request): string | null {
+  const origin = req.get('origin')
+  if (origin) {
+    return origin
+  }
+
+  const referer = req.get('referer')
+  if (referer) {
+    try {
+      return new URL(referer).origin
+    } catch {
+      return 'null'
+    }
+  }
+
+  return null
+}
+
+function isAllowedOrigin(origin: string, req: Request): boolean {
+  let url: URL
+  try {
+    url = new URL(origin)
+  } catch {
+    // Includes the opaque "null" origin of sandboxed frames and file: pages
+    return false
+  }
+
+  if (config.csrfTrustedOrigins.includes(url.origin)) {
+    return true
+  }
+
+  // Same host as the request; the scheme may differ behind a TLS-terminating proxy
+  const host = req.get('x-forwarded-host') ?? req.get('host')
+  return url.host === host
+}
+
+function tokensMatch(sent: string, expected: string): boolean {
+  const sentBuffer = Buffer.from(sent)
+  const expectedBuffer = Buffer.from(expected)
+  return sentBuffer.length === expectedBuffer.length && timingSafeEqual(sentBuffer, expectedBuffer)
+}
+
+function reject(res: Response, error: AuthorizationError) {
+  return res.status(HttpStatusCode.FORBIDDEN).json({
+    success: false,
+    error: error.message,
+    code: error.code,
+  })
+}
+
+/**
+ * Express middleware to reject cross-site state-changing requests
+ */
+export function csrfMiddleware(req: Request, res: Response, next: NextFunction) {
+  if (SAFE_METHODS.has(req.method)) {
+    return next()
+  }
+
+  const origin = getRequestOrigin(req)
+  if (origin && !isAllowedOrigin(origin, req)) {
+    logger.warn({ origin, path: req.path }, 'Cross-origin request rejected')
+    return reject(res, new CrossOriginRequestError(origin))
+  }
+
+  // Set by the session middleware for full and pending two-factor sessions
+  const expected: string | undefined = (req as any).csrfToken
+  if (expected) {
+    const sent = req.get(CSRF_HEADER_NAME)
+    if (!sent || !tokensMatch(sent, expected)) {
+      logger.warn({ path: req.path, tokenSent: !!sent }, 'CSRF token check failed')
+      return reject(res, new InvalidCsrfTokenError())
+    }
+  }
+
+  return next()
+}
+
+export default csrfMiddleware
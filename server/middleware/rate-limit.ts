@@ -0,0 +1,99 @@
+/**
+ * Express Rate Limit Middleware
+ *
+ * Throttles a route per client IP and, when the JSON body has one, per
+ * email, and optionally per session. Limited requests get 429 with a
+ * Retry-After header and the auth routes' error body, and never reach the
+ * route handler.
+ */
+
+import { Request, Response, NextFunction, RequestHandler } from 'express'
+import {
+  rateLimiter as defaultRateLimiter,
+  type RateLimiter,
+  type RateLimitRule,
+} from '@/lib/rate-limit'
+import { getSessionHandle } from '@/lib/session'
+import { HttpStatusCode, type RateLimitError } from '@/lib/exceptions'
+import { createLogger } from '@/lib/config/logging'
+
+const logger = createLogger('RateLimitMiddleware')
+
+export interface RateLimitOptions {
+  /** Counter namespace, e.g. the route name */
+  name: string
+  /** Limit per client IP */
+  perIp: RateLimitRule
+  /** Limit per email in the request body (not applied without one) */
+  perEmail?: RateLimitRule
+  /**
+   * Limit per session, signed in or waiting for a two-factor code (not
+   * applied without one). Runs after the session middleware.
+   */
+  perSession?: RateLimitRule
+  /** Error for a limited request, given the seconds until it is allowed */
+  createError: (retryAfterSeconds: number) => RateLimitError
+  /** Defaults to the shared limiter */
+  limiter?: RateLimiter
+}
+
+/**
+ * Key sessions by their handle so session IDs never land in the store
+ */
+function getSessionKey(req: Request): string | null {
+  const sessionId: string | undefined = (req as any).sessionId ?? (req as any).pendingSessionId
+  return sessionId ? getSessionHandle(sessionId) : null
+}
+
+function getEmail(body: unknown): string | null {
+  const email = (body as { email?: unknown } | undefined)?.email
+  return typeof email === 'string' && email.trim() ? email.trim().toLowerCase() : null
+}
+
+/**
+ * Create a rate limit middleware for one route
+ */
+export function rateLimit(options: RateLimitOptions): RequestHandler {
+  const limiter = options.limiter ?? defaultRateLimiter
+
+  return async (req: Request, res: Response, next: NextFunction) => {
+    if (!limiter.enabled) {
+      return next()
+    }
+
+    try {
+      const hits = [{ key: `${options.name}:ip:${req.ip ?? 'unknown'}`, rule: options.perIp }]
+      const email = getEmail(req.body)
+      if (options.perEmail && email) {
+        hits.push({ key: `${options.name}:email:${email}`, rule: options.perEmail })
+      }
+      const sessionKey = getSessionKey(req)
+      if (options.perSession && sessionKey) {
+        hits.push({ key: `${options.name}:session:${sessionKey}`, rule: options.perSession })
+      }
+
+      const result = await limiter.hitAll(hits)
+      if (result.allowed) {
+        return next()
+      }
+
+      const retryAfter = Math.max(Math.ceil(result.retryAfterMs / 1000), 1)
+      const error = options.createError(retryAfter)
+      logger.warn({ route: options.name, ip: req.ip, retryAfter }, 'Request rate limited')
+
+      res.setHeader('Retry-After', String(retryAfter))
+      return res.status(HttpStatusCode.TOO_MANY_REQUESTS).json({
+        success: false,
+        error: error.message,
+        code: error.code,
+      })
+    } catch (error) {
+      // Don't lock everyone out when the store is down; the backend still throttles
+      const message = error instanceof Error ? error.message : 'Unknown error'
+      logger.error({ route: options.name, error: message }, 'Rate limit check failed')
+      return next()
+    }
+  }
+}
+
+export default rateLimit
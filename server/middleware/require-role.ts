@@ -0,0 +1,66 @@
+/**
+ * Express Role Middleware
+ *
+ * Lets a request through only when its session has the required role (or a
+ * higher one, see lib/common/roles.ts). Requests without a session get 401,
+ * sessions without the role get 403 with InsufficientRoleError, in the auth
+ * routes' error body unless the route formats errors itself.
+ *
+ * Runs after the session middleware, which sets `req.userRoles`.
+ */
+
+import { Request, Response, NextFunction, RequestHandler } from 'express'
+import { hasRole, type UserRole } from '@/lib/common/roles'
+import {
+  HttpStatusCode,
+  InsufficientRoleError,
+  SessionNotFoundError,
+  type ServiceException,
+} from '@/lib/exceptions'
+import { createLogger } from '@/lib/config/logging'
+
+const logger = createLogger('RequireRoleMiddleware')
+
+export interface RequireRoleOptions {
+  /** Only check requests this returns true for (default: all) */
+  when?: (req: Request) => boolean
+  /** Send the 401/403 response (default: `{ success: false, error, code }`) */
+  sendError?: (res: Response, statusCode: number, error: ServiceException) => void
+}
+
+function sendAuthError(res: Response, statusCode: number, error: ServiceException) {
+  res.status(statusCode).json({
+    success: false,
+    error: error.message,
+    code: error.code,
+  })
+}
+
+/**
+ * Create a middleware requiring a role
+ */
+export function requireRole(role: UserRole, options: RequireRoleOptions = {}): RequestHandler {
+  const sendError = options.sendError ?? sendAuthError
+
+  return (req: Request, res: Response, next: NextFunction) => {
+    if (options.when && !options.when(req)) {
+      return next()
+    }
+
+    // Set by the session middleware for full sessions only
+    const roles: UserRole[] | undefined = (req as any).userRoles
+    if (!(req as any).sessionId || !roles) {
+      logger.warn({ path: req.path, requiredRole: role }, 'Role required without session')
+      return sendError(res, HttpStatusCode.UNAUTHORIZED, new SessionNotFoundError())
+    }
+
+    if (!hasRole(roles, role)) {
+      logger.warn({ path: req.path, requiredRole: role, roles }, 'Insufficient role')
+      return sendError(res, HttpStatusCode.FORBIDDEN, new InsufficientRoleError(role))
+    }
+
+    return next()
+  }
+}
+
+export default requireRole
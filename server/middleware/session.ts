@@ -1,11 +1,21 @@
 /**
  * Express Session Middleware
  * 
- * Handles session validation and injects session ID into request
+ * Handles session validation and injects session ID into request.
+ * Slides the session cookie expiry on every request of a valid session.
+ * Sessions waiting for a two-factor code are exposed as `req.pendingSessionId`
+ * instead of `req.sessionId`. Either way the session's CSRF token is
+ * `req.csrfToken` (checked by the CSRF middleware). Full sessions also set
+ * `req.userRoles` (checked by requireRole).
  */
 
 import { Request, Response, NextFunction } from 'express'
-import { sessionManager } from '@/lib/session'
+import {
+  sessionManager,
+  createSessionCookie,
+  createCsrfCookie,
+  formatSetCookieHeader,
+} from '@/lib/session'
 import { createLogger } from '@/lib/config/logging'
 
 const logger = createLogger('SessionMiddleware')
@@ -31,7 +41,7 @@ function parseSessionIdFromCookie(cookieHeader: string | undefined): string | nu
 /**
  * Express middleware to validate and inject session
  */
-export async function sessionMiddleware(req: Request, _res: Response, next: NextFunction) {
+export async function sessionMiddleware(req: Request, res: Response, next: NextFunction) {
   try {
     // Parse session ID from cookies
     const cookieHeader = req.headers.cookie
@@ -46,14 +56,34 @@ export async function sessionMiddleware(req: Request, _res: Response, next: Next
     const result = await sessionManager.validateSession(sessionId)
 
     if (!result.valid) {
+      if (result.twoFactorPending) {
+        // Password checked but no code yet: only the two-factor login route
+        // may use this session, every other route sees no session
+        Object.assign(req, { pendingSessionId: sessionId, csrfToken: result.session?.csrfToken })
+        logger.debug({ sessionId }, 'Pending two-factor session')
+        return next()
+      }
+
       logger.debug({ sessionId }, 'Session validation failed')
       return next()
     }
 
     // Inject session ID into request for use by route handlers
-    (req as any).sessionId = sessionId
+    Object.assign(req, {
+      sessionId,
+      csrfToken: result.session?.csrfToken,
+      userRoles: result.session?.roles,
+    })
     logger.debug({ sessionId }, 'Session validated and injected')
 
+    // Slide the cookie expiries (static assets are skipped so they stay cacheable)
+    if (!req.path.startsWith('/_next/') && result.session) {
+      res.append('Set-Cookie', [
+        formatSetCookieHeader(createSessionCookie(sessionId)),
+        formatSetCookieHeader(createCsrfCookie(result.session.csrfToken)),
+      ])
+    }
+
     return next()
   } catch (error) {
     const message = error instanceof Error ? error.message : 'Unknown error'
@@ -0,0 +1,91 @@
+/**
+ * Express Account Routes
+ *
+ * Lets users download everything the app stores about them
+ */
+
+import { Router, Request, Response } from 'express'
+import { sessionManager } from '@/lib/session'
+import {
+  collectAccountData,
+  createAccountExportZip,
+  createBackendAccountDataSource,
+  getAccountExportFileName,
+} from '@/lib/account-export'
+import { createLogger } from '@/lib/config/logging'
+import { HttpStatusCode } from '@/lib/exceptions'
+import type { ErrorResponseBody } from './shared'
+
+const logger = createLogger('AccountRoutes')
+const router = Router()
+
+// ============================================================================
+// GET /api/auth/account/export
+// ============================================================================
+
+router.get('/account/export', async (req: Request, res: Response) => {
+  try {
+    // Get session ID from custom header (added by middleware)
+    const sessionId = (req as any).sessionId
+
+    if (!sessionId) {
+      logger.warn({}, 'Account export attempted without session')
+      return res.status(HttpStatusCode.UNAUTHORIZED).json({
+        success: false,
+        error: 'Unauthorized',
+      } as ErrorResponseBody)
+    }
+
+    const session = await sessionManager.getSession(sessionId)
+
+    if (!session) {
+      logger.warn({ sessionId }, 'Session not found')
+      return res.status(HttpStatusCode.UNAUTHORIZED).json({
+        success: false,
+        error: 'Session not found',
+      } as ErrorResponseBody)
+    }
+
+    const exportedAt = new Date()
+    const dataResult = await collectAccountData(createBackendAccountDataSource(session.userToken), {
+      now: exportedAt,
+    })
+
+    if (!dataResult.ok) {
+      logger.warn(
+        { userId: session.userId, error: dataResult.error.message },
+        'Account export failed'
+      )
+      return res.status(HttpStatusCode.BAD_GATEWAY).json({
+        success: false,
+        error: 'Your data could not be gathered right now. Please try again later',
+      } as ErrorResponseBody)
+    }
+
+    const zip = createAccountExportZip(dataResult.value, exportedAt)
+
+    logger.info(
+      {
+        userId: session.userId,
+        recipes: dataResult.value.recipes.length,
+        mealPlanEntries: dataResult.value.mealPlan.length,
+      },
+      'Account data exported'
+    )
+    res.setHeader('Content-Type', 'application/zip')
+    res.setHeader(
+      'Content-Disposition',
+      `attachment; filename="${getAccountExportFileName(exportedAt)}"`
+    )
+    res.setHeader('Cache-Control', 'no-store')
+    return res.status(HttpStatusCode.OK).send(zip)
+  } catch (error: any) {
+    logger.error({ error }, 'Account export endpoint error')
+    return res.status(HttpStatusCode.INTERNAL_SERVER_ERROR).json({
+      success: false,
+      error: 'An unexpected error occurred. Please try again',
+    } as ErrorResponseBody)
+  }
+})
+
+export default router
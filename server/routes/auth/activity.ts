@@ -0,0 +1,107 @@
+/**
+ * Express Security Activity Routes
+ *
+ * Lists the user's recent auth audit events (sign-ins, sign-outs, password
+ * resets and session revocations)
+ */
+
+import { Router, Request, Response } from 'express'
+import { sessionManager } from '@/lib/session'
+import {
+  authAuditLog,
+  type AuthAuditEvent,
+  type AuthAuditEventType,
+  type AuthAuditLoginFailureReason,
+  type AuthAuditSignInMethod,
+} from '@/lib/auth-audit'
+import { createLogger } from '@/lib/config/logging'
+import { HttpStatusCode } from '@/lib/exceptions'
+import type { ErrorResponseBody } from './shared'
+
+const logger = createLogger('ActivityRoutes')
+const router = Router()
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+interface ActivityEventSummary {
+  id: string
+  type: AuthAuditEventType
+  occurredAt: string // ISO 8601
+  ipAddress: string | null
+  userAgent: string | null
+  method?: AuthAuditSignInMethod // login_succeeded
+  reason?: AuthAuditLoginFailureReason // login_failed
+  revokedCount?: number // session_revoked
+}
+
+interface ListActivityResponseBody {
+  success: true
+  events: ActivityEventSummary[]
+}
+
+// ============================================================================
+// HELPERS
+// ============================================================================
+
+function toActivityEventSummary(event: AuthAuditEvent): ActivityEventSummary {
+  return {
+    id: event.id,
+    type: event.type,
+    occurredAt: event.occurredAt.toISOString(),
+    ipAddress: event.ipAddress,
+    userAgent: event.userAgent,
+    ...(event.type === 'login_succeeded' && { method: event.method }),
+    ...(event.type === 'login_failed' && { reason: event.reason }),
+    ...(event.type === 'session_revoked' && { revokedCount: event.revokedCount }),
+  }
+}
+
+// ============================================================================
+// GET /api/auth/activity
+// ============================================================================
+
+router.get('/activity', async (req: Request, res: Response) => {
+  try {
+    // Get session ID from custom header (added by middleware)
+    const sessionId = (req as any).sessionId
+
+    if (!sessionId) {
+      logger.warn({}, 'Activity endpoint called without session')
+      return res.status(HttpStatusCode.UNAUTHORIZED).json({
+        success: false,
+        error: 'Unauthorized',
+      } as ErrorResponseBody)
+    }
+
+    const session = await sessionManager.getSession(sessionId)
+
+    if (!session) {
+      logger.warn({ sessionId }, 'Session not found')
+      return res.status(HttpStatusCode.UNAUTHORIZED).json({
+        success: false,
+        error: 'Session not found',
+      } as ErrorResponseBody)
+    }
+
+    const limit = Number(req.query.limit) || undefined
+    const events = await authAuditLog.listForSubject(
+      { userId: session.userId, email: session.email },
+      limit
+    )
+
+    return res.status(HttpStatusCode.OK).json({
+      success: true,
+      events: events.map(toActivityEventSummary),
+    } as ListActivityResponseBody)
+  } catch (error: any) {
+    logger.error({ error }, 'Activity endpoint error')
+    return res.status(HttpStatusCode.INTERNAL_SERVER_ERROR).json({
+      success: false,
+      error: 'An unexpected error occurred',
+    } as ErrorResponseBody)
+  }
+})
+
+export default router
@@ -3,16 +3,41 @@
  *
  * Handles user login, logout, and session management
  * Uses Result-based auth client with typed exception handling
+ *
+ * Feature routes live next to this file and are mounted at the bottom:
+ * - sessions.ts: keep-alive, active sessions and signing out other devices
+ * - two-factor.ts: two-factor login and TOTP setup
+ * - account.ts: account data export
+ * - activity.ts: recent security activity from the auth audit log
+ * - new-device.ts: the "this wasn't me" link of new device sign-in emails
  */
 
 import { Router, Request, Response } from 'express'
 import { authClient } from '@/lib/backend/auth-client'
 import api from '@/lib/backend/generated/api-client'
-import { sessionManager, createSessionCookie, formatSetCookieHeader } from '@/lib/session'
+import {
+  sessionManager,
+  createSessionCookie,
+  createCsrfCookie,
+  createCsrfLogoutCookie,
+  formatSetCookieHeader,
+  getSessionHandle,
+  getSessionExpiresAt,
+  TWO_FACTOR_PENDING_TTL_MS,
+} from '@/lib/session'
+import { twoFactorService } from '@/lib/two-factor'
+import { authAuditLog } from '@/lib/auth-audit'
+import { passwordResetLinkService } from '@/lib/password-reset'
+import { rateLimit } from '../../middleware/rate-limit'
 import { createLogger } from '@/lib/config/logging'
 import { config } from '@/lib/config'
 import { HttpStatusCode } from '@/lib/exceptions'
-import type { LoginError, SignupError } from '@/lib/backend/auth-client'
+import type {
+  LoginError,
+  RequestEmailVerificationError,
+  SignupError,
+  VerifyEmailError,
+} from '@/lib/backend/auth-client'
 import {
   InvalidCredentialsError,
   InvalidEmailError,
@@ -20,9 +45,32 @@ import {
   TooManyLoginAttemptsError,
   WeakPasswordError,
   EmailAlreadyExistsError,
+  TokenExpiredError,
+  TokenInvalidError,
+  UserNotFoundError,
+  RateLimitError,
+  TooManyPasswordResetAttemptsError,
+  TooManyVerificationAttemptsError,
 } from '@/lib/exceptions'
+import type { VerificationEmailSendError } from '@/lib/email/email-errors'
 import { emailService } from '@/lib/email'
 import { type Result, ok, err } from '@/lib/common/result'
+import type { UserRole } from '@/lib/common/roles'
+import { PASSWORD_MIN_LENGTH, checkPasswordStrength } from '@/lib/common/password-strength'
+import {
+  MINUTE_MS,
+  getAuditRequestContext,
+  getLoginFailureReason,
+  sendPasswordResetLink,
+  alertIfNewDevice,
+  type ErrorResponseBody,
+  type LoginResponseBody,
+} from './shared'
+import sessionRoutes from './sessions'
+import twoFactorRoutes from './two-factor'
+import accountRoutes from './account'
+import activityRoutes from './activity'
+import newDeviceRoutes from './new-device'
 
 const logger = createLogger('AuthRoutes')
 const router = Router()
@@ -36,16 +84,9 @@ interface LoginRequestBody {
   password: string
 }
 
-interface LoginResponseBody {
+interface TwoFactorRequiredResponseBody {
   success: true
-  user: {
-    id: number
-    email: string
-    firstName: string
-    lastName: string
-    emailVerified: boolean
-  }
-  sessionId: string
+  twoFactorRequired: true
 }
 
 interface SignupRequestBody {
@@ -67,12 +108,6 @@ interface SignupResponseBody {
   message: string
 }
 
-interface ErrorResponseBody {
-  success: false
-  error: string
-  message?: string
-}
-
 interface MeResponseBody {
   success: true
   user: {
@@ -81,9 +116,10 @@ interface MeResponseBody {
     firstName: string
     lastName: string
     emailVerified: boolean
+    roles: UserRole[]
   }
   session: {
-    id: string
+    id: string // Session handle, not the session ID (see getSessionHandle)
     createdAt: string
     expiresAt: string
     lastAccessedAt: string
@@ -114,6 +150,76 @@ interface ResetPasswordResponseBody {
   message: string
 }
 
+interface PasswordPolicyResponseBody {
+  success: true
+  minLength: number
+  minScore: number
+}
+
+interface VerifyEmailRequestBody {
+  token: string
+}
+
+interface VerifyEmailResponseBody {
+  success: true
+  message: string
+}
+
+interface ResendVerificationResponseBody {
+  success: true
+  message: string
+  emailVerified: boolean
+}
+
+// ============================================================================
+// RATE LIMITS
+// ============================================================================
+
+/**
+ * BFF-side throttling ahead of the backend's own limits
+ * Per-IP limits are generous enough for a shared office network; per-email
+ * limits stop guessing at one account from many IPs.
+ */
+const loginRateLimit = rateLimit({
+  name: 'login',
+  perIp: { limit: 30, windowMs: 15 * MINUTE_MS },
+  perEmail: { limit: 10, windowMs: 15 * MINUTE_MS },
+  createError: (retryAfter) => new TooManyLoginAttemptsError(retryAfter),
+})
+
+const signupRateLimit = rateLimit({
+  name: 'signup',
+  perIp: { limit: 10, windowMs: 60 * MINUTE_MS },
+  perEmail: { limit: 3, windowMs: 60 * MINUTE_MS },
+  createError: (retryAfter) =>
+    new RateLimitError(`Too many sign-up attempts. Try again in ${retryAfter} seconds`, retryAfter),
+})
+
+const requestPasswordResetRateLimit = rateLimit({
+  name: 'request-password-reset',
+  perIp: { limit: 10, windowMs: 60 * MINUTE_MS },
+  perEmail: { limit: 3, windowMs: 60 * MINUTE_MS },
+  createError: (retryAfter) => new TooManyPasswordResetAttemptsError(retryAfter),
+})
+
+const resetPasswordRateLimit = rateLimit({
+  name: 'reset-password',
+  perIp: { limit: 10, windowMs: 15 * MINUTE_MS },
+  createError: (retryAfter) => new TooManyPasswordResetAttemptsError(retryAfter),
+})
+
+const verifyEmailRateLimit = rateLimit({
+  name: 'verify-email',
+  perIp: { limit: 10, windowMs: 15 * MINUTE_MS },
+  createError: (retryAfter) => new TooManyVerificationAttemptsError(retryAfter),
+})
+
+const resendVerificationRateLimit = rateLimit({
+  name: 'resend-verification',
+  perIp: { limit: 5, windowMs: 60 * MINUTE_MS },
+  createError: (retryAfter) => new TooManyVerificationAttemptsError(retryAfter),
+})
+
 // ============================================================================
 // REQUEST VALIDATION
 // ============================================================================
@@ -136,6 +242,30 @@ function validateLoginRequest(body: any): { valid: boolean; error?: string } {
   return { valid: true }
 }
 
+/**
+ * Password rules for new passwords (signup and reset)
+ *
+ * @param userInputs - The user's email and name, which make weak passwords
+ */
+function validateNewPassword(
+  password: unknown,
+  userInputs: unknown[] = []
+): Result<string, string> {
+  if (!password || typeof password !== 'string') {
+    return err(`Password must be at least ${PASSWORD_MIN_LENGTH} characters`)
+  }
+
+  const strengthResult = checkPasswordStrength(password, {
+    minScore: config.passwordMinScore,
+    userInputs: userInputs.filter((input): input is string => typeof input === 'string'),
+  })
+  if (!strengthResult.ok) {
+    return strengthResult
+  }
+
+  return ok(password)
+}
+
 function validateSignupRequest(body: any): Result<SignupRequestBody, string> {
   if (!body) {
     return err('Request body is required')
@@ -147,8 +277,9 @@ function validateSignupRequest(body: any): Result<SignupRequestBody, string> {
     return err('Valid email is required')
   }
 
-  if (!password || typeof password !== 'string' || password.length < 8) {
-    return err('Password must be at least 8 characters')
+  const passwordResult = validateNewPassword(password, [email, firstName, lastName])
+  if (!passwordResult.ok) {
+    return passwordResult
   }
 
   if (!firstName || typeof firstName !== 'string' || firstName.trim().length === 0) {
@@ -244,11 +375,76 @@ function handleSignupError(error: SignupError): { statusCode: number; message: s
   }
 }
 
+/**
+ * Maps VerifyEmailError union type to HTTP status code and user message
+ */
+function handleVerifyEmailError(error: VerifyEmailError): { statusCode: number; message: string } {
+  if (error instanceof TokenExpiredError) {
+    return {
+      statusCode: HttpStatusCode.BAD_REQUEST,
+      message: 'Verification link has expired. Please request a new one.',
+    }
+  }
+
+  if (error instanceof TokenInvalidError) {
+    return {
+      statusCode: HttpStatusCode.BAD_REQUEST,
+      message: 'Invalid or already used verification link. Please request a new one.',
+    }
+  }
+
+  if (error instanceof UserNotFoundError) {
+    return {
+      statusCode: HttpStatusCode.NOT_FOUND,
+      message: 'No account was found for this verification link',
+    }
+  }
+
+  // InternalServerErrorException or unknown
+  return {
+    statusCode: HttpStatusCode.INTERNAL_SERVER_ERROR,
+    message: 'An unexpected error occurred. Please try again',
+  }
+}
+
+// ============================================================================
+// EMAIL VERIFICATION
+// ============================================================================
+
+interface VerificationEmailRecipient {
+  id: number
+  email: string
+  firstName: string
+  lastName: string
+}
+
+/**
+ * Generate a verification token and email the verification link to the user
+ */
+async function sendVerificationLink(
+  user: VerificationEmailRecipient
+): Promise<Result<void, RequestEmailVerificationError | VerificationEmailSendError>> {
+  const tokenResult = await authClient.requestEmailVerification({ userId: user.id })
+  if (!tokenResult.ok) {
+    return err(tokenResult.error)
+  }
+
+  const verificationUrl = `${config.transactionBaseEmailUrl}/auth/verify-email?token=${encodeURIComponent(tokenResult.value.token)}`
+
+  return emailService.sendVerificationEmail({
+    email: user.email,
+    firstName: user.firstName,
+    lastName: user.lastName,
+    verificationUrl,
+    expiresInHours: config.verificationTokenExpiryHours,
+  })
+}
+
 // ============================================================================
 // POST /api/auth/login
 // ============================================================================
 
-router.post('/login', async (req: Request, res: Response) => {
+router.post('/login', loginRateLimit, async (req: Request, res: Response) => {
   try {
     // Parse request body
     const body = req.body
@@ -277,6 +473,18 @@ router.post('/login', async (req: Request, res: Response) => {
         { error: loginResult.error.message, errorType: loginResult.error.constructor.name },
         'Backend login failed'
       )
+
+      const reason = getLoginFailureReason(loginResult.error)
+      if (reason) {
+        await authAuditLog.record({
+          type: 'login_failed',
+          reason,
+          userId: null,
+          email,
+          ...getAuditRequestContext(req),
+        })
+      }
+
       return res.status(statusCode).json({
         success: false,
         error: message,
@@ -286,6 +494,37 @@ router.post('/login', async (req: Request, res: Response) => {
     // Success case - extract login data
     const loginResponse = loginResult.value
 
+    // With two-factor on, the password only earns a pending session that
+    // POST /login/2fa exchanges for a full one
+    if (await twoFactorService.isEnabled(loginResponse.user.id)) {
+      const pending = await sessionManager.createSession({
+        userId: loginResponse.user.id,
+        email: loginResponse.user.email,
+        firstName: loginResponse.user.firstName,
+        lastName: loginResponse.user.lastName,
+        emailVerified: loginResponse.user.emailVerified,
+        roles: loginResponse.user.roles,
+        userToken: loginResponse.token,
+        userTokenExpiresAt: new Date(loginResponse.expiresAt),
+        userAgent: req.get('user-agent'),
+        ipAddress: req.ip,
+        twoFactorPending: true,
+      })
+
+      logger.info({ userId: pending.userId }, 'Password accepted, two-factor code required')
+
+      const pendingCookie = createSessionCookie(pending.id, TWO_FACTOR_PENDING_TTL_MS)
+      const csrfCookie = createCsrfCookie(pending.csrfToken, TWO_FACTOR_PENDING_TTL_MS)
+      res.setHeader('Set-Cookie', [
+        formatSetCookieHeader(pendingCookie),
+        formatSetCookieHeader(csrfCookie),
+      ])
+      return res.status(HttpStatusCode.OK).json({
+        success: true,
+        twoFactorRequired: true,
+      } as TwoFactorRequiredResponseBody)
+    }
+
     // Create server-side session with user token
     const session = await sessionManager.createSession({
       userId: loginResponse.user.id,
@@ -293,15 +532,28 @@ router.post('/login', async (req: Request, res: Response) => {
       firstName: loginResponse.user.firstName,
       lastName: loginResponse.user.lastName,
       emailVerified: loginResponse.user.emailVerified,
+      roles: loginResponse.user.roles,
       userToken: loginResponse.token,
       userTokenExpiresAt: new Date(loginResponse.expiresAt),
+      userAgent: req.get('user-agent'),
+      ipAddress: req.ip,
     })
 
     logger.info({ userId: session.userId, sessionId: session.id }, 'Login successful')
+    await authAuditLog.record({
+      type: 'login_succeeded',
+      method: 'password',
+      userId: session.userId,
+      email: session.email,
+      ...getAuditRequestContext(req),
+    })
+    await alertIfNewDevice(session)
 
-    // Create session cookie
-    const sessionCookie = createSessionCookie(session.id)
-    const setCookieHeader = formatSetCookieHeader(sessionCookie)
+    // Create session and CSRF token cookies
+    const setCookieHeaders = [
+      formatSetCookieHeader(createSessionCookie(session.id)),
+      formatSetCookieHeader(createCsrfCookie(session.csrfToken)),
+    ]
 
     // Build response
     const response: LoginResponseBody = {
@@ -312,11 +564,12 @@ router.post('/login', async (req: Request, res: Response) => {
         firstName: loginResponse.user.firstName,
         lastName: loginResponse.user.lastName,
         emailVerified: loginResponse.user.emailVerified,
+        roles: session.roles,
       },
       sessionId: session.id,
     }
 
-    res.setHeader('Set-Cookie', setCookieHeader)
+    res.setHeader('Set-Cookie', setCookieHeaders)
     return res.status(HttpStatusCode.OK).json(response)
   } catch (error: any) {
     logger.error({ error }, 'Login endpoint error')
@@ -332,7 +585,7 @@ router.post('/login', async (req: Request, res: Response) => {
 // POST /api/auth/signup
 // ============================================================================
 
-router.post('/signup', async (req: Request, res: Response) => {
+router.post('/signup', signupRateLimit, async (req: Request, res: Response) => {
   try {
     // Parse request body
     const body = req.body
@@ -373,15 +626,7 @@ router.post('/signup', async (req: Request, res: Response) => {
     logger.info({ userId: signupResponse.user.id }, 'Signup successful')
 
     // Send verification email
-    const verificationUrl = `${config.transactionBaseEmailUrl}/auth/verify?email=${encodeURIComponent(signupResponse.user.email)}`
-
-    const emailResult = await emailService.sendVerificationEmail({
-      email: signupResponse.user.email,
-      firstName: signupResponse.user.firstName,
-      lastName: signupResponse.user.lastName,
-      verificationUrl,
-      expiresInHours: config.verificationTokenExpiryHours,
-    })
+    const emailResult = await sendVerificationLink(signupResponse.user)
 
     if (emailResult.ok) {
       logger.info({ userId: signupResponse.user.id }, 'Verification email sent')
@@ -391,11 +636,11 @@ router.post('/signup', async (req: Request, res: Response) => {
         {
           error: emailResult.error,
           userId: signupResponse.user.id,
-          errorCode: emailResult.error.code,
+          errorType: emailResult.error.constructor.name,
         },
         'Failed to send verification email'
       )
-      // Note: In production, you might want to queue this for retry
+      // The user can request a new link from the dashboard (resend-verification)
     }
 
     // Build response
@@ -461,11 +706,12 @@ router.get('/me', async (req: Request, res: Response) => {
         firstName: session.firstName,
         lastName: session.lastName,
         emailVerified: session.emailVerified,
+        roles: session.roles,
       },
       session: {
-        id: session.id,
+        id: getSessionHandle(session.id),
         createdAt: session.createdAt.toISOString(),
-        expiresAt: session.userTokenExpiresAt.toISOString(),
+        expiresAt: getSessionExpiresAt(session).toISOString(),
         lastAccessedAt: session.lastAccessedAt.toISOString(),
       },
     }
@@ -515,6 +761,15 @@ router.post('/logout', async (req: Request, res: Response) => {
     await sessionManager.deleteSession(sessionId)
     logger.info({ sessionId }, 'Session deleted')
 
+    if (session) {
+      await authAuditLog.record({
+        type: 'logout',
+        userId: session.userId,
+        email: session.email,
+        ...getAuditRequestContext(req),
+      })
+    }
+
     // Create logout cookie (empty value, immediate expiry)
     const sessionCookieOptions = createSessionCookie('')
     const logoutCookie = {
@@ -525,7 +780,10 @@ router.post('/logout', async (req: Request, res: Response) => {
         maxAge: 0,
       },
     }
-    const setCookieHeader = formatSetCookieHeader(logoutCookie)
+    const setCookieHeaders = [
+      formatSetCookieHeader(logoutCookie),
+      formatSetCookieHeader(createCsrfLogoutCookie()),
+    ]
 
     // Build response
     const response: LogoutResponseBody = {
@@ -533,7 +791,7 @@ router.post('/logout', async (req: Request, res: Response) => {
       message: 'Logged out successfully',
     }
 
-    res.setHeader('Set-Cookie', setCookieHeader)
+    res.setHeader('Set-Cookie', setCookieHeaders)
     return res.status(HttpStatusCode.OK).json(response)
   } catch (error: any) {
     logger.error({ error }, 'Logout endpoint error')
@@ -548,7 +806,7 @@ router.post('/logout', async (req: Request, res: Response) => {
 // POST /api/auth/request-password-reset
 // ============================================================================
 
-router.post('/request-password-reset', async (req: Request, res: Response) => {
+router.post('/request-password-reset', requestPasswordResetRateLimit, async (req: Request, res: Response) => {
   try {
     // Parse request body
     const body = req.body as RequestPasswordResetRequestBody
@@ -565,9 +823,17 @@ router.post('/request-password-reset', async (req: Request, res: Response) => {
       } as ErrorResponseBody)
     }
 
-    // Call backend password reset request endpoint
+    // Recorded whether or not an account exists, like the response
+    await authAuditLog.record({
+      type: 'password_reset_requested',
+      userId: null,
+      email,
+      ...getAuditRequestContext(req),
+    })
+
+    // Call backend password reset request endpoint and email the link
     logger.debug({}, 'Calling backend request password reset endpoint')
-    const resetResult = await authClient.requestPasswordReset({ email })
+    const resetResult = await sendPasswordResetLink(email)
 
     // Handle error case
     if (!resetResult.ok) {
@@ -592,36 +858,6 @@ router.post('/request-password-reset', async (req: Request, res: Response) => {
       } as ErrorResponseBody)
     }
 
-    // Success case - send password reset email
-    const resetResponse = resetResult.value
-    const resetUrl = `${config.transactionBaseEmailUrl}/auth/reset-password?token=${encodeURIComponent(resetResponse.token)}`
-
-    try {
-      const emailResult = await emailService.sendPasswordResetEmail({
-        email: resetResponse.email,
-        firstName: resetResponse.firstName,
-        lastName: resetResponse.lastName,
-        resetUrl,
-        expiresInHours: config.verificationTokenExpiryHours,
-      })
-
-      if (emailResult.ok) {
-        logger.info({ email }, 'Password reset email sent')
-      } else {
-        // Don't fail the request if email fails - just log it
-        logger.error(
-          {
-            error: emailResult.error,
-            email,
-            errorCode: emailResult.error.code,
-          },
-          'Failed to send password reset email'
-        )
-      }
-    } catch (emailError) {
-      logger.error({ error: emailError, email }, 'Failed to send password reset email')
-    }
-
     // Always return success (don't leak whether email was sent)
     return res.status(HttpStatusCode.OK).json({
       success: true,
@@ -641,7 +877,7 @@ router.post('/request-password-reset', async (req: Request, res: Response) => {
 // POST /api/auth/reset-password
 // ============================================================================
 
-router.post('/reset-password', async (req: Request, res: Response) => {
+router.post('/reset-password', resetPasswordRateLimit, async (req: Request, res: Response) => {
   try {
     // Parse request body
     const body = req.body as ResetPasswordRequestBody
@@ -658,11 +894,12 @@ router.post('/reset-password', async (req: Request, res: Response) => {
       } as ErrorResponseBody)
     }
 
-    if (!newPassword || typeof newPassword !== 'string' || newPassword.length < 8) {
+    const passwordResult = validateNewPassword(newPassword)
+    if (!passwordResult.ok) {
       logger.warn({}, 'Invalid password for password reset')
       return res.status(HttpStatusCode.BAD_REQUEST).json({
         success: false,
-        error: 'Password must be at least 8 characters',
+        error: passwordResult.error,
       } as ErrorResponseBody)
     }
 
@@ -702,6 +939,12 @@ router.post('/reset-password', async (req: Request, res: Response) => {
 
     // Success case
     logger.info({}, 'Password reset successful')
+    await authAuditLog.record({
+      type: 'password_reset_completed',
+      userId: null,
+      email: await passwordResetLinkService.forget(token),
+      ...getAuditRequestContext(req),
+    })
     return res.status(HttpStatusCode.OK).json({
       success: true,
       message: 'Password reset successfully',
@@ -716,8 +959,168 @@ router.post('/reset-password', async (req: Request, res: Response) => {
   }
 })
 
-export default router
+// ============================================================================
+// GET /api/auth/password-policy
+// ============================================================================
+
+// Lets the password forms show the same verdict the validators will give
+router.get('/password-policy', (_req: Request, res: Response) => {
+  return res.status(HttpStatusCode.OK).json({
+    success: true,
+    minLength: PASSWORD_MIN_LENGTH,
+    minScore: config.passwordMinScore,
+  } as PasswordPolicyResponseBody)
+})
+
+// ============================================================================
+// POST /api/auth/verify-email
+// ============================================================================
+
+router.post('/verify-email', verifyEmailRateLimit, async (req: Request, res: Response) => {
+  try {
+    // Parse request body
+    const body = req.body as VerifyEmailRequestBody
+    const { token } = body
+
+    logger.debug({}, 'Email verification attempt')
+
+    // Validate token
+    if (!token || typeof token !== 'string') {
+      logger.warn({}, 'Invalid token for email verification')
+      return res.status(HttpStatusCode.BAD_REQUEST).json({
+        success: false,
+        error: 'Valid verification token is required',
+      } as ErrorResponseBody)
+    }
+
+    // Call backend verify email endpoint
+    logger.debug({}, 'Calling backend verify email endpoint')
+    const verifyResult = await authClient.verifyEmail({ token })
+
+    // Handle error case
+    if (!verifyResult.ok) {
+      const { statusCode, message } = handleVerifyEmailError(verifyResult.error)
+      logger.warn(
+        { error: verifyResult.error.message, errorType: verifyResult.error.constructor.name },
+        'Email verification failed'
+      )
+      return res.status(statusCode).json({
+        success: false,
+        error: message,
+      } as ErrorResponseBody)
+    }
+
+    // The link may be opened while signed in; keep the session in sync
+    const sessionId = (req as any).sessionId
+    if (sessionId) {
+      await sessionManager.markEmailVerified(sessionId)
+    }
+
+    logger.info({}, 'Email verification successful')
+    return res.status(HttpStatusCode.OK).json({
+      success: true,
+      message: 'Email verified successfully',
+    } as VerifyEmailResponseBody)
+  } catch (error: any) {
+    logger.error({ error }, 'Verify email endpoint error')
+    return res.status(HttpStatusCode.INTERNAL_SERVER_ERROR).json({
+      success: false,
+      error: 'An unexpected error occurred. Please try again',
+      message: error.message,
+    } as ErrorResponseBody)
+  }
+})
+
+// ============================================================================
+// POST /api/auth/resend-verification
+// ============================================================================
 
+router.post('/resend-verification', resendVerificationRateLimit, async (req: Request, res: Response) => {
+  try {
+    // Get session ID from custom header (added by middleware)
+    const sessionId = (req as any).sessionId
 
+    if (!sessionId) {
+      logger.warn({}, 'Resend verification called without session')
+      return res.status(HttpStatusCode.UNAUTHORIZED).json({
+        success: false,
+        error: 'Unauthorized',
+      } as ErrorResponseBody)
+    }
 
+    const session = await sessionManager.getSession(sessionId)
 
+    if (!session) {
+      logger.warn({ sessionId }, 'Session not found')
+      return res.status(HttpStatusCode.UNAUTHORIZED).json({
+        success: false,
+        error: 'Session not found',
+      } as ErrorResponseBody)
+    }
+
+    // The email may have been verified elsewhere since the session was created
+    const statusResult = await authClient.getEmailVerificationStatus(session.email)
+    const alreadyVerified =
+      session.emailVerified || (statusResult.ok && statusResult.value.emailVerified)
+
+    if (alreadyVerified) {
+      if (!session.emailVerified) {
+        await sessionManager.markEmailVerified(sessionId)
+      }
+      logger.info({ userId: session.userId }, 'Resend verification skipped, already verified')
+      return res.status(HttpStatusCode.OK).json({
+        success: true,
+        message: 'Your email address is already verified',
+        emailVerified: true,
+      } as ResendVerificationResponseBody)
+    }
+
+    const emailResult = await sendVerificationLink({
+      id: session.userId,
+      email: session.email,
+      firstName: session.firstName,
+      lastName: session.lastName,
+    })
+
+    if (!emailResult.ok) {
+      logger.error(
+        {
+          error: emailResult.error.message,
+          errorType: emailResult.error.constructor.name,
+          userId: session.userId,
+        },
+        'Failed to resend verification email'
+      )
+      return res.status(HttpStatusCode.INTERNAL_SERVER_ERROR).json({
+        success: false,
+        error: 'Failed to send verification email. Please try again',
+      } as ErrorResponseBody)
+    }
+
+    logger.info({ userId: session.userId }, 'Verification email resent')
+    return res.status(HttpStatusCode.OK).json({
+      success: true,
+      message: `We've sent a new verification link to ${session.email}`,
+      emailVerified: false,
+    } as ResendVerificationResponseBody)
+  } catch (error: any) {
+    logger.error({ error }, 'Resend verification endpoint error')
+    return res.status(HttpStatusCode.INTERNAL_SERVER_ERROR).json({
+      success: false,
+      error: 'An unexpected error occurred. Please try again',
+      message: error.message,
+    } as ErrorResponseBody)
+  }
+})
+
+// ============================================================================
+// FEATURE ROUTES
+// ============================================================================
+
+router.use(sessionRoutes)
+router.use(twoFactorRoutes)
+router.use(accountRoutes)
+router.use(activityRoutes)
+router.use(newDeviceRoutes)
+
+export default router
@@ -0,0 +1,163 @@
+/**
+ * Express New Device Routes
+ *
+ * Handles the "this wasn't me" link of new device sign-in emails: signs the
+ * reported session out and emails a password reset link
+ */
+
+import { Router, Request, Response } from 'express'
+import { sessionManager } from '@/lib/session'
+import { authAuditLog } from '@/lib/auth-audit'
+import { newDeviceAlertService, type NotMeReportError } from '@/lib/new-device'
+import { rateLimit } from '../../middleware/rate-limit'
+import { createLogger } from '@/lib/config/logging'
+import { HttpStatusCode, RateLimitError, TokenExpiredError } from '@/lib/exceptions'
+import { type Result, ok, err } from '@/lib/common/result'
+import {
+  MINUTE_MS,
+  getAuditRequestContext,
+  revokeUserTokens,
+  sendPasswordResetLink,
+  type ErrorResponseBody,
+} from './shared'
+
+const logger = createLogger('NewDeviceRoutes')
+const router = Router()
+
+// ============================================================================
+// REQUEST/RESPONSE TYPES
+// ============================================================================
+
+interface NotMeRequestBody {
+  token: string
+}
+
+interface NotMeResponseBody {
+  success: true
+  message: string
+}
+
+// ============================================================================
+// RATE LIMITS
+// ============================================================================
+
+const notMeRateLimit = rateLimit({
+  name: 'not-me',
+  perIp: { limit: 10, windowMs: 15 * MINUTE_MS },
+  createError: (retryAfter) =>
+    new RateLimitError(`Too many attempts. Try again in ${retryAfter} seconds`, retryAfter),
+})
+
+// ============================================================================
+// REQUEST VALIDATION
+// ============================================================================
+
+function validateNotMeRequest(body: any): Result<NotMeRequestBody, string> {
+  if (!body || !body.token || typeof body.token !== 'string') {
+    return err('Invalid link')
+  }
+
+  return ok({ token: body.token })
+}
+
+// ============================================================================
+// ERROR HANDLING
+// ============================================================================
+
+function handleNotMeError(error: NotMeReportError): {
+  statusCode: number
+  message: string
+} {
+  if (error instanceof TokenExpiredError) {
+    return {
+      statusCode: HttpStatusCode.BAD_REQUEST,
+      message:
+        'This link has expired. Sign the device out under Security settings and change your password',
+    }
+  }
+
+  // TokenInvalidError
+  return {
+    statusCode: HttpStatusCode.BAD_REQUEST,
+    message: 'This link is invalid or has already been used',
+  }
+}
+
+// ============================================================================
+// POST /api/auth/not-me
+// ============================================================================
+
+router.post('/not-me', notMeRateLimit, async (req: Request, res: Response) => {
+  try {
+    const validation = validateNotMeRequest(req.body)
+    if (!validation.ok) {
+      return res.status(HttpStatusCode.BAD_REQUEST).json({
+        success: false,
+        error: validation.error,
+      } as ErrorResponseBody)
+    }
+
+    const reportResult = await newDeviceAlertService.reportNotMe(validation.value.token)
+
+    if (!reportResult.ok) {
+      const { statusCode, message } = handleNotMeError(reportResult.error)
+      logger.warn({ errorType: reportResult.error.constructor.name }, 'Not me link rejected')
+      return res.status(statusCode).json({
+        success: false,
+        error: message,
+      } as ErrorResponseBody)
+    }
+
+    const { userId, email, sessionHandle } = reportResult.value
+
+    // Looked up without touching it; gone already if signed out or expired
+    const session = await sessionManager.findUserSession(userId, sessionHandle)
+    if (session) {
+      await sessionManager.deleteSession(session.id)
+      await revokeUserTokens([session])
+
+      logger.info({ userId }, 'Session reported as not me revoked')
+      await authAuditLog.record({
+        type: 'session_revoked',
+        scope: 'single',
+        revokedCount: 1,
+        userId,
+        email,
+        ...getAuditRequestContext(req),
+      })
+    }
+
+    await authAuditLog.record({
+      type: 'password_reset_requested',
+      userId,
+      email,
+      ...getAuditRequestContext(req),
+    })
+
+    const resetResult = await sendPasswordResetLink(email)
+    if (!resetResult.ok) {
+      logger.warn(
+        { userId, error: resetResult.error.message, errorType: resetResult.error.constructor.name },
+        'Password reset after not me report failed'
+      )
+      return res.status(HttpStatusCode.OK).json({
+        success: true,
+        message:
+          'That device is signed out, but we could not send a password reset link. Please request one from the sign-in page.',
+      } as NotMeResponseBody)
+    }
+
+    return res.status(HttpStatusCode.OK).json({
+      success: true,
+      message: `That device is signed out. We sent a password reset link to ${email}.`,
+    } as NotMeResponseBody)
+  } catch (error: any) {
+    logger.error({ error }, 'Not me endpoint error')
+    return res.status(HttpStatusCode.INTERNAL_SERVER_ERROR).json({
+      success: false,
+      error: 'An unexpected error occurred. Please try again',
+    } as ErrorResponseBody)
+  }
+})
+
+export default router
@@ -0,0 +1,282 @@
+/**
+ * Express Session Management Routes
+ *
+ * Keeps the current session alive, lists the user's active sessions and
+ * signs out other devices
+ */
+
+import { Router, Request, Response } from 'express'
+import {
+  sessionManager,
+  getSessionExpiresAt,
+  getSessionHandle,
+  type SessionData,
+} from '@/lib/session'
+import { createLogger } from '@/lib/config/logging'
+import { HttpStatusCode } from '@/lib/exceptions'
+import { authAuditLog } from '@/lib/auth-audit'
+import { getAuditRequestContext, revokeUserTokens, type ErrorResponseBody } from './shared'
+
+const logger = createLogger('SessionRoutes')
+const router = Router()
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+interface SessionSummary {
+  id: string // Session handle, not the session ID (see getSessionHandle)
+  current: boolean
+  createdAt: string
+  lastAccessedAt: string
+  userAgent: string | null
+  ipAddress: string | null
+}
+
+interface KeepAliveResponseBody {
+  success: true
+  expiresAt: string
+}
+
+interface ListSessionsResponseBody {
+  success: true
+  sessions: SessionSummary[]
+}
+
+interface RevokeSessionResponseBody {
+  success: true
+  message: string
+}
+
+interface RevokeOtherSessionsResponseBody {
+  success: true
+  message: string
+  revokedCount: number
+}
+
+// ============================================================================
+// HELPERS
+// ============================================================================
+
+function toSessionSummary(session: SessionData, currentSessionId: string): SessionSummary {
+  return {
+    id: getSessionHandle(session.id),
+    current: session.id === currentSessionId,
+    createdAt: session.createdAt.toISOString(),
+    lastAccessedAt: session.lastAccessedAt.toISOString(),
+    userAgent: session.userAgent ?? null,
+    ipAddress: session.ipAddress ?? null,
+  }
+}
+
+// ============================================================================
+// POST /api/auth/keep-alive
+// ============================================================================
+
+router.post('/keep-alive', async (req: Request, res: Response) => {
+  try {
+    // Get session ID from custom header (added by middleware)
+    const sessionId = (req as any).sessionId
+
+    if (!sessionId) {
+      logger.warn({}, 'Keep-alive called without session')
+      return res.status(HttpStatusCode.UNAUTHORIZED).json({
+        success: false,
+        error: 'Unauthorized',
+      } as ErrorResponseBody)
+    }
+
+    // Reading the session marks it accessed, which restarts the idle timeout
+    // (the middleware has already slid the cookie)
+    const session = await sessionManager.getSession(sessionId)
+
+    if (!session) {
+      logger.warn({ sessionId }, 'Session not found')
+      return res.status(HttpStatusCode.UNAUTHORIZED).json({
+        success: false,
+        error: 'Session not found',
+      } as ErrorResponseBody)
+    }
+
+    logger.debug({ sessionId }, 'Session kept alive')
+    return res.status(HttpStatusCode.OK).json({
+      success: true,
+      expiresAt: getSessionExpiresAt(session).toISOString(),
+    } as KeepAliveResponseBody)
+  } catch (error: any) {
+    logger.error({ error }, 'Keep-alive endpoint error')
+    return res.status(HttpStatusCode.INTERNAL_SERVER_ERROR).json({
+      success: false,
+      error: 'An unexpected error occurred',
+    } as ErrorResponseBody)
+  }
+})
+
+// ============================================================================
+// GET /api/auth/sessions
+// ============================================================================
+
+router.get('/sessions', async (req: Request, res: Response) => {
+  try {
+    // Get session ID from custom header (added by middleware)
+    const sessionId = (req as any).sessionId
+
+    if (!sessionId) {
+      logger.warn({}, 'Sessions endpoint called without session')
+      return res.status(HttpStatusCode.UNAUTHORIZED).json({
+        success: false,
+        error: 'Unauthorized',
+      } as ErrorResponseBody)
+    }
+
+    const session = await sessionManager.getSession(sessionId)
+
+    if (!session) {
+      logger.warn({ sessionId }, 'Session not found')
+      return res.status(HttpStatusCode.UNAUTHORIZED).json({
+        success: false,
+        error: 'Session not found',
+      } as ErrorResponseBody)
+    }
+
+    const sessions = await sessionManager.listUserSessions(session.userId)
+
+    return res.status(HttpStatusCode.OK).json({
+      success: true,
+      sessions: sessions.map((userSession) => toSessionSummary(userSession, sessionId)),
+    } as ListSessionsResponseBody)
+  } catch (error: any) {
+    logger.error({ error }, 'Sessions endpoint error')
+    return res.status(HttpStatusCode.INTERNAL_SERVER_ERROR).json({
+      success: false,
+      error: 'An unexpected error occurred',
+    } as ErrorResponseBody)
+  }
+})
+
+// ============================================================================
+// POST /api/auth/sessions/revoke-others
+// ============================================================================
+
+router.post('/sessions/revoke-others', async (req: Request, res: Response) => {
+  try {
+    // Get session ID from custom header (added by middleware)
+    const sessionId = (req as any).sessionId
+
+    if (!sessionId) {
+      logger.warn({}, 'Revoke other sessions called without session')
+      return res.status(HttpStatusCode.UNAUTHORIZED).json({
+        success: false,
+        error: 'Unauthorized',
+      } as ErrorResponseBody)
+    }
+
+    const session = await sessionManager.getSession(sessionId)
+
+    if (!session) {
+      logger.warn({ sessionId }, 'Session not found')
+      return res.status(HttpStatusCode.UNAUTHORIZED).json({
+        success: false,
+        error: 'Session not found',
+      } as ErrorResponseBody)
+    }
+
+    const revoked = await sessionManager.deleteOtherUserSessions(session.userId, sessionId)
+    await revokeUserTokens(revoked)
+
+    logger.info({ userId: session.userId, revokedCount: revoked.length }, 'Other sessions revoked')
+    await authAuditLog.record({
+      type: 'session_revoked',
+      scope: 'others',
+      revokedCount: revoked.length,
+      userId: session.userId,
+      email: session.email,
+      ...getAuditRequestContext(req),
+    })
+    return res.status(HttpStatusCode.OK).json({
+      success: true,
+      message:
+        revoked.length === 1
+          ? 'Signed out of 1 other session'
+          : `Signed out of ${revoked.length} other sessions`,
+      revokedCount: revoked.length,
+    } as RevokeOtherSessionsResponseBody)
+  } catch (error: any) {
+    logger.error({ error }, 'Revoke other sessions endpoint error')
+    return res.status(HttpStatusCode.INTERNAL_SERVER_ERROR).json({
+      success: false,
+      error: 'An unexpected error occurred. Please try again',
+    } as ErrorResponseBody)
+  }
+})
+
+// ============================================================================
+// DELETE /api/auth/sessions/:id
+// ============================================================================
+
+router.delete('/sessions/:id', async (req: Request, res: Response) => {
+  try {
+    // Get session ID from custom header (added by middleware)
+    const sessionId = (req as any).sessionId
+
+    if (!sessionId) {
+      logger.warn({}, 'Revoke session called without session')
+      return res.status(HttpStatusCode.UNAUTHORIZED).json({
+        success: false,
+        error: 'Unauthorized',
+      } as ErrorResponseBody)
+    }
+
+    const session = await sessionManager.getSession(sessionId)
+
+    if (!session) {
+      logger.warn({ sessionId }, 'Session not found')
+      return res.status(HttpStatusCode.UNAUTHORIZED).json({
+        success: false,
+        error: 'Session not found',
+      } as ErrorResponseBody)
+    }
+
+    // Only the user's own sessions can be found by handle
+    const target = await sessionManager.findUserSession(session.userId, req.params.id)
+
+    if (!target) {
+      return res.status(HttpStatusCode.NOT_FOUND).json({
+        success: false,
+        error: 'Session not found',
+      } as ErrorResponseBody)
+    }
+
+    if (target.id === sessionId) {
+      return res.status(HttpStatusCode.BAD_REQUEST).json({
+        success: false,
+        error: 'Use sign out to end your current session',
+      } as ErrorResponseBody)
+    }
+
+    await sessionManager.deleteSession(target.id)
+    await revokeUserTokens([target])
+
+    logger.info({ userId: session.userId }, 'Session revoked')
+    await authAuditLog.record({
+      type: 'session_revoked',
+      scope: 'single',
+      revokedCount: 1,
+      userId: session.userId,
+      email: session.email,
+      ...getAuditRequestContext(req),
+    })
+    return res.status(HttpStatusCode.OK).json({
+      success: true,
+      message: 'Session signed out',
+    } as RevokeSessionResponseBody)
+  } catch (error: any) {
+    logger.error({ error }, 'Revoke session endpoint error')
+    return res.status(HttpStatusCode.INTERNAL_SERVER_ERROR).json({
+      success: false,
+      error: 'An unexpected error occurred. Please try again',
+    } as ErrorResponseBody)
+  }
+})
+
+export default router
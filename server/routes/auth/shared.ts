@@ -0,0 +1,173 @@
+/**
+ * Shared Authentication Route Helpers
+ *
+ * Types and helpers used by more than one of the auth route modules
+ */
+
+import type { Request } from 'express'
+import api from '@/lib/backend/generated/api-client'
+import { authClient, type RequestPasswordResetError } from '@/lib/backend/auth-client'
+import type { SessionData } from '@/lib/session'
+import type { UserRole } from '@/lib/common/roles'
+import { type Result, ok, err } from '@/lib/common/result'
+import type { AuthAuditLoginFailureReason } from '@/lib/auth-audit'
+import { passwordResetLinkService } from '@/lib/password-reset'
+import { newDeviceAlertService } from '@/lib/new-device'
+import { emailService } from '@/lib/email'
+import {
+  InvalidCredentialsError,
+  InvalidTwoFactorCodeError,
+  TooManyLoginAttemptsError,
+} from '@/lib/exceptions'
+import { createLogger } from '@/lib/config/logging'
+import { config } from '@/lib/config'
+
+const logger = createLogger('AuthRoutes')
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export interface ErrorResponseBody {
+  success: false
+  error: string
+  message?: string
+}
+
+export interface LoginResponseBody {
+  success: true
+  user: {
+    id: number
+    email: string
+    firstName: string
+    lastName: string
+    emailVerified: boolean
+    roles: UserRole[]
+  }
+  sessionId: string
+}
+
+// ============================================================================
+// RATE LIMITS
+// ============================================================================
+
+export const MINUTE_MS = 60 * 1000
+
+// ============================================================================
+// SESSION REVOCATION
+// ============================================================================
+
+/**
+ * Revoke the user tokens of deleted sessions on the backend
+ * Failures are logged only: the sessions are already gone from the BFF.
+ */
+export async function revokeUserTokens(sessions: SessionData[]): Promise<void> {
+  for (const session of sessions) {
+    try {
+      await api.tenantAuthControllerRevokeToken({ token: session.userToken })
+      logger.debug({ sessionId: session.id }, 'Token revoked on backend')
+    } catch (error) {
+      logger.warn({ error, sessionId: session.id }, 'Failed to revoke token on backend')
+    }
+  }
+}
+
+// ============================================================================
+// AUDIT LOG
+// ============================================================================
+
+/**
+ * Where a request came from, for audit events
+ */
+export function getAuditRequestContext(req: Request): {
+  ipAddress: string | null
+  userAgent: string | null
+} {
+  return { ipAddress: req.ip ?? null, userAgent: req.get('user-agent') ?? null }
+}
+
+/**
+ * The audit reason of a failed sign-in, or null for failures that say
+ * nothing about the account (bad input, backend errors)
+ */
+export function getLoginFailureReason(error: Error): AuthAuditLoginFailureReason | null {
+  if (error instanceof InvalidCredentialsError) return 'invalid_credentials'
+  if (error instanceof InvalidTwoFactorCodeError) return 'invalid_two_factor_code'
+  if (error instanceof TooManyLoginAttemptsError) return 'too_many_attempts'
+  return null
+}
+
+// ============================================================================
+// PASSWORD RESET
+// ============================================================================
+
+/**
+ * Generate a password reset token and email the reset link
+ * Email failures are logged only: the user can ask for another link.
+ */
+export async function sendPasswordResetLink(
+  email: string
+): Promise<Result<void, RequestPasswordResetError>> {
+  const resetResult = await authClient.requestPasswordReset({ email })
+  if (!resetResult.ok) {
+    return err(resetResult.error)
+  }
+
+  const resetResponse = resetResult.value
+  // Lets the completed reset be recorded against the user
+  await passwordResetLinkService.remember(resetResponse.token, resetResponse.email)
+  const resetUrl = `${config.transactionBaseEmailUrl}/auth/reset-password?token=${encodeURIComponent(resetResponse.token)}`
+
+  try {
+    const emailResult = await emailService.sendPasswordResetEmail({
+      email: resetResponse.email,
+      firstName: resetResponse.firstName,
+      lastName: resetResponse.lastName,
+      resetUrl,
+      expiresInHours: config.verificationTokenExpiryHours,
+    })
+
+    if (emailResult.ok) {
+      logger.info({ email }, 'Password reset email sent')
+    } else {
+      logger.error(
+        {
+          error: emailResult.error,
+          email,
+          errorCode: emailResult.error.code,
+        },
+        'Failed to send password reset email'
+      )
+    }
+  } catch (emailError) {
+    logger.error({ error: emailError, email }, 'Failed to send password reset email')
+  }
+
+  return ok(undefined)
+}
+
+// ============================================================================
+// NEW DEVICE ALERTS
+// ============================================================================
+
+/**
+ * Email the user when a new session comes from a device not seen for them before
+ * Failures are logged only: they must not fail the sign-in.
+ */
+export async function alertIfNewDevice(session: SessionData): Promise<void> {
+  if (!config.newDeviceAlerts) {
+    return
+  }
+
+  try {
+    const checkResult = await newDeviceAlertService.checkSignIn(session)
+    if (!checkResult.ok) {
+      logger.error(
+        { error: checkResult.error, userId: session.userId, errorCode: checkResult.error.code },
+        'Failed to send new device sign-in email'
+      )
+    }
+  } catch (error) {
+    logger.error({ error, userId: session.userId }, 'New device check failed')
+  }
+}
@@ -0,0 +1,494 @@
+/**
+ * Express Two-Factor Authentication Routes
+ *
+ * Completes two-factor logins and lets users set up and turn off TOTP
+ * two-factor authentication
+ */
+
+import { Router, Request, Response } from 'express'
+import QRCode from 'qrcode'
+import {
+  sessionManager,
+  createSessionCookie,
+  createLogoutCookie,
+  createCsrfCookie,
+  createCsrfLogoutCookie,
+  formatSetCookieHeader,
+} from '@/lib/session'
+import { twoFactorService, type TwoFactorVerifyError } from '@/lib/two-factor'
+import { authAuditLog } from '@/lib/auth-audit'
+import { rateLimit } from '../../middleware/rate-limit'
+import { createLogger } from '@/lib/config/logging'
+import {
+  HttpStatusCode,
+  InvalidTwoFactorCodeError,
+  TooManyLoginAttemptsError,
+  TwoFactorSetupError,
+} from '@/lib/exceptions'
+import { type Result, ok, err } from '@/lib/common/result'
+import {
+  MINUTE_MS,
+  alertIfNewDevice,
+  getAuditRequestContext,
+  getLoginFailureReason,
+  revokeUserTokens,
+  type ErrorResponseBody,
+  type LoginResponseBody,
+} from './shared'
+
+const logger = createLogger('TwoFactorRoutes')
+const router = Router()
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+interface TwoFactorCodeRequestBody {
+  code: string // TOTP code, or a recovery code where accepted
+}
+
+interface TwoFactorStatusResponseBody {
+  success: true
+  enabled: boolean
+  recoveryCodesRemaining: number
+}
+
+interface TwoFactorSetupResponseBody {
+  success: true
+  secret: string // For manual entry when the QR code can't be scanned
+  otpauthUri: string
+  qrCodeDataUrl: string
+}
+
+interface TwoFactorEnableResponseBody {
+  success: true
+  recoveryCodes: string[]
+}
+
+interface TwoFactorDisableResponseBody {
+  success: true
+  message: string
+}
+
+// ============================================================================
+// RATE LIMITS
+// ============================================================================
+
+/**
+ * On top of the per-user lockout (see TwoFactorService), which only slows
+ * guessing at one account
+ */
+const twoFactorLoginRateLimit = rateLimit({
+  name: 'login-2fa',
+  perIp: { limit: 30, windowMs: 15 * MINUTE_MS },
+  perSession: { limit: 10, windowMs: 15 * MINUTE_MS },
+  createError: (retryAfter) => new TooManyLoginAttemptsError(retryAfter),
+})
+
+const twoFactorDisableRateLimit = rateLimit({
+  name: 'two-factor-disable',
+  perIp: { limit: 10, windowMs: 15 * MINUTE_MS },
+  perSession: { limit: 5, windowMs: 15 * MINUTE_MS },
+  createError: (retryAfter) => new TooManyLoginAttemptsError(retryAfter),
+})
+
+// ============================================================================
+// REQUEST VALIDATION
+// ============================================================================
+
+function validateTwoFactorCodeRequest(body: any): Result<TwoFactorCodeRequestBody, string> {
+  if (!body) {
+    return err('Request body is required')
+  }
+
+  const { code } = body
+
+  if (!code || typeof code !== 'string' || code.trim().length === 0 || code.length > 32) {
+    return err('Authentication code is required')
+  }
+
+  return ok({ code: code.trim() })
+}
+
+// ============================================================================
+// ERROR HANDLING
+// ============================================================================
+
+/**
+ * Maps TwoFactorVerifyError union type to HTTP status code and user message
+ * Lockouts also carry the seconds until the next attempt (for Retry-After).
+ */
+function handleTwoFactorError(error: TwoFactorVerifyError): {
+  statusCode: number
+  message: string
+  retryAfter?: number
+} {
+  if (error instanceof InvalidTwoFactorCodeError) {
+    return {
+      statusCode: HttpStatusCode.UNAUTHORIZED,
+      message: 'Invalid authentication code',
+    }
+  }
+
+  if (error instanceof TooManyLoginAttemptsError) {
+    return {
+      statusCode: HttpStatusCode.TOO_MANY_REQUESTS,
+      message: 'Too many invalid codes. Please try again later',
+      retryAfter: error.metadata?.retryAfter,
+    }
+  }
+
+  if (error instanceof TwoFactorSetupError) {
+    return {
+      statusCode: HttpStatusCode.CONFLICT,
+      message: error.message,
+    }
+  }
+
+  // Unknown
+  return {
+    statusCode: HttpStatusCode.INTERNAL_SERVER_ERROR,
+    message: 'An unexpected error occurred. Please try again',
+  }
+}
+
+// ============================================================================
+// POST /api/auth/login/2fa
+// ============================================================================
+
+router.post('/login/2fa', twoFactorLoginRateLimit, async (req: Request, res: Response) => {
+  try {
+    // Pending two-factor session (added by middleware)
+    const pendingSessionId = (req as any).pendingSessionId
+    const pending = pendingSessionId
+      ? await sessionManager.getPendingTwoFactorSession(pendingSessionId)
+      : null
+
+    if (!pending) {
+      logger.warn({}, 'Two-factor login attempted without pending session')
+      return res.status(HttpStatusCode.UNAUTHORIZED).json({
+        success: false,
+        error: 'Your sign-in has expired. Please sign in again',
+      } as ErrorResponseBody)
+    }
+
+    const validation = validateTwoFactorCodeRequest(req.body)
+    if (!validation.ok) {
+      return res.status(HttpStatusCode.BAD_REQUEST).json({
+        success: false,
+        error: validation.error,
+      } as ErrorResponseBody)
+    }
+
+    const verifyResult = await twoFactorService.verify(pending.userId, validation.value.code)
+
+    if (!verifyResult.ok) {
+      const { statusCode, message, retryAfter } = handleTwoFactorError(verifyResult.error)
+      logger.warn(
+        { userId: pending.userId, errorType: verifyResult.error.constructor.name },
+        'Two-factor login failed'
+      )
+      await authAuditLog.record({
+        type: 'login_failed',
+        reason: getLoginFailureReason(verifyResult.error) ?? 'invalid_two_factor_code',
+        userId: pending.userId,
+        email: pending.email,
+        ...getAuditRequestContext(req),
+      })
+
+      if (verifyResult.error instanceof TooManyLoginAttemptsError) {
+        // Locked out: the password has to be entered again afterwards
+        await sessionManager.deleteSession(pending.id)
+        await revokeUserTokens([pending])
+        res.setHeader('Set-Cookie', [
+          formatSetCookieHeader(createLogoutCookie()),
+          formatSetCookieHeader(createCsrfLogoutCookie()),
+        ])
+      }
+      if (retryAfter) {
+        res.setHeader('Retry-After', String(retryAfter))
+      }
+
+      return res.status(statusCode).json({
+        success: false,
+        error: message,
+      } as ErrorResponseBody)
+    }
+
+    const session = await sessionManager.completeTwoFactorLogin(pending.id)
+
+    if (!session) {
+      return res.status(HttpStatusCode.UNAUTHORIZED).json({
+        success: false,
+        error: 'Your sign-in has expired. Please sign in again',
+      } as ErrorResponseBody)
+    }
+
+    logger.info(
+      {
+        userId: session.userId,
+        sessionId: session.id,
+        usedRecoveryCode: verifyResult.value.usedRecoveryCode,
+      },
+      'Two-factor login successful'
+    )
+    await authAuditLog.record({
+      type: 'login_succeeded',
+      method: 'two_factor',
+      userId: session.userId,
+      email: session.email,
+      ...getAuditRequestContext(req),
+    })
+    await alertIfNewDevice(session)
+
+    const response: LoginResponseBody = {
+      success: true,
+      user: {
+        id: session.userId,
+        email: session.email,
+        firstName: session.firstName,
+        lastName: session.lastName,
+        emailVerified: session.emailVerified,
+        roles: session.roles,
+      },
+      sessionId: session.id,
+    }
+
+    res.setHeader('Set-Cookie', [
+      formatSetCookieHeader(createSessionCookie(session.id)),
+      formatSetCookieHeader(createCsrfCookie(session.csrfToken)),
+    ])
+    return res.status(HttpStatusCode.OK).json(response)
+  } catch (error: any) {
+    logger.error({ error }, 'Two-factor login endpoint error')
+    return res.status(HttpStatusCode.INTERNAL_SERVER_ERROR).json({
+      success: false,
+      error: 'An unexpected error occurred. Please try again',
+    } as ErrorResponseBody)
+  }
+})
+
+// ============================================================================
+// GET /api/auth/two-factor
+// ============================================================================
+
+router.get('/two-factor', async (req: Request, res: Response) => {
+  try {
+    // Get session ID from custom header (added by middleware)
+    const sessionId = (req as any).sessionId
+
+    if (!sessionId) {
+      return res.status(HttpStatusCode.UNAUTHORIZED).json({
+        success: false,
+        error: 'Unauthorized',
+      } as ErrorResponseBody)
+    }
+
+    const session = await sessionManager.getSession(sessionId)
+
+    if (!session) {
+      logger.warn({ sessionId }, 'Session not found')
+      return res.status(HttpStatusCode.UNAUTHORIZED).json({
+        success: false,
+        error: 'Session not found',
+      } as ErrorResponseBody)
+    }
+
+    const status = await twoFactorService.getStatus(session.userId)
+
+    return res.status(HttpStatusCode.OK).json({
+      success: true,
+      ...status,
+    } as TwoFactorStatusResponseBody)
+  } catch (error: any) {
+    logger.error({ error }, 'Two-factor status endpoint error')
+    return res.status(HttpStatusCode.INTERNAL_SERVER_ERROR).json({
+      success: false,
+      error: 'An unexpected error occurred. Please try again',
+    } as ErrorResponseBody)
+  }
+})
+
+// ============================================================================
+// POST /api/auth/two-factor/setup
+// ============================================================================
+
+router.post('/two-factor/setup', async (req: Request, res: Response) => {
+  try {
+    // Get session ID from custom header (added by middleware)
+    const sessionId = (req as any).sessionId
+
+    if (!sessionId) {
+      return res.status(HttpStatusCode.UNAUTHORIZED).json({
+        success: false,
+        error: 'Unauthorized',
+      } as ErrorResponseBody)
+    }
+
+    const session = await sessionManager.getSession(sessionId)
+
+    if (!session) {
+      logger.warn({ sessionId }, 'Session not found')
+      return res.status(HttpStatusCode.UNAUTHORIZED).json({
+        success: false,
+        error: 'Session not found',
+      } as ErrorResponseBody)
+    }
+
+    const enrollResult = await twoFactorService.beginEnrollment(session.userId, session.email)
+
+    if (!enrollResult.ok) {
+      const { statusCode, message } = handleTwoFactorError(enrollResult.error)
+      return res.status(statusCode).json({
+        success: false,
+        error: message,
+      } as ErrorResponseBody)
+    }
+
+    // Rendered here so the secret never goes to a third-party QR service
+    const { secret, otpauthUri } = enrollResult.value
+    const qrCodeDataUrl = await QRCode.toDataURL(otpauthUri)
+
+    return res.status(HttpStatusCode.OK).json({
+      success: true,
+      secret,
+      otpauthUri,
+      qrCodeDataUrl,
+    } as TwoFactorSetupResponseBody)
+  } catch (error: any) {
+    logger.error({ error }, 'Two-factor setup endpoint error')
+    return res.status(HttpStatusCode.INTERNAL_SERVER_ERROR).json({
+      success: false,
+      error: 'An unexpected error occurred. Please try again',
+    } as ErrorResponseBody)
+  }
+})
+
+// ============================================================================
+// POST /api/auth/two-factor/enable
+// ============================================================================
+
+router.post('/two-factor/enable', async (req: Request, res: Response) => {
+  try {
+    // Get session ID from custom header (added by middleware)
+    const sessionId = (req as any).sessionId
+
+    if (!sessionId) {
+      return res.status(HttpStatusCode.UNAUTHORIZED).json({
+        success: false,
+        error: 'Unauthorized',
+      } as ErrorResponseBody)
+    }
+
+    const validation = validateTwoFactorCodeRequest(req.body)
+    if (!validation.ok) {
+      return res.status(HttpStatusCode.BAD_REQUEST).json({
+        success: false,
+        error: validation.error,
+      } as ErrorResponseBody)
+    }
+
+    const session = await sessionManager.getSession(sessionId)
+
+    if (!session) {
+      logger.warn({ sessionId }, 'Session not found')
+      return res.status(HttpStatusCode.UNAUTHORIZED).json({
+        success: false,
+        error: 'Session not found',
+      } as ErrorResponseBody)
+    }
+
+    const confirmResult = await twoFactorService.confirmEnrollment(
+      session.userId,
+      validation.value.code
+    )
+
+    if (!confirmResult.ok) {
+      const { statusCode, message, retryAfter } = handleTwoFactorError(confirmResult.error)
+      if (retryAfter) {
+        res.setHeader('Retry-After', String(retryAfter))
+      }
+      return res.status(statusCode).json({
+        success: false,
+        error: message,
+      } as ErrorResponseBody)
+    }
+
+    return res.status(HttpStatusCode.OK).json({
+      success: true,
+      recoveryCodes: confirmResult.value.recoveryCodes,
+    } as TwoFactorEnableResponseBody)
+  } catch (error: any) {
+    logger.error({ error }, 'Two-factor enable endpoint error')
+    return res.status(HttpStatusCode.INTERNAL_SERVER_ERROR).json({
+      success: false,
+      error: 'An unexpected error occurred. Please try again',
+    } as ErrorResponseBody)
+  }
+})
+
+// ============================================================================
+// POST /api/auth/two-factor/disable
+// ============================================================================
+
+router.post(
+  '/two-factor/disable',
+  twoFactorDisableRateLimit,
+  async (req: Request, res: Response) => {
+    try {
+      // Get session ID from custom header (added by middleware)
+      const sessionId = (req as any).sessionId
+
+      if (!sessionId) {
+        return res.status(HttpStatusCode.UNAUTHORIZED).json({
+          success: false,
+          error: 'Unauthorized',
+        } as ErrorResponseBody)
+      }
+
+      const validation = validateTwoFactorCodeRequest(req.body)
+      if (!validation.ok) {
+        return res.status(HttpStatusCode.BAD_REQUEST).json({
+          success: false,
+          error: validation.error,
+        } as ErrorResponseBody)
+      }
+
+      const session = await sessionManager.getSession(sessionId)
+
+      if (!session) {
+        logger.warn({ sessionId }, 'Session not found')
+        return res.status(HttpStatusCode.UNAUTHORIZED).json({
+          success: false,
+          error: 'Session not found',
+        } as ErrorResponseBody)
+      }
+
+      const disableResult = await twoFactorService.disable(session.userId, validation.value.code)
+
+      if (!disableResult.ok) {
+        const { statusCode, message, retryAfter } = handleTwoFactorError(disableResult.error)
+        if (retryAfter) {
+          res.setHeader('Retry-After', String(retryAfter))
+        }
+        return res.status(statusCode).json({
+          success: false,
+          error: message,
+        } as ErrorResponseBody)
+      }
+
+      return res.status(HttpStatusCode.OK).json({
+        success: true,
+        message: 'Two-factor authentication turned off',
+      } as TwoFactorDisableResponseBody)
+    } catch (error: any) {
+      logger.error({ error }, 'Two-factor disable endpoint error')
+      return res.status(HttpStatusCode.INTERNAL_SERVER_ERROR).json({
+        success: false,
+        error: 'An unexpected error occurred. Please try again',
+      } as ErrorResponseBody)
+    }
+  }
+)
+
+export default router
@@ -2,13 +2,17 @@
  * Express GraphQL Proxy Route
  * 
  * Forwards GraphQL requests to the backend API with proper authentication
+ * Mutations need the editor role; viewers can only read.
  */
 
 import { Router, Request, Response } from 'express'
+import { parse } from 'graphql'
 import { tokenManager } from '@/lib/backend/generated/api-client'
 import { apiClient } from '@/lib/config/api-client'
 import { sessionManager } from '@/lib/session'
 import { createLogger } from '@/lib/config/logging'
+import type { ServiceException } from '@/lib/exceptions'
+import { requireRole } from '../middleware/require-role'
 
 const logger = createLogger('GraphQLRoute')
 const router = Router()
@@ -100,11 +104,51 @@ function validateTenantConsistency(bearerToken: string, userToken: string): bool
   return bearerTenantId === userTenantId
 }
 
+/**
+ * Whether the request runs a mutation
+ * Unparseable queries count as reads; the backend rejects them anyway.
+ */
+function isMutationRequest(req: Request): boolean {
+  const query = (req.body as GraphQLRequestBody | undefined)?.query
+  if (typeof query !== 'string') {
+    return false
+  }
+
+  try {
+    return parse(query).definitions.some(
+      (definition) =>
+        definition.kind === 'OperationDefinition' && definition.operation === 'mutation'
+    )
+  } catch {
+    return false
+  }
+}
+
+function sendGraphQLError(res: Response, statusCode: number, error: ServiceException) {
+  res.status(statusCode).json({
+    errors: [
+      {
+        message: error.message,
+        extensions: { code: error.code },
+      },
+    ],
+  })
+}
+
+// ============================================================================
+// ROLE GUARD
+// ============================================================================
+
+const requireEditorForMutations = requireRole('editor', {
+  when: isMutationRequest,
+  sendError: sendGraphQLError,
+})
+
 // ============================================================================
 // POST /api/graphql
 // ============================================================================
 
-router.post('/', async (req: Request, res: Response) => {
+router.post('/', requireEditorForMutations, async (req: Request, res: Response) => {
   try {
     // Extract authentication tokens
     logger.debug({}, 'Extracting authentication tokens')
@@ -0,0 +1,161 @@
+import './support/test-env'
+import { test, expect } from '@playwright/test'
+import { crc32, inflateRawSync } from 'zlib'
+import {
+  collectAccountData,
+  createAccountExportZip,
+  createZip,
+  getAccountExportFileName,
+  type AccountDataSource,
+  type AccountExportMealPlanEntry,
+  type AccountExportProfile,
+  type AccountExportRecipe,
+} from '@/lib/account-export'
+import { ok, err } from '@/lib/common/result'
+import { InternalServerErrorException } from '@/lib/exceptions'
+
+/**
+ * Read every file of an archive through its central directory
+ */
+function unzip(archive: Buffer): Map<string, string> {
+  const files = new Map<string, string>()
+  const endOffset = archive.lastIndexOf(Buffer.from([0x50, 0x4b, 0x05, 0x06]))
+  const count = archive.readUInt16LE(endOffset + 10)
+  let offset = archive.readUInt32LE(endOffset + 16)
+
+  for (let i = 0; i < count; i++) {
+    const checksum = archive.readUInt32LE(offset + 16)
+    const compressedSize = archive.readUInt32LE(offset + 20)
+    const nameLength = archive.readUInt16LE(offset + 28)
+    const extraLength = archive.readUInt16LE(offset + 30)
+    const commentLength = archive.readUInt16LE(offset + 32)
+    const localOffset = archive.readUInt32LE(offset + 42)
+    const name = archive.subarray(offset + 46, offset + 46 + nameLength).toString('utf8')
+
+    const dataOffset =
+      localOffset +
+      30 +
+      archive.readUInt16LE(localOffset + 26) +
+      archive.readUInt16LE(localOffset + 28)
+    const content = inflateRawSync(archive.subarray(dataOffset, dataOffset + compressedSize))
+    expect(crc32(content)).toBe(checksum)
+
+    files.set(name, content.toString('utf8'))
+    offset += 46 + nameLength + extraLength + commentLength
+  }
+
+  return files
+}
+
+const PROFILE: AccountExportProfile = {
+  id: 42,
+  email: 'cook@example.com',
+  firstName: 'Ada',
+  lastName: 'Cook',
+  emailVerified: true,
+  status: 'ACTIVE',
+  createdAt: '2030-01-02T10:00:00.000Z',
+  updatedAt: '2030-01-02T10:00:00.000Z',
+  lastLoginAt: null,
+}
+
+function recipe(id: number, userId: number): AccountExportRecipe {
+  return {
+    id,
+    userId,
+    name: `Recipe ${id}`,
+    slug: `recipe-${id}`,
+    instructions: 'Cook it.',
+    createdAt: '2030-01-03T10:00:00.000Z',
+    updatedAt: '2030-01-03T10:00:00.000Z',
+  }
+}
+
+function mealPlanEntry(id: number, date: string): AccountExportMealPlanEntry {
+  return {
+    id,
+    date,
+    mealType: 'dinner',
+    createdAt: '2030-01-03T10:00:00.000Z',
+    updatedAt: '2030-01-03T10:00:00.000Z',
+    recipe: { id: 1, name: 'Recipe 1', slug: 'recipe-1' },
+  }
+}
+
+test.describe('createZip', () => {
+  test('should write entries any unzip tool can read', () => {
+    const archive = createZip(
+      [
+        { name: 'hello.txt', content: 'Hello, world\n' },
+        { name: 'dir/crème.json', content: Buffer.from('{"a":1}') },
+      ],
+      new Date('2030-01-02T10:00:00.000Z')
+    )
+
+    expect(archive.readUInt32LE(0)).toBe(0x04034b50)
+    expect(Object.fromEntries(unzip(archive))).toEqual({
+      'hello.txt': 'Hello, world\n',
+      'dir/crème.json': '{"a":1}',
+    })
+  })
+})
+
+test.describe('collectAccountData', () => {
+  test("should gather the user's own recipes and meal plan windows", async () => {
+    const windows: Array<[string, string]> = []
+    const source: AccountDataSource = {
+      getProfile: async () => ok(PROFILE),
+      getRecipes: async () => ok([recipe(1, 42), recipe(2, 7), recipe(3, 42)]),
+      getMealPlan: async (startDate, endDate) => {
+        windows.push([startDate, endDate])
+        return ok(windows.length === 1 ? [mealPlanEntry(1, startDate)] : [])
+      },
+    }
+
+    const result = await collectAccountData(source, {
+      now: new Date(2030, 2, 1, 12),
+      mealPlanDaysAhead: 10,
+    })
+
+    expect(result.ok && result.value.recipes.map((r) => r.id)).toEqual([1, 3])
+    expect(result.ok && result.value.mealPlan).toHaveLength(1)
+    // From the Monday of the signup week, in windows the backend accepts, until 10 days ahead
+    expect(windows).toEqual([
+      ['2029-12-31', '2030-02-28'],
+      ['2030-03-01', '2030-03-11'],
+    ])
+  })
+
+  test('should fail when the backend does', async () => {
+    const failure = new InternalServerErrorException('Backend unavailable')
+    const source: AccountDataSource = {
+      getProfile: async () => ok(PROFILE),
+      getRecipes: async () => ok([]),
+      getMealPlan: async () => err(failure),
+    }
+
+    expect(await collectAccountData(source, { now: new Date(2030, 2, 1, 12) })).toEqual({
+      ok: false,
+      error: failure,
+    })
+  })
+})
+
+test.describe('createAccountExportZip', () => {
+  test('should pack one JSON file per kind of data', () => {
+    const data = {
+      profile: PROFILE,
+      recipes: [recipe(1, 42)],
+      mealPlan: [mealPlanEntry(1, '2030-01-04')],
+    }
+    const exportedAt = new Date('2030-03-01T12:00:00.000Z')
+
+    const files = unzip(createAccountExportZip(data, exportedAt))
+
+    expect([...files.keys()]).toEqual(['profile.json', 'recipes.json', 'meal-plan.json'])
+    expect(JSON.parse(files.get('profile.json')!)).toEqual(PROFILE)
+    expect(JSON.parse(files.get('recipes.json')!)).toEqual(data.recipes)
+    expect(JSON.parse(files.get('meal-plan.json')!)).toEqual(data.mealPlan)
+    expect(getAccountExportFileName(exportedAt)).toBe('account-data-2030-03-01.zip')
+  })
+})
@@ -0,0 +1,131 @@
+import './support/test-env'
+import { test, expect } from '@playwright/test'
+import { appendFile, mkdtemp, rm } from 'node:fs/promises'
+import { tmpdir } from 'node:os'
+import path from 'node:path'
+import { newDb } from 'pg-mem'
+import {
+  AuthAuditLog,
+  FileAuthAuditSink,
+  MemoryAuthAuditSink,
+  SqlAuthAuditSink,
+  type IAuthAuditSink,
+} from '@/lib/auth-audit'
+import { createPostgresDatabase, type PostgresPool } from '@/lib/session/sql-database'
+
+const SUBJECT = { userId: 42, email: 'Cook@Example.com' }
+const REQUEST = { ipAddress: '203.0.113.7', userAgent: 'Mozilla/5.0 Firefox/120.0' }
+
+/**
+ * Record a sign-in, a failed sign-in by email only, and another user's sign-out
+ */
+async function recordSampleEvents(log: AuthAuditLog, tick: () => void): Promise<void> {
+  await log.record({ type: 'login_succeeded', method: 'password', ...SUBJECT, ...REQUEST })
+  tick()
+  await log.record({
+    type: 'login_failed',
+    reason: 'invalid_credentials',
+    userId: null,
+    email: 'cook@example.com',
+    ...REQUEST,
+  })
+  tick()
+  await log.record({ type: 'logout', userId: 7, email: 'other@example.com', ...REQUEST })
+}
+
+/**
+ * Behavior every sink shares
+ */
+function describeSink(name: string, createSink: () => Promise<IAuthAuditSink>) {
+  test(`${name} should list the subject's events newest first`, async () => {
+    let now = Date.parse('2030-01-01T12:00:00.000Z')
+    const log = new AuthAuditLog({ sink: await createSink(), now: () => now })
+
+    await recordSampleEvents(log, () => (now += 60_000))
+
+    const events = await log.listForSubject(SUBJECT)
+    expect(events.map((event) => event.type)).toEqual(['login_failed', 'login_succeeded'])
+    expect(events[1]).toMatchObject({
+      method: 'password',
+      userId: 42,
+      email: 'cook@example.com',
+      occurredAt: new Date('2030-01-01T12:00:00.000Z'),
+      ...REQUEST,
+    })
+    expect(events[0].id).not.toBe(events[1].id)
+
+    expect(await log.listForSubject(SUBJECT, 1)).toEqual([events[0]])
+  })
+}
+
+test.describe('AuthAuditLog', () => {
+  describeSink('MemoryAuthAuditSink', async () => new MemoryAuthAuditSink())
+
+  test('should keep only the latest events in memory', async () => {
+    const log = new AuthAuditLog({ sink: new MemoryAuthAuditSink({ maxEvents: 2 }) })
+
+    await log.record({ type: 'login_succeeded', method: 'password', ...SUBJECT, ...REQUEST })
+    await log.record({ type: 'logout', ...SUBJECT, ...REQUEST })
+    await log.record({ type: 'login_succeeded', method: 'two_factor', ...SUBJECT, ...REQUEST })
+
+    const events = await log.listForSubject(SUBJECT)
+    expect(events.map((event) => event.type)).toEqual(['login_succeeded', 'logout'])
+    expect(events[0].type === 'login_succeeded' && events[0].method).toBe('two_factor')
+  })
+
+  test('should not fail the caller when the sink does', async () => {
+    const log = new AuthAuditLog({
+      sink: {
+        append: async () => {
+          throw new Error('Disk full')
+        },
+        listForSubject: async () => [],
+      },
+    })
+
+    await expect(
+      log.record({ type: 'password_reset_completed', userId: null, email: null, ...REQUEST })
+    ).resolves.toBeUndefined()
+  })
+})
+
+test.describe('FileAuthAuditSink', () => {
+  let directory: string
+
+  test.beforeEach(async () => {
+    directory = await mkdtemp(path.join(tmpdir(), 'auth-audit-'))
+  })
+
+  test.afterEach(async () => {
+    await rm(directory, { recursive: true, force: true })
+  })
+
+  describeSink('FileAuthAuditSink', async () => {
+    const sink = new FileAuthAuditSink(path.join(directory, 'logs', 'auth-audit.log'))
+    await sink.initialize()
+    return sink
+  })
+
+  test('should skip unreadable lines and list nothing before the first event', async () => {
+    const filename = path.join(directory, 'auth-audit.log')
+    const sink = new FileAuthAuditSink(filename)
+    const log = new AuthAuditLog({ sink })
+
+    expect(await log.listForSubject(SUBJECT)).toEqual([])
+
+    await log.record({ type: 'logout', ...SUBJECT, ...REQUEST })
+    await appendFile(filename, '{"type":"login_succ')
+
+    expect(await log.listForSubject(SUBJECT)).toHaveLength(1)
+  })
+})
+
+test.describe('SqlAuthAuditSink', () => {
+  // See sql-session-storage.spec.ts for why the AST coverage check is disabled
+  describeSink('SqlAuthAuditSink', async () => {
+    const { Pool } = newDb({ noAstCoverageCheck: true }).adapters.createPg()
+    const sink = new SqlAuthAuditSink(createPostgresDatabase(new Pool() as PostgresPool))
+    await sink.initialize()
+    return sink
+  })
+})
@@ -0,0 +1,104 @@
+import './support/test-env'
+import { test, expect } from '@playwright/test'
+import type { Request, Response } from 'express'
+import { CSRF_HEADER_NAME, readCsrfToken } from '@/lib/common/csrf'
+import { csrfMiddleware } from '@/server/middleware/csrf'
+
+test.describe('readCsrfToken', () => {
+  test('should read the token among other cookies', () => {
+    expect(readCsrfToken('auth-session=sess_1; csrf-token=abc%3D; theme=dark')).toBe('abc=')
+  })
+
+  test('should return null without the cookie', () => {
+    expect(readCsrfToken('auth-session=sess_1')).toBeNull()
+    expect(readCsrfToken('csrf-token=')).toBeNull()
+    expect(readCsrfToken('')).toBeNull()
+  })
+})
+
+test.describe('csrfMiddleware', () => {
+  function fakeRequest(
+    options: { method?: string; headers?: Record<string, string>; csrfToken?: string } = {}
+  ): Request {
+    const headers: Record<string, string> = { host: 'app.example.com', ...options.headers }
+    return {
+      method: options.method ?? 'POST',
+      path: '/graphql',
+      csrfToken: options.csrfToken,
+      get: (name: string) => headers[name.toLowerCase()],
+    } as unknown as Request
+  }
+
+  function run(request: Request) {
+    const response = {
+      statusCode: 200,
+      body: undefined as any,
+      status(code: number) {
+        response.statusCode = code
+        return response
+      },
+      json(body: unknown) {
+        response.body = body
+        return response
+      },
+    }
+    let passed = false
+    csrfMiddleware(request, response as unknown as Response, () => {
+      passed = true
+    })
+    return { passed, response }
+  }
+
+  test('should let safe methods through', () => {
+    const request = fakeRequest({
+      method: 'GET',
+      headers: { origin: 'https://evil.example' },
+      csrfToken: 'token',
+    })
+
+    expect(run(request).passed).toBe(true)
+  })
+
+  test('should reject requests from another origin, with or without a session', () => {
+    const { passed, response } = run(fakeRequest({ headers: { origin: 'https://evil.example' } }))
+
+    expect(passed).toBe(false)
+    expect(response.statusCode).toBe(403)
+    expect(response.body).toEqual({
+      success: false,
+      error: 'Cross-origin request rejected',
+      code: 'CSRF_ORIGIN_REJECTED',
+    })
+
+    const referer = { referer: 'https://evil.example/page' }
+    expect(run(fakeRequest({ headers: referer })).passed).toBe(false)
+    expect(run(fakeRequest({ headers: { origin: 'null' } })).passed).toBe(false)
+  })
+
+  test('should accept the app origin whatever the scheme', () => {
+    expect(run(fakeRequest({ headers: { origin: 'https://app.example.com' } })).passed).toBe(true)
+    expect(run(fakeRequest({ headers: { origin: 'http://app.example.com' } })).passed).toBe(true)
+    expect(run(fakeRequest({ headers: { referer: 'https://app.example.com/x' } })).passed).toBe(
+      true
+    )
+  })
+
+  test("should require the session's token when there is a session", () => {
+    const sameOrigin = { origin: 'https://app.example.com' }
+
+    const missing = run(fakeRequest({ headers: sameOrigin, csrfToken: 'token' }))
+    expect(missing.passed).toBe(false)
+    expect(missing.response.statusCode).toBe(403)
+    expect(missing.response.body.code).toBe('CSRF_TOKEN_INVALID')
+
+    const wrong = { ...sameOrigin, [CSRF_HEADER_NAME.toLowerCase()]: 'other' }
+    expect(run(fakeRequest({ headers: wrong, csrfToken: 'token' })).passed).toBe(false)
+
+    const right = { ...sameOrigin, [CSRF_HEADER_NAME.toLowerCase()]: 'token' }
+    expect(run(fakeRequest({ headers: right, csrfToken: 'token' })).passed).toBe(true)
+  })
+
+  test('should only check the origin without a session', () => {
+    expect(run(fakeRequest()).passed).toBe(true)
+  })
+})
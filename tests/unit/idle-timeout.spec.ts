@@ -0,0 +1,51 @@
+import { test, expect } from '@playwright/test'
+import {
+  SESSION_WARNING_MS,
+  formatTimeRemaining,
+  getSessionTimeoutAction,
+  type SessionTimeoutState,
+} from '@/lib/session/idle-timeout'
+
+const NOW = Date.parse('2030-01-01T12:00:00.000Z')
+
+function stateExpiringIn(
+  ms: number,
+  overrides: Partial<SessionTimeoutState> = {}
+): SessionTimeoutState {
+  return {
+    expiresAt: new Date(NOW + ms),
+    now: NOW,
+    lastActivityAt: 0,
+    lastExtendedAt: NOW - 60 * 1000,
+    ...overrides,
+  }
+}
+
+test.describe('getSessionTimeoutAction', () => {
+  test('should do nothing until the warning window', () => {
+    expect(getSessionTimeoutAction(stateExpiringIn(SESSION_WARNING_MS + 1000))).toBe('none')
+  })
+
+  test('should warn an idle user close to expiry', () => {
+    expect(getSessionTimeoutAction(stateExpiringIn(SESSION_WARNING_MS))).toBe('warn')
+  })
+
+  test('should extend silently when the user was active since the last extension', () => {
+    const state = stateExpiringIn(30 * 1000, { lastActivityAt: NOW - 1000 })
+
+    expect(getSessionTimeoutAction(state)).toBe('extend')
+  })
+
+  test('should expire once the expiry has passed, even for an active user', () => {
+    expect(getSessionTimeoutAction(stateExpiringIn(0, { lastActivityAt: NOW }))).toBe('expire')
+  })
+})
+
+test.describe('formatTimeRemaining', () => {
+  test('should format minutes and seconds, rounding up', () => {
+    expect(formatTimeRemaining(SESSION_WARNING_MS)).toBe('2:00')
+    expect(formatTimeRemaining(65 * 1000)).toBe('1:05')
+    expect(formatTimeRemaining(400)).toBe('0:01')
+    expect(formatTimeRemaining(-5000)).toBe('0:00')
+  })
+})
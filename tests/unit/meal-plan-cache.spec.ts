@@ -0,0 +1,216 @@
+import { test, expect } from '@playwright/test'
+import { CombinedGraphQLErrors, InMemoryCache, gql } from '@apollo/client'
+import {
+  addMealPlanEntryToCache,
+  nextOptimisticEntryId,
+  removeMealPlanEntryFromCache,
+  removeRecipeFromMealPlanCache,
+} from '@/lib/meal-plan/cache'
+import { isRecipeAlreadyScheduledError } from '@/lib/meal-plan/errors'
+
+const GET_MEAL_PLAN_RANGE = gql`
+  query GetMealPlanRange($input: MealPlanRangeInput!) {
+    mealPlanRange(input: $input) {
+      date
+      entries {
+        id
+        date
+        mealType
+        recipe {
+          id
+          slug
+          name
+        }
+      }
+    }
+  }
+`
+
+const MEAL_PLAN_ENTRY_FRAGMENT = gql`
+  fragment CachedMealPlanEntry on MealPlanEntryType {
+    id
+    date
+    mealType
+    recipe {
+      id
+      slug
+      name
+    }
+  }
+`
+
+const WEEK = { startDateInclusive: '2024-03-04', endDateInclusive: '2024-03-10' }
+const OVERLAPPING_RANGE = { startDateInclusive: '2024-03-05', endDateInclusive: '2024-03-06' }
+
+const CURRY = { __typename: 'RecipeType', id: 1, slug: 'curry', name: 'Curry' }
+const SOUP = { __typename: 'RecipeType', id: 2, slug: 'soup', name: 'Soup' }
+
+function entry(id: number, date: string, mealType: string, recipe: typeof CURRY) {
+  return { __typename: 'MealPlanEntryType' as const, id, date, mealType, recipe }
+}
+
+function day(date: string, entries: ReturnType<typeof entry>[] = []) {
+  return { __typename: 'MealPlanDayType', date, entries }
+}
+
+/**
+ * A cache holding the week planner's range and an overlapping shopping list range
+ */
+function createCache(): InMemoryCache {
+  const cache = new InMemoryCache()
+
+  cache.writeQuery({
+    query: GET_MEAL_PLAN_RANGE,
+    variables: { input: WEEK },
+    data: {
+      mealPlanRange: [
+        day('2024-03-04'),
+        day('2024-03-05', [
+          entry(10, '2024-03-05', 'dinner', CURRY),
+          entry(11, '2024-03-05', 'lunch', CURRY),
+        ]),
+        day('2024-03-06', [entry(12, '2024-03-06', 'dinner', SOUP)]),
+      ],
+    },
+  })
+  cache.writeQuery({
+    query: GET_MEAL_PLAN_RANGE,
+    variables: { input: OVERLAPPING_RANGE },
+    data: {
+      mealPlanRange: [
+        day('2024-03-05', [
+          entry(10, '2024-03-05', 'dinner', CURRY),
+          entry(11, '2024-03-05', 'lunch', CURRY),
+        ]),
+        day('2024-03-06', [entry(12, '2024-03-06', 'dinner', SOUP)]),
+      ],
+    },
+  })
+
+  return cache
+}
+
+/**
+ * The entries of a cached range as "date mealType slug"
+ */
+function readSlots(
+  cache: InMemoryCache,
+  input: typeof WEEK,
+  optimistic: boolean = false
+): string[] {
+  const data = cache.readQuery<{
+    mealPlanRange: { entries: { date: string; mealType: string; recipe: { slug: string } }[] }[]
+  }>({ query: GET_MEAL_PLAN_RANGE, variables: { input } }, optimistic)
+
+  return (data?.mealPlanRange ?? []).flatMap((cachedDay) =>
+    cachedDay.entries.map((e) => `${e.date} ${e.mealType} ${e.recipe.slug}`)
+  )
+}
+
+test.describe('Meal plan cache updates', () => {
+  test('should remove an entry from its slot in every cached range', () => {
+    const cache = createCache()
+
+    removeMealPlanEntryFromCache(cache, { date: '2024-03-05', mealType: 'dinner' }, 'curry')
+
+    const expected = ['2024-03-05 lunch curry', '2024-03-06 dinner soup']
+    expect(readSlots(cache, WEEK)).toEqual(expected)
+    expect(readSlots(cache, OVERLAPPING_RANGE)).toEqual(expected)
+  })
+
+  test('should add an entry to its date in every cached range, once', () => {
+    const cache = createCache()
+    const moved = entry(13, '2024-03-06', 'lunch', CURRY)
+    cache.writeFragment({
+      fragment: MEAL_PLAN_ENTRY_FRAGMENT,
+      data: moved,
+    })
+
+    addMealPlanEntryToCache(cache, moved)
+    addMealPlanEntryToCache(cache, moved)
+
+    const expected = [
+      '2024-03-05 dinner curry',
+      '2024-03-05 lunch curry',
+      '2024-03-06 dinner soup',
+      '2024-03-06 lunch curry',
+    ]
+    expect(readSlots(cache, WEEK)).toEqual(expected)
+    expect(readSlots(cache, OVERLAPPING_RANGE)).toEqual(expected)
+  })
+
+  test('should leave ranges without the date alone', () => {
+    const cache = createCache()
+    const outside = entry(14, '2024-03-04', 'dinner', SOUP)
+    cache.writeFragment({
+      fragment: MEAL_PLAN_ENTRY_FRAGMENT,
+      data: outside,
+    })
+
+    addMealPlanEntryToCache(cache, outside)
+
+    expect(readSlots(cache, WEEK)).toContain('2024-03-04 dinner soup')
+    expect(readSlots(cache, OVERLAPPING_RANGE)).not.toContain('2024-03-04 dinner soup')
+  })
+
+  test('should remove a deleted recipe from every slot', () => {
+    const cache = createCache()
+
+    removeRecipeFromMealPlanCache(cache, 'curry')
+
+    expect(readSlots(cache, WEEK)).toEqual(['2024-03-06 dinner soup'])
+    expect(readSlots(cache, OVERLAPPING_RANGE)).toEqual(['2024-03-06 dinner soup'])
+  })
+
+  test('should roll an optimistic move back when it fails', () => {
+    const cache = createCache()
+    const from = { date: '2024-03-05', mealType: 'dinner' }
+
+    // What Apollo does with an optimistic response until the mutation settles
+    cache.recordOptimisticTransaction(
+      (proxy) => removeMealPlanEntryFromCache(proxy, from, 'curry'),
+      'move'
+    )
+    expect(readSlots(cache, WEEK, true)).not.toContain('2024-03-05 dinner curry')
+    expect(readSlots(cache, WEEK)).toContain('2024-03-05 dinner curry')
+
+    cache.removeOptimistic('move')
+
+    expect(readSlots(cache, WEEK, true)).toContain('2024-03-05 dinner curry')
+  })
+})
+
+test.describe('nextOptimisticEntryId', () => {
+  test('should hand out distinct negative ids', () => {
+    const first = nextOptimisticEntryId()
+    const second = nextOptimisticEntryId()
+
+    expect(first).toBeLessThan(0)
+    expect(second).toBeLessThan(first)
+  })
+})
+
+test.describe('isRecipeAlreadyScheduledError', () => {
+  test('should recognize conflicts by code or message', () => {
+    const byCode = new CombinedGraphQLErrors({
+      errors: [{ message: 'Conflict', extensions: { code: 'CONFLICT' } }],
+    })
+    const byMessage = new CombinedGraphQLErrors({
+      errors: [{ message: 'Recipe is already scheduled for this meal' }],
+    })
+
+    expect(isRecipeAlreadyScheduledError(byCode)).toBe(true)
+    expect(isRecipeAlreadyScheduledError(byMessage)).toBe(true)
+    expect(isRecipeAlreadyScheduledError(new Error('Entry already exists'))).toBe(true)
+  })
+
+  test('should not treat other failures as conflicts', () => {
+    const other = new CombinedGraphQLErrors({
+      errors: [{ message: 'Recipe not found', extensions: { code: 'NOT_FOUND' } }],
+    })
+
+    expect(isRecipeAlreadyScheduledError(other)).toBe(false)
+    expect(isRecipeAlreadyScheduledError(new Error('Network error'))).toBe(false)
+    expect(isRecipeAlreadyScheduledError('already scheduled')).toBe(false)
+  })
+})
@@ -0,0 +1,279 @@
+import './support/test-env'
+import { test, expect } from '@playwright/test'
+import Redis from 'ioredis'
+import { newDb } from 'pg-mem'
+import {
+  MemoryKnownDeviceStore,
+  MemoryNewDeviceAlertStore,
+  NewDeviceAlertService,
+  RedisKnownDeviceStore,
+  RedisNewDeviceAlertStore,
+  SqlKnownDeviceStore,
+  SqlNewDeviceAlertStore,
+  type IKnownDeviceStore,
+  type INewDeviceAlertStore,
+  type NewDeviceAlertRecord,
+  type NewDeviceSignIn,
+} from '@/lib/new-device'
+import { MockEmailProvider } from '@/lib/email/providers/mock-email-provider'
+import { TokenExpiredError, TokenInvalidError } from '@/lib/exceptions'
+import { getSessionHandle } from '@/lib/session'
+import { createPostgresDatabase, type PostgresPool } from '@/lib/session/sql-database'
+import { startRedisStandIn, type RedisStandIn } from './support/redis-stand-in'
+
+const HOUR_MS = 60 * 60 * 1000
+const CHROME_ON_MAC =
+  'Mozilla/5.0 (Macintosh; Intel Mac OS X 10_15_7) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/120.0.0.0 Safari/537.36'
+const FIREFOX_ON_WINDOWS =
+  'Mozilla/5.0 (Windows NT 10.0; Win64; x64; rv:120.0) Gecko/20100101 Firefox/120.0'
+
+function signIn(overrides: Partial<NewDeviceSignIn> = {}): NewDeviceSignIn {
+  return {
+    id: 'session-1',
+    userId: 42,
+    email: 'cook@example.com',
+    firstName: 'Casey',
+    lastName: 'Cook',
+    userAgent: CHROME_ON_MAC,
+    ipAddress: '203.0.113.7',
+    ...overrides,
+  }
+}
+
+/**
+ * The token of the "this wasn't me" link in the last email sent
+ */
+function tokenFromOutbox(provider: MockEmailProvider): string {
+  const url = provider.sentEmails
+    .at(-1)
+    ?.text?.match(/https?:\/\/\S+\/auth\/not-me\?token=\S+/)?.[0]
+  if (!url) throw new Error('No new device email sent')
+  return new URL(url).searchParams.get('token')!
+}
+
+test.describe('NewDeviceAlertService', () => {
+  let now: number
+  let provider: MockEmailProvider
+  let service: NewDeviceAlertService
+
+  test.beforeEach(() => {
+    now = Date.parse('2030-01-01T12:00:00.000Z')
+    provider = new MockEmailProvider()
+    service = new NewDeviceAlertService({
+      deviceStore: new MemoryKnownDeviceStore(),
+      alertStore: new MemoryNewDeviceAlertStore(),
+      emailProvider: provider,
+      now: () => now,
+      linkTtlMs: 72 * HOUR_MS,
+    })
+  })
+
+  test('should remember the first device without an email', async () => {
+    expect(await service.checkSignIn(signIn())).toEqual({ ok: true, value: 'first_device' })
+    expect(await service.checkSignIn(signIn({ id: 'session-2' }))).toEqual({
+      ok: true,
+      value: 'known_device',
+    })
+    expect(provider.sentEmails).toHaveLength(0)
+  })
+
+  test('should email about a new device once', async () => {
+    await service.checkSignIn(signIn())
+
+    const newDevice = signIn({ id: 'session-2', userAgent: FIREFOX_ON_WINDOWS })
+    expect(await service.checkSignIn(newDevice)).toEqual({ ok: true, value: 'alerted' })
+    expect(await service.checkSignIn(newDevice)).toEqual({ ok: true, value: 'known_device' })
+
+    expect(provider.sentEmails).toHaveLength(1)
+    const message = provider.sentEmails[0]
+    expect(message.to).toBe('cook@example.com')
+    expect(message.subject).toBe('New sign-in to your Roll a Bowl account')
+    expect(message.text).toContain('Firefox on Windows from 203.0.113.7')
+    expect(message.text).toContain('expire in 72 hours')
+    expect(message.html).toContain("This Wasn't Me")
+  })
+
+  test('should treat another IP address as a new device', async () => {
+    await service.checkSignIn(signIn())
+
+    expect(await service.checkSignIn(signIn({ ipAddress: '198.51.100.4' }))).toEqual({
+      ok: true,
+      value: 'alerted',
+    })
+  })
+
+  test('should keep devices separate per user', async () => {
+    await service.checkSignIn(signIn())
+
+    expect(await service.checkSignIn(signIn({ userId: 7, email: 'other@example.com' }))).toEqual({
+      ok: true,
+      value: 'first_device',
+    })
+  })
+
+  test('should report the sign-in once and forget the device', async () => {
+    await service.checkSignIn(signIn())
+    await service.checkSignIn(signIn({ id: 'session-2', userAgent: FIREFOX_ON_WINDOWS }))
+    const token = tokenFromOutbox(provider)
+
+    const reportResult = await service.reportNotMe(token)
+    expect(reportResult.ok && reportResult.value).toMatchObject({
+      userId: 42,
+      email: 'cook@example.com',
+      sessionHandle: getSessionHandle('session-2'),
+    })
+
+    const reuseResult = await service.reportNotMe(token)
+    expect(!reuseResult.ok && reuseResult.error).toBeInstanceOf(TokenInvalidError)
+
+    // Signing in from the reported device alerts again
+    expect(
+      await service.checkSignIn(signIn({ id: 'session-3', userAgent: FIREFOX_ON_WINDOWS }))
+    ).toEqual({ ok: true, value: 'alerted' })
+  })
+
+  test('should refuse expired and unknown links', async () => {
+    await service.checkSignIn(signIn())
+    await service.checkSignIn(signIn({ id: 'session-2', userAgent: FIREFOX_ON_WINDOWS }))
+    const token = tokenFromOutbox(provider)
+
+    now += 72 * HOUR_MS
+
+    const expiredResult = await service.reportNotMe(token)
+    expect(!expiredResult.ok && expiredResult.error).toBeInstanceOf(TokenExpiredError)
+
+    const unknownResult = await service.reportNotMe('not-a-token')
+    expect(!unknownResult.ok && unknownResult.error).toBeInstanceOf(TokenInvalidError)
+  })
+})
+
+/**
+ * Behavior every known device store shares
+ */
+function describeKnownDeviceStore(name: string, createStore: () => Promise<IKnownDeviceStore>) {
+  test(`${name} should remember devices per user`, async () => {
+    const store = await createStore()
+    const seenAt = new Date('2030-01-01T12:00:00.000Z')
+
+    expect(await store.add(42, 'device-a', seenAt)).toBe(true)
+    expect(await store.add(42, 'device-a', seenAt)).toBe(false)
+    expect(await store.add(42, 'device-b', seenAt)).toBe(true)
+    expect(await store.add(7, 'device-a', seenAt)).toBe(true)
+    expect(await store.count(42)).toBe(2)
+
+    await store.remove(42, 'device-a')
+
+    expect(await store.count(42)).toBe(1)
+    expect(await store.count(7)).toBe(1)
+    expect(await store.add(42, 'device-a', seenAt)).toBe(true)
+  })
+}
+
+test.describe('Known device stores', () => {
+  let standIn: RedisStandIn
+  let redis: Redis
+
+  test.beforeAll(async () => {
+    standIn = await startRedisStandIn()
+    redis = new Redis(standIn.url)
+  })
+
+  test.afterAll(async () => {
+    await redis.quit()
+    await standIn.close()
+  })
+
+  describeKnownDeviceStore('MemoryKnownDeviceStore', async () => new MemoryKnownDeviceStore())
+
+  describeKnownDeviceStore(
+    'RedisKnownDeviceStore',
+    async () => new RedisKnownDeviceStore(redis, { keyPrefix: `kd-${Date.now()}:` })
+  )
+
+  // See sql-session-storage.spec.ts for why the AST coverage check is disabled
+  describeKnownDeviceStore('SqlKnownDeviceStore', async () => {
+    const { Pool } = newDb({ noAstCoverageCheck: true }).adapters.createPg()
+    const store = new SqlKnownDeviceStore(createPostgresDatabase(new Pool() as PostgresPool))
+    await store.initialize()
+    return store
+  })
+})
+
+/**
+ * Behavior every alert link store shares
+ */
+function describeNewDeviceAlertStore(
+  name: string,
+  createStore: () => Promise<INewDeviceAlertStore>
+) {
+  const TTL_MS = 60 * 60 * 1000
+
+  function createRecord(overrides: Partial<NewDeviceAlertRecord> = {}): NewDeviceAlertRecord {
+    return {
+      userId: 42,
+      email: 'cook@example.com',
+      sessionHandle: 'handle-1',
+      deviceHash: 'device-a',
+      expiresAt: Date.now() + TTL_MS,
+      ...overrides,
+    }
+  }
+
+  test(`${name} should keep links until they are deleted once`, async () => {
+    const store = await createStore()
+    const record = createRecord()
+
+    await store.save('hash-1', record, TTL_MS)
+
+    expect(await store.get('hash-1')).toEqual(record)
+    expect(await store.get('hash-2')).toBeNull()
+    expect(await store.delete('hash-1')).toBe(true)
+    expect(await store.delete('hash-1')).toBe(false)
+    expect(await store.get('hash-1')).toBeNull()
+  })
+
+  test(`${name} should drop expired links`, async () => {
+    const store = await createStore()
+
+    // Redis expires links by their TTL, the others when saving
+    await store.save('expired', createRecord({ expiresAt: Date.now() - 1 }), 1)
+    await new Promise((resolve) => setTimeout(resolve, 5))
+    await store.save('current', createRecord(), TTL_MS)
+
+    expect(await store.get('expired')).toBeNull()
+    expect(await store.get('current')).not.toBeNull()
+  })
+}
+
+test.describe('New device alert stores', () => {
+  let standIn: RedisStandIn
+  let redis: Redis
+
+  test.beforeAll(async () => {
+    standIn = await startRedisStandIn()
+    redis = new Redis(standIn.url)
+  })
+
+  test.afterAll(async () => {
+    await redis.quit()
+    await standIn.close()
+  })
+
+  describeNewDeviceAlertStore(
+    'MemoryNewDeviceAlertStore',
+    async () => new MemoryNewDeviceAlertStore()
+  )
+
+  describeNewDeviceAlertStore(
+    'RedisNewDeviceAlertStore',
+    async () => new RedisNewDeviceAlertStore(redis, { keyPrefix: `nda-${Date.now()}:` })
+  )
+
+  // See sql-session-storage.spec.ts for why the AST coverage check is disabled
+  describeNewDeviceAlertStore('SqlNewDeviceAlertStore', async () => {
+    const { Pool } = newDb({ noAstCoverageCheck: true }).adapters.createPg()
+    const store = new SqlNewDeviceAlertStore(createPostgresDatabase(new Pool() as PostgresPool))
+    await store.initialize()
+    return store
+  })
+})
@@ -0,0 +1,112 @@
+import { test, expect } from '@playwright/test'
+import { InMemoryCache, gql } from '@apollo/client'
+import {
+  hasMorePages,
+  isPageResult,
+  isRepeatedPage,
+  offsetPaginationFieldPolicy,
+} from '@/lib/graphql/pagination'
+
+const GET_RECIPES = gql`
+  query GetRecipes($offset: Int, $limit: Int) {
+    recipes(offset: $offset, limit: $limit) {
+      id
+      name
+    }
+  }
+`
+
+const PAGE_SIZE = 3
+
+function recipes(...ids: number[]) {
+  return ids.map((id) => ({ __typename: 'RecipeType', id, name: `Recipe ${id}` }))
+}
+
+function createCache(): InMemoryCache {
+  return new InMemoryCache({
+    typePolicies: {
+      Query: {
+        fields: {
+          recipes: offsetPaginationFieldPolicy(),
+        },
+      },
+    },
+  })
+}
+
+/**
+ * Write a response as if it answered a request for the page at `offset`
+ */
+function writePage(cache: InMemoryCache, offset: number, data: ReturnType<typeof recipes>) {
+  cache.writeQuery({
+    query: GET_RECIPES,
+    variables: { offset, limit: PAGE_SIZE },
+    data: { recipes: data },
+  })
+}
+
+function readIds(cache: InMemoryCache): number[] {
+  const data = cache.readQuery<{ recipes: { id: number }[] }>({ query: GET_RECIPES })
+  return (data?.recipes ?? []).map((recipe) => recipe.id)
+}
+
+test.describe('Offset pagination helpers', () => {
+  test('should treat responses longer than the limit as the full list', () => {
+    expect(isPageResult(3, { offset: 0, limit: 3 })).toBe(true)
+    expect(isPageResult(4, { offset: 0, limit: 3 })).toBe(false)
+    expect(isPageResult(3, {})).toBe(false)
+  })
+
+  test('should expect more pages only after a full page', () => {
+    expect(hasMorePages(3, { offset: 0, limit: 3 })).toBe(true)
+    expect(hasMorePages(2, { offset: 0, limit: 3 })).toBe(false)
+  })
+
+  test('should detect pages that repeat loaded items', () => {
+    const loaded = recipes(1, 2, 3)
+
+    expect(isRepeatedPage(loaded, recipes(1, 2, 3), (r) => r.id)).toBe(true)
+    expect(isRepeatedPage(loaded, recipes(3, 4), (r) => r.id)).toBe(true)
+    expect(isRepeatedPage(loaded, recipes(4, 5, 6), (r) => r.id)).toBe(false)
+    expect(isRepeatedPage([], recipes(1, 2, 3), (r) => r.id)).toBe(false)
+  })
+})
+
+test.describe('offsetPaginationFieldPolicy', () => {
+  test('should merge pages into place', () => {
+    const cache = createCache()
+
+    writePage(cache, 0, recipes(1, 2, 3))
+    writePage(cache, 3, recipes(4, 5, 6))
+    writePage(cache, 6, recipes(7))
+
+    expect(readIds(cache)).toEqual([1, 2, 3, 4, 5, 6, 7])
+  })
+
+  test('should drop items past a short page', () => {
+    const cache = createCache()
+
+    writePage(cache, 0, recipes(1, 2, 3))
+    writePage(cache, 3, recipes(4, 5, 6))
+    writePage(cache, 0, recipes(1, 2))
+
+    expect(readIds(cache)).toEqual([1, 2])
+  })
+
+  test('should store the full list from a backend that ignores the limit', () => {
+    const cache = createCache()
+
+    writePage(cache, 0, recipes(1, 2, 3, 4, 5))
+
+    expect(readIds(cache)).toEqual([1, 2, 3, 4, 5])
+  })
+
+  test('should not duplicate a list of exactly one page from a backend that ignores the offset', () => {
+    const cache = createCache()
+
+    writePage(cache, 0, recipes(1, 2, 3))
+    writePage(cache, 3, recipes(1, 2, 3))
+
+    expect(readIds(cache)).toEqual([1, 2, 3])
+  })
+})
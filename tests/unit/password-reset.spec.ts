@@ -0,0 +1,104 @@
+import './support/test-env'
+import { test, expect } from '@playwright/test'
+import Redis from 'ioredis'
+import { newDb } from 'pg-mem'
+import {
+  PasswordResetLinkService,
+  MemoryPasswordResetLinkStore,
+  RedisPasswordResetLinkStore,
+  SqlPasswordResetLinkStore,
+  type IPasswordResetLinkStore,
+} from '@/lib/password-reset'
+import { createPostgresDatabase, type PostgresPool } from '@/lib/session/sql-database'
+import { startRedisStandIn, type RedisStandIn } from './support/redis-stand-in'
+
+const EMAIL = 'cook@example.com'
+const TTL_MS = 24 * 60 * 60 * 1000
+
+test.describe('PasswordResetLinkService', () => {
+  let now: number
+  let service: PasswordResetLinkService
+
+  test.beforeEach(() => {
+    now = Date.parse('2030-01-01T12:00:00.000Z')
+    service = new PasswordResetLinkService({
+      store: new MemoryPasswordResetLinkStore(),
+      now: () => now,
+      ttlMs: TTL_MS,
+    })
+  })
+
+  test('should tell whom a used link was sent to, once', async () => {
+    await service.remember('reset-token', EMAIL)
+
+    expect(await service.forget('reset-token')).toBe(EMAIL)
+    expect(await service.forget('reset-token')).toBeNull()
+  })
+
+  test('should not tell whom an expired link was sent to', async () => {
+    await service.remember('reset-token', EMAIL)
+
+    now += TTL_MS
+
+    expect(await service.forget('reset-token')).toBeNull()
+  })
+
+  test('should not know links it never sent', async () => {
+    expect(await service.forget('not-a-token')).toBeNull()
+  })
+})
+
+/**
+ * Behavior every store shares
+ */
+async function expectLinksKept(store: IPasswordResetLinkStore): Promise<void> {
+  const record = { email: EMAIL, expiresAt: Date.now() + TTL_MS }
+  await store.save('hash-1', record, TTL_MS)
+
+  expect(await store.get('hash-1')).toEqual(record)
+  expect(await store.get('hash-2')).toBeNull()
+  expect(await store.delete('hash-1')).toBe(true)
+  expect(await store.delete('hash-1')).toBe(false)
+  expect(await store.get('hash-1')).toBeNull()
+}
+
+test.describe('RedisPasswordResetLinkStore', () => {
+  let standIn: RedisStandIn
+  let redis: Redis
+
+  test.beforeAll(async () => {
+    standIn = await startRedisStandIn()
+    redis = new Redis(standIn.url)
+  })
+
+  test.afterAll(async () => {
+    await redis.quit()
+    await standIn.close()
+  })
+
+  test('should keep links until they are deleted', async () => {
+    await expectLinksKept(new RedisPasswordResetLinkStore(redis))
+  })
+})
+
+test.describe('SqlPasswordResetLinkStore', () => {
+  test('should keep links until they are deleted', async () => {
+    // See sql-session-storage.spec.ts for why the AST coverage check is disabled
+    const { Pool } = newDb({ noAstCoverageCheck: true }).adapters.createPg()
+    const store = new SqlPasswordResetLinkStore(createPostgresDatabase(new Pool() as PostgresPool))
+    await store.initialize()
+
+    await expectLinksKept(store)
+  })
+
+  test('should drop expired links when saving', async () => {
+    const { Pool } = newDb({ noAstCoverageCheck: true }).adapters.createPg()
+    const store = new SqlPasswordResetLinkStore(createPostgresDatabase(new Pool() as PostgresPool))
+
+    await store.save('expired', { email: EMAIL, expiresAt: Date.now() - 1 })
+    await store.save('current', { email: EMAIL, expiresAt: Date.now() + TTL_MS })
+
+    expect(await store.get('expired')).toBeNull()
+    expect(await store.get('current')).not.toBeNull()
+  })
+})
@@ -0,0 +1,70 @@
+import { test, expect } from '@playwright/test'
+import { checkPasswordStrength, estimatePasswordStrength } from '@/lib/common/password-strength'
+
+const USER = { userInputs: ['ada.cook@example.com', 'Ada', 'Cook'] }
+
+test.describe('estimatePasswordStrength', () => {
+  test('should score common passwords 0, with suffixes and swaps', () => {
+    for (const password of ['password', 'Password1!', 'P@ssw0rd', 'summer2024', 'qwertyuiop']) {
+      const strength = estimatePasswordStrength(password)
+      expect(strength.common, password).toBe(true)
+      expect(strength.score, password).toBe(0)
+      expect(strength.warning).toBe('This is a commonly used password')
+    }
+  })
+
+  test('should score by entropy', () => {
+    expect(estimatePasswordStrength('kx8wq2mz').score).toBe(2)
+    expect(estimatePasswordStrength('Tr0ub4dor&3').score).toBe(4)
+    expect(estimatePasswordStrength('correct horse battery staple').score).toBe(4)
+  })
+
+  test('should count repeats and sequences for little', () => {
+    const repeated = estimatePasswordStrength('aaaaaaaaaaaa')
+    expect(repeated.score).toBe(0)
+    expect(repeated.warning).toContain('repeated characters')
+
+    expect(estimatePasswordStrength('abcdefghijkl').score).toBe(0)
+    expect(estimatePasswordStrength('98765432').score).toBe(0)
+  })
+
+  test("should count the user's name and email for little", () => {
+    const strength = estimatePasswordStrength('adacook!x9', USER)
+
+    expect(strength.score).toBeLessThan(estimatePasswordStrength('adacook!x9').score)
+    expect(strength.warning).toBe('Avoid using your name or email address')
+  })
+
+  test('should suggest improvements until the password is strong', () => {
+    expect(estimatePasswordStrength('kx8wq2mz').suggestions).toEqual([
+      'Use a longer password; a few unrelated words work well',
+      'Mix in upper case letters, numbers or symbols',
+    ])
+    expect(estimatePasswordStrength('Tr0ub4dor&3').suggestions).toEqual([])
+  })
+})
+
+test.describe('checkPasswordStrength', () => {
+  test('should enforce the minimum length', () => {
+    const result = checkPasswordStrength('Xk9$', { minScore: 0 })
+    expect(result).toEqual({ ok: false, error: 'Password must be at least 8 characters' })
+  })
+
+  test('should reject common passwords whatever the minimum score', () => {
+    const result = checkPasswordStrength('Password123', { minScore: 0 })
+    expect(result).toEqual({
+      ok: false,
+      error: 'This password is too common. Please choose a different one',
+    })
+  })
+
+  test('should enforce the minimum score with a hint', () => {
+    expect(checkPasswordStrength('kx8wq2mz', { minScore: 2 }).ok).toBe(true)
+
+    const result = checkPasswordStrength('kx8wq2mz', { minScore: 3 })
+    expect(result).toEqual({
+      ok: false,
+      error: 'Password is too weak. Use a longer password; a few unrelated words work well',
+    })
+  })
+})
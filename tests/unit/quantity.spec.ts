@@ -0,0 +1,88 @@
+import { test, expect } from '@playwright/test'
+import { formatNumber, formatQuantity, parseQuantity, scaleQuantity } from '@/lib/recipes/quantity'
+
+test.describe('parseQuantity', () => {
+  test('should parse integers and decimals', () => {
+    expect(parseQuantity('2 cups rice')).toEqual({ quantity: { value: 2 }, rest: 'cups rice' })
+    expect(parseQuantity('1.5 tbsp oil')).toEqual({ quantity: { value: 1.5 }, rest: 'tbsp oil' })
+    expect(parseQuantity('.5 tsp salt')).toEqual({ quantity: { value: 0.5 }, rest: 'tsp salt' })
+  })
+
+  test('should parse fractions and mixed numbers', () => {
+    expect(parseQuantity('1/2 cup milk')?.quantity).toEqual({ value: 0.5 })
+    expect(parseQuantity('1 1/2 cups flour')).toEqual({
+      quantity: { value: 1.5 },
+      rest: 'cups flour',
+    })
+    expect(parseQuantity('2 3/4')?.quantity).toEqual({ value: 2.75 })
+  })
+
+  test('should parse unicode fractions', () => {
+    expect(parseQuantity('½ cup')?.quantity).toEqual({ value: 0.5 })
+    expect(parseQuantity('1½ cups')?.quantity).toEqual({ value: 1.5 })
+    expect(parseQuantity('1 ¼ cups')?.quantity).toEqual({ value: 1.25 })
+  })
+
+  test('should parse ranges', () => {
+    expect(parseQuantity('2-3 cloves garlic')).toEqual({
+      quantity: { value: 2, maxValue: 3 },
+      rest: 'cloves garlic',
+    })
+    expect(parseQuantity('1 to 2 tbsp')?.quantity).toEqual({ value: 1, maxValue: 2 })
+  })
+
+  test('should not treat descending numbers as a range', () => {
+    expect(parseQuantity('3-2 things')).toEqual({ quantity: { value: 3 }, rest: '-2 things' })
+  })
+
+  test('should return null without a leading quantity', () => {
+    expect(parseQuantity('salt to taste')).toBeNull()
+    expect(parseQuantity('')).toBeNull()
+    expect(parseQuantity('1/0 cup')).toBeNull()
+  })
+})
+
+test.describe('scaleQuantity', () => {
+  test('should scale values and both ends of a range', () => {
+    expect(scaleQuantity({ value: 1.5 }, 2)).toEqual({ value: 3 })
+    expect(scaleQuantity({ value: 2, maxValue: 3 }, 0.5)).toEqual({ value: 1, maxValue: 1.5 })
+  })
+})
+
+test.describe('formatNumber', () => {
+  test('should format whole numbers', () => {
+    expect(formatNumber(2)).toBe('2')
+    expect(formatNumber(2.999)).toBe('3')
+  })
+
+  test('should prefer kitchen fractions', () => {
+    expect(formatNumber(0.5)).toBe('1/2')
+    expect(formatNumber(1.5)).toBe('1 1/2')
+    expect(formatNumber(1 / 3)).toBe('1/3')
+    expect(formatNumber(2 / 3)).toBe('2/3')
+    expect(formatNumber(0.75)).toBe('3/4')
+    expect(formatNumber(0.125)).toBe('1/8')
+  })
+
+  test('should fall back to decimals', () => {
+    expect(formatNumber(2.45)).toBe('2.45')
+    expect(formatNumber(0.1)).toBe('0.1')
+  })
+})
+
+test.describe('formatQuantity', () => {
+  test('should format ranges', () => {
+    expect(formatQuantity({ value: 1.5, maxValue: 2 })).toBe('1 1/2-2')
+  })
+
+  test('should format decimals when asked', () => {
+    expect(formatQuantity({ value: 2.5 }, { style: 'decimal' })).toBe('2.5')
+    expect(formatQuantity({ value: 1 / 3 }, { style: 'decimal' })).toBe('0.33')
+  })
+
+  test('should round-trip through parseQuantity', () => {
+    for (const text of ['1/2', '1 1/2', '2', '2-3', '3/4', '1 1/3']) {
+      expect(formatQuantity(parseQuantity(text)!.quantity)).toBe(text)
+    }
+  })
+})
@@ -0,0 +1,217 @@
+import './support/test-env'
+import { test, expect } from '@playwright/test'
+import type { Request, Response } from 'express'
+import Redis from 'ioredis'
+import {
+  RateLimiter,
+  MemoryRateLimitStore,
+  RedisRateLimitStore,
+  type IRateLimitStore,
+} from '@/lib/rate-limit'
+import { rateLimit } from '@/server/middleware/rate-limit'
+import { TooManyLoginAttemptsError } from '@/lib/exceptions'
+import { getSessionHandle } from '@/lib/session'
+import { startRedisStandIn, type RedisStandIn } from './support/redis-stand-in'
+
+const RULE = { limit: 3, windowMs: 60_000 }
+const NOW = Date.parse('2030-01-01T12:00:00.000Z')
+
+/**
+ * Sliding window behavior every store must have
+ */
+function describeStore(name: string, getStore: () => IRateLimitStore) {
+  test.describe(name, () => {
+    test('should allow hits up to the limit', async () => {
+      const store = getStore()
+
+      expect(await store.hit('k', RULE, NOW)).toEqual({
+        allowed: true,
+        remaining: 2,
+        retryAfterMs: 0,
+      })
+      await store.hit('k', RULE, NOW + 1_000)
+      expect((await store.hit('k', RULE, NOW + 2_000)).remaining).toBe(0)
+
+      expect(await store.hit('k', RULE, NOW + 3_000)).toEqual({
+        allowed: false,
+        remaining: 0,
+        retryAfterMs: 57_000,
+      })
+      // Other keys are counted separately
+      expect((await store.hit('other', RULE, NOW + 3_000)).allowed).toBe(true)
+    })
+
+    test('should allow hits again as earlier hits leave the window', async () => {
+      const store = getStore()
+      await store.hit('k', RULE, NOW)
+      await store.hit('k', RULE, NOW + 10_000)
+      await store.hit('k', RULE, NOW + 20_000)
+
+      // Rejected hits don't push the window further out
+      expect((await store.hit('k', RULE, NOW + 30_000)).retryAfterMs).toBe(30_000)
+      expect((await store.hit('k', RULE, NOW + 60_000)).allowed).toBe(true)
+      expect((await store.hit('k', RULE, NOW + 61_000)).retryAfterMs).toBe(9_000)
+    })
+
+    test('should forget hits on reset', async () => {
+      const store = getStore()
+      for (let i = 0; i < RULE.limit; i++) {
+        await store.hit('k', RULE, NOW)
+      }
+
+      await store.reset('k')
+
+      expect((await store.hit('k', RULE, NOW)).allowed).toBe(true)
+    })
+  })
+}
+
+describeStore('MemoryRateLimitStore', () => new MemoryRateLimitStore())
+
+test.describe('RedisRateLimitStore', () => {
+  let standIn: RedisStandIn
+  let redis: Redis
+  let keyCount = 0
+
+  test.beforeAll(async () => {
+    standIn = await startRedisStandIn()
+    redis = new Redis(standIn.url)
+  })
+
+  test.afterAll(async () => {
+    await redis.quit()
+    await standIn.close()
+  })
+
+  // The stand-in expires keys by the real clock, so each test gets its own prefix
+  describeStore('behavior', () => new RedisRateLimitStore(redis, { keyPrefix: `rl${++keyCount}:` }))
+
+  test('should expire keys with the window', async () => {
+    const store = new RedisRateLimitStore(redis, { keyPrefix: 'ttl:' })
+    await store.hit('k', RULE, Date.now())
+
+    const ttl = await redis.pttl('ttl:k')
+    expect(ttl).toBeGreaterThan(RULE.windowMs - 5_000)
+    expect(ttl).toBeLessThanOrEqual(RULE.windowMs)
+  })
+})
+
+test.describe('RateLimiter', () => {
+  test('should reject when any key is over its limit', async () => {
+    const limiter = new RateLimiter({
+      store: new MemoryRateLimitStore(),
+      now: () => NOW,
+      enabled: true,
+    })
+    const perEmail = { key: 'login:email:cook@example.com', rule: { limit: 1, windowMs: 60_000 } }
+
+    expect((await limiter.hitAll([{ key: 'login:ip:1', rule: RULE }, perEmail])).allowed).toBe(true)
+
+    const result = await limiter.hitAll([{ key: 'login:ip:2', rule: RULE }, perEmail])
+    expect(result).toEqual({ allowed: false, remaining: 0, retryAfterMs: 60_000 })
+  })
+
+  test('should allow everything when disabled', async () => {
+    const limiter = new RateLimiter({ store: new MemoryRateLimitStore(), enabled: false })
+
+    for (let i = 0; i < 5; i++) {
+      expect((await limiter.hit('k', { limit: 1, windowMs: 60_000 })).allowed).toBe(true)
+    }
+  })
+})
+
+test.describe('rateLimit middleware', () => {
+  function fakeResponse() {
+    const response = {
+      statusCode: 200,
+      headers: {} as Record<string, string>,
+      body: undefined as unknown,
+      setHeader(name: string, value: string) {
+        response.headers[name] = value
+        return response
+      },
+      status(code: number) {
+        response.statusCode = code
+        return response
+      },
+      json(body: unknown) {
+        response.body = body
+        return response
+      },
+    }
+    return response
+  }
+
+  test('should answer 429 with Retry-After once the email limit is reached', async () => {
+    const middleware = rateLimit({
+      name: 'login',
+      perIp: RULE,
+      perEmail: { limit: 1, windowMs: 60_000 },
+      createError: (retryAfter) => new TooManyLoginAttemptsError(retryAfter),
+      limiter: new RateLimiter({
+        store: new MemoryRateLimitStore(),
+        now: () => NOW,
+        enabled: true,
+      }),
+    })
+    const request = (ip: string) =>
+      ({ ip, body: { email: ' Cook@Example.com' } }) as unknown as Request
+
+    let nextCalls = 0
+    await middleware(request('10.0.0.1'), fakeResponse() as unknown as Response, () => nextCalls++)
+    expect(nextCalls).toBe(1)
+
+    const response = fakeResponse()
+    await middleware(request('10.0.0.2'), response as unknown as Response, () => nextCalls++)
+
+    expect(nextCalls).toBe(1)
+    expect(response.statusCode).toBe(429)
+    expect(response.headers['Retry-After']).toBe('60')
+    expect(response.body).toEqual({
+      success: false,
+      error: 'Too many login attempts. Try again in 60 seconds',
+      code: 'RATE_LIMIT_EXCEEDED',
+    })
+  })
+
+  test('should count signed-in and two-factor sessions across IPs', async () => {
+    const store = new MemoryRateLimitStore()
+    const keys: string[] = []
+    const middleware = rateLimit({
+      name: 'login-2fa',
+      perIp: RULE,
+      perSession: { limit: 1, windowMs: 60_000 },
+      createError: (retryAfter) => new TooManyLoginAttemptsError(retryAfter),
+      limiter: new RateLimiter({
+        store: {
+          hit: (key, rule, now) => {
+            keys.push(key)
+            return store.hit(key, rule, now)
+          },
+          reset: (key) => store.reset(key),
+        },
+        now: () => NOW,
+        enabled: true,
+      }),
+    })
+    const request = (ip: string, session: Record<string, string>) =>
+      ({ ip, body: {}, ...session }) as unknown as Request
+
+    let nextCalls = 0
+    const statusOf = async (ip: string, session: Record<string, string>) => {
+      const response = fakeResponse()
+      await middleware(request(ip, session), response as unknown as Response, () => nextCalls++)
+      return response.statusCode
+    }
+
+    expect(await statusOf('10.0.0.1', { sessionId: 'sess_1' })).toBe(200)
+    expect(await statusOf('10.0.0.2', { sessionId: 'sess_1' })).toBe(429)
+    expect(await statusOf('10.0.0.3', { pendingSessionId: 'sess_2' })).toBe(200)
+    expect(await statusOf('10.0.0.4', { pendingSessionId: 'sess_2' })).toBe(429)
+    expect(nextCalls).toBe(2)
+
+    // Counters are keyed by the session handle, never the session ID itself
+    expect(keys).toContain(`login-2fa:session:${getSessionHandle('sess_1')}`)
+    expect(keys.some((key) => key.includes('sess_'))).toBe(false)
+  })
+})
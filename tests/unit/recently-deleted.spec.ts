@@ -0,0 +1,102 @@
+import { test, expect } from '@playwright/test'
+import {
+  forgetDeletedRecipe,
+  readDeletedRecipe,
+  rememberDeletedRecipe,
+  UNDO_DELETE_WINDOW_MS,
+} from '@/lib/recipes/recently-deleted'
+
+/**
+ * A sessionStorage stand-in backed by a Map
+ */
+function createStorage(): Pick<Storage, 'getItem' | 'setItem' | 'removeItem'> & {
+  entries: Map<string, string>
+} {
+  const entries = new Map<string, string>()
+  return {
+    entries,
+    getItem: (key) => entries.get(key) ?? null,
+    setItem: (key, value) => {
+      entries.set(key, value)
+    },
+    removeItem: (key) => {
+      entries.delete(key)
+    },
+  }
+}
+
+const throwingStorage = {
+  getItem: () => {
+    throw new Error('SecurityError')
+  },
+  setItem: () => {
+    throw new Error('QuotaExceededError')
+  },
+  removeItem: () => {
+    throw new Error('SecurityError')
+  },
+}
+
+const CURRY = { name: 'Green Curry', instructions: 'Simmer.' }
+
+test.describe('Recently deleted recipe', () => {
+  let storage: ReturnType<typeof createStorage>
+
+  test.beforeEach(() => {
+    storage = createStorage()
+    ;(globalThis as any).window = { sessionStorage: storage }
+  })
+
+  test.afterEach(() => {
+    delete (globalThis as any).window
+  })
+
+  test('should restore a recipe within the undo window', () => {
+    const before = Date.now()
+    rememberDeletedRecipe(CURRY)
+
+    const deleted = readDeletedRecipe()
+
+    expect(deleted).toMatchObject(CURRY)
+    expect(deleted!.deletedAt).toBeGreaterThanOrEqual(before)
+    expect(readDeletedRecipe(deleted!.deletedAt + UNDO_DELETE_WINDOW_MS - 1)).toEqual(deleted)
+  })
+
+  test('should forget the recipe once the undo window has passed', () => {
+    rememberDeletedRecipe(CURRY)
+    const { deletedAt } = readDeletedRecipe()!
+
+    expect(readDeletedRecipe(deletedAt + UNDO_DELETE_WINDOW_MS)).toBeNull()
+    expect(storage.entries.size).toBe(0)
+    expect(readDeletedRecipe(deletedAt)).toBeNull()
+  })
+
+  test('should only remember the last deleted recipe', () => {
+    rememberDeletedRecipe(CURRY)
+    rememberDeletedRecipe({ name: 'Soup', instructions: null })
+
+    expect(readDeletedRecipe()).toMatchObject({ name: 'Soup', instructions: null })
+  })
+
+  test('should forget the recipe once restored', () => {
+    rememberDeletedRecipe(CURRY)
+
+    forgetDeletedRecipe()
+
+    expect(readDeletedRecipe()).toBeNull()
+  })
+
+  test('should ignore unreadable entries', () => {
+    storage.setItem('recipes:recently-deleted', '{not json')
+
+    expect(readDeletedRecipe()).toBeNull()
+  })
+
+  test('should not offer undo when storage is unavailable', () => {
+    ;(globalThis as any).window = { sessionStorage: throwingStorage }
+
+    expect(() => rememberDeletedRecipe(CURRY)).not.toThrow()
+    expect(readDeletedRecipe()).toBeNull()
+    expect(() => forgetDeletedRecipe()).not.toThrow()
+  })
+})
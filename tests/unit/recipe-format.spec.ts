@@ -0,0 +1,186 @@
+import { test, expect } from '@playwright/test'
+import {
+  parseIngredientRow,
+  parseStructuredRecipe,
+  serializeIngredientRow,
+  serializeStructuredRecipe,
+  structureFreeText,
+  validateIngredientRow,
+  type IngredientRow,
+  type StructuredRecipe,
+} from '@/lib/recipes/recipe-format'
+
+function row(fields: Partial<IngredientRow>): IngredientRow {
+  return { quantity: '', unit: '', item: '', note: '', ...fields }
+}
+
+const RECIPE: StructuredRecipe = {
+  servings: 4,
+  ingredients: [
+    row({ quantity: '2', unit: 'cups', item: 'rice', note: 'rinsed' }),
+    row({ quantity: '1 1/2', unit: 'tbsp', item: 'soy sauce' }),
+    row({ quantity: '2-3', item: 'eggs' }),
+    row({ unit: 'pinch', item: 'chili flakes' }),
+    row({ item: 'salt', note: 'to taste' }),
+    row({ quantity: '½', unit: 'cup', item: 'peas (frozen)' }),
+  ],
+  steps: ['Rinse the rice.', 'Cook until tender, about 15 minutes.'],
+}
+
+test.describe('serializeStructuredRecipe', () => {
+  test('should write the Markdown subset', () => {
+    expect(serializeStructuredRecipe(RECIPE)).toBe(
+      [
+        '## Ingredients (serves 4)',
+        '- **2 cups** rice _rinsed_',
+        '- **1 1/2 tbsp** soy sauce',
+        '- **2-3** eggs',
+        '- **pinch** chili flakes',
+        '- salt _to taste_',
+        '- **½ cup** peas (frozen)',
+        '',
+        '## Steps',
+        '1. Rinse the rice.',
+        '2. Cook until tender, about 15 minutes.',
+      ].join('\n')
+    )
+  })
+
+  test('should omit empty rows, steps and sections', () => {
+    expect(
+      serializeStructuredRecipe({
+        servings: null,
+        ingredients: [row({ quantity: '2', unit: 'cups' }), row({ item: '  rice  ' })],
+        steps: ['  ', ''],
+      })
+    ).toBe('## Ingredients\n- rice')
+    expect(serializeStructuredRecipe({ servings: 2, ingredients: [], steps: ['Boil.'] })).toBe(
+      '## Steps\n1. Boil.'
+    )
+  })
+})
+
+test.describe('parseStructuredRecipe', () => {
+  test('should round-trip serialized recipes exactly', () => {
+    expect(parseStructuredRecipe(serializeStructuredRecipe(RECIPE))).toEqual(RECIPE)
+  })
+
+  test('should round-trip every valid row', () => {
+    for (const ingredient of RECIPE.ingredients) {
+      expect(validateIngredientRow(ingredient)).toBeNull()
+      expect(parseIngredientRow(serializeIngredientRow(ingredient))).toEqual(ingredient)
+    }
+  })
+
+  test('should accept either section alone and Windows line endings', () => {
+    expect(parseStructuredRecipe('## Steps\r\n1. Boil.\r\n2. Serve.')).toEqual({
+      servings: null,
+      ingredients: [],
+      steps: ['Boil.', 'Serve.'],
+    })
+    expect(parseStructuredRecipe('## Ingredients\n- salt')?.ingredients).toEqual([
+      row({ item: 'salt' }),
+    ])
+  })
+
+  test('should treat anything else as free text', () => {
+    expect(parseStructuredRecipe('Boil the pasta.')).toBeNull()
+    expect(parseStructuredRecipe('')).toBeNull()
+    // Text before the first heading
+    expect(parseStructuredRecipe('Intro\n## Steps\n1. Boil.')).toBeNull()
+    // Non-ingredient line in the ingredients section
+    expect(parseStructuredRecipe('## Ingredients\n* salt')).toBeNull()
+    // Steps out of order
+    expect(parseStructuredRecipe('## Steps\n1. Boil.\n3. Serve.')).toBeNull()
+    // Repeated section
+    expect(parseStructuredRecipe('## Steps\n1. Boil.\n## Steps\n1. Serve.')).toBeNull()
+    // Servings must be a positive whole number
+    expect(parseStructuredRecipe('## Ingredients (serves 0)\n- salt')).toBeNull()
+  })
+})
+
+test.describe('validateIngredientRow', () => {
+  test('should accept blank rows and plain rows', () => {
+    expect(validateIngredientRow(row({}))).toBeNull()
+    expect(validateIngredientRow(row({ quantity: '1.5', unit: 'kg', item: 'flour' }))).toBeNull()
+    expect(validateIngredientRow(row({ item: 'salt & pepper_mix' }))).toBeNull()
+  })
+
+  test('should require an item for rows with other fields', () => {
+    expect(validateIngredientRow(row({ quantity: '2' }))).toBe(
+      'Every ingredient needs an item name'
+    )
+    expect(validateIngredientRow(row({ note: 'diced' }))).toBe(
+      'Every ingredient needs an item name'
+    )
+  })
+
+  test('should reject quantities that are not numbers', () => {
+    expect(validateIngredientRow(row({ quantity: 'a few', item: 'eggs' }))).toBe(
+      `"a few" isn't a quantity. Use numbers like 2, 1.5, 1/2, 1 1/2 or 2-3`
+    )
+    expect(validateIngredientRow(row({ quantity: '2 cups', item: 'rice' }))).toMatch(
+      /isn't a quantity/
+    )
+  })
+
+  test('should reject amounts typed into the unit field', () => {
+    expect(validateIngredientRow(row({ unit: '2 cups', item: 'rice' }))).toBe(
+      'Put the amount for "rice" in the quantity field'
+    )
+  })
+
+  test('should reject text that would change meaning when serialized', () => {
+    expect(validateIngredientRow(row({ quantity: '2', unit: 'c*ps', item: 'rice' }))).toBe(
+      `The unit for "rice" can't contain "*"`
+    )
+    expect(validateIngredientRow(row({ item: 'rice', note: 'well_rinsed' }))).toBe(
+      `The note for "rice" can't contain "_"`
+    )
+    expect(validateIngredientRow(row({ item: '**rice' }))).toMatch(/can't start with "\*\*"/)
+    expect(validateIngredientRow(row({ item: 'rice _rinsed_' }))).toMatch(
+      /end with an underscored word/
+    )
+  })
+
+  test('should only accept rows that round-trip', () => {
+    // Each of these would read back differently if it were accepted
+    const rejected = [
+      row({ item: 'rice', note: 'a_b' }),
+      row({ quantity: '2', unit: 'c**', item: 'rice' }),
+      row({ item: 'rice _rinsed_' }),
+    ]
+
+    for (const ingredient of rejected) {
+      expect(parseIngredientRow(serializeIngredientRow(ingredient))).not.toEqual(ingredient)
+      expect(validateIngredientRow(ingredient)).not.toBeNull()
+    }
+  })
+})
+
+test.describe('structureFreeText', () => {
+  test('should turn bullets into ingredients and other lines into steps', () => {
+    expect(
+      structureFreeText(
+        [
+          '# Fried rice',
+          'Ingredients:',
+          '- 2 cups rice',
+          '- 3 eggs',
+          '* Salt',
+          '',
+          '1. Fry the eggs.',
+          '2) Add the rice.',
+        ].join('\n')
+      )
+    ).toEqual({
+      servings: null,
+      ingredients: [
+        row({ quantity: '2', unit: 'cups', item: 'rice' }),
+        row({ quantity: '3', item: 'eggs' }),
+        row({ item: 'Salt' }),
+      ],
+      steps: ['Fry the eggs.', 'Add the rice.'],
+    })
+  })
+})
@@ -0,0 +1,136 @@
+import { test, expect } from '@playwright/test'
+import {
+  findMatchRanges,
+  getMatchSnippet,
+  isRecipeSortKey,
+  matchesRecipe,
+  parseSearchTerms,
+  searchRecipes,
+  type SearchableRecipe,
+} from '@/lib/recipes/search'
+
+function recipe(name: string, fields: Partial<SearchableRecipe> = {}): SearchableRecipe {
+  return {
+    name,
+    slug: name.toLowerCase().replace(/\s+/g, '-'),
+    instructions: null,
+    createdAt: '2024-01-01T00:00:00.000Z',
+    updatedAt: '2024-01-01T00:00:00.000Z',
+    ...fields,
+  }
+}
+
+const RECIPES = [
+  recipe('Green Curry', {
+    instructions: 'Simmer coconut milk with curry paste.',
+    createdAt: '2024-03-01T00:00:00.000Z',
+    updatedAt: '2024-03-05T00:00:00.000Z',
+  }),
+  recipe('apple pie', {
+    createdAt: '2024-02-01T00:00:00.000Z',
+    updatedAt: '2024-03-09T00:00:00.000Z',
+  }),
+  recipe('Buddha Bowl', {
+    instructions: 'Top rice with chickpeas and tahini.',
+    createdAt: '2024-03-01T00:00:00.000Z',
+    updatedAt: '2024-03-01T00:00:00.000Z',
+  }),
+]
+
+test.describe('parseSearchTerms', () => {
+  test('should lowercase, split and de-duplicate terms', () => {
+    expect(parseSearchTerms('  Curry  PASTE curry ')).toEqual(['curry', 'paste'])
+    expect(parseSearchTerms('   ')).toEqual([])
+  })
+})
+
+test.describe('matchesRecipe', () => {
+  test('should require every term in the name, slug or instructions', () => {
+    const curry = RECIPES[0]
+
+    expect(matchesRecipe(curry, ['green'])).toBe(true)
+    expect(matchesRecipe(curry, ['green-curry'])).toBe(true)
+    expect(matchesRecipe(curry, ['coconut', 'curry'])).toBe(true)
+    expect(matchesRecipe(curry, ['coconut', 'tahini'])).toBe(false)
+  })
+
+  test('should handle recipes without instructions', () => {
+    expect(matchesRecipe(RECIPES[1], ['pie'])).toBe(true)
+    expect(matchesRecipe(RECIPES[1], ['null'])).toBe(false)
+  })
+})
+
+test.describe('findMatchRanges', () => {
+  test('should find every occurrence case-insensitively', () => {
+    expect(findMatchRanges('Curry and more curry', ['curry'])).toEqual([
+      [0, 5],
+      [15, 20],
+    ])
+  })
+
+  test('should merge overlapping and adjacent matches', () => {
+    expect(findMatchRanges('Buddha Bowl', ['bo', 'bowl'])).toEqual([[7, 11]])
+    expect(findMatchRanges('rice', ['ri', 'ce'])).toEqual([[0, 4]])
+  })
+
+  test('should return nothing without matches', () => {
+    expect(findMatchRanges('Buddha Bowl', ['curry'])).toEqual([])
+  })
+})
+
+test.describe('getMatchSnippet', () => {
+  test('should show the text around the first match with ellipses', () => {
+    const text = `${'a'.repeat(100)}\n\ncoconut  milk ${'b'.repeat(100)}`
+
+    expect(getMatchSnippet(text, ['coconut'], 6)).toBe('…aaaa coconut milk…')
+    expect(getMatchSnippet('Simmer coconut milk.', ['coconut'])).toBe('Simmer coconut milk.')
+  })
+
+  test('should return null without a match', () => {
+    expect(getMatchSnippet('Simmer coconut milk.', ['tahini'])).toBeNull()
+  })
+})
+
+test.describe('searchRecipes', () => {
+  test('should sort by name case-insensitively by default', () => {
+    expect(searchRecipes(RECIPES, '').map((r) => r.name)).toEqual([
+      'apple pie',
+      'Buddha Bowl',
+      'Green Curry',
+    ])
+  })
+
+  test('should sort newest first with names breaking ties', () => {
+    expect(searchRecipes(RECIPES, '', 'created').map((r) => r.name)).toEqual([
+      'Buddha Bowl',
+      'Green Curry',
+      'apple pie',
+    ])
+    expect(searchRecipes(RECIPES, '', 'updated').map((r) => r.name)).toEqual([
+      'apple pie',
+      'Green Curry',
+      'Buddha Bowl',
+    ])
+  })
+
+  test('should filter by every term', () => {
+    expect(searchRecipes(RECIPES, 'rice tahini').map((r) => r.name)).toEqual(['Buddha Bowl'])
+    expect(searchRecipes(RECIPES, 'rice curry')).toEqual([])
+  })
+
+  test('should not reorder the input', () => {
+    const input = [...RECIPES]
+
+    searchRecipes(input, '', 'created')
+
+    expect(input).toEqual(RECIPES)
+  })
+})
+
+test.describe('isRecipeSortKey', () => {
+  test('should accept only known sort keys', () => {
+    expect(isRecipeSortKey('updated')).toBe(true)
+    expect(isRecipeSortKey('rating')).toBe(false)
+    expect(isRecipeSortKey(null)).toBe(false)
+  })
+})
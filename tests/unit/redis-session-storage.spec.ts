@@ -0,0 +1,68 @@
+import './support/test-env'
+import { test, expect } from '@playwright/test'
+import Redis from 'ioredis'
+import { RedisSessionStorage } from '@/lib/session/redis-storage'
+import { startRedisStandIn, type RedisStandIn } from './support/redis-stand-in'
+import { createTestSession } from './support/session-storage-behavior'
+
+const TTL_MS = 60_000
+
+// Behavior shared with the other backends is covered in session-storage.spec.ts
+
+test.describe('RedisSessionStorage', () => {
+  let standIn: RedisStandIn
+  let redis: Redis
+  let storage: RedisSessionStorage
+
+  test.beforeAll(async () => {
+    standIn = await startRedisStandIn()
+    redis = new Redis(standIn.url)
+    storage = new RedisSessionStorage(redis, { ttlMs: TTL_MS })
+  })
+
+  test.afterAll(async () => {
+    await redis.quit()
+    await standIn.close()
+  })
+
+  test.beforeEach(async () => {
+    await storage.clear()
+  })
+
+  test('should set the TTL on every save', async () => {
+    await storage.save(createTestSession())
+
+    const ttl = await redis.pttl('session:sess_1')
+    expect(ttl).toBeGreaterThan(TTL_MS - 5_000)
+    expect(ttl).toBeLessThanOrEqual(TTL_MS)
+  })
+
+  test('should share sessions between storage instances', async () => {
+    const otherClient = new Redis(standIn.url)
+    const otherInstance = new RedisSessionStorage(otherClient, { ttlMs: TTL_MS })
+
+    await storage.save(createTestSession())
+    expect(await otherInstance.get('sess_1')).toEqual(createTestSession())
+
+    await otherClient.quit()
+  })
+
+  test('should drop unreadable session data', async () => {
+    await redis.set('session:sess_1', '{not json')
+
+    expect(await storage.get('sess_1')).toBeNull()
+    expect(await redis.get('session:sess_1')).toBeNull()
+  })
+
+  test('should only clear session keys', async () => {
+    await storage.save(createTestSession({ id: 'sess_1' }))
+    await storage.save(createTestSession({ id: 'sess_2' }))
+    await redis.set('rate-limit:login', '3')
+
+    await storage.clear()
+
+    expect(await storage.get('sess_1')).toBeNull()
+    expect(await storage.get('sess_2')).toBeNull()
+    expect(await redis.get('rate-limit:login')).toBe('3')
+  })
+})
@@ -0,0 +1,161 @@
+import './support/test-env'
+import { test, expect } from '@playwright/test'
+import type { AddressInfo } from 'net'
+import express, { type Request, type Response } from 'express'
+import { hasRole, parseUserRoles, type UserRole } from '@/lib/common/roles'
+import { sessionManager } from '@/lib/session'
+import { requireRole, type RequireRoleOptions } from '@/server/middleware/require-role'
+import sessionMiddleware from '@/server/middleware/session'
+import graphqlRoutes from '@/server/routes/graphql'
+
+test.describe('parseUserRoles', () => {
+  test('should read a roles array or a single role', () => {
+    expect(parseUserRoles({ roles: ['viewer', 'owner'] })).toEqual(['viewer', 'owner'])
+    expect(parseUserRoles({ role: ' Viewer ' })).toEqual(['viewer'])
+  })
+
+  test('should drop unknown and duplicate roles', () => {
+    expect(parseUserRoles({ roles: ['admin', 'editor', 'EDITOR', 7] })).toEqual(['editor'])
+  })
+
+  test('should fall back to the default roles', () => {
+    expect(parseUserRoles({})).toEqual(['viewer'])
+    expect(parseUserRoles({ roles: [] })).toEqual(['viewer'])
+    expect(parseUserRoles({ roles: ['admin'] })).toEqual(['viewer'])
+  })
+})
+
+test.describe('hasRole', () => {
+  test('should grant higher roles the permissions of lower ones', () => {
+    expect(hasRole(['owner'], 'editor')).toBe(true)
+    expect(hasRole(['editor'], 'viewer')).toBe(true)
+    expect(hasRole(['editor'], 'editor')).toBe(true)
+  })
+
+  test('should refuse lower roles and missing roles', () => {
+    expect(hasRole(['viewer'], 'editor')).toBe(false)
+    expect(hasRole(['editor'], 'owner')).toBe(false)
+    expect(hasRole([], 'viewer')).toBe(false)
+    expect(hasRole(undefined, 'viewer')).toBe(false)
+  })
+})
+
+test.describe('requireRole', () => {
+  function fakeRequest(options: { roles?: UserRole[]; mutation?: boolean } = {}): Request {
+    return {
+      path: '/graphql',
+      sessionId: options.roles ? 'sess_1' : undefined,
+      userRoles: options.roles,
+      mutation: options.mutation ?? true,
+    } as unknown as Request
+  }
+
+  function run(request: Request, role: UserRole, options?: RequireRoleOptions) {
+    const response = {
+      statusCode: 200,
+      body: undefined as any,
+      status(code: number) {
+        response.statusCode = code
+        return response
+      },
+      json(body: unknown) {
+        response.body = body
+        return response
+      },
+    }
+    let passed = false
+    requireRole(role, options)(request, response as unknown as Response, () => {
+      passed = true
+    })
+    return { passed, response }
+  }
+
+  test('should let sessions with the role or a higher one through', () => {
+    expect(run(fakeRequest({ roles: ['editor'] }), 'editor').passed).toBe(true)
+    expect(run(fakeRequest({ roles: ['owner'] }), 'editor').passed).toBe(true)
+  })
+
+  test('should reject sessions without the role with 403', () => {
+    const { passed, response } = run(fakeRequest({ roles: ['viewer'] }), 'editor')
+
+    expect(passed).toBe(false)
+    expect(response.statusCode).toBe(403)
+    expect(response.body).toEqual({
+      success: false,
+      error: 'Insufficient role: editor required',
+      code: 'INSUFFICIENT_ROLE',
+    })
+  })
+
+  test('should reject requests without a session with 401', () => {
+    const { passed, response } = run(fakeRequest(), 'viewer')
+
+    expect(passed).toBe(false)
+    expect(response.statusCode).toBe(401)
+    expect(response.body.code).toBe('SESSION_NOT_FOUND')
+  })
+
+  test('should only check the requests selected by when', () => {
+    const options: RequireRoleOptions = { when: (req) => (req as any).mutation }
+
+    expect(run(fakeRequest({ roles: ['viewer'], mutation: false }), 'editor', options).passed).toBe(
+      true
+    )
+    expect(run(fakeRequest({ roles: ['viewer'], mutation: true }), 'editor', options).passed).toBe(
+      false
+    )
+  })
+
+  test('should send errors with sendError when given', () => {
+    const { response } = run(fakeRequest({ roles: ['viewer'] }), 'editor', {
+      sendError: (res, statusCode, error) => {
+        res.status(statusCode).json({ errors: [{ extensions: { code: error.code } }] })
+      },
+    })
+
+    expect(response.statusCode).toBe(403)
+    expect(response.body).toEqual({ errors: [{ extensions: { code: 'INSUFFICIENT_ROLE' } }] })
+  })
+})
+
+test.describe('GraphQL route roles', () => {
+  test('should refuse mutations from viewers before they reach the backend', async () => {
+    const app = express()
+    app.use(express.json())
+    app.use(sessionMiddleware)
+    app.use('/api/graphql', graphqlRoutes)
+    const server = app.listen(0)
+
+    try {
+      const session = await sessionManager.createSession({
+        userId: 42,
+        email: 'viewer@example.com',
+        firstName: 'Ada',
+        lastName: 'Cook',
+        emailVerified: true,
+        roles: ['viewer'],
+        userToken: 'user-token',
+        userTokenExpiresAt: new Date(Date.now() + 60 * 60 * 1000),
+      })
+      const { port } = server.address() as AddressInfo
+
+      const response = await fetch(`http://127.0.0.1:${port}/api/graphql`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json', Cookie: `auth-session=${session.id}` },
+        body: JSON.stringify({ query: 'mutation { deleteRecipe(id: 1) { id } }' }),
+      })
+
+      expect(response.status).toBe(403)
+      expect(await response.json()).toEqual({
+        errors: [
+          {
+            message: 'Insufficient role: editor required',
+            extensions: { code: 'INSUFFICIENT_ROLE' },
+          },
+        ],
+      })
+    } finally {
+      server.close()
+    }
+  })
+})
@@ -0,0 +1,116 @@
+import './support/test-env'
+import { test, expect } from '@playwright/test'
+import { SessionManager, getSessionHandle, type CreateSessionOptions } from '@/lib/session'
+
+function loginOptions(overrides: Partial<CreateSessionOptions> = {}): CreateSessionOptions {
+  return {
+    userId: 42,
+    email: 'cook@example.com',
+    firstName: 'Ada',
+    lastName: 'Cook',
+    emailVerified: true,
+    roles: ['editor'],
+    userToken: 'user-token',
+    userTokenExpiresAt: new Date(Date.now() + 60 * 60 * 1000),
+    ...overrides,
+  }
+}
+
+test.describe('SessionManager per-user sessions', () => {
+  let manager: SessionManager
+
+  test.beforeEach(() => {
+    // Uses in-memory storage (SESSION_STORAGE is unset in tests)
+    manager = new SessionManager()
+  })
+
+  test("should list a user's sessions, most recently used first", async () => {
+    const laptop = await manager.createSession(loginOptions({ userAgent: 'Laptop' }))
+    const phone = await manager.createSession(loginOptions({ userAgent: 'Phone' }))
+    await manager.createSession(loginOptions({ userId: 7 }))
+
+    await new Promise((resolve) => setTimeout(resolve, 5))
+    await manager.getSession(laptop.id)
+
+    const sessions = await manager.listUserSessions(42)
+    expect(sessions.map((session) => session.id)).toEqual([laptop.id, phone.id])
+    expect(sessions[0].userAgent).toBe('Laptop')
+  })
+
+  test('should leave out sessions whose user token has expired', async () => {
+    await manager.createSession(loginOptions({ userTokenExpiresAt: new Date(Date.now() - 1000) }))
+
+    expect(await manager.listUserSessions(42)).toEqual([])
+  })
+
+  test('should find a session only by its owner and handle', async () => {
+    const session = await manager.createSession(loginOptions())
+    const handle = getSessionHandle(session.id)
+
+    expect(handle).not.toContain(session.id)
+    expect((await manager.findUserSession(42, handle))?.id).toBe(session.id)
+    expect(await manager.findUserSession(7, handle)).toBeNull()
+    expect(await manager.findUserSession(42, 'unknown')).toBeNull()
+  })
+
+  test('should delete every other session of the user', async () => {
+    const current = await manager.createSession(loginOptions({ userToken: 'token-current' }))
+    await manager.createSession(loginOptions({ userToken: 'token-other' }))
+    const otherUser = await manager.createSession(loginOptions({ userId: 7 }))
+
+    const deleted = await manager.deleteOtherUserSessions(42, current.id)
+
+    expect(deleted.map((session) => session.userToken)).toEqual(['token-other'])
+    expect((await manager.listUserSessions(42)).map((session) => session.id)).toEqual([current.id])
+    expect(await manager.getSession(otherUser.id)).not.toBeNull()
+  })
+
+  test('should give each session its own CSRF token', async () => {
+    const first = await manager.createSession(loginOptions())
+    const second = await manager.createSession(loginOptions())
+
+    expect(first.csrfToken).toMatch(/^[\w-]{43}$/)
+    expect(second.csrfToken).not.toBe(first.csrfToken)
+    expect((await manager.validateSession(first.id)).session?.csrfToken).toBe(first.csrfToken)
+  })
+})
+
+test.describe('SessionManager pending two-factor sessions', () => {
+  let manager: SessionManager
+
+  test.beforeEach(() => {
+    manager = new SessionManager()
+  })
+
+  test('should not accept a pending session until two-factor login completes', async () => {
+    const pending = await manager.createSession(loginOptions({ twoFactorPending: true }))
+
+    const result = await manager.validateSession(pending.id)
+    expect(result.valid).toBe(false)
+    expect(result.twoFactorPending).toBe(true)
+    expect(await manager.listUserSessions(42)).toEqual([])
+
+    const session = await manager.completeTwoFactorLogin(pending.id)
+
+    expect(session?.id).not.toBe(pending.id)
+    expect(session?.twoFactorPending).toBeUndefined()
+    expect((await manager.validateSession(session!.id)).valid).toBe(true)
+    expect(await manager.getPendingTwoFactorSession(pending.id)).toBeNull()
+  })
+
+  test('should keep the roles from the password step', async () => {
+    const pending = await manager.createSession(
+      loginOptions({ roles: ['viewer'], twoFactorPending: true })
+    )
+
+    const session = await manager.completeTwoFactorLogin(pending.id)
+
+    expect(session?.roles).toEqual(['viewer'])
+  })
+
+  test('should not complete a full session as a two-factor login', async () => {
+    const session = await manager.createSession(loginOptions())
+
+    expect(await manager.completeTwoFactorLogin(session.id)).toBeNull()
+  })
+})
@@ -0,0 +1,57 @@
+import './support/test-env'
+import Redis from 'ioredis'
+import { newDb } from 'pg-mem'
+import { MemorySessionStorage } from '@/lib/session'
+import { RedisSessionStorage } from '@/lib/session/redis-storage'
+import {
+  createPostgresDatabase,
+  openSqliteDatabase,
+  type PostgresPool,
+} from '@/lib/session/sql-database'
+import { SqlSessionStorage } from '@/lib/session/sql-storage'
+import { startRedisStandIn } from './support/redis-stand-in'
+import { describeSessionStorageBehavior } from './support/session-storage-behavior'
+
+describeSessionStorageBehavior('MemorySessionStorage', {
+  expires: false,
+  create: async () => ({ storage: new MemorySessionStorage() }),
+})
+
+describeSessionStorageBehavior('RedisSessionStorage', {
+  expires: true,
+  create: async ({ ttlMs }) => {
+    const standIn = await startRedisStandIn()
+    const redis = new Redis(standIn.url)
+    return {
+      storage: new RedisSessionStorage(redis, { ttlMs }),
+      dispose: async () => {
+        await redis.quit()
+        await standIn.close()
+      },
+    }
+  },
+})
+
+describeSessionStorageBehavior('SqlSessionStorage (postgres)', {
+  expires: true,
+  create: async ({ ttlMs }) => {
+    const { Pool } = newDb({ noAstCoverageCheck: true }).adapters.createPg()
+    const storage = new SqlSessionStorage(createPostgresDatabase(new Pool() as PostgresPool), {
+      ttlMs,
+    })
+    return { storage, dispose: () => storage.close() }
+  },
+})
+
+describeSessionStorageBehavior('SqlSessionStorage (sqlite)', {
+  expires: true,
+  skip: async () =>
+    openSqliteDatabase(':memory:').then(
+      (db) => db.close().then(() => null),
+      () => 'node:sqlite is not available in this runtime'
+    ),
+  create: async ({ ttlMs }) => {
+    const storage = new SqlSessionStorage(await openSqliteDatabase(':memory:'), { ttlMs })
+    return { storage, dispose: () => storage.close() }
+  },
+})
@@ -0,0 +1,203 @@
+import { test, expect } from '@playwright/test'
+import {
+  buildShoppingList,
+  collectScheduledRecipes,
+  formatShoppingListAmounts,
+  formatShoppingListText,
+  type ShoppingListRecipe,
+} from '@/lib/meal-plan/shopping-list'
+import { extractIngredients, ingredientKey, parseIngredientLine } from '@/lib/recipes/ingredients'
+
+function recipe(name: string, ingredients: string[], occurrences: number = 1): ShoppingListRecipe {
+  return {
+    slug: name.toLowerCase().replace(/\s+/g, '-'),
+    name,
+    instructions: [
+      'Ingredients:',
+      ...ingredients.map((line) => `- ${line}`),
+      '',
+      'Steps:',
+      '1. Cook',
+    ].join('\n'),
+    occurrences,
+  }
+}
+
+/**
+ * The formatted amounts of the list, by ingredient key
+ */
+function amountsOf(recipes: ShoppingListRecipe[]): Record<string, string> {
+  return Object.fromEntries(
+    buildShoppingList(recipes).items.map((item) => [item.key, formatShoppingListAmounts(item)])
+  )
+}
+
+test.describe('parseIngredientLine', () => {
+  test('should split quantity, unit, name and notes', () => {
+    expect(parseIngredientLine('- 2 cups rice, rinsed')).toEqual({
+      quantity: { value: 2 },
+      unit: 'cup',
+      name: 'rice',
+      note: 'rinsed',
+    })
+    expect(parseIngredientLine('1 1/2 tbsp soy sauce (low sodium), divided')).toEqual({
+      quantity: { value: 1.5 },
+      unit: 'tbsp',
+      name: 'soy sauce',
+      note: 'low sodium, divided',
+    })
+  })
+
+  test('should keep counts and unmeasured ingredients without a unit', () => {
+    expect(parseIngredientLine('3 eggs')).toEqual({
+      quantity: { value: 3 },
+      unit: null,
+      name: 'eggs',
+      note: null,
+    })
+    expect(parseIngredientLine('* Salt')).toEqual({
+      quantity: null,
+      unit: null,
+      name: 'Salt',
+      note: null,
+    })
+    expect(parseIngredientLine('   ')).toBeNull()
+  })
+})
+
+test.describe('extractIngredients', () => {
+  test('should read the ingredients section up to the next heading', () => {
+    const ingredients = extractIngredients(
+      [
+        'A weeknight favorite.',
+        '',
+        '## Ingredients',
+        '- 1 cup rice',
+        'For the sauce:',
+        '- 2 tbsp soy sauce',
+        '',
+        '## Steps',
+        '- 1 cup water',
+      ].join('\n')
+    )
+
+    expect(ingredients.map((ingredient) => ingredient.name)).toEqual(['rice', 'soy sauce'])
+  })
+
+  test('should fall back to bulleted lines with a quantity', () => {
+    const ingredients = extractIngredients('- 2 cups flour\n- a pinch of salt\nMix well.')
+
+    expect(ingredients).toEqual([
+      { quantity: { value: 2 }, unit: 'cup', name: 'flour', note: null },
+    ])
+  })
+})
+
+test.describe('ingredientKey', () => {
+  test('should match singular and plural names', () => {
+    expect(ingredientKey('Eggs')).toBe(ingredientKey('egg'))
+    expect(ingredientKey('Tomatoes')).toBe(ingredientKey('tomato'))
+    expect(ingredientKey('Cherries')).toBe(ingredientKey('cherry'))
+    expect(ingredientKey('Red  Onions')).toBe('red onion')
+  })
+})
+
+test.describe('collectScheduledRecipes', () => {
+  test('should count how often each recipe is scheduled', () => {
+    const curry = { slug: 'curry', name: 'Curry', instructions: 'Ingredients:\n- 1 cup rice' }
+    const soup = { slug: 'soup', name: 'Soup', instructions: null }
+
+    expect(
+      collectScheduledRecipes([
+        { entries: [{ recipe: curry }, { recipe: soup }] },
+        { entries: [] },
+        { entries: [{ recipe: curry }] },
+      ])
+    ).toEqual([
+      { slug: 'curry', name: 'Curry', instructions: curry.instructions, occurrences: 2 },
+      { slug: 'soup', name: 'Soup', instructions: '', occurrences: 1 },
+    ])
+  })
+})
+
+test.describe('buildShoppingList', () => {
+  test('should sum amounts in the same unit across recipes', () => {
+    expect(
+      amountsOf([recipe('Curry', ['1 cup rice']), recipe('Pilaf', ['1 1/2 cups rice'])])
+    ).toEqual({ rice: '2 1/2 cups' })
+  })
+
+  test('should convert compatible units and keep others apart', () => {
+    expect(
+      amountsOf([
+        recipe('Curry', ['1 cup rice']),
+        recipe('Pilaf', ['4 tbsp rice']),
+        recipe('Risotto', ['200 g rice']),
+      ])
+    ).toEqual({ rice: '1 1/4 cups + 200 g' })
+  })
+
+  test('should count a recipe once per time it is scheduled', () => {
+    expect(
+      amountsOf([recipe('Curry', ['1/2 tsp salt', '2 eggs'], 3), recipe('Toast', ['1 egg'])])
+    ).toEqual({ salt: '1 1/2 tsp', egg: '7' })
+  })
+
+  test('should keep measured amounts next to unmeasured uses', () => {
+    expect(amountsOf([recipe('Soup', ['Salt']), recipe('Curry', ['1/2 tsp salt'])])).toEqual({
+      salt: '1/2 tsp + some',
+    })
+    expect(amountsOf([recipe('Curry', ['2 eggs']), recipe('Cake', ['Eggs'])])).toEqual({
+      egg: '2 + some',
+    })
+    expect(amountsOf([recipe('Soup', ['Salt']), recipe('Stew', ['salt'])])).toEqual({ salt: '' })
+  })
+
+  test('should add up ranges', () => {
+    expect(
+      amountsOf([recipe('Curry', ['1-2 cloves garlic']), recipe('Soup', ['2 cloves garlic'], 2)])
+    ).toEqual({ garlic: '5-6 cloves' })
+  })
+
+  test('should merge notes and recipes, and list recipes without ingredients', () => {
+    const list = buildShoppingList([
+      recipe('Curry', ['2 onions, diced']),
+      recipe('Soup', ['1 onion (sliced)']),
+      { slug: 'toast', name: 'Toast', instructions: 'Toast the bread.', occurrences: 1 },
+    ])
+
+    expect(list.items).toEqual([
+      {
+        key: 'onion',
+        name: 'onions',
+        amounts: [{ unit: null, quantity: 3, maxQuantity: 3 }],
+        unmeasured: false,
+        notes: ['diced', 'sliced'],
+        recipes: ['Curry', 'Soup'],
+      },
+    ])
+    expect(list.recipesWithoutIngredients.map((r) => r.slug)).toEqual(['toast'])
+  })
+
+  test('should sort items by name', () => {
+    const list = buildShoppingList([recipe('Curry', ['1 cup rice', '2 carrots', 'Basil'])])
+
+    expect(list.items.map((item) => item.name)).toEqual(['Basil', 'carrots', 'rice'])
+  })
+})
+
+test.describe('formatShoppingListText', () => {
+  test('should render one checkbox line per item', () => {
+    const list = buildShoppingList([
+      recipe('Curry', ['2 eggs', '1-2 cloves garlic, minced', 'Salt']),
+    ])
+
+    expect(
+      formatShoppingListText(list.items, { title: 'Shopping list', checkedKeys: new Set(['egg']) })
+    ).toBe(
+      ['Shopping list', '', '[x] 2 eggs', '[ ] 1-2 cloves garlic (minced)', '[ ] Salt', ''].join(
+        '\n'
+      )
+    )
+  })
+})
@@ -0,0 +1,101 @@
+import './support/test-env'
+import { test, expect } from '@playwright/test'
+import { newDb } from 'pg-mem'
+import {
+  createPostgresDatabase,
+  openSqlDatabase,
+  toPostgresPlaceholders,
+  type PostgresPool,
+  type SqlDatabase,
+} from '@/lib/session/sql-database'
+import {
+  SESSION_MIGRATIONS,
+  SqlSessionStorage,
+  migrateSessionSchema,
+} from '@/lib/session/sql-storage'
+import { createTestSession } from './support/session-storage-behavior'
+
+const TTL_MS = 60_000
+
+// Behavior shared with the other backends is covered in session-storage.spec.ts.
+// pg-mem's AST coverage check rejects re-running CREATE ... IF NOT EXISTS, which
+// real Postgres accepts, so it is disabled.
+
+test.describe('SqlSessionStorage', () => {
+  let db: SqlDatabase
+  let storage: SqlSessionStorage
+
+  test.beforeEach(async () => {
+    const { Pool } = newDb({ noAstCoverageCheck: true }).adapters.createPg()
+    db = createPostgresDatabase(new Pool() as PostgresPool)
+    storage = new SqlSessionStorage(db, { ttlMs: TTL_MS, purgeIntervalMs: 0 })
+  })
+
+  test.afterEach(async () => {
+    await storage.close()
+  })
+
+  test('should apply migrations once and record them', async () => {
+    await storage.initialize()
+
+    expect(await migrateSessionSchema(db)).toBe(0)
+    const applied = await db.query<{ version: number }>(
+      'SELECT version FROM session_migrations ORDER BY version'
+    )
+    expect(applied.map((row) => row.version)).toEqual(
+      SESSION_MIGRATIONS.map((migration) => migration.version)
+    )
+  })
+
+  test('should store the expiry in an indexed column', async () => {
+    const before = Date.now()
+    await storage.save(createTestSession())
+
+    const [row] = await db.query<{ expires_at: number | string }>(
+      'SELECT expires_at FROM sessions WHERE id = ?',
+      ['sess_1']
+    )
+    expect(Number(row.expires_at)).toBeGreaterThanOrEqual(before + TTL_MS)
+    expect(Number(row.expires_at)).toBeLessThanOrEqual(Date.now() + TTL_MS)
+  })
+
+  test('should purge only expired sessions', async () => {
+    await storage.save(createTestSession({ id: 'sess_expired' }))
+    await storage.save(createTestSession({ id: 'sess_live' }))
+    await db.execute('UPDATE sessions SET expires_at = ? WHERE id = ?', [
+      Date.now() - 1,
+      'sess_expired',
+    ])
+
+    expect(await storage.purgeExpired()).toBe(1)
+
+    const remaining = await db.query<{ id: string }>('SELECT id FROM sessions')
+    expect(remaining.map((row) => row.id)).toEqual(['sess_live'])
+  })
+
+  test('should drop unreadable session data', async () => {
+    await storage.initialize()
+    await db.execute('INSERT INTO sessions (id, data, expires_at) VALUES (?, ?, ?)', [
+      'sess_1',
+      '{not json',
+      Date.now() + TTL_MS,
+    ])
+
+    expect(await storage.get('sess_1')).toBeNull()
+    expect(await db.query('SELECT id FROM sessions')).toEqual([])
+  })
+})
+
+test.describe('SQL database adapters', () => {
+  test('should number Postgres placeholders in order', () => {
+    expect(toPostgresPlaceholders('UPDATE t SET a = ? WHERE b = ? AND c > ?')).toBe(
+      'UPDATE t SET a = $1 WHERE b = $2 AND c > $3'
+    )
+  })
+
+  test('should reject unsupported database URLs', async () => {
+    await expect(openSqlDatabase('mysql://localhost/app')).rejects.toThrow(
+      'Unsupported DATABASE_URL'
+    )
+  })
+})
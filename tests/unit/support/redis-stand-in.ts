@@ -0,0 +1,339 @@
+/**
+ * In-process Redis stand-in for tests
+ *
+ * Speaks enough of the Redis protocol (RESP) for ioredis and the session
+ * storage and rate limit backends: PING, INFO, SELECT, CLIENT, GET, MGET,
+ * SET (PX/EX), DEL, PTTL, PEXPIRE, SADD, SREM, SMEMBERS, ZADD, ZREM,
+ * ZREMRANGEBYSCORE, ZRANGE (WITHSCORES), KEYS, SCAN, QUIT and transactions
+ * (WATCH, UNWATCH, MULTI, EXEC, DISCARD). Keys expire lazily on access using
+ * the real clock.
+ */
+
+import net from 'node:net'
+
+interface StoredValue {
+  value: string | Set<string> | Map<string, number> // Sorted sets map member to score
+  expiresAt: number | null
+}
+
+export interface RedisStandIn {
+  url: string
+  close: () => Promise<void>
+}
+
+type Reply = string | number | null | Reply[] | { error: string } | { status: string }
+
+// ============================================================================
+// PROTOCOL
+// ============================================================================
+
+function encode(reply: Reply): string {
+  if (reply === null) return '$-1\r\n'
+  if (typeof reply === 'number') return `:${reply}\r\n`
+  if (typeof reply === 'string') return `$${Buffer.byteLength(reply)}\r\n${reply}\r\n`
+  if (Array.isArray(reply)) return `*${reply.length}\r\n${reply.map(encode).join('')}`
+  if ('error' in reply) return `-${reply.error}\r\n`
+  return `+${reply.status}\r\n`
+}
+
+/**
+ * Parse complete commands (arrays of bulk strings) from the buffer
+ * Returns the commands and the number of bytes consumed.
+ */
+function parseCommands(buffer: Buffer): { commands: string[][]; consumed: number } {
+  const commands: string[][] = []
+  let offset = 0
+
+  const readLine = (): string | null => {
+    const end = buffer.indexOf('\r\n', offset)
+    if (end === -1) return null
+    const line = buffer.toString('utf8', offset, end)
+    offset = end + 2
+    return line
+  }
+
+  while (offset < buffer.length) {
+    const start = offset
+    const header = readLine()
+    if (header === null || !header.startsWith('*')) {
+      offset = start
+      break
+    }
+
+    const args: string[] = []
+    const count = Number(header.slice(1))
+    for (let i = 0; i < count; i++) {
+      const lengthLine = readLine()
+      if (lengthLine === null) break
+      const length = Number(lengthLine.slice(1))
+      if (offset + length + 2 > buffer.length) break
+      args.push(buffer.toString('utf8', offset, offset + length))
+      offset += length + 2
+    }
+
+    if (args.length < count) {
+      offset = start
+      break
+    }
+    commands.push(args)
+  }
+
+  return { commands, consumed: offset }
+}
+
+/**
+ * Commands that change their keys, for WATCH
+ */
+const WRITE_COMMANDS = new Set([
+  'SET',
+  'DEL',
+  'PEXPIRE',
+  'SADD',
+  'SREM',
+  'ZADD',
+  'ZREM',
+  'ZREMRANGEBYSCORE',
+])
+
+function globToRegExp(pattern: string): RegExp {
+  const escaped = pattern.replace(/[.+^${}()|[\]\\]/g, '\\$&')
+  return new RegExp(`^${escaped.replace(/\*/g, '.*').replace(/\?/g, '.')}$`)
+}
+
+// ============================================================================
+// SERVER
+// ============================================================================
+
+/**
+ * Start a stand-in server on a random local port
+ */
+export async function startRedisStandIn(): Promise<RedisStandIn> {
+  const data = new Map<string, StoredValue>()
+  const sockets = new Set<net.Socket>()
+  // Bumped on every write, so EXEC can tell whether a watched key changed
+  const versions = new Map<string, number>()
+
+  const touch = (key: string) => versions.set(key, (versions.get(key) ?? 0) + 1)
+
+  const read = (key: string): StoredValue | null => {
+    const stored = data.get(key)
+    if (!stored) return null
+    if (stored.expiresAt !== null && stored.expiresAt <= Date.now()) {
+      data.delete(key)
+      touch(key)
+      return null
+    }
+    return stored
+  }
+
+  const liveKeys = (pattern: string): string[] => {
+    const regExp = globToRegExp(pattern)
+    return Array.from(data.keys()).filter((key) => read(key) && regExp.test(key))
+  }
+
+  const readString = (key: string): string | null => {
+    const stored = read(key)
+    return typeof stored?.value === 'string' ? stored.value : null
+  }
+
+  const readSet = (key: string): Set<string> | null => {
+    const stored = read(key)
+    return stored?.value instanceof Set ? stored.value : null
+  }
+
+  const readSortedSet = (key: string): Map<string, number> | null => {
+    const stored = read(key)
+    return stored?.value instanceof Map ? stored.value : null
+  }
+
+  const parseScore = (value: string): number =>
+    value === '-inf' ? -Infinity : value === '+inf' ? Infinity : Number(value)
+
+  const wrongType = { error: 'WRONGTYPE Operation against a key holding the wrong kind of value' }
+
+  const execute = ([name, ...args]: string[]): Reply => {
+    if (WRITE_COMMANDS.has(name.toUpperCase())) {
+      for (const key of name.toUpperCase() === 'DEL' ? args : args.slice(0, 1)) touch(key)
+    }
+
+    switch (name.toUpperCase()) {
+      case 'PING':
+        return { status: 'PONG' }
+      case 'INFO':
+        return '# Server\r\nredis_version:7.0.0\r\nloading:0\r\n'
+      case 'SELECT':
+      case 'CLIENT':
+      case 'QUIT':
+        return { status: 'OK' }
+      case 'GET':
+        if (readSet(args[0])) return wrongType
+        return readString(args[0])
+      case 'MGET':
+        return args.map(readString)
+      case 'SET': {
+        const [key, value, ...options] = args
+        let expiresAt: number | null = null
+        for (let i = 0; i < options.length; i++) {
+          const option = options[i].toUpperCase()
+          if (option === 'PX') expiresAt = Date.now() + Number(options[++i])
+          if (option === 'EX') expiresAt = Date.now() + Number(options[++i]) * 1000
+        }
+        data.set(key, { value, expiresAt })
+        return { status: 'OK' }
+      }
+      case 'DEL':
+        return args.filter((key) => read(key) && data.delete(key)).length
+      case 'PTTL': {
+        const stored = read(args[0])
+        if (!stored) return -2
+        return stored.expiresAt === null ? -1 : stored.expiresAt - Date.now()
+      }
+      case 'PEXPIRE': {
+        const stored = read(args[0])
+        if (!stored) return 0
+        stored.expiresAt = Date.now() + Number(args[1])
+        return 1
+      }
+      case 'SADD': {
+        const [key, ...members] = args
+        if (readString(key) !== null) return wrongType
+        const set = readSet(key) ?? new Set<string>()
+        const added = members.filter((member) => !set.has(member) && set.add(member)).length
+        data.set(key, { value: set, expiresAt: read(key)?.expiresAt ?? null })
+        return added
+      }
+      case 'SREM': {
+        const [key, ...members] = args
+        const set = readSet(key)
+        if (!set) return 0
+        const removed = members.filter((member) => set.delete(member)).length
+        if (set.size === 0) data.delete(key)
+        return removed
+      }
+      case 'SMEMBERS':
+        return Array.from(readSet(args[0]) ?? [])
+      case 'ZADD': {
+        const [key, ...pairs] = args
+        if (read(key) && !readSortedSet(key)) return wrongType
+        const sortedSet = readSortedSet(key) ?? new Map<string, number>()
+        let added = 0
+        for (let i = 0; i < pairs.length; i += 2) {
+          if (!sortedSet.has(pairs[i + 1])) added++
+          sortedSet.set(pairs[i + 1], Number(pairs[i]))
+        }
+        data.set(key, { value: sortedSet, expiresAt: read(key)?.expiresAt ?? null })
+        return added
+      }
+      case 'ZREM': {
+        const [key, ...members] = args
+        const sortedSet = readSortedSet(key)
+        if (!sortedSet) return 0
+        const removed = members.filter((member) => sortedSet.delete(member)).length
+        if (sortedSet.size === 0) data.delete(key)
+        return removed
+      }
+      case 'ZREMRANGEBYSCORE': {
+        const [key, min, max] = args
+        const sortedSet = readSortedSet(key)
+        if (!sortedSet) return 0
+        let removed = 0
+        for (const [member, score] of sortedSet) {
+          if (score >= parseScore(min) && score <= parseScore(max)) {
+            sortedSet.delete(member)
+            removed++
+          }
+        }
+        if (sortedSet.size === 0) data.delete(key)
+        return removed
+      }
+      case 'ZRANGE': {
+        // Index ranges only
+        const [key, start, stop, option] = args
+        const entries = Array.from(readSortedSet(key) ?? []).sort(
+          ([memberA, scoreA], [memberB, scoreB]) =>
+            scoreA - scoreB || memberA.localeCompare(memberB)
+        )
+        const end = Number(stop) < 0 ? entries.length + Number(stop) + 1 : Number(stop) + 1
+        const range = entries.slice(Number(start), end)
+        return option?.toUpperCase() === 'WITHSCORES'
+          ? range.flatMap(([member, score]) => [member, String(score)])
+          : range.map(([member]) => member)
+      }
+      case 'KEYS':
+        return liveKeys(args[0])
+      case 'SCAN': {
+        // Everything is returned in one page
+        const matchIndex = args.findIndex((arg) => arg.toUpperCase() === 'MATCH')
+        return ['0', liveKeys(matchIndex === -1 ? '*' : args[matchIndex + 1])]
+      }
+      default:
+        return { error: `ERR unknown command '${name}'` }
+    }
+  }
+
+  const server = net.createServer((socket) => {
+    sockets.add(socket)
+    socket.on('close', () => sockets.delete(socket))
+
+    // Transaction state of this connection
+    let watched = new Map<string, number | undefined>()
+    let queued: string[][] | null = null
+
+    const executeInConnection = (command: string[]): Reply => {
+      switch (command[0].toUpperCase()) {
+        case 'WATCH':
+          command.slice(1).forEach((key) => watched.set(key, versions.get(key)))
+          return { status: 'OK' }
+        case 'UNWATCH':
+          watched = new Map()
+          return { status: 'OK' }
+        case 'MULTI':
+          queued = []
+          return { status: 'OK' }
+        case 'DISCARD':
+          queued = null
+          watched = new Map()
+          return { status: 'OK' }
+        case 'EXEC': {
+          const commands = queued ?? []
+          const aborted = Array.from(watched).some(
+            ([key, version]) => versions.get(key) !== version
+          )
+          queued = null
+          watched = new Map()
+          return aborted ? null : commands.map(execute)
+        }
+        default:
+          if (queued) {
+            queued.push(command)
+            return { status: 'QUEUED' }
+          }
+          return execute(command)
+      }
+    }
+
+    let pending = Buffer.alloc(0)
+    socket.on('data', (chunk) => {
+      pending = Buffer.concat([pending, chunk])
+      const { commands, consumed } = parseCommands(pending)
+      pending = pending.subarray(consumed)
+
+      for (const command of commands) {
+        socket.write(encode(executeInConnection(command)))
+        if (command[0].toUpperCase() === 'QUIT') socket.end()
+      }
+    })
+  })
+
+  await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve))
+  const { port } = server.address() as net.AddressInfo
+
+  return {
+    url: `redis://127.0.0.1:${port}`,
+    close: () =>
+      new Promise<void>((resolve) => {
+        sockets.forEach((socket) => socket.destroy())
+        server.close(() => resolve())
+      }),
+  }
+}
@@ -0,0 +1,175 @@
+/**
+ * Behavioral tests every session storage backend must pass
+ *
+ * Call from a spec with a factory that creates a fresh, empty storage.
+ */
+
+import { test, expect } from '@playwright/test'
+import type { ISessionStorage, SessionData } from '@/lib/session'
+
+export interface SessionStorageHandle {
+  storage: ISessionStorage
+  /** Release connections/servers opened by the factory */
+  dispose?: () => Promise<void>
+}
+
+export interface SessionStorageBehaviorOptions {
+  /** Create a storage whose sessions expire after ttlMs */
+  create: (options: { ttlMs: number }) => Promise<SessionStorageHandle>
+  /** Whether the backend expires idle sessions itself (memory does not) */
+  expires: boolean
+  /** Reason to skip the suite, e.g. a missing driver */
+  skip?: () => Promise<string | null>
+}
+
+export function createTestSession(overrides: Partial<SessionData> = {}): SessionData {
+  return {
+    id: 'sess_1',
+    userId: 42,
+    email: 'cook@example.com',
+    firstName: 'Ada',
+    lastName: 'Cook',
+    emailVerified: true,
+    roles: ['editor'],
+    userToken: 'user-token',
+    userTokenExpiresAt: new Date('2030-01-01T12:00:00.000Z'),
+    createdAt: new Date('2029-12-31T08:00:00.000Z'),
+    lastAccessedAt: new Date('2029-12-31T09:30:00.000Z'),
+    csrfToken: 'csrf-token',
+    ...overrides,
+  }
+}
+
+export function describeSessionStorageBehavior(
+  name: string,
+  options: SessionStorageBehaviorOptions
+): void {
+  test.describe(`${name} (session storage behavior)`, () => {
+    const handles: SessionStorageHandle[] = []
+
+    const open = async (ttlMs = 60_000): Promise<ISessionStorage> => {
+      const handle = await options.create({ ttlMs })
+      handles.push(handle)
+      return handle.storage
+    }
+
+    test.beforeEach(async () => {
+      const reason = options.skip ? await options.skip() : null
+      test.skip(reason !== null, reason ?? '')
+    })
+
+    test.afterEach(async () => {
+      for (const handle of handles.splice(0)) {
+        await handle.dispose?.()
+      }
+    })
+
+    test('should round-trip a session with Date fields restored', async () => {
+      const storage = await open()
+      const session = createTestSession()
+      await storage.save(session)
+
+      const stored = await storage.get(session.id)
+      expect(stored).toEqual(session)
+      expect(stored?.userTokenExpiresAt).toBeInstanceOf(Date)
+      expect(stored?.createdAt).toBeInstanceOf(Date)
+      expect(stored?.lastAccessedAt).toBeInstanceOf(Date)
+    })
+
+    test('should return null for unknown sessions', async () => {
+      const storage = await open()
+      expect(await storage.get('sess_missing')).toBeNull()
+    })
+
+    test('should replace a session when saved again', async () => {
+      const storage = await open()
+      await storage.save(createTestSession())
+      await storage.save(createTestSession({ emailVerified: false, firstName: 'Grace' }))
+
+      const stored = await storage.get('sess_1')
+      expect(stored?.emailVerified).toBe(false)
+      expect(stored?.firstName).toBe('Grace')
+    })
+
+    test('should delete a session', async () => {
+      const storage = await open()
+      await storage.save(createTestSession({ id: 'sess_1' }))
+      await storage.save(createTestSession({ id: 'sess_2' }))
+      await storage.delete('sess_1')
+
+      expect(await storage.get('sess_1')).toBeNull()
+      expect(await storage.get('sess_2')).not.toBeNull()
+    })
+
+    test('should ignore deleting an unknown session', async () => {
+      const storage = await open()
+      await expect(storage.delete('sess_missing')).resolves.toBeUndefined()
+    })
+
+    test('should clear all sessions', async () => {
+      const storage = await open()
+      await storage.save(createTestSession({ id: 'sess_1' }))
+      await storage.save(createTestSession({ id: 'sess_2' }))
+      await storage.clear()
+
+      expect(await storage.get('sess_1')).toBeNull()
+      expect(await storage.get('sess_2')).toBeNull()
+    })
+
+    test('should list the sessions of a user', async () => {
+      const storage = await open()
+      await storage.save(createTestSession({ id: 'sess_1', userId: 42 }))
+      await storage.save(createTestSession({ id: 'sess_2', userId: 42 }))
+      await storage.save(createTestSession({ id: 'sess_3', userId: 7 }))
+
+      const sessions = await storage.listByUser(42)
+      expect(sessions.map((session) => session.id).sort()).toEqual(['sess_1', 'sess_2'])
+      expect(sessions[0].createdAt).toBeInstanceOf(Date)
+      expect(await storage.listByUser(99)).toEqual([])
+    })
+
+    test('should not list deleted or cleared sessions', async () => {
+      const storage = await open()
+      await storage.save(createTestSession({ id: 'sess_1' }))
+      await storage.save(createTestSession({ id: 'sess_2' }))
+
+      await storage.delete('sess_1')
+      expect((await storage.listByUser(42)).map((session) => session.id)).toEqual(['sess_2'])
+
+      await storage.clear()
+      expect(await storage.listByUser(42)).toEqual([])
+    })
+
+    test('should not list expired sessions', async () => {
+      test.skip(!options.expires, 'Backend does not expire sessions')
+
+      const storage = await open(50)
+      await storage.save(createTestSession())
+
+      await new Promise((resolve) => setTimeout(resolve, 120))
+      expect(await storage.listByUser(42)).toEqual([])
+    })
+
+    test('should expire sessions after the TTL', async () => {
+      test.skip(!options.expires, 'Backend does not expire sessions')
+
+      const storage = await open(50)
+      await storage.save(createTestSession())
+
+      await new Promise((resolve) => setTimeout(resolve, 120))
+      expect(await storage.get('sess_1')).toBeNull()
+    })
+
+    test('should extend the TTL on every save', async () => {
+      test.skip(!options.expires, 'Backend does not expire sessions')
+
+      const storage = await open(150)
+      await storage.save(createTestSession())
+      await new Promise((resolve) => setTimeout(resolve, 100))
+      await storage.save(createTestSession())
+      await new Promise((resolve) => setTimeout(resolve, 100))
+
+      expect(await storage.get('sess_1')).not.toBeNull()
+    })
+  })
+}
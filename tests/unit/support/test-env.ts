@@ -0,0 +1,14 @@
+/**
+ * Environment for unit tests of server-side modules
+ *
+ * Import before any module that loads `lib/config/private/config`, which
+ * requires these variables at import time.
+ */
+
+process.env.API_BASE_URL ??= 'http://localhost:3000'
+process.env.API_KEY ??= 'test-api-key'
+process.env.LOG_LEVEL ??= 'silent'
+
+// NODE_ENV is typed read-only; 'test' keeps the logger off pino-pretty
+const env: Record<string, string | undefined> = process.env
+env.NODE_ENV ??= 'test'
@@ -0,0 +1,72 @@
+import { test, expect } from '@playwright/test'
+import {
+  TOTP_STEP_SECONDS,
+  base32Decode,
+  base32Encode,
+  buildOtpAuthUri,
+  generateTotp,
+  generateTotpSecret,
+  getTotpStep,
+  verifyTotp,
+} from '@/lib/two-factor/totp'
+import { generateRecoveryCodes, hashRecoveryCode } from '@/lib/two-factor/recovery-codes'
+
+// RFC 6238 appendix B (SHA-1)
+const RFC_SECRET = base32Encode(Buffer.from('12345678901234567890'))
+
+test.describe('TOTP', () => {
+  test('should match the RFC 6238 test vectors', () => {
+    expect(generateTotp(RFC_SECRET, 59 * 1000, 8)).toBe('94287082')
+    expect(generateTotp(RFC_SECRET, 1111111109 * 1000, 8)).toBe('07081804')
+    expect(generateTotp(RFC_SECRET, 1234567890 * 1000, 8)).toBe('89005924')
+    expect(generateTotp(RFC_SECRET, 2000000000 * 1000, 8)).toBe('69279037')
+  })
+
+  test('should round-trip base32', () => {
+    const bytes = Buffer.from('two-factor secret bytes')
+
+    expect(base32Decode(base32Encode(bytes))).toEqual(bytes)
+    expect(base32Decode(base32Encode(bytes).toLowerCase())).toEqual(bytes)
+  })
+
+  test('should generate distinct 160-bit secrets', () => {
+    const secret = generateTotpSecret()
+
+    expect(base32Decode(secret)).toHaveLength(20)
+    expect(generateTotpSecret()).not.toBe(secret)
+  })
+
+  test('should accept a code from the previous step but not older', () => {
+    const now = 1_700_000_000_000
+    const step = getTotpStep(now)
+    const previous = generateTotp(RFC_SECRET, now - TOTP_STEP_SECONDS * 1000)
+    const stale = generateTotp(RFC_SECRET, now - 2 * TOTP_STEP_SECONDS * 1000)
+
+    expect(verifyTotp(RFC_SECRET, generateTotp(RFC_SECRET, now), now)).toBe(step)
+    expect(verifyTotp(RFC_SECRET, previous, now)).toBe(step - 1)
+    expect(verifyTotp(RFC_SECRET, stale, now)).toBeNull()
+    expect(verifyTotp(RFC_SECRET, 'abcdef', now)).toBeNull()
+  })
+
+  test('should build an otpauth URI for authenticator apps', () => {
+    const uri = buildOtpAuthUri({ secret: 'ABC', accountName: 'cook@example.com', issuer: 'Acme' })
+
+    expect(uri).toBe(
+      'otpauth://totp/Acme%3Acook%40example.com?secret=ABC&issuer=Acme&algorithm=SHA1&digits=6&period=30'
+    )
+  })
+})
+
+test.describe('Recovery codes', () => {
+  test('should generate unique codes', () => {
+    const codes = generateRecoveryCodes()
+
+    expect(new Set(codes).size).toBe(codes.length)
+    expect(codes[0]).toMatch(/^[a-z0-9]{5}-[a-z0-9]{5}$/)
+  })
+
+  test('should hash codes ignoring case, spaces and dashes', () => {
+    expect(hashRecoveryCode(' ABCDE-fghij ')).toBe(hashRecoveryCode('abcdefghij'))
+    expect(hashRecoveryCode('abcdefghij')).not.toBe(hashRecoveryCode('abcdefghik'))
+  })
+})
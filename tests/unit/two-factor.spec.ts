@@ -0,0 +1,252 @@
+import './support/test-env'
+import { test, expect } from '@playwright/test'
+import Redis from 'ioredis'
+import { newDb } from 'pg-mem'
+import {
+  TwoFactorService,
+  MemoryTwoFactorStore,
+  type ITwoFactorStore,
+  type TwoFactorCredential,
+} from '@/lib/two-factor'
+import { RedisTwoFactorStore, SqlTwoFactorStore } from '@/lib/two-factor/credential-store'
+import { TOTP_STEP_SECONDS, generateTotp } from '@/lib/two-factor/totp'
+import {
+  InvalidTwoFactorCodeError,
+  TooManyLoginAttemptsError,
+  TwoFactorSetupError,
+} from '@/lib/exceptions'
+import { createPostgresDatabase, type PostgresPool } from '@/lib/session/sql-database'
+import { startRedisStandIn, type RedisStandIn } from './support/redis-stand-in'
+
+const USER_ID = 42
+const STEP_MS = TOTP_STEP_SECONDS * 1000
+
+test.describe('TwoFactorService', () => {
+  let now: number
+  let service: TwoFactorService
+
+  test.beforeEach(() => {
+    now = Date.parse('2030-01-01T12:00:00.000Z')
+    service = new TwoFactorService({
+      store: new MemoryTwoFactorStore(),
+      now: () => now,
+      maxFailedAttempts: 3,
+      lockoutMs: 60 * 1000,
+    })
+  })
+
+  /**
+   * Enroll the user and return the secret and recovery codes
+   */
+  async function enroll(): Promise<{ secret: string; recoveryCodes: string[] }> {
+    const enrollment = await service.beginEnrollment(USER_ID, 'cook@example.com')
+    if (!enrollment.ok) throw enrollment.error
+
+    const confirmed = await service.confirmEnrollment(
+      USER_ID,
+      generateTotp(enrollment.value.secret, now)
+    )
+    if (!confirmed.ok) throw confirmed.error
+
+    // Next code comes from the next step
+    now += STEP_MS
+    return { secret: enrollment.value.secret, recoveryCodes: confirmed.value.recoveryCodes }
+  }
+
+  test('should stay off until enrollment is confirmed', async () => {
+    const enrollment = await service.beginEnrollment(USER_ID, 'cook@example.com')
+
+    expect(enrollment.ok && enrollment.value.otpauthUri).toContain('otpauth://totp/')
+    expect(await service.isEnabled(USER_ID)).toBe(false)
+
+    const wrong = await service.confirmEnrollment(USER_ID, '000000')
+    expect(!wrong.ok && wrong.error).toBeInstanceOf(InvalidTwoFactorCodeError)
+    expect(await service.isEnabled(USER_ID)).toBe(false)
+  })
+
+  test('should turn on with a valid code and issue recovery codes', async () => {
+    const { recoveryCodes } = await enroll()
+
+    expect(recoveryCodes).toHaveLength(10)
+    expect(await service.getStatus(USER_ID)).toEqual({
+      enabled: true,
+      recoveryCodesRemaining: 10,
+    })
+
+    const again = await service.beginEnrollment(USER_ID, 'cook@example.com')
+    expect(!again.ok && again.error).toBeInstanceOf(TwoFactorSetupError)
+  })
+
+  test('should accept a TOTP code only once', async () => {
+    const { secret } = await enroll()
+    const code = generateTotp(secret, now)
+
+    const first = await service.verify(USER_ID, code)
+    expect(first.ok && first.value.usedRecoveryCode).toBe(false)
+
+    const replay = await service.verify(USER_ID, code)
+    expect(!replay.ok && replay.error).toBeInstanceOf(InvalidTwoFactorCodeError)
+  })
+
+  test('should accept each recovery code once', async () => {
+    const { recoveryCodes } = await enroll()
+
+    const first = await service.verify(USER_ID, recoveryCodes[0].toUpperCase())
+    expect(first.ok && first.value).toEqual({ usedRecoveryCode: true, recoveryCodesRemaining: 9 })
+
+    const reused = await service.verify(USER_ID, recoveryCodes[0])
+    expect(!reused.ok && reused.error).toBeInstanceOf(InvalidTwoFactorCodeError)
+  })
+
+  test('should lock out after repeated wrong codes until the lockout ends', async () => {
+    const { secret } = await enroll()
+
+    await service.verify(USER_ID, '000000')
+    await service.verify(USER_ID, '000000')
+    const third = await service.verify(USER_ID, '000000')
+    expect(!third.ok && third.error).toBeInstanceOf(TooManyLoginAttemptsError)
+    expect(!third.ok && third.error.metadata).toEqual({ retryAfter: 60 })
+
+    // Even the right code is refused while locked
+    now += 30 * 1000
+    const locked = await service.verify(USER_ID, generateTotp(secret, now))
+    expect(!locked.ok && locked.error).toBeInstanceOf(TooManyLoginAttemptsError)
+    expect(!locked.ok && locked.error.metadata).toEqual({ retryAfter: 30 })
+
+    now += 30 * 1000
+    expect((await service.verify(USER_ID, generateTotp(secret, now))).ok).toBe(true)
+  })
+
+  test('should count wrong codes sent in parallel against the lockout', async () => {
+    const { secret } = await enroll()
+
+    const results = await Promise.all(
+      Array.from({ length: 5 }, () => service.verify(USER_ID, '000000'))
+    )
+
+    const errors = results.map((result) => !result.ok && result.error.constructor.name)
+    expect(errors.filter((name) => name === 'InvalidTwoFactorCodeError')).toHaveLength(2)
+    expect(errors.filter((name) => name === 'TooManyLoginAttemptsError')).toHaveLength(3)
+
+    const locked = await service.verify(USER_ID, generateTotp(secret, now))
+    expect(!locked.ok && locked.error).toBeInstanceOf(TooManyLoginAttemptsError)
+  })
+
+  test('should accept a code sent in parallel only once', async () => {
+    const { secret, recoveryCodes } = await enroll()
+
+    for (const code of [generateTotp(secret, now), recoveryCodes[0]]) {
+      const results = await Promise.all([
+        service.verify(USER_ID, code),
+        service.verify(USER_ID, code),
+        service.verify(USER_ID, code),
+      ])
+      expect(results.filter((result) => result.ok)).toHaveLength(1)
+    }
+  })
+
+  test('should turn off with a valid code', async () => {
+    const { secret } = await enroll()
+
+    const wrong = await service.disable(USER_ID, '000000')
+    expect(wrong.ok).toBe(false)
+    expect(await service.isEnabled(USER_ID)).toBe(true)
+
+    expect((await service.disable(USER_ID, generateTotp(secret, now))).ok).toBe(true)
+    expect(await service.getStatus(USER_ID)).toEqual({ enabled: false, recoveryCodesRemaining: 0 })
+  })
+})
+
+function credential(userId: number): TwoFactorCredential {
+  return {
+    userId,
+    secret: 'JBSWY3DPEHPK3PXP',
+    enabled: true,
+    recoveryCodeHashes: [],
+    lastUsedStep: null,
+    failedAttempts: 0,
+    lockedUntil: null,
+    createdAt: new Date('2030-01-01T12:00:00.000Z'),
+    enabledAt: new Date('2030-01-01T12:00:00.000Z'),
+  }
+}
+
+/**
+ * Behavior every credential store must have
+ */
+function describeTwoFactorStore(name: string, createStore: () => Promise<ITwoFactorStore>) {
+  test.describe(name, () => {
+    test('should save, read and delete credentials', async () => {
+      const store = await createStore()
+
+      await store.save(credential(42))
+
+      expect(await store.get(42)).toEqual(credential(42))
+      expect(await store.get(7)).toBeNull()
+
+      await store.delete(42)
+      expect(await store.get(42)).toBeNull()
+    })
+
+    test('should apply parallel updates one after the other', async () => {
+      const store = await createStore()
+      await store.save(credential(42))
+
+      const results = await Promise.all(
+        Array.from({ length: 5 }, () =>
+          store.update(42, (stored) => {
+            stored.failedAttempts += 1
+            return { credential: stored, result: stored.failedAttempts }
+          })
+        )
+      )
+
+      expect(results.sort()).toEqual([1, 2, 3, 4, 5])
+      expect((await store.get(42))?.failedAttempts).toBe(5)
+    })
+
+    test('should leave the credential as it is when the change saves nothing', async () => {
+      const store = await createStore()
+      await store.save(credential(42))
+
+      const result = await store.update(42, (stored) => {
+        stored.failedAttempts = 3
+        return { credential: null, result: 'unchanged' }
+      })
+
+      expect(result).toBe('unchanged')
+      expect((await store.get(42))?.failedAttempts).toBe(0)
+      expect(await store.update(7, () => ({ credential: null, result: 'missing' }))).toBeNull()
+    })
+  })
+}
+
+test.describe('Two-factor credential stores', () => {
+  let standIn: RedisStandIn
+  let redis: Redis
+
+  test.beforeAll(async () => {
+    standIn = await startRedisStandIn()
+    redis = new Redis(standIn.url)
+  })
+
+  test.afterAll(async () => {
+    await redis.quit()
+    await standIn.close()
+  })
+
+  describeTwoFactorStore('MemoryTwoFactorStore', async () => new MemoryTwoFactorStore())
+
+  describeTwoFactorStore(
+    'RedisTwoFactorStore',
+    async () => new RedisTwoFactorStore(redis, { keyPrefix: `2fa-${Date.now()}:` })
+  )
+
+  // See sql-session-storage.spec.ts for why the AST coverage check is disabled
+  describeTwoFactorStore('SqlTwoFactorStore', async () => {
+    const { Pool } = newDb({ noAstCoverageCheck: true }).adapters.createPg()
+    const store = new SqlTwoFactorStore(createPostgresDatabase(new Pool() as PostgresPool))
+    await store.initialize()
+    return store
+  })
+})
@@ -0,0 +1,135 @@
+import { test, expect } from '@playwright/test'
+import {
+  convertToSystem,
+  convertValue,
+  formatAmount,
+  formatUnit,
+  normalizeUnit,
+  parseUnit,
+} from '@/lib/recipes/units'
+
+test.describe('normalizeUnit', () => {
+  test('should map aliases to canonical units', () => {
+    expect(normalizeUnit('Tablespoons')).toBe('tbsp')
+    expect(normalizeUnit('tbsp.')).toBe('tbsp')
+    expect(normalizeUnit('cups')).toBe('cup')
+    expect(normalizeUnit('grams')).toBe('g')
+  })
+
+  test('should keep single-letter spoon abbreviations case-sensitive', () => {
+    expect(normalizeUnit('T')).toBe('tbsp')
+    expect(normalizeUnit('t')).toBe('tsp')
+  })
+
+  test('should return null for unknown words', () => {
+    expect(normalizeUnit('onion')).toBeNull()
+  })
+})
+
+test.describe('parseUnit', () => {
+  test('should read single and multi-word units', () => {
+    expect(parseUnit('cups rice')).toEqual({ unit: 'cup', rest: 'rice' })
+    expect(parseUnit('fl oz milk')).toEqual({ unit: 'fl oz', rest: 'milk' })
+  })
+
+  test('should not match the start of a longer word', () => {
+    expect(parseUnit('carrots')).toBeNull()
+  })
+})
+
+test.describe('convertValue', () => {
+  test('should convert between units of the same kind', () => {
+    expect(convertValue(1, 'cup', 'tbsp')).toBeCloseTo(16, 1)
+    expect(convertValue(1, 'kg', 'g')).toBe(1000)
+  })
+
+  test('should refuse to convert between volume and weight', () => {
+    expect(convertValue(1, 'cup', 'g')).toBeNull()
+    expect(convertValue(1, 'clove', 'g')).toBeNull()
+  })
+})
+
+test.describe('convertToSystem', () => {
+  test('should convert imperial volumes to metric with sensible rounding', () => {
+    expect(convertToSystem({ value: 1 }, 'cup', 'metric')).toEqual({
+      quantity: { value: 235 },
+      unit: 'ml',
+    })
+    expect(convertToSystem({ value: 0.5 }, 'tsp', 'metric')).toEqual({
+      quantity: { value: 2.5 },
+      unit: 'ml',
+    })
+    expect(convertToSystem({ value: 5 }, 'cups', 'metric')).toEqual({
+      quantity: { value: 1.2 },
+      unit: 'l',
+    })
+  })
+
+  test('should convert imperial weights to metric', () => {
+    expect(convertToSystem({ value: 1 }, 'oz', 'metric')).toEqual({
+      quantity: { value: 28 },
+      unit: 'g',
+    })
+    expect(convertToSystem({ value: 2.5 }, 'lb', 'metric')).toEqual({
+      quantity: { value: 1.15 },
+      unit: 'kg',
+    })
+  })
+
+  test('should convert metric amounts to kitchen measures', () => {
+    expect(convertToSystem({ value: 5 }, 'ml', 'imperial')).toEqual({
+      quantity: { value: 1 },
+      unit: 'tsp',
+    })
+    expect(convertToSystem({ value: 250 }, 'ml', 'imperial')).toEqual({
+      quantity: { value: 1 },
+      unit: 'cup',
+    })
+    expect(convertToSystem({ value: 100 }, 'g', 'imperial')).toEqual({
+      quantity: { value: 3.5 },
+      unit: 'oz',
+    })
+    expect(convertToSystem({ value: 1 }, 'kg', 'imperial')).toEqual({
+      quantity: { value: 2.25 },
+      unit: 'lb',
+    })
+  })
+
+  test('should convert both ends of a range', () => {
+    expect(convertToSystem({ value: 1, maxValue: 2 }, 'cup', 'metric')).toEqual({
+      quantity: { value: 235, maxValue: 475 },
+      unit: 'ml',
+    })
+  })
+
+  test('should leave units that are already in the system or do not convert', () => {
+    expect(convertToSystem({ value: 200 }, 'g', 'metric')).toBeNull()
+    expect(convertToSystem({ value: 2 }, 'cloves', 'metric')).toBeNull()
+    expect(convertToSystem({ value: 2 }, 'heads', 'imperial')).toBeNull()
+  })
+})
+
+test.describe('formatAmount', () => {
+  test('should pluralize units and use fractions for imperial amounts', () => {
+    expect(formatAmount({ value: 1.5 }, 'cup')).toBe('1 1/2 cups')
+    expect(formatAmount({ value: 0.5 }, 'cups')).toBe('1/2 cup')
+    expect(formatAmount({ value: 3 }, 'tbsp')).toBe('3 tbsp')
+  })
+
+  test('should use decimals for metric amounts', () => {
+    expect(formatAmount({ value: 2.5 }, 'ml')).toBe('2.5 ml')
+    expect(formatAmount({ value: 1.25 }, 'kg')).toBe('1.25 kg')
+  })
+
+  test('should format counts and unknown units as given', () => {
+    expect(formatAmount({ value: 3 }, null)).toBe('3')
+    expect(formatAmount({ value: 2 }, 'heads')).toBe('2 heads')
+  })
+})
+
+test.describe('formatUnit', () => {
+  test('should only pluralize above one', () => {
+    expect(formatUnit('clove', 1)).toBe('clove')
+    expect(formatUnit('clove', 2)).toBe('cloves')
+  })
+})
@@ -0,0 +1,38 @@
+import { test, expect } from '@playwright/test'
+import { describeUserAgent } from '@/lib/session/user-agent'
+
+test.describe('describeUserAgent', () => {
+  test('should describe common desktop browsers', () => {
+    expect(
+      describeUserAgent(
+        'Mozilla/5.0 (Macintosh; Intel Mac OS X 10_15_7) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/120.0.0.0 Safari/537.36'
+      )
+    ).toBe('Chrome on macOS')
+    expect(
+      describeUserAgent(
+        'Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/120.0.0.0 Safari/537.36 Edg/120.0.0.0'
+      )
+    ).toBe('Edge on Windows')
+    expect(
+      describeUserAgent('Mozilla/5.0 (X11; Linux x86_64; rv:121.0) Gecko/20100101 Firefox/121.0')
+    ).toBe('Firefox on Linux')
+  })
+
+  test('should describe mobile browsers', () => {
+    expect(
+      describeUserAgent(
+        'Mozilla/5.0 (iPhone; CPU iPhone OS 17_2 like Mac OS X) AppleWebKit/605.1.15 (KHTML, like Gecko) Version/17.2 Mobile/15E148 Safari/604.1'
+      )
+    ).toBe('Safari on iOS')
+    expect(
+      describeUserAgent(
+        'Mozilla/5.0 (Linux; Android 14; Pixel 8) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/120.0.0.0 Mobile Safari/537.36'
+      )
+    ).toBe('Chrome on Android')
+  })
+
+  test('should fall back for missing or unknown user agents', () => {
+    expect(describeUserAgent(undefined)).toBe('Unknown browser')
+    expect(describeUserAgent('curl/8.4.0')).toBe('Unknown browser on unknown device')
+  })
+})
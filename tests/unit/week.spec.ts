@@ -0,0 +1,115 @@
+import { test, expect } from '@playwright/test'
+import {
+  addDays,
+  countDaysInclusive,
+  getWeekDates,
+  getWeekRange,
+  getWeekStart,
+  isMealType,
+  parseIsoDate,
+  toIsoDate,
+  validateMealPlanRange,
+} from '@/lib/meal-plan/week'
+
+test.describe('toIsoDate and parseIsoDate', () => {
+  test('should round-trip calendar dates in local time', () => {
+    expect(toIsoDate(new Date(2024, 2, 4))).toBe('2024-03-04')
+    expect(parseIsoDate('2024-03-04')).toEqual(new Date(2024, 2, 4))
+    expect(toIsoDate(parseIsoDate('2024-12-31')!)).toBe('2024-12-31')
+  })
+
+  test('should reject malformed and overflowed dates', () => {
+    expect(parseIsoDate('2024-3-4')).toBeNull()
+    expect(parseIsoDate('2024-02-31')).toBeNull()
+    expect(parseIsoDate('2023-02-29')).toBeNull()
+    expect(parseIsoDate('not a date')).toBeNull()
+    expect(parseIsoDate('2024-02-29')).toEqual(new Date(2024, 1, 29))
+  })
+})
+
+test.describe('addDays', () => {
+  test('should cross month and year boundaries', () => {
+    expect(toIsoDate(addDays(new Date(2024, 0, 31), 1))).toBe('2024-02-01')
+    expect(toIsoDate(addDays(new Date(2024, 11, 31), 1))).toBe('2025-01-01')
+    expect(toIsoDate(addDays(new Date(2024, 2, 1), -1))).toBe('2024-02-29')
+  })
+
+  test('should drop the time of day', () => {
+    expect(addDays(new Date(2024, 2, 4, 18, 30), 0)).toEqual(new Date(2024, 2, 4))
+  })
+})
+
+test.describe('getWeekStart', () => {
+  test('should start weeks on Monday', () => {
+    // 2024-03-04 is a Monday
+    expect(toIsoDate(getWeekStart(new Date(2024, 2, 4)))).toBe('2024-03-04')
+    expect(toIsoDate(getWeekStart(new Date(2024, 2, 6)))).toBe('2024-03-04')
+    expect(toIsoDate(getWeekStart(new Date(2024, 2, 9)))).toBe('2024-03-04')
+  })
+
+  test('should put Sunday at the end of the week', () => {
+    expect(toIsoDate(getWeekStart(new Date(2024, 2, 10)))).toBe('2024-03-04')
+  })
+})
+
+test.describe('getWeekDates and getWeekRange', () => {
+  test('should cover Monday to Sunday', () => {
+    const weekStart = new Date(2024, 1, 26)
+
+    expect(getWeekDates(weekStart).map(toIsoDate)).toEqual([
+      '2024-02-26',
+      '2024-02-27',
+      '2024-02-28',
+      '2024-02-29',
+      '2024-03-01',
+      '2024-03-02',
+      '2024-03-03',
+    ])
+    expect(getWeekRange(weekStart)).toEqual({
+      startDateInclusive: '2024-02-26',
+      endDateInclusive: '2024-03-03',
+    })
+  })
+})
+
+test.describe('countDaysInclusive', () => {
+  test('should count both ends', () => {
+    expect(countDaysInclusive(new Date(2024, 2, 4), new Date(2024, 2, 4))).toBe(1)
+    expect(countDaysInclusive(new Date(2024, 2, 4), new Date(2024, 2, 10))).toBe(7)
+    expect(countDaysInclusive(new Date(2024, 2, 10), new Date(2024, 2, 4))).toBe(-5)
+  })
+
+  test('should not be thrown off by daylight saving changes', () => {
+    // Spans the March and November clock changes in most time zones that have them
+    expect(countDaysInclusive(new Date(2024, 2, 1), new Date(2024, 3, 30))).toBe(61)
+    expect(countDaysInclusive(new Date(2024, 9, 20), new Date(2024, 10, 10))).toBe(22)
+  })
+})
+
+test.describe('validateMealPlanRange', () => {
+  test('should accept ranges of 1 to 60 days', () => {
+    expect(validateMealPlanRange('2024-03-04', '2024-03-04')).toBeNull()
+    expect(validateMealPlanRange('2024-03-01', '2024-04-29')).toBeNull()
+  })
+
+  test('should reject invalid, reversed and too long ranges', () => {
+    expect(validateMealPlanRange('2024-02-31', '2024-03-04')).toBe(
+      'Please choose a valid start and end date'
+    )
+    expect(validateMealPlanRange('2024-03-10', '2024-03-04')).toBe(
+      'The end date must be on or after the start date'
+    )
+    expect(validateMealPlanRange('2024-03-01', '2024-04-30')).toBe(
+      'Date ranges can cover at most 60 days'
+    )
+  })
+})
+
+test.describe('isMealType', () => {
+  test('should accept only the backend meal types', () => {
+    expect(isMealType('dinner')).toBe(true)
+    expect(isMealType('snacks')).toBe(true)
+    expect(isMealType('Dinner')).toBe(false)
+    expect(isMealType('brunch')).toBe(false)
+  })
+})